@@ -1,7 +1,9 @@
 import dotenv from 'dotenv';
 import connectDB from './database';
 import configureCloudinary from './cloudinary';
+import { getStorageDriver } from './storage';
 import { validateEnvironmentConfig, getConfigStatus } from '../utils/validateConfig';
+import { ensureDefaultRoles } from '../utils/permissions';
 
 // Load environment variables
 dotenv.config();
@@ -16,9 +18,14 @@ export const initializeConfig = async (): Promise<void> => {
     
     // Connect to MongoDB
     await connectDB();
+
+    // Make sure the built-in roles and their permissions exist
+    await ensureDefaultRoles();
     
-    // Configure Cloudinary
-    configureCloudinary();
+    // Configure Cloudinary when uploads are stored there
+    if (getStorageDriver().name === 'cloudinary') {
+      configureCloudinary();
+    }
     
     // Log configuration status
     const configStatus = getConfigStatus();
@@ -35,4 +42,6 @@ export const initializeConfig = async (): Promise<void> => {
 export { default as connectDB } from './database';
 export { default as configureCloudinary } from './cloudinary';
 export * from './cloudinary';
-export * from './jwt';
\ No newline at end of file
+export * from './jwt';
+export * from './mail';
+export * from './storage';
\ No newline at end of file
@@ -1,18 +1,33 @@
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
 import { Response } from 'express';
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string; // Session the access token was issued for
   iat?: number; // issued at
   exp?: number; // expiration
 }
 
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+export const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+export const REFRESH_TOKEN_TTL_MS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30') * 24 * 60 * 60 * 1000;
+
 export const generateToken = (payload: JWTPayload): string => {
   const secret = process.env.JWT_SECRET || 'fallback_secret_key';
   
-  return jwt.sign(payload, secret, { expiresIn: '7d' });
+  return jwt.sign(payload, secret, { expiresIn: ACCESS_TOKEN_EXPIRES_IN as SignOptions['expiresIn'] });
+};
+
+// Refresh tokens are opaque random strings; only their hash is stored
+export const generateRefreshToken = (): string => {
+  return crypto.randomBytes(48).toString('hex');
+};
+
+export const hashRefreshToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
 };
 
 export const verifyToken = (token: string): JWTPayload => {
@@ -27,13 +42,33 @@ export const setTokenCookie = (res: Response, token: string): void => {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'strict' as const,
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+    maxAge: 7 * 24 * 60 * 60 * 1000, // Cookie outlives the JWT; expiry is enforced by the token itself
     path: '/'
   };
 
   res.cookie('auth_token', token, cookieOptions);
 };
 
+// Refresh token cookie is only sent to the auth routes
+export const setRefreshTokenCookie = (res: Response, token: string): void => {
+  res.cookie('refresh_token', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    maxAge: REFRESH_TOKEN_TTL_MS,
+    path: '/api/auth'
+  });
+};
+
+export const clearRefreshTokenCookie = (res: Response): void => {
+  res.clearCookie('refresh_token', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/api/auth'
+  });
+};
+
 export const clearTokenCookie = (res: Response): void => {
   res.clearCookie('auth_token', {
     httpOnly: true,
@@ -45,4 +80,8 @@ export const clearTokenCookie = (res: Response): void => {
 
 export const extractTokenFromCookie = (cookies: any): string | null => {
   return cookies?.auth_token || null;
-};
\ No newline at end of file
+};
+
+export const extractRefreshTokenFromCookie = (cookies: any): string | null => {
+  return cookies?.refresh_token || null;
+};
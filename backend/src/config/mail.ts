@@ -0,0 +1,100 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import fs from 'fs';
+import path from 'path';
+
+// An outgoing email
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a MailMessage (SMTP in production, file/console locally)
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Sender address used for every outgoing email
+const getMailFrom = (): string => process.env.MAIL_FROM || 'E-Commerce <no-reply@localhost>';
+
+// SMTP transport backed by nodemailer
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587');
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: getMailFrom(), ...message });
+  }
+}
+
+// Local development/test transport. Appends each message as a JSON line to
+// `filePath` when given, otherwise prints it to the console.
+export class FileMailTransport implements MailTransport {
+  constructor(private filePath?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const entry = {
+      sentAt: new Date().toISOString(),
+      from: getMailFrom(),
+      ...message
+    };
+
+    if (!this.filePath) {
+      console.log('📧 Email (console transport):', JSON.stringify(entry, null, 2));
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n');
+  }
+}
+
+let mailTransport: MailTransport | null = null;
+
+// Pick the transport from MAIL_TRANSPORT (smtp | file | console). Console is
+// the default outside production; production must send real email, or
+// password reset and verification links would only reach the server logs.
+const createMailTransport = (): MailTransport => {
+  const transportName = process.env.MAIL_TRANSPORT || 'console';
+  if (process.env.NODE_ENV === 'production' && transportName !== 'smtp') {
+    throw new Error(`MAIL_TRANSPORT must be "smtp" in production (got "${transportName}")`);
+  }
+
+  switch (transportName) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_FILE_PATH || path.join(__dirname, '../../logs/mail.log'));
+    default:
+      return new FileMailTransport();
+  }
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+};
+
+// Override the transport (e.g. with an in-memory one in tests)
+export const setMailTransport = (transport: MailTransport): void => {
+  mailTransport = transport;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => {
+  return getMailTransport().send(message);
+};
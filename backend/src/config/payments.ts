@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+
+// Amounts are in the store currency's major unit (e.g. 1500.50 BDT)
+export interface CreatePaymentIntentRequest {
+  amount: number;
+  currency: string;
+  reference: string;                  // Our reference, e.g. the checkout ID
+  metadata?: Record<string, string>;
+}
+
+// A payment started with the provider; the buyer finishes it at redirectUrl
+export interface PaymentIntent {
+  providerPaymentId: string;
+  redirectUrl?: string;
+  clientSecret?: string;
+}
+
+export interface CaptureResult {
+  capturedAmount: number;
+}
+
+export interface RefundResult {
+  providerRefundId: string;
+  refundedAmount: number;
+}
+
+// Provider events we act on, normalised from each provider's own format
+export type PaymentEventType = 'payment.authorized' | 'payment.captured' | 'payment.failed' | 'payment.refunded';
+
+export interface PaymentEvent {
+  id: string;                         // Provider event ID, used for idempotency
+  type: PaymentEventType;
+  providerPaymentId: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+// Anything that can take online payments (a real gateway in production, the mock locally)
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent>;
+  capture(providerPaymentId: string, amount: number): Promise<CaptureResult>;
+  refund(providerPaymentId: string, amount: number, reason?: string): Promise<RefundResult>;
+  // Check a webhook's signature header against the raw request body
+  verifyWebhookSignature(rawBody: Buffer, signatureHeader: string | undefined): boolean;
+  parseWebhookEvent(rawBody: Buffer): PaymentEvent;
+}
+
+// How old a signed webhook may be before it is rejected as a replay
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Sign a payload as "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${payload}`>"
+export const signWebhookPayload = (payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string => {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+// Verify a header produced by signWebhookPayload, in constant time
+export const verifyWebhookPayload = (rawBody: Buffer, signatureHeader: string | undefined, secret: string): boolean => {
+  if (!signatureHeader) return false;
+
+  const parts = Object.fromEntries(
+    signatureHeader.split(',').map(part => part.trim().split('=', 2) as [string, string])
+  );
+  const timestamp = parseInt(parts.t);
+  if (!timestamp || !parts.v1) return false;
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody.toString('utf8')}`)
+    .digest();
+  const received = Buffer.from(parts.v1, 'hex');
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+// Offline provider for development and tests. Intents are "paid" on the
+// frontend's mock payment page, which asks the API to send a signed webhook
+// exactly like a real gateway would.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  constructor(private webhookSecret: string, private frontendUrl: string) {}
+
+  async createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+    const providerPaymentId = `mock_pi_${crypto.randomBytes(12).toString('hex')}`;
+    return {
+      providerPaymentId,
+      redirectUrl: `${this.frontendUrl}/checkout/pay?payment=${providerPaymentId}&ref=${encodeURIComponent(request.reference)}`
+    };
+  }
+
+  async capture(providerPaymentId: string, amount: number): Promise<CaptureResult> {
+    return { capturedAmount: amount };
+  }
+
+  async refund(providerPaymentId: string, amount: number): Promise<RefundResult> {
+    return {
+      providerRefundId: `mock_re_${crypto.randomBytes(12).toString('hex')}`,
+      refundedAmount: amount
+    };
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signatureHeader: string | undefined): boolean {
+    return verifyWebhookPayload(rawBody, signatureHeader, this.webhookSecret);
+  }
+
+  parseWebhookEvent(rawBody: Buffer): PaymentEvent {
+    return JSON.parse(rawBody.toString('utf8'));
+  }
+
+  // Build the signed webhook the mock gateway would send for an intent
+  buildWebhook(event: Omit<PaymentEvent, 'id'>): { body: string; signature: string } {
+    const body = JSON.stringify({ id: `mock_evt_${crypto.randomBytes(12).toString('hex')}`, ...event });
+    return { body, signature: signWebhookPayload(body, this.webhookSecret) };
+  }
+}
+
+let paymentProvider: PaymentProvider | null = null;
+
+// The provider named by PAYMENT_PROVIDER, or null when online payments are
+// off. Only "mock" is built in; it is the default outside production, while
+// production has no default. Every provider also needs PAYMENT_WEBHOOK_SECRET,
+// shared by all instances so each can verify webhooks signed for another.
+const getPaymentProviderName = (): string | null => {
+  const providerName = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'mock');
+  return providerName && process.env.PAYMENT_WEBHOOK_SECRET ? providerName : null;
+};
+
+// Whether buyers can choose "Online Payment" at checkout
+export const isOnlinePaymentEnabled = (): boolean => paymentProvider !== null || getPaymentProviderName() !== null;
+
+const createPaymentProvider = (): PaymentProvider => {
+  const providerName = getPaymentProviderName();
+  const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET!;
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  if (!providerName) {
+    throw new Error('Online payments are not configured; set PAYMENT_PROVIDER and PAYMENT_WEBHOOK_SECRET');
+  }
+
+  // Anyone can sign webhooks for the mock provider, so production can't use it
+  if (providerName === 'mock' && process.env.NODE_ENV === 'production') {
+    throw new Error('The mock payment provider cannot be used in production');
+  }
+
+  switch (providerName) {
+    case 'mock':
+      return new MockPaymentProvider(webhookSecret, frontendUrl);
+    default:
+      throw new Error(`Unknown payment provider: ${providerName}`);
+  }
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!paymentProvider) {
+    paymentProvider = createPaymentProvider();
+  }
+  return paymentProvider;
+};
+
+// Override the provider (e.g. with a stub in tests)
+export const setPaymentProvider = (provider: PaymentProvider): void => {
+  paymentProvider = provider;
+};
+
+// Currency charged for online payments
+export const getPaymentCurrency = (): string => process.env.PAYMENT_CURRENCY || 'BDT';
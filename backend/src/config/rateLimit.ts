@@ -0,0 +1,102 @@
+import RateLimit from '../models/RateLimit';
+
+// Hits counted for a key in its current window
+export interface RateLimitHit {
+  count: number;
+  resetTime: number; // Epoch ms when the window ends and the count starts over
+}
+
+// Anywhere rate limit counters can be kept
+export interface RateLimitStore {
+  // Count one hit for the key, starting a new window of windowMs if none is open
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+// Counters in process memory. Fine for a single long-running server, but each
+// serverless instance would keep its own counts.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let hit = this.hits.get(key);
+
+    if (!hit || hit.resetTime <= now) {
+      this.pruneExpired(now);
+      hit = { count: 0, resetTime: now + windowMs };
+      this.hits.set(key, hit);
+    }
+
+    hit.count++;
+    return { ...hit };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [key, hit] of this.hits) {
+      if (hit.resetTime <= now) this.hits.delete(key);
+    }
+  }
+}
+
+// Counters shared through MongoDB, so limits hold across every instance
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number, retried = false): Promise<RateLimitHit> {
+    const now = new Date();
+    const windowOpen = { $gt: ['$expiresAt', now] };
+
+    try {
+      // One atomic update: bump an open window or start a new one
+      const doc = await RateLimit.findOneAndUpdate(
+        { key },
+        [{
+          $set: {
+            count: { $cond: [windowOpen, { $add: ['$count', 1] }, 1] },
+            expiresAt: { $cond: [windowOpen, '$expiresAt', new Date(now.getTime() + windowMs)] }
+          }
+        }],
+        { upsert: true, new: true }
+      ).lean();
+
+      return { count: doc!.count, resetTime: doc!.expiresAt.getTime() };
+    } catch (error: any) {
+      // Two first hits raced to insert the key; the loser just counts again
+      if (error?.code === 11000 && !retried) {
+        return this.increment(key, windowMs, true);
+      }
+      throw error;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimit.deleteOne({ key });
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+// Pick the store from RATE_LIMIT_STORE (memory | mongo, default memory)
+const createRateLimitStore = (): RateLimitStore => {
+  switch (process.env.RATE_LIMIT_STORE) {
+    case 'mongo':
+      return new MongoRateLimitStore();
+    default:
+      return new MemoryRateLimitStore();
+  }
+};
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore();
+  }
+  return rateLimitStore;
+};
+
+// Override the store (e.g. with a fresh in-memory one in tests)
+export const setRateLimitStore = (store: RateLimitStore): void => {
+  rateLimitStore = store;
+};
@@ -0,0 +1,291 @@
+import express, { RequestHandler } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { cloudinary } from './cloudinary';
+
+// Images are resized/optimised where the driver supports it; documents are PDFs
+export type StoredFileKind = 'image' | 'document';
+
+export interface PutFileOptions {
+  folder: string;              // e.g. products/<productId>
+  kind: StoredFileKind;
+  contentType?: string;
+}
+
+// A file after it has been stored
+export interface StoredFile {
+  key: string;                 // Driver-specific identifier (Cloudinary public_id, or a path under the uploads directory)
+  url: string;                 // Public URL, saved on products, reviews and returns
+  bytes: number;
+}
+
+// What a driver knows about a stored file
+export interface StoredFileInfo {
+  key: string;
+  bytes: number;
+  contentType?: string;
+  createdAt?: Date;
+}
+
+// Anything that can store uploaded files (Cloudinary in production, local disk for development)
+export interface StorageDriver {
+  readonly name: string;
+  put(data: Buffer, options: PutFileOptions): Promise<StoredFile>;
+  // Removing a file that no longer exists is not an error
+  delete(key: string, kind: StoredFileKind): Promise<void>;
+  getPublicUrl(key: string, kind: StoredFileKind): string;
+  // URL that stops working after expiresInSeconds
+  getSignedUrl(key: string, kind: StoredFileKind, expiresInSeconds: number): string;
+  // null when the file does not exist
+  head(key: string, kind: StoredFileKind): Promise<StoredFileInfo | null>;
+  // The key of a URL handed out by this driver, or null for anyone else's URL
+  keyFromUrl(url: string): string | null;
+}
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf'
+};
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf'
+};
+
+// Cloudinary driver. Images are limited to 800x600 and re-encoded in the best
+// format for each browser; PDFs are stored as raw files.
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly name = 'cloudinary';
+
+  private resourceType(kind: StoredFileKind): 'image' | 'raw' {
+    return kind === 'image' ? 'image' : 'raw';
+  }
+
+  put(data: Buffer, options: PutFileOptions): Promise<StoredFile> {
+    return new Promise((resolve, reject) => {
+      const uploadOptions = options.kind === 'image'
+        ? {
+            folder: options.folder,
+            resource_type: 'image' as const,
+            transformation: [
+              { width: 800, height: 600, crop: 'limit' },
+              { quality: 'auto' },
+              { format: 'auto' }
+            ]
+          }
+        : {
+            folder: options.folder,
+            resource_type: 'raw' as const,
+            format: 'pdf'
+          };
+
+      const uploadStream = cloudinary.uploader.upload_stream(uploadOptions, (error, result) => {
+        if (error || !result) {
+          console.error('Error uploading file to Cloudinary:', error);
+          reject(new Error(options.kind === 'image' ? 'Failed to upload image' : 'Failed to upload PDF'));
+        } else {
+          resolve({ key: result.public_id, url: result.secure_url, bytes: result.bytes });
+        }
+      });
+
+      uploadStream.end(data);
+    });
+  }
+
+  async delete(key: string, kind: StoredFileKind): Promise<void> {
+    try {
+      await cloudinary.uploader.destroy(key, { resource_type: this.resourceType(kind) });
+    } catch (error) {
+      console.error('Error deleting file from Cloudinary:', error);
+      throw new Error('Failed to delete file');
+    }
+  }
+
+  getPublicUrl(key: string, kind: StoredFileKind): string {
+    return cloudinary.url(key, { resource_type: this.resourceType(kind), secure: true });
+  }
+
+  getSignedUrl(key: string, kind: StoredFileKind, expiresInSeconds: number): string {
+    return cloudinary.utils.private_download_url(key, '', {
+      resource_type: this.resourceType(kind),
+      type: 'upload',
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds
+    });
+  }
+
+  async head(key: string, kind: StoredFileKind): Promise<StoredFileInfo | null> {
+    try {
+      const resource = await cloudinary.api.resource(key, { resource_type: this.resourceType(kind) });
+      return {
+        key,
+        bytes: resource.bytes,
+        contentType: resource.format ? EXTENSION_CONTENT_TYPES[`.${resource.format}`] : undefined,
+        createdAt: resource.created_at ? new Date(resource.created_at) : undefined
+      };
+    } catch (error: any) {
+      if (error?.error?.http_code === 404 || error?.http_code === 404) return null;
+      throw error;
+    }
+  }
+
+  // .../<image|raw>/upload/v<version>/<public_id>. Image public IDs have no
+  // extension; raw ones keep it.
+  keyFromUrl(url: string): string | null {
+    const match = url.match(/^https?:\/\/res\.cloudinary\.com\/[^/]+\/(image|raw)\/upload\/(?:v\d+\/)?([^?#]+)/);
+    if (!match) return null;
+
+    const [, resourceType, publicPath] = match;
+    return resourceType === 'image' ? publicPath.replace(/\.[^./]+$/, '') : publicPath;
+  }
+}
+
+// Local disk driver for development and offline use. Files are written under
+// `rootDir` and served by the API itself (see staticHandler) at `publicUrl`.
+// Images are stored as uploaded, without resizing.
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private rootDir: string, private publicUrl: string, private signingSecret: string) {}
+
+  // Resolve a key to a path, refusing anything outside the uploads directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error('Invalid file key');
+    }
+    return filePath;
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  async put(data: Buffer, options: PutFileOptions): Promise<StoredFile> {
+    const extension = (options.contentType && CONTENT_TYPE_EXTENSIONS[options.contentType]) ||
+      (options.kind === 'document' ? '.pdf' : '');
+    const key = `${options.folder}/${crypto.randomBytes(12).toString('hex')}${extension}`;
+    const filePath = this.resolve(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+
+    return { key, url: this.getPublicUrl(key), bytes: data.length };
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  getSignedUrl(key: string, _kind: StoredFileKind, expiresInSeconds: number): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.getPublicUrl(key)}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  async head(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      if (!stats.isFile()) return null;
+
+      return {
+        key,
+        bytes: stats.size,
+        contentType: EXTENSION_CONTENT_TYPES[path.extname(key).toLowerCase()],
+        createdAt: stats.birthtime
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  keyFromUrl(url: string): string | null {
+    if (!url.startsWith(`${this.publicUrl}/`)) return null;
+
+    const key = decodeURIComponent(url.slice(this.publicUrl.length + 1).split(/[?#]/)[0]);
+    try {
+      this.resolve(key);
+      return key;
+    } catch {
+      return null;
+    }
+  }
+
+  // Serve stored files. Public URLs always work; a signed URL is refused once
+  // it has expired or if its signature doesn't match.
+  staticHandler(): RequestHandler[] {
+    const checkSignature: RequestHandler = (req, res, next) => {
+      const { expires, signature } = req.query;
+      if (signature === undefined) return next();
+
+      const key = decodeURIComponent(req.path.replace(/^\//, ''));
+      const expiresAt = Number(expires);
+      const expected = Buffer.from(this.sign(key, expiresAt));
+      const received = Buffer.from(String(signature));
+
+      if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000 ||
+          received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+        return res.status(403).json({
+          success: false,
+          message: 'This link has expired or is invalid'
+        });
+      }
+      next();
+    };
+
+    const notFound: RequestHandler = (_req, res) => {
+      res.status(404).json({
+        success: false,
+        message: 'File not found'
+      });
+    };
+
+    return [checkSignature, express.static(this.rootDir, { index: false, dotfiles: 'deny' }), notFound];
+  }
+}
+
+// Path the local driver's files are served under
+export const LOCAL_UPLOADS_PATH = '/uploads';
+
+let storageDriver: StorageDriver | null = null;
+
+// Pick the driver from STORAGE_DRIVER (cloudinary | local, default cloudinary)
+const createStorageDriver = (): StorageDriver => {
+  switch (process.env.STORAGE_DRIVER || 'cloudinary') {
+    case 'cloudinary':
+      return new CloudinaryStorageDriver();
+    case 'local':
+      return new LocalStorageDriver(
+        process.env.STORAGE_LOCAL_DIR || path.join(__dirname, '../../uploads'),
+        (process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}${LOCAL_UPLOADS_PATH}`).replace(/\/+$/, ''),
+        process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'fallback_secret_key'
+      );
+    default:
+      throw new Error(`Unknown storage driver: ${process.env.STORAGE_DRIVER}`);
+  }
+};
+
+export const getStorageDriver = (): StorageDriver => {
+  if (!storageDriver) {
+    storageDriver = createStorageDriver();
+  }
+  return storageDriver;
+};
+
+// Override the driver (e.g. with an in-memory one in tests)
+export const setStorageDriver = (driver: StorageDriver): void => {
+  storageDriver = driver;
+};
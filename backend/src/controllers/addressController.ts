@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import Address, { MAX_SAVED_ADDRESSES } from '../models/Address';
+import { clearOtherDefaults, promoteDefaultAddress } from '../utils/addresses';
+import { CreateAddressInput, UpdateAddressInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Get the current user's saved addresses, defaults first
+export const getAddresses = async (req: AuthRequest, res: Response) => {
+  try {
+    const addresses = await Address.find({ userId: req.user!.userId })
+      .sort({ isDefaultShipping: -1, isDefaultBilling: -1, updatedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: addresses,
+      message: 'Addresses retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get addresses error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve addresses',
+      error: error.message
+    });
+  }
+};
+
+// Save a new address; the first one becomes the default for shipping and billing
+export const createAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { isDefaultShipping, isDefaultBilling, ...fields }: CreateAddressInput = req.body;
+
+    const count = await Address.countDocuments({ userId });
+    if (count >= MAX_SAVED_ADDRESSES) {
+      return res.status(400).json({
+        success: false,
+        message: `You can save up to ${MAX_SAVED_ADDRESSES} addresses`
+      });
+    }
+
+    const address = new Address({
+      ...fields,
+      userId,
+      isDefaultShipping: count === 0 || !!isDefaultShipping,
+      isDefaultBilling: count === 0 || !!isDefaultBilling
+    });
+
+    await clearOtherDefaults(userId, address._id, {
+      shipping: address.isDefaultShipping,
+      billing: address.isDefaultBilling
+    });
+    await address.save();
+
+    res.status(201).json({
+      success: true,
+      data: address,
+      message: 'Address saved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Create address error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save address',
+      error: error.message
+    });
+  }
+};
+
+// Update a saved address or change which address is the default
+export const updateAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const updates: UpdateAddressInput = req.body;
+
+    const address = await Address.findOne({ _id: req.params.id, userId });
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        message: 'Address not found'
+      });
+    }
+
+    address.set(updates);
+    await clearOtherDefaults(userId, address._id, {
+      shipping: updates.isDefaultShipping,
+      billing: updates.isDefaultBilling
+    });
+    await address.save();
+
+    res.status(200).json({
+      success: true,
+      data: address,
+      message: 'Address updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update address error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update address',
+      error: error.message
+    });
+  }
+};
+
+// Delete a saved address (orders keep their own copy of the address)
+export const deleteAddress = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const address = await Address.findOneAndDelete({ _id: req.params.id, userId });
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        message: 'Address not found'
+      });
+    }
+
+    await promoteDefaultAddress(userId, {
+      shipping: address.isDefaultShipping,
+      billing: address.isDefaultBilling
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Address deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete address error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete address',
+      error: error.message
+    });
+  }
+};
@@ -2,6 +2,18 @@ import { Request, Response } from 'express';
 import User from '../models/User';
 import Product from '../models/Product';
 import Order from '../models/Order';
+import Role, { PERMISSIONS, PERMISSION_KEYS } from '../models/Role';
+import AuditEvent from '../models/AuditEvent';
+import Asset from '../models/Asset';
+import { revokeUserSessions } from '../utils/sessions';
+import { clearFailedLogins } from '../utils/loginLockout';
+import { emitAppEvent } from '../utils/appEvents';
+import { hasPermission, invalidateRolePermissions, roleExists } from '../utils/permissions';
+import { securityLogger, SecurityLogLevel, SecurityEventType } from '../middleware/securityLogger';
+import { buildAuditEventFilter, auditEventsToCsv, MAX_AUDIT_EXPORT_ROWS } from '../utils/auditEvents';
+import { reconcileAssets } from '../utils/assets';
+import { getStorageDriver } from '../config/storage';
+import { CreateRoleInput, UpdateRoleInput, AssignRoleInput, SecurityEventQueryInput } from '../utils/validation';
 
 // Get admin dashboard statistics
 export const getDashboardStats = async (req: Request, res: Response) => {
@@ -17,7 +29,9 @@ export const getDashboardStats = async (req: Request, res: Response) => {
         const productsByCategory = await Product.aggregate([
             { $match: { isActive: true } },
             { $group: { _id: '$category', count: { $sum: 1 } } },
-            { $sort: { count: -1 } }
+            { $sort: { count: -1 } },
+            { $lookup: { from: 'categories', localField: '_id', foreignField: '_id', as: 'category' } },
+            { $project: { count: 1, name: { $ifNull: [{ $first: '$category.name' }, 'Uncategorized'] } } }
         ]);
 
         // Get order statistics
@@ -35,12 +49,22 @@ export const getDashboardStats = async (req: Request, res: Response) => {
             orderDate: { $gte: thirtyDaysAgo }
         });
 
-        // Calculate total revenue (completed orders only)
+        // Calculate total revenue (completed orders only). totalAmount is what
+        // buyers paid after coupons; orders placed before coupons have no subtotal.
         const revenueResult = await Order.aggregate([
             { $match: { status: 'Completed' } },
-            { $group: { _id: null, totalRevenue: { $sum: '$totalAmount' } } }
+            {
+                $group: {
+                    _id: null,
+                    totalRevenue: { $sum: '$totalAmount' },
+                    grossRevenue: { $sum: { $ifNull: ['$subtotal', '$totalAmount'] } },
+                    totalDiscounts: { $sum: { $ifNull: ['$discountTotal', 0] } }
+                }
+            }
         ]);
         const totalRevenue = revenueResult.length > 0 ? revenueResult[0].totalRevenue : 0;
+        const grossRevenue = revenueResult.length > 0 ? revenueResult[0].grossRevenue : 0;
+        const totalDiscounts = revenueResult.length > 0 ? revenueResult[0].totalDiscounts : 0;
 
         // Get monthly order trends (last 6 months)
         const sixMonthsAgo = new Date();
@@ -63,6 +87,15 @@ export const getDashboardStats = async (req: Request, res: Response) => {
                                 0
                             ]
                         }
+                    },
+                    discounts: {
+                        $sum: {
+                            $cond: [
+                                { $eq: ['$status', 'Completed'] },
+                                { $ifNull: ['$discountTotal', 0] },
+                                0
+                            ]
+                        }
                     }
                 }
             },
@@ -89,7 +122,9 @@ export const getDashboardStats = async (req: Request, res: Response) => {
                     monthlyTrends: monthlyOrders
                 },
                 revenue: {
-                    total: totalRevenue
+                    total: totalRevenue,
+                    gross: grossRevenue,
+                    discounts: totalDiscounts
                 }
             },
             message: 'Dashboard statistics retrieved successfully'
@@ -202,8 +237,8 @@ export const toggleUserBan = async (req: Request, res: Response) => {
             });
         }
 
-        // Prevent banning other admins (optional security measure)
-        if (user.role === 'admin' && action === 'ban') {
+        // Prevent banning users who administer roles (optional security measure)
+        if (action === 'ban' && await hasPermission(user.role, 'role:manage')) {
             return res.status(400).json({
                 success: false,
                 message: 'Cannot ban admin users'
@@ -215,6 +250,14 @@ export const toggleUserBan = async (req: Request, res: Response) => {
         user.isActive = newStatus;
         await user.save();
 
+        // Banned users are signed out everywhere immediately
+        if (action === 'ban') {
+            await revokeUserSessions(user._id.toString(), 'ban');
+            emitAppEvent('user.banned', { user, bannedBy: req.user!.userId });
+        } else {
+            emitAppEvent('user.unbanned', { user, unbannedBy: req.user!.userId });
+        }
+
         res.status(200).json({
             success: true,
             data: {
@@ -237,6 +280,49 @@ export const toggleUserBan = async (req: Request, res: Response) => {
     }
 };
 
+// Lift a login lockout and forget the user's failed attempts
+export const unlockUser = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const user = await User.findById(id);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        await clearFailedLogins(user._id.toString());
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ADMIN_ACTION,
+            `Account ${user.email} unlocked`,
+            req,
+            { targetUserId: user._id.toString(), previousLockUntil: user.lockUntil }
+        );
+
+        res.status(200).json({
+            success: true,
+            data: {
+                userId: user._id,
+                email: user.email,
+                name: user.name
+            },
+            message: 'User unlocked successfully'
+        });
+
+    } catch (error) {
+        console.error('Error unlocking user:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to unlock user',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
 // Get user details by ID
 export const getUserById = async (req: Request, res: Response) => {
     try {
@@ -290,4 +376,427 @@ export const getUserById = async (req: Request, res: Response) => {
             error: process.env.NODE_ENV === 'development' ? error : undefined
         });
     }
+};
+
+// List every permission in the registry
+export const getPermissions = async (req: Request, res: Response) => {
+    res.status(200).json({
+        success: true,
+        data: PERMISSION_KEYS.map(key => ({ key, description: PERMISSIONS[key] })),
+        message: 'Permissions retrieved successfully'
+    });
+};
+
+// List roles with their permissions and how many users hold each
+export const getRoles = async (req: Request, res: Response) => {
+    try {
+        const [roles, userCounts] = await Promise.all([
+            Role.find().sort({ isSystem: -1, name: 1 }),
+            User.aggregate([{ $group: { _id: '$role', count: { $sum: 1 } } }])
+        ]);
+
+        const countByRole = new Map<string, number>(userCounts.map(entry => [entry._id, entry.count]));
+
+        res.status(200).json({
+            success: true,
+            data: roles.map(role => ({
+                ...role.toObject(),
+                userCount: countByRole.get(role.name) || 0
+            })),
+            message: 'Roles retrieved successfully'
+        });
+
+    } catch (error) {
+        console.error('Error fetching roles:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to fetch roles',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Create a custom role (e.g. support agent, catalog moderator)
+export const createRole = async (req: Request, res: Response) => {
+    try {
+        const { name, description, permissions }: CreateRoleInput = req.body;
+
+        if (await Role.exists({ name })) {
+            return res.status(409).json({
+                success: false,
+                message: `Role "${name}" already exists`
+            });
+        }
+
+        const role = await Role.create({ name, description, permissions, isSystem: false });
+        invalidateRolePermissions();
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ROLE_CHANGE,
+            `Role ${name} created`,
+            req,
+            { role: name, permissions }
+        );
+
+        res.status(201).json({
+            success: true,
+            data: role,
+            message: 'Role created successfully'
+        });
+
+    } catch (error) {
+        console.error('Error creating role:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to create role',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Update a role's description and/or permissions
+export const updateRole = async (req: Request, res: Response) => {
+    try {
+        const { name } = req.params;
+        const { description, permissions }: UpdateRoleInput = req.body;
+
+        const role = await Role.findOne({ name });
+        if (!role) {
+            return res.status(404).json({
+                success: false,
+                message: 'Role not found'
+            });
+        }
+
+        // Keep at least one role able to manage roles, or nobody could undo the change
+        if (name === 'admin' && permissions && !permissions.includes('role:manage')) {
+            return res.status(400).json({
+                success: false,
+                message: 'The admin role must keep the role:manage permission'
+            });
+        }
+
+        const previousPermissions = [...role.permissions];
+        if (description !== undefined) role.description = description;
+        if (permissions) role.permissions = permissions;
+        await role.save();
+        invalidateRolePermissions();
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ROLE_CHANGE,
+            `Role ${name} updated`,
+            req,
+            { role: name, previousPermissions, permissions: role.permissions }
+        );
+
+        res.status(200).json({
+            success: true,
+            data: role,
+            message: 'Role updated successfully'
+        });
+
+    } catch (error) {
+        console.error('Error updating role:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to update role',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Delete a custom role that no user holds
+export const deleteRole = async (req: Request, res: Response) => {
+    try {
+        const { name } = req.params;
+
+        const role = await Role.findOne({ name });
+        if (!role) {
+            return res.status(404).json({
+                success: false,
+                message: 'Role not found'
+            });
+        }
+
+        if (role.isSystem) {
+            return res.status(400).json({
+                success: false,
+                message: 'Built-in roles cannot be deleted'
+            });
+        }
+
+        const userCount = await User.countDocuments({ role: name });
+        if (userCount > 0) {
+            return res.status(409).json({
+                success: false,
+                message: `Role is assigned to ${userCount} user(s). Reassign them before deleting it.`
+            });
+        }
+
+        await role.deleteOne();
+        invalidateRolePermissions();
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ROLE_CHANGE,
+            `Role ${name} deleted`,
+            req,
+            { role: name }
+        );
+
+        res.status(200).json({
+            success: true,
+            message: 'Role deleted successfully'
+        });
+
+    } catch (error) {
+        console.error('Error deleting role:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to delete role',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Assign a role to a user
+export const updateUserRole = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { role }: AssignRoleInput = req.body;
+
+        // Prevent admins from locking themselves out
+        if (id === req.user?.userId) {
+            return res.status(400).json({
+                success: false,
+                message: 'You cannot change your own role'
+            });
+        }
+
+        if (!(await roleExists(role))) {
+            return res.status(400).json({
+                success: false,
+                message: `Role "${role}" does not exist`
+            });
+        }
+
+        const user = await User.findById(id);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        const previousRole = user.role;
+        user.role = role;
+        await user.save();
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ROLE_CHANGE,
+            `User role changed from ${previousRole} to ${role}`,
+            req,
+            { targetUserId: user._id, targetEmail: user.email, previousRole, role }
+        );
+
+        res.status(200).json({
+            success: true,
+            data: {
+                userId: user._id,
+                email: user.email,
+                name: user.name,
+                role: user.role,
+                isActive: user.isActive
+            },
+            message: 'User role updated successfully'
+        });
+
+    } catch (error) {
+        console.error('Error updating user role:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to update user role',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+
+// Get security audit events, newest first, with filtering and pagination
+export const getSecurityEvents = async (req: Request, res: Response) => {
+    try {
+        const query = req.query as unknown as SecurityEventQueryInput;
+        const page = query.page || 1;
+        const limit = query.limit || 25;
+        const filter = buildAuditEventFilter(query);
+
+        const [events, totalEvents] = await Promise.all([
+            AuditEvent.find(filter)
+                .populate('userId', 'name email role isActive')
+                .sort({ timestamp: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            AuditEvent.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalEvents / limit);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                events,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalEvents,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            },
+            message: 'Security events retrieved successfully'
+        });
+
+    } catch (error) {
+        console.error('Error fetching security events:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to fetch security events',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Download the security events matching the filters as CSV
+export const exportSecurityEvents = async (req: Request, res: Response) => {
+    try {
+        const filter = buildAuditEventFilter(req.query as unknown as SecurityEventQueryInput);
+
+        const events = await AuditEvent.find(filter)
+            .sort({ timestamp: -1 })
+            .limit(MAX_AUDIT_EXPORT_ROWS)
+            .lean();
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ADMIN_ACTION,
+            `Exported ${events.length} security events`,
+            req,
+            { filter: req.query }
+        );
+
+        const fileName = `security-events-${new Date().toISOString().slice(0, 10)}.csv`;
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.status(200).send(auditEventsToCsv(events));
+
+    } catch (error) {
+        console.error('Error exporting security events:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to export security events',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Uploaded file totals, and usage per seller for product images and documents
+export const getStorageUsage = async (req: Request, res: Response) => {
+    try {
+        const orphaned = { $cond: [{ $ifNull: ['$orphanedAt', false] }, 1, 0] };
+
+        const [totalsResult, sellers] = await Promise.all([
+            Asset.aggregate([
+                {
+                    $group: {
+                        _id: null,
+                        files: { $sum: 1 },
+                        bytes: { $sum: '$bytes' },
+                        unusedFiles: { $sum: orphaned },
+                        unusedBytes: { $sum: { $multiply: [orphaned, '$bytes'] } }
+                    }
+                }
+            ]),
+            Asset.aggregate([
+                { $match: { purpose: { $in: ['product_image', 'product_document'] } } },
+                {
+                    $group: {
+                        _id: '$ownerId',
+                        images: { $sum: { $cond: [{ $eq: ['$purpose', 'product_image'] }, 1, 0] } },
+                        documents: { $sum: { $cond: [{ $eq: ['$purpose', 'product_document'] }, 1, 0] } },
+                        products: { $addToSet: '$productId' },
+                        bytes: { $sum: '$bytes' },
+                        unusedFiles: { $sum: orphaned },
+                        unusedBytes: { $sum: { $multiply: [orphaned, '$bytes'] } }
+                    }
+                },
+                { $sort: { bytes: -1 } },
+                { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'seller' } },
+                {
+                    $project: {
+                        _id: 0,
+                        sellerId: '$_id',
+                        name: { $ifNull: [{ $first: '$seller.name' }, 'Deleted user'] },
+                        email: { $first: '$seller.email' },
+                        images: 1,
+                        documents: 1,
+                        products: { $size: '$products' },
+                        bytes: 1,
+                        unusedFiles: 1,
+                        unusedBytes: 1
+                    }
+                }
+            ])
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                driver: getStorageDriver().name,
+                totals: totalsResult[0]
+                    ? { files: totalsResult[0].files, bytes: totalsResult[0].bytes, unusedFiles: totalsResult[0].unusedFiles, unusedBytes: totalsResult[0].unusedBytes }
+                    : { files: 0, bytes: 0, unusedFiles: 0, unusedBytes: 0 },
+                sellers
+            },
+            message: 'Storage usage retrieved successfully'
+        });
+
+    } catch (error) {
+        console.error('Error fetching storage usage:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to fetch storage usage',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
+};
+
+// Run the unused file cleanup now instead of waiting for the next scheduled run
+export const cleanupStorage = async (req: Request, res: Response) => {
+    try {
+        const result = await reconcileAssets();
+
+        securityLogger.log(
+            SecurityLogLevel.AUDIT,
+            SecurityEventType.ADMIN_ACTION,
+            `Ran storage cleanup: ${result.deleted} unused files deleted`,
+            req,
+            { ...result }
+        );
+
+        res.status(200).json({
+            success: true,
+            data: result,
+            message: `Checked ${result.checked} files and deleted ${result.deleted} unused ones`
+        });
+
+    } catch (error) {
+        console.error('Error cleaning up storage:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to clean up storage',
+            error: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+    }
 };
\ No newline at end of file
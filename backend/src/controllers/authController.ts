@@ -1,11 +1,61 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import User from '../models/User';
-import { generateToken, setTokenCookie, clearTokenCookie } from '../config/jwt';
-import { registerSchema, loginSchema } from '../utils/validation';
+import User, { IUser } from '../models/User';
+import Session from '../models/Session';
+import {
+  hashRefreshToken,
+  clearTokenCookie,
+  clearRefreshTokenCookie,
+  extractRefreshTokenFromCookie
+} from '../config/jwt';
+import { createSession, rotateSession, revokeSession, revokeUserSessions } from '../utils/sessions';
+import { createAuthToken, consumeAuthToken } from '../utils/authTokens';
+import { getRolePermissions } from '../utils/permissions';
+import { recordFailedLogin, clearFailedLogins, getLockoutRemainingSeconds } from '../utils/loginLockout';
+import { sendMail } from '../config/mail';
+import {
+  registerSchema,
+  loginSchema,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  VerifyEmailInput,
+  ChangePasswordInput
+} from '../utils/validation';
 import { z } from 'zod';
 import { securityLogger, SecurityLogLevel, SecurityEventType } from '../middleware/securityLogger';
 
+// Base URL for links in outgoing emails
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// Email a fresh verification link to a user
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const token = await createAuthToken(user._id.toString(), 'email_verification');
+  const link = `${getFrontendUrl()}/auth/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.name},\n\nPlease verify your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+    html: `<p>Hi ${user.name},</p><p>Please verify your email address by opening <a href="${link}">this link</a>.</p><p>The link expires in 24 hours.</p>`
+  });
+};
+
+// Email a password reset link to a user
+const sendPasswordResetEmail = async (user: IUser): Promise<void> => {
+  const token = await createAuthToken(user._id.toString(), 'password_reset');
+  const link = `${getFrontendUrl()}/auth/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},\n\nYou can reset your password by opening this link:\n${link}\n\nThe link expires in 1 hour. If you did not request a reset, you can ignore this email.`,
+    html: `<p>Hi ${user.name},</p><p>You can reset your password by opening <a href="${link}">this link</a>.</p><p>The link expires in 1 hour. If you did not request a reset, you can ignore this email.</p>`
+  });
+};
+
+// Window in which replaying the previous refresh token is treated as a concurrent refresh
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
 // Registration endpoint
 export const register = async (req: Request, res: Response) => {
   try {
@@ -57,6 +107,14 @@ export const register = async (req: Request, res: Response) => {
 
     await newUser.save();
 
+    // Registration succeeds even if the verification email cannot be sent;
+    // the user can request a new one later
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
     // Log successful registration
     securityLogger.log(
       SecurityLogLevel.AUDIT,
@@ -70,17 +128,8 @@ export const register = async (req: Request, res: Response) => {
       }
     );
 
-    // Generate JWT token
-    const tokenPayload = {
-      userId: newUser._id.toString(),
-      email: newUser.email,
-      role: newUser.role
-    };
-    
-    const token = generateToken(tokenPayload);
-    
-    // Set token in cookie
-    setTokenCookie(res, token);
+    // Start a session and set access/refresh token cookies
+    const { token, refreshToken } = await createSession(newUser, req, res);
 
     // Return success response (exclude password)
     const userResponse = {
@@ -89,6 +138,7 @@ export const register = async (req: Request, res: Response) => {
       name: newUser.name,
       role: newUser.role,
       isActive: newUser.isActive,
+      emailVerified: newUser.emailVerified,
       createdAt: newUser.createdAt
     };
 
@@ -97,7 +147,8 @@ export const register = async (req: Request, res: Response) => {
       message: 'User registered successfully',
       data: {
         user: userResponse,
-        token
+        token,
+        refreshToken
       }
     });
 
@@ -137,6 +188,16 @@ export const register = async (req: Request, res: Response) => {
   }
 };
 
+// Respond to a login on a locked account, telling the client when to retry
+const sendAccountLocked = (res: Response, retryAfterSeconds: number) => {
+  res.setHeader('Retry-After', retryAfterSeconds.toString());
+  return res.status(429).json({
+    success: false,
+    message: `Too many failed login attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+    retryAfter: retryAfterSeconds
+  });
+};
+
 // Login endpoint
 export const login = async (req: Request, res: Response) => {
   try {
@@ -198,6 +259,26 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    // Refuse locked accounts without checking the password
+    const lockedForSeconds = getLockoutRemainingSeconds(user);
+    if (lockedForSeconds > 0) {
+      // Log failed login - account locked
+      securityLogger.log(
+        SecurityLogLevel.WARNING,
+        SecurityEventType.AUTH_FAILURE,
+        'Login failed: account locked',
+        req,
+        {
+          userId: user._id.toString(),
+          email: user.email,
+          reason: 'account_locked'
+        },
+        false
+      );
+
+      return sendAccountLocked(res, lockedForSeconds);
+    }
+
     // Verify password
     const isPasswordValid = await user.comparePassword(validatedData.password);
     if (!isPasswordValid) {
@@ -215,23 +296,23 @@ export const login = async (req: Request, res: Response) => {
         false
       );
 
+      const lockUntil = await recordFailedLogin(user, req);
+      if (lockUntil) {
+        return sendAccountLocked(res, getLockoutRemainingSeconds({ lockUntil }));
+      }
+
       return res.status(401).json({
         success: false,
         message: 'Invalid email or password'
       });
     }
 
-    // Generate JWT token
-    const tokenPayload = {
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role
-    };
-    
-    const token = generateToken(tokenPayload);
-    
-    // Set token in cookie
-    setTokenCookie(res, token);
+    if (user.failedLoginAttempts > 0 || user.lockoutCount > 0) {
+      await clearFailedLogins(user._id.toString());
+    }
+
+    // Start a session and set access/refresh token cookies
+    const { token, refreshToken } = await createSession(user, req, res);
 
     // Log successful login
     securityLogger.log(
@@ -252,7 +333,9 @@ export const login = async (req: Request, res: Response) => {
       email: user.email,
       name: user.name,
       role: user.role,
+      permissions: [...await getRolePermissions(user.role)],
       isActive: user.isActive,
+      emailVerified: user.emailVerified,
       createdAt: user.createdAt
     };
 
@@ -261,7 +344,8 @@ export const login = async (req: Request, res: Response) => {
       message: 'Login successful',
       data: {
         user: userResponse,
-        token
+        token,
+        refreshToken
       }
     });
 
@@ -317,8 +401,20 @@ export const logout = async (req: Request, res: Response) => {
       } : undefined
     );
 
-    // Clear the auth token cookie
+    // Revoke the session so its refresh token can no longer be used
+    const refreshToken = req.body?.refreshToken || extractRefreshTokenFromCookie(req.cookies);
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, 'logout');
+    } else if (typeof refreshToken === 'string') {
+      const session = await Session.findOne({ refreshTokenHash: hashRefreshToken(refreshToken) });
+      if (session) {
+        await revokeSession(session._id.toString(), 'logout');
+      }
+    }
+
+    // Clear the auth token cookies
     clearTokenCookie(res);
+    clearRefreshTokenCookie(res);
     
     res.status(200).json({
       success: true,
@@ -333,6 +429,224 @@ export const logout = async (req: Request, res: Response) => {
   }
 };
 
+// Refresh endpoint - exchanges a refresh token for a new token pair (rotation)
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.body?.refreshToken || extractRefreshTokenFromCookie(req.cookies);
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token is required'
+      });
+    }
+
+    const tokenHash = hashRefreshToken(refreshToken);
+    const session = await Session.findOne({ refreshTokenHash: tokenHash });
+
+    if (!session) {
+      // A rotated-out token being replayed suggests it leaked: revoke the whole session.
+      // Tokens replayed within a short grace period are treated as a benign race
+      // (e.g. two tabs refreshing at once) and simply rejected.
+      const reusedSession = await Session.findOne({ previousTokenHash: tokenHash, revokedAt: null });
+      if (reusedSession && Date.now() - reusedSession.lastUsedAt.getTime() > REFRESH_REUSE_GRACE_MS) {
+        await revokeSession(reusedSession._id.toString(), 'reuse');
+
+        securityLogger.log(
+          SecurityLogLevel.CRITICAL,
+          SecurityEventType.SUSPICIOUS_ACTIVITY,
+          'Refresh token reuse detected, session revoked',
+          req,
+          {
+            userId: reusedSession.userId.toString(),
+            sessionId: reusedSession._id.toString()
+          },
+          false
+        );
+      }
+
+      clearTokenCookie(res);
+      clearRefreshTokenCookie(res);
+
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid refresh token'
+      });
+    }
+
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+      clearTokenCookie(res);
+      clearRefreshTokenCookie(res);
+
+      return res.status(401).json({
+        success: false,
+        message: 'Session has expired. Please login again.'
+      });
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user || !user.isActive) {
+      await revokeSession(session._id.toString(), 'ban');
+      clearTokenCookie(res);
+      clearRefreshTokenCookie(res);
+
+      return res.status(401).json({
+        success: false,
+        message: 'Account has been deactivated. Please contact support.'
+      });
+    }
+
+    const tokens = await rotateSession(user, session, req, res);
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: {
+        token: tokens.token,
+        refreshToken: tokens.refreshToken
+      }
+    });
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during token refresh'
+    });
+  }
+};
+
+// List the current user's active sessions
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const sessions = await Session.find({
+      userId: req.user.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          _id: session._id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          isCurrent: session._id.toString() === req.user!.sessionId
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Revoke one of the current user's sessions
+export const revokeUserSession = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { id } = req.params;
+    const session = await Session.findOne({ _id: id, userId: req.user.userId, revokedAt: null });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await revokeSession(id, 'user');
+
+    // Revoking the current session is the same as logging out
+    if (id === req.user.sessionId) {
+      clearTokenCookie(res);
+      clearRefreshTokenCookie(res);
+    }
+
+    securityLogger.log(
+      SecurityLogLevel.AUDIT,
+      SecurityEventType.AUTH_SUCCESS,
+      'User revoked a session',
+      req,
+      {
+        userId: req.user.userId,
+        sessionId: id
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Revoke all of the current user's sessions except the one making the request
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const revokedCount = await revokeUserSessions(req.user.userId, 'user', req.user.sessionId);
+
+    securityLogger.log(
+      SecurityLogLevel.AUDIT,
+      SecurityEventType.AUTH_SUCCESS,
+      'User revoked all other sessions',
+      req,
+      {
+        userId: req.user.userId,
+        revokedCount
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${revokedCount} session(s) revoked`,
+      data: { revokedCount }
+    });
+
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 // Get current user endpoint
 export const getCurrentUser = async (req: Request, res: Response) => {
   try {
@@ -361,7 +675,9 @@ export const getCurrentUser = async (req: Request, res: Response) => {
           email: user.email,
           name: user.name,
           role: user.role,
+          permissions: [...await getRolePermissions(user.role)],
           isActive: user.isActive,
+          emailVerified: user.emailVerified,
           createdAt: user.createdAt
         }
       }
@@ -374,4 +690,259 @@ export const getCurrentUser = async (req: Request, res: Response) => {
       message: 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+// Forgot password endpoint - emails a reset link.
+// Always responds the same way so it cannot be used to discover accounts.
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email }: ForgotPasswordInput = req.body;
+
+    const user = await User.findOne({ email });
+    if (user && user.isActive) {
+      // A failed send gets the same response, so it doesn't reveal that the account exists
+      let sent = true;
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (error) {
+        console.error('Password reset email error:', error);
+        sent = false;
+      }
+
+      securityLogger.log(
+        sent ? SecurityLogLevel.INFO : SecurityLogLevel.WARNING,
+        SecurityEventType.PASSWORD_CHANGE,
+        sent ? 'Password reset requested' : 'Password reset email could not be sent',
+        req,
+        {
+          userId: user._id.toString(),
+          email: user.email
+        },
+        sent
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent'
+    });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Reset password endpoint - sets a new password using an emailed token
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password }: ResetPasswordInput = req.body;
+
+    const userId = await consumeAuthToken(token, 'password_reset');
+    const user = userId ? await User.findById(userId) : null;
+
+    if (!user || !user.isActive) {
+      securityLogger.log(
+        SecurityLogLevel.WARNING,
+        SecurityEventType.PASSWORD_CHANGE,
+        'Password reset failed: invalid or expired token',
+        req,
+        { userId },
+        false
+      );
+
+      return res.status(400).json({
+        success: false,
+        message: 'Password reset link is invalid or has expired'
+      });
+    }
+
+    // Password is hashed by the pre-save middleware
+    user.password = password;
+    await user.save();
+
+    // Anyone holding an old session is signed out
+    await revokeUserSessions(user._id.toString(), 'password_change');
+
+    securityLogger.log(
+      SecurityLogLevel.AUDIT,
+      SecurityEventType.PASSWORD_CHANGE,
+      'Password reset successfully',
+      req,
+      {
+        userId: user._id.toString(),
+        email: user.email
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Please login with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during password reset'
+    });
+  }
+};
+
+// Verify email endpoint - marks the account verified using an emailed token
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token }: VerifyEmailInput = req.body;
+
+    const userId = await consumeAuthToken(token, 'email_verification');
+    const user = userId ? await User.findById(userId) : null;
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification link is invalid or has expired'
+      });
+    }
+
+    user.emailVerified = true;
+    await user.save();
+
+    securityLogger.log(
+      SecurityLogLevel.AUDIT,
+      SecurityEventType.AUTH_SUCCESS,
+      'Email address verified',
+      req,
+      {
+        userId: user._id.toString(),
+        email: user.email
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully'
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during email verification'
+    });
+  }
+};
+
+// Resend verification email endpoint
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is already verified'
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent'
+    });
+
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send verification email'
+    });
+  }
+};
+
+// Change password endpoint - for logged-in users who know their current password
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    const { currentPassword, newPassword }: ChangePasswordInput = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const isPasswordValid = await user.comparePassword(currentPassword);
+    if (!isPasswordValid) {
+      securityLogger.log(
+        SecurityLogLevel.WARNING,
+        SecurityEventType.PASSWORD_CHANGE,
+        'Password change failed: invalid current password',
+        req,
+        {
+          userId: user._id.toString(),
+          reason: 'invalid_password'
+        },
+        false
+      );
+
+      return res.status(400).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    // Password is hashed by the pre-save middleware
+    user.password = newPassword;
+    await user.save();
+
+    // Keep this session, sign out everywhere else
+    await revokeUserSessions(user._id.toString(), 'password_change', req.user.sessionId);
+
+    securityLogger.log(
+      SecurityLogLevel.AUDIT,
+      SecurityEventType.PASSWORD_CHANGE,
+      'Password changed successfully',
+      req,
+      {
+        userId: user._id.toString(),
+        email: user.email
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Password changed successfully'
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during password change'
+    });
+  }
+};
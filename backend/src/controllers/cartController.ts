@@ -0,0 +1,420 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Cart, { ICart, ICartItem } from '../models/Cart';
+import Product from '../models/Product';
+import { evaluateCoupon, roundMoney } from '../utils/coupons';
+import { findVariant, formatVariantOptions, getUnitPrice } from '../utils/variants';
+import { CATEGORY_SUMMARY_FIELDS } from '../utils/categories';
+import {
+  AddToCartInput,
+  UpdateCartItemInput,
+  CartItemQueryInput,
+  MergeCartInput,
+  ApplyCouponInput
+} from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Maximum quantity of a single product that may sit in a cart
+const MAX_ITEM_QUANTITY = 100;
+
+// Product fields returned with each cart line (always read live, never snapshotted)
+const CART_PRODUCT_FIELDS = 'title description category price images documents stock lowStockThreshold variantOptions variants sellerId isActive createdAt';
+
+// A cart line is one product, or one variant of a product sold in variants
+const isSameLine = (item: ICartItem, productId: string, variantId?: string): boolean =>
+  item.productId.toString() === productId && item.variantId?.toString() === variantId;
+
+// Load the user's cart, creating an empty one on first use
+const findOrCreateCart = async (userId: string): Promise<ICart> => {
+  const existing = await Cart.findOne({ userId });
+  if (existing) {
+    return existing;
+  }
+  return new Cart({ userId, items: [] });
+};
+
+// Resolve live product data for every line and compute totals over purchasable lines
+const buildCartResponse = async (cart: ICart) => {
+  await cart.populate({
+    path: 'items.productId',
+    select: CART_PRODUCT_FIELDS,
+    populate: [
+      { path: 'seller', select: 'name email' },
+      { path: 'category', select: CATEGORY_SUMMARY_FIELDS }
+    ]
+  });
+
+  const items = cart.items
+    .filter(item => item.productId) // Drop lines whose product no longer exists
+    .map(item => {
+      const product = item.productId as any;
+      // Lines for products sold in variants need a variant that is still on sale
+      const variant = findVariant(product, item.variantId);
+      const hasVariant = product.variants.length > 0 ? !!variant : !item.variantId;
+      const stock = variant ? variant.stock : product.stock;
+      const isAvailable = product.isActive && hasVariant && stock >= item.quantity;
+      return {
+        product: product.toJSON(),
+        variant: variant ? (variant as any).toJSON() : null,
+        unitPrice: getUnitPrice(product, variant),
+        quantity: item.quantity,
+        isAvailable,
+        addedAt: item.addedAt
+      };
+    });
+
+  const availableItems = items.filter(item => item.isAvailable);
+
+  return {
+    items,
+    totalItems: availableItems.reduce((sum, item) => sum + item.quantity, 0),
+    totalAmount: roundMoney(availableItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)),
+    updatedAt: cart.updatedAt
+  };
+};
+
+// Get current user's cart
+export const getCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const cart = await findOrCreateCart(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+      message: 'Cart retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve cart',
+      error: error.message
+    });
+  }
+};
+
+// Add product to cart (increments quantity if already present)
+export const addToCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId, variantId, quantity }: AddToCartInput = req.body;
+
+    const product = await Product.findOne({ _id: productId, isActive: true });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found or inactive'
+      });
+    }
+
+    // Products sold in variants are added one variant at a time
+    const variant = findVariant(product, variantId);
+    if (product.variants.length > 0 && !variant) {
+      return res.status(400).json({
+        success: false,
+        message: variantId ? 'Selected option is not available' : `Please choose an option for ${product.title}`
+      });
+    }
+    if (product.variants.length === 0 && variantId) {
+      return res.status(400).json({
+        success: false,
+        message: `${product.title} has no variants`
+      });
+    }
+
+    const title = variant ? `${product.title} (${formatVariantOptions(variant.options)})` : product.title;
+    const stock = variant ? variant.stock : product.stock;
+
+    const cart = await findOrCreateCart(req.user!.userId);
+    const existingItem = cart.items.find(item => isSameLine(item, productId, variantId));
+    const newQuantity = (existingItem?.quantity || 0) + quantity;
+
+    if (newQuantity > MAX_ITEM_QUANTITY) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot have more than ${MAX_ITEM_QUANTITY} units of a product in the cart`
+      });
+    }
+
+    if (newQuantity > stock) {
+      return res.status(400).json({
+        success: false,
+        message: `Only ${stock} unit(s) of ${title} available`
+      });
+    }
+
+    if (existingItem) {
+      existingItem.quantity = newQuantity;
+    } else {
+      cart.items.push({
+        productId: new mongoose.Types.ObjectId(productId),
+        ...(variant ? { variantId: variant._id } : {}),
+        quantity,
+        addedAt: new Date()
+      });
+    }
+
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+      message: `${title} added to cart`
+    });
+
+  } catch (error: any) {
+    console.error('Add to cart error:', error);
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      return res.status(400).json({
+        success: false,
+        message: 'Cart validation failed',
+        error: firstError?.message || 'Validation failed'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add product to cart',
+      error: error.message
+    });
+  }
+};
+
+// Set quantity of a cart line (0 removes it)
+export const updateCartItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId } = req.params;
+    const { variantId } = req.query as unknown as CartItemQueryInput;
+    const { quantity }: UpdateCartItemInput = req.body;
+
+    const cart = await findOrCreateCart(req.user!.userId);
+    const itemIndex = cart.items.findIndex(item => isSameLine(item, productId, variantId));
+
+    if (itemIndex === -1) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in cart'
+      });
+    }
+
+    if (quantity === 0) {
+      cart.items.splice(itemIndex, 1);
+    } else {
+      const product = await Product.findById(productId);
+      const variant = product && findVariant(product, variantId);
+      const stock = variant ? variant.stock : product?.stock;
+      if (product && stock !== undefined && quantity > stock) {
+        return res.status(400).json({
+          success: false,
+          message: `Only ${stock} unit(s) of ${product.title} available`
+        });
+      }
+      cart.items[itemIndex].quantity = quantity;
+    }
+
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+      message: 'Cart updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update cart item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update cart',
+      error: error.message
+    });
+  }
+};
+
+// Remove product from cart
+export const removeCartItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId } = req.params;
+    const { variantId } = req.query as unknown as CartItemQueryInput;
+
+    const cart = await findOrCreateCart(req.user!.userId);
+    const itemCount = cart.items.length;
+    cart.items = cart.items.filter(item => !isSameLine(item, productId, variantId));
+
+    if (cart.items.length === itemCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in cart'
+      });
+    }
+
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+      message: 'Product removed from cart'
+    });
+
+  } catch (error: any) {
+    console.error('Remove cart item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove product from cart',
+      error: error.message
+    });
+  }
+};
+
+// Remove all items from cart
+export const clearCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const cart = await findOrCreateCart(req.user!.userId);
+    cart.items = [];
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+      message: 'Cart cleared successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Clear cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to clear cart',
+      error: error.message
+    });
+  }
+};
+
+// Merge an anonymous (localStorage) cart into the user's cart after login.
+// Quantities are summed and capped at available stock; unknown or inactive
+// products are skipped.
+export const mergeCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { items }: MergeCartInput = req.body;
+
+    const cart = await findOrCreateCart(req.user!.userId);
+    const products = await Product.find({
+      _id: { $in: items.map(item => item.productId) },
+      isActive: true
+    });
+
+    let skipped = 0;
+
+    for (const incoming of items) {
+      const product = products.find(p => p._id.toString() === incoming.productId);
+      const variant = product && findVariant(product, incoming.variantId);
+      const hasVariant = product && (product.variants.length > 0 ? !!variant : !incoming.variantId);
+      const stock = variant ? variant.stock : product?.stock;
+      if (!product || !hasVariant || !stock) {
+        skipped++;
+        continue;
+      }
+
+      const existingItem = cart.items.find(item => isSameLine(item, incoming.productId, incoming.variantId));
+      const limit = Math.min(MAX_ITEM_QUANTITY, stock);
+      const merged = Math.min((existingItem?.quantity || 0) + incoming.quantity, limit);
+
+      if (existingItem) {
+        existingItem.quantity = merged;
+      } else if (cart.items.length < 50) {
+        cart.items.push({
+          productId: new mongoose.Types.ObjectId(incoming.productId),
+          ...(variant ? { variantId: variant._id } : {}),
+          quantity: merged,
+          addedAt: new Date()
+        });
+      } else {
+        skipped++;
+      }
+    }
+
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+      message: skipped > 0
+        ? `Cart merged; ${skipped} unavailable item(s) skipped`
+        : 'Cart merged successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Merge cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to merge cart',
+      error: error.message
+    });
+  }
+};
+
+// Preview what a coupon takes off the current cart. Nothing is redeemed until checkout.
+export const applyCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code }: ApplyCouponInput = req.body;
+    const userId = req.user!.userId;
+
+    const cart = await findOrCreateCart(userId);
+    const summary = await buildCartResponse(cart);
+    const availableItems = summary.items.filter(item => item.isAvailable);
+
+    if (availableItems.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your cart has no items available to purchase'
+      });
+    }
+
+    const lines = availableItems.map(item => ({
+      productId: item.product._id,
+      sellerId: item.product.sellerId.toString(),
+      category: String(item.product.category?._id ?? item.product.category),
+      price: item.unitPrice,
+      quantity: item.quantity
+    }));
+
+    const result = await evaluateCoupon(code, userId, lines);
+    if ('status' in result) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        code: result.coupon.code,
+        description: result.coupon.description,
+        type: result.coupon.type,
+        value: result.coupon.value,
+        subtotal: summary.totalAmount,
+        discount: result.discount,
+        totalAmount: roundMoney(summary.totalAmount - result.discount),
+        lines: lines.map((line, index) => ({
+          productId: line.productId,
+          variantId: availableItems[index].variant?._id,
+          discount: result.lineDiscounts[index]
+        }))
+      },
+      message: 'Coupon applied'
+    });
+
+  } catch (error: any) {
+    console.error('Apply coupon error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to apply coupon',
+      error: error.message
+    });
+  }
+};
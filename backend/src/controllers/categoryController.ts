@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import Category, { MAX_CATEGORY_DEPTH } from '../models/Category';
+import Product from '../models/Product';
+import { hasPermission } from '../utils/permissions';
+import {
+  buildCategoryTree,
+  collectDescendantIds,
+  getCategoryDepth,
+  getSubtreeHeight,
+  loadCategories,
+  slugify
+} from '../utils/categories';
+import { CreateCategoryInput, UpdateCategoryInput, CategoryQueryInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Reply for a duplicate key error on the slug or sibling-name index
+const duplicateCategoryMessage = (error: any): string =>
+  error.keyPattern?.slug ? 'A category with this slug already exists' : 'A category with this name already exists here';
+
+// Get the category tree. Each node carries the number of active products filed
+// directly under it. Inactive categories are only included for category managers.
+export const getCategories = async (req: AuthRequest, res: Response) => {
+  try {
+    const { includeInactive } = req.query as unknown as CategoryQueryInput;
+    const showInactive = includeInactive === 'true' &&
+      await hasPermission(req.user?.role, 'category:manage');
+
+    const [categories, counts] = await Promise.all([
+      loadCategories(showInactive ? {} : { isActive: true }),
+      Product.aggregate<{ _id: string; count: number }>([
+        { $match: { isActive: true } },
+        { $group: { _id: '$category', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const productCounts = new Map(counts.map(count => [String(count._id), count.count]));
+    const withCounts = categories.map(category => ({
+      ...category,
+      productCount: productCounts.get(category._id.toString()) || 0
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: buildCategoryTree(withCounts),
+      message: 'Categories retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get categories error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve categories',
+      error: error.message
+    });
+  }
+};
+
+// Create a category, optionally under a parent
+export const createCategory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { parent, slug, ...data }: CreateCategoryInput = req.body;
+
+    if (parent) {
+      const categories = await loadCategories();
+      if (!categories.some(category => category._id.toString() === parent)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Parent category not found'
+        });
+      }
+      if (getCategoryDepth(categories, parent) >= MAX_CATEGORY_DEPTH) {
+        return res.status(400).json({
+          success: false,
+          message: `Categories cannot be nested more than ${MAX_CATEGORY_DEPTH} levels deep`
+        });
+      }
+    }
+
+    const category = await Category.create({
+      ...data,
+      slug: slug || slugify(data.name),
+      parent: parent || null
+    });
+
+    res.status(201).json({
+      success: true,
+      data: category,
+      message: 'Category created successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Create category error:', error);
+
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: duplicateCategoryMessage(error)
+      });
+    }
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      return res.status(400).json({
+        success: false,
+        message: 'Category validation failed',
+        error: firstError?.message || 'Validation failed'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create category',
+      error: error.message
+    });
+  }
+};
+
+// Update a category. Renaming keeps the slug unless a new one is given, so
+// existing links keep working. Moving a category takes its subcategories along.
+export const updateCategory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { parent, ...data }: UpdateCategoryInput = req.body;
+
+    const category = await Category.findById(id);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    if (parent !== undefined && String(parent) !== String(category.parent)) {
+      if (parent) {
+        const categories = await loadCategories();
+        if (!categories.some(c => c._id.toString() === parent)) {
+          return res.status(400).json({
+            success: false,
+            message: 'Parent category not found'
+          });
+        }
+        if (collectDescendantIds(categories, id).some(descendantId => descendantId.toString() === parent)) {
+          return res.status(400).json({
+            success: false,
+            message: 'A category cannot be moved under itself or one of its subcategories'
+          });
+        }
+        if (getCategoryDepth(categories, parent) + getSubtreeHeight(categories, id) > MAX_CATEGORY_DEPTH) {
+          return res.status(400).json({
+            success: false,
+            message: `Categories cannot be nested more than ${MAX_CATEGORY_DEPTH} levels deep`
+          });
+        }
+      }
+      category.parent = (parent || null) as any;
+    }
+
+    Object.assign(category, data);
+    await category.save();
+
+    res.status(200).json({
+      success: true,
+      data: category,
+      message: 'Category updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update category error:', error);
+
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: duplicateCategoryMessage(error)
+      });
+    }
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      return res.status(400).json({
+        success: false,
+        message: 'Category validation failed',
+        error: firstError?.message || 'Validation failed'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update category',
+      error: error.message
+    });
+  }
+};
+
+// Delete an empty category. Categories with subcategories or products must be
+// emptied first, or deactivated instead.
+export const deleteCategory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const category = await Category.findById(id);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    const [childCount, productCount] = await Promise.all([
+      Category.countDocuments({ parent: category._id }),
+      Product.countDocuments({ category: category._id, isActive: true })
+    ]);
+
+    if (childCount > 0 || productCount > 0) {
+      return res.status(409).json({
+        success: false,
+        message: childCount > 0
+          ? `${category.name} has ${childCount} subcategor${childCount === 1 ? 'y' : 'ies'}; move or delete them first`
+          : `${category.name} has ${productCount} product(s); move them to another category or deactivate it instead`
+      });
+    }
+
+    // Coupons limited to this category keep the reference, so they still match
+    // nothing here rather than turning into store-wide coupons
+    await category.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Category deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete category error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete category',
+      error: error.message
+    });
+  }
+};
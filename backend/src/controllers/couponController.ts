@@ -0,0 +1,286 @@
+import { Request, Response } from 'express';
+import Coupon, { ICoupon } from '../models/Coupon';
+import Product from '../models/Product';
+import Category from '../models/Category';
+import { hasPermission } from '../utils/permissions';
+import { CreateCouponInput, UpdateCouponInput, CouponQueryInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+type CouponScopeError = { status: number; message: string } | null;
+
+// Sellers' promotions only cover their own products: they can't target other
+// sellers, and any products they list must be theirs
+const checkSellerScope = async (
+  sellerId: string,
+  data: { productIds?: string[]; sellerIds?: string[] }
+): Promise<CouponScopeError> => {
+  if (data.sellerIds && data.sellerIds.length > 0) {
+    return { status: 403, message: 'Seller promotions cannot target other sellers' };
+  }
+
+  if (data.productIds && data.productIds.length > 0) {
+    const owned = await Product.countDocuments({ _id: { $in: data.productIds }, sellerId });
+    if (owned !== new Set(data.productIds).size) {
+      return { status: 403, message: 'Seller promotions can only include your own products' };
+    }
+  }
+
+  return null;
+};
+
+// Category restrictions must name existing categories
+const checkCategories = async (categories?: string[]): Promise<CouponScopeError> => {
+  if (!categories || categories.length === 0) {
+    return null;
+  }
+
+  const found = await Category.countDocuments({ _id: { $in: categories } });
+  if (found !== new Set(categories).size) {
+    return { status: 400, message: 'One or more coupon categories do not exist' };
+  }
+
+  return null;
+};
+
+// Whether the user may manage this coupon: coupon:manage:any covers every
+// coupon, coupon:manage:own only the seller's own promotions
+const canManageCoupon = async (req: AuthRequest, coupon: ICoupon): Promise<boolean> => {
+  if (await hasPermission(req.user?.role, 'coupon:manage:any')) {
+    return true;
+  }
+  return !!coupon.sellerId && coupon.sellerId.toString() === req.user?.userId &&
+    await hasPermission(req.user?.role, 'coupon:manage:own');
+};
+
+// List coupons: every coupon for admins, own promotions for sellers
+export const getCoupons = async (req: AuthRequest, res: Response) => {
+  try {
+    const { page = 1, limit = 20, search, status } = req.query as unknown as CouponQueryInput;
+
+    const filter: any = {};
+    if (!(await hasPermission(req.user?.role, 'coupon:manage:any'))) {
+      filter.sellerId = req.user?.userId;
+    }
+
+    if (search) {
+      filter.code = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    }
+
+    const now = new Date();
+    if (status === 'active') {
+      filter.isActive = true;
+      filter.$or = [{ expiresAt: null }, { expiresAt: { $gt: now } }];
+    } else if (status === 'inactive') {
+      filter.isActive = false;
+    } else if (status === 'expired') {
+      filter.expiresAt = { $lte: now };
+    }
+
+    const [coupons, totalCount] = await Promise.all([
+      Coupon.find(filter)
+        .populate('sellerId', 'name email')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Coupon.countDocuments(filter)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        coupons,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      },
+      message: 'Coupons retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get coupons error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve coupons',
+      error: error.message
+    });
+  }
+};
+
+// Create a coupon. Users without coupon:manage:any create a seller promotion
+// limited to their own products.
+export const createCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const data: CreateCouponInput = req.body;
+    const userId = req.user!.userId;
+    const isPlatformCoupon = await hasPermission(req.user?.role, 'coupon:manage:any');
+
+    if (!isPlatformCoupon) {
+      const scopeError = await checkSellerScope(userId, data);
+      if (scopeError) {
+        return res.status(scopeError.status).json({
+          success: false,
+          message: scopeError.message
+        });
+      }
+    }
+
+    const categoryError = await checkCategories(data.categories);
+    if (categoryError) {
+      return res.status(categoryError.status).json({
+        success: false,
+        message: categoryError.message
+      });
+    }
+
+    if (await Coupon.exists({ code: data.code })) {
+      return res.status(409).json({
+        success: false,
+        message: 'A coupon with this code already exists'
+      });
+    }
+
+    const coupon = await Coupon.create({
+      ...data,
+      sellerId: isPlatformCoupon ? undefined : userId,
+      createdBy: userId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: coupon,
+      message: 'Coupon created successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Create coupon error:', error);
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      return res.status(400).json({
+        success: false,
+        message: 'Coupon validation failed',
+        error: firstError?.message || 'Validation failed'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create coupon',
+      error: error.message
+    });
+  }
+};
+
+// Update a coupon's terms, restrictions or active flag. The code can't change
+// because it is copied onto orders that used it.
+export const updateCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const data: UpdateCouponInput = req.body;
+
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon || !(await canManageCoupon(req, coupon))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    if (coupon.sellerId) {
+      const scopeError = await checkSellerScope(coupon.sellerId.toString(), data);
+      if (scopeError) {
+        return res.status(scopeError.status).json({
+          success: false,
+          message: scopeError.message
+        });
+      }
+    }
+
+    const categoryError = await checkCategories(data.categories);
+    if (categoryError) {
+      return res.status(categoryError.status).json({
+        success: false,
+        message: categoryError.message
+      });
+    }
+
+    // null clears an optional limit or date
+    Object.entries(data).forEach(([key, value]) => {
+      coupon.set(key, value === null ? undefined : value);
+    });
+    await coupon.save();
+
+    res.status(200).json({
+      success: true,
+      data: coupon,
+      message: 'Coupon updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update coupon error:', error);
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      return res.status(400).json({
+        success: false,
+        message: 'Coupon validation failed',
+        error: firstError?.message || 'Validation failed'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update coupon',
+      error: error.message
+    });
+  }
+};
+
+// Delete an unused coupon. Coupons that orders have already used are
+// deactivated instead so those orders keep a valid reference.
+export const deleteCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon || !(await canManageCoupon(req, coupon))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    if (coupon.usedCount > 0) {
+      coupon.isActive = false;
+      await coupon.save();
+
+      return res.status(200).json({
+        success: true,
+        data: coupon,
+        message: 'Coupon has been used, so it was deactivated instead of deleted'
+      });
+    }
+
+    await coupon.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete coupon error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete coupon',
+      error: error.message
+    });
+  }
+};
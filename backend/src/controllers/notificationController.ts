@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import Notification from '../models/Notification';
+import User from '../models/User';
+import { NotificationQueryInput, NotificationPreferencesInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Get the current user's notifications, newest first, with their unread count
+export const getNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const query = req.query as unknown as NotificationQueryInput;
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const filter: Record<string, any> = { userId };
+    if (query.unreadOnly) {
+      filter.readAt = null;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Notification.countDocuments(filter),
+      Notification.countDocuments({ userId, readAt: null })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalNotifications: total,
+          hasNextPage: page * limit < total,
+          hasPrevPage: page > 1
+        }
+      },
+      message: 'Notifications retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve notifications',
+      error: error.message
+    });
+  }
+};
+
+// Mark one of the user's notifications as read
+export const markNotificationRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const notification = await Notification.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user!.userId },
+      [{ $set: { readAt: { $ifNull: ['$readAt', '$$NOW'] } } }],
+      { new: true }
+    );
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: notification,
+      message: 'Notification marked as read'
+    });
+
+  } catch (error: any) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notification',
+      error: error.message
+    });
+  }
+};
+
+// Mark all of the user's unread notifications as read
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await Notification.updateMany(
+      { userId: req.user!.userId, readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { updated: result.modifiedCount },
+      message: 'All notifications marked as read'
+    });
+
+  } catch (error: any) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notifications',
+      error: error.message
+    });
+  }
+};
+
+// Get which notification categories the user receives
+export const getNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.userId).select('notificationPreferences');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: user.notificationPreferences,
+      message: 'Notification preferences retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve notification preferences',
+      error: error.message
+    });
+  }
+};
+
+// Turn notification categories on or off; categories left out are unchanged
+export const updateNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const preferences: NotificationPreferencesInput = req.body;
+
+    const update = Object.fromEntries(
+      Object.entries(preferences)
+        .filter(([, enabled]) => enabled !== undefined)
+        .map(([category, enabled]) => [`notificationPreferences.${category}`, enabled])
+    );
+
+    const user = await User.findByIdAndUpdate(
+      req.user!.userId,
+      { $set: update },
+      { new: true }
+    ).select('notificationPreferences');
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: user.notificationPreferences,
+      message: 'Notification preferences updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notification preferences',
+      error: error.message
+    });
+  }
+};
@@ -1,8 +1,29 @@
 import { Request, Response } from 'express';
 import mongoose from 'mongoose';
-import Order, { IOrder, IOrderProduct } from '../models/Order';
+import Order, {
+  IOrder,
+  IOrderProduct,
+  IReturnItem,
+  OrderStatus,
+  ORDER_STATUSES,
+  RETURN_STATUSES,
+  RETURN_STATUS_TRANSITIONS,
+  canTransitionStatus
+} from '../models/Order';
 import Product from '../models/Product';
 import User from '../models/User';
+import { reserveStock, releaseStock } from '../utils/inventory';
+import { hasPermission, getRolePermissions } from '../utils/permissions';
+import { resolveShippingAddress } from '../utils/addresses';
+import { startCheckoutPayment } from '../utils/payments';
+import { isOnlinePaymentEnabled } from '../config/payments';
+import { evaluateCoupon, redeemCoupon, releaseCoupon, roundMoney, CouponDiscount } from '../utils/coupons';
+import { findVariant, formatVariantOptions, getUnitPrice } from '../utils/variants';
+import { IPayment } from '../models/Payment';
+import { emitAppEvent } from '../utils/appEvents';
+import { openOrderStream } from '../utils/orderStream';
+import { storeUploadedFiles } from '../utils/assets';
+import { changeOrderStatus, changeReturnStatus } from '../utils/orderStatus';
 
 // Extend Request interface to include user data
 interface AuthRequest extends Request {
@@ -10,135 +31,368 @@ interface AuthRequest extends Request {
     userId: string;
     role: string;
     email: string;
+    exp?: number;
   };
 }
 
+// Maximum number of photos a buyer may attach to a return request
+const MAX_RETURN_PHOTOS = 5;
+
+// A requested order line after it has been checked against the live product
+interface ValidatedOrderLine extends IOrderProduct {
+  sellerId: string;
+  title: string;
+  category: string;        // Category ID, for coupon restrictions
+  discount: number;        // This line's share of the coupon discount
+}
+
+type OrderLinesResult =
+  | { lines: ValidatedOrderLine[]; subtotal: number }
+  | { status: number; message: string };
+
+type OrderPricingResult =
+  | { couponDiscount: CouponDiscount | null; total: number }
+  | { status: number; message: string };
+
+// Generate a checkout ID shared by all orders placed in one purchase
+const generateCheckoutId = (): string => {
+  const timestamp = Date.now().toString();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `CHK-${timestamp}-${randomStr}`;
+};
+
+// What the buyer needs to finish an online payment
+const toPaymentSummary = (payment: IPayment) => ({
+  id: payment._id,
+  status: payment.status,
+  amount: payment.amount,
+  currency: payment.currency,
+  redirectUrl: payment.redirectUrl
+});
+
+// Check a requested status change against the transition table and permissions:
+// order:update_status:any may override the table when a reason is given, the
+// order's seller (order:update_status:own) moves it along the table, and the
+// order's buyer (order:cancel:own) may only cancel it while it is Pending.
+const validateStatusChange = async (
+  order: IOrder,
+  userId: string,
+  userRole: string | undefined,
+  status: OrderStatus,
+  reason: string | undefined
+): Promise<{ status: number; message: string } | null> => {
+  const previousStatus = order.status;
+
+  if (status === previousStatus) {
+    return { status: 400, message: `Order is already ${status}` };
+  }
+
+  const isAllowedTransition = canTransitionStatus(previousStatus, status);
+  const permissions = await getRolePermissions(userRole);
+
+  if (permissions.has('order:update_status:any')) {
+    if (!isAllowedTransition && !reason) {
+      return {
+        status: 400,
+        message: `A reason is required to override the order status from ${previousStatus} to ${status}`
+      };
+    }
+    return null;
+  }
+
+  if (permissions.has('order:update_status:own') && order.sellerId.toString() === userId) {
+    if (!isAllowedTransition) {
+      return { status: 400, message: `Cannot change order status from ${previousStatus} to ${status}` };
+    }
+    return null;
+  }
+
+  if (permissions.has('order:cancel:own') && order.buyerId.toString() === userId) {
+    if (status !== 'Cancelled' || previousStatus !== 'Pending') {
+      return { status: 403, message: 'Buyers can only cancel orders that are still Pending' };
+    }
+    return null;
+  }
+
+  return { status: 403, message: 'Unauthorized to update this order' };
+};
+
+// Validate the request body shared by createOrder and checkout
+const validateOrderRequest = async (
+  buyerId: string | undefined,
+  body: any
+): Promise<{ status: number; message: string } | null> => {
+  const { products, totalAmount, couponCode } = body;
+
+  if (!buyerId) {
+    return { status: 401, message: 'Authentication required' };
+  }
+
+  // Validate required fields
+  if (!products || !Array.isArray(products) || products.length === 0) {
+    return { status: 400, message: 'Products are required' };
+  }
+
+  // A coupon may bring the total down to zero
+  if (typeof totalAmount !== 'number' || totalAmount < 0) {
+    return { status: 400, message: 'Valid total amount is required' };
+  }
+
+  if (couponCode !== undefined && (typeof couponCode !== 'string' || !couponCode.trim())) {
+    return { status: 400, message: 'Invalid coupon code' };
+  }
+
+  if (body.paymentMethod === 'Online Payment' && !isOnlinePaymentEnabled()) {
+    return { status: 400, message: 'Online payment is not available' };
+  }
+
+  // Verify buyer exists (permission to place orders is checked by the route)
+  const buyer = await User.findById(buyerId);
+  if (!buyer) {
+    return { status: 404, message: 'Buyer not found' };
+  }
+
+  return null;
+};
+
+// Check every requested line against the current product price, status and stock.
+// Products sold in variants are priced and stocked per variant, so the buyer must pick one.
+const validateOrderLines = async (products: any[]): Promise<OrderLinesResult> => {
+  const lines: ValidatedOrderLine[] = [];
+  let subtotal = 0;
+
+  for (const item of products) {
+    const { productId, variantId, quantity, price } = item;
+
+    if (!productId || !quantity || quantity <= 0 || !price || price <= 0) {
+      return { status: 400, message: 'Invalid product data' };
+    }
+
+    if (variantId !== undefined && (typeof variantId !== 'string' || !mongoose.Types.ObjectId.isValid(variantId))) {
+      return { status: 400, message: 'Invalid variant ID format' };
+    }
+
+    // Verify product exists and is active
+    const product = await Product.findById(productId);
+    if (!product || !product.isActive) {
+      return { status: 400, message: `Product ${productId} not found or inactive` };
+    }
+
+    const variant = findVariant(product, variantId);
+    if (product.variants.length > 0 && !variant) {
+      return { status: 400, message: `Please choose an available option for ${product.title}` };
+    }
+    if (product.variants.length === 0 && variantId) {
+      return { status: 400, message: `${product.title} has no variants` };
+    }
+
+    const title = variant ? `${product.title} (${formatVariantOptions(variant.options)})` : product.title;
+    const available = variant ? variant.stock : product.stock;
+
+    // Verify price matches current product (or variant) price
+    if (getUnitPrice(product, variant) !== price) {
+      return { status: 400, message: `Price mismatch for product ${title}` };
+    }
+
+    // Reject early when the listing clearly cannot cover the quantity
+    if (available < quantity) {
+      return {
+        status: 400,
+        message: `Insufficient stock for product ${title}. Available: ${available}`
+      };
+    }
+
+    lines.push({
+      productId: new mongoose.Types.ObjectId(product._id),
+      ...(variant ? {
+        variantId: variant._id,
+        sku: variant.sku,
+        variantOptions: variant.options.map(({ name, value }) => ({ name, value }))
+      } : {}),
+      quantity,
+      price,
+      sellerId: product.sellerId.toString(),
+      title,
+      category: product.category.toString(),
+      discount: 0
+    });
+
+    subtotal += price * quantity;
+  }
+
+  return { lines, subtotal };
+};
+
+// Apply the buyer's coupon (if any) to the validated lines, recording each
+// line's share of the discount, and check the client's total against the result
+const priceOrderLines = async (
+  buyerId: string,
+  lines: ValidatedOrderLine[],
+  subtotal: number,
+  couponCode: string | undefined,
+  totalAmount: number
+): Promise<OrderPricingResult> => {
+  let couponDiscount: CouponDiscount | null = null;
+
+  if (couponCode) {
+    const result = await evaluateCoupon(couponCode, buyerId, lines);
+    if ('status' in result) {
+      return result;
+    }
+    couponDiscount = result;
+    lines.forEach((line, index) => {
+      line.discount = result.lineDiscounts[index];
+    });
+  }
+
+  const total = roundMoney(subtotal - (couponDiscount?.discount || 0));
+
+  // Verify calculated total matches provided total
+  if (Math.abs(total - totalAmount) > 0.01) {
+    return { status: 400, message: 'Total amount mismatch' };
+  }
+
+  return { couponDiscount, total };
+};
+
+// Subtotal, discount lines and total for an order made of these lines
+const buildOrderAmounts = (lines: ValidatedOrderLine[], couponDiscount: CouponDiscount | null) => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+  const discountTotal = roundMoney(lines.reduce((sum, line) => sum + line.discount, 0));
+
+  return {
+    subtotal,
+    discounts: couponDiscount && discountTotal > 0 ? [{
+      couponId: couponDiscount.coupon._id,
+      code: couponDiscount.coupon.code,
+      description: couponDiscount.coupon.description,
+      amount: discountTotal
+    }] : [],
+    discountTotal,
+    totalAmount: roundMoney(subtotal - discountTotal)
+  };
+};
+
+// Strip the bookkeeping fields before persisting lines on an order
+const toOrderProducts = (lines: ValidatedOrderLine[]): IOrderProduct[] =>
+  lines.map(({ productId, variantId, sku, variantOptions, quantity, price }) => ({
+    productId,
+    ...(variantId ? { variantId, sku, variantOptions } : {}),
+    quantity,
+    price
+  }));
+
 // Create new order
 export const createOrder = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { products, totalAmount, shippingAddress, customerInfo, paymentMethod } = req.body;
+    const { products, totalAmount, paymentMethod, couponCode } = req.body;
     const buyerId = req.user?.userId;
 
-    if (!buyerId) {
-      res.status(401).json({
+    const requestError = await validateOrderRequest(buyerId, req.body);
+    if (requestError) {
+      res.status(requestError.status).json({
         success: false,
-        message: 'Authentication required'
+        message: requestError.message
       });
       return;
     }
 
-    // Validate required fields
-    if (!products || !Array.isArray(products) || products.length === 0) {
-      res.status(400).json({
+    // Saved address (addressId) or a structured address sent with the order
+    const shipping = await resolveShippingAddress(buyerId!, req.body);
+    if ('status' in shipping) {
+      res.status(shipping.status).json({
         success: false,
-        message: 'Products are required'
+        message: shipping.message
       });
       return;
     }
 
-    if (!totalAmount || totalAmount <= 0) {
-      res.status(400).json({
+    // Validate and process products
+    const validated = await validateOrderLines(products);
+    if ('status' in validated) {
+      res.status(validated.status).json({
         success: false,
-        message: 'Valid total amount is required'
+        message: validated.message
       });
       return;
     }
 
-    if (!shippingAddress || !shippingAddress.trim()) {
-      res.status(400).json({
+    const priced = await priceOrderLines(buyerId!, validated.lines, validated.subtotal, couponCode, totalAmount);
+    if ('status' in priced) {
+      res.status(priced.status).json({
         success: false,
-        message: 'Shipping address is required'
+        message: priced.message
       });
       return;
     }
 
-    // Verify buyer exists and has buyer role
-    const buyer = await User.findById(buyerId);
-    if (!buyer || buyer.role !== 'buyer') {
-      res.status(403).json({
+    // A single order belongs to one seller; mixed carts go through checkout
+    const sellerId = validated.lines[0].sellerId;
+    if (validated.lines.some(line => line.sellerId !== sellerId)) {
+      res.status(400).json({
         success: false,
-        message: 'Only buyers can create orders'
+        message: 'All products in an order must be from the same seller. Use checkout for mixed carts.'
       });
       return;
     }
 
-    // Validate and process products
-    const validatedProducts: IOrderProduct[] = [];
-    let calculatedTotal = 0;
-    let sellerId: string | null = null;
-
-    for (const item of products) {
-      const { productId, quantity, price } = item;
-
-      if (!productId || !quantity || quantity <= 0 || !price || price <= 0) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid product data'
-        });
-        return;
-      }
-
-      // Verify product exists and is active
-      const product = await Product.findById(productId).populate('sellerId');
-      if (!product || !product.isActive) {
-        res.status(400).json({
-          success: false,
-          message: `Product ${productId} not found or inactive`
-        });
-        return;
-      }
+    const validatedProducts = toOrderProducts(validated.lines);
 
-      // Verify price matches current product price
-      if (product.price !== price) {
-        res.status(400).json({
-          success: false,
-          message: `Price mismatch for product ${product.title}`
-        });
-        return;
-      }
-
-      // For simplicity, we'll assume all products in one order are from the same seller
-      // In a real marketplace, you'd need to split orders by seller
-      if (!sellerId) {
-        sellerId = product.sellerId.toString();
-      } else if (sellerId !== product.sellerId.toString()) {
-        res.status(400).json({
-          success: false,
-          message: 'All products in an order must be from the same seller'
-        });
-        return;
-      }
-
-      validatedProducts.push({
-        productId: new mongoose.Types.ObjectId(product._id),
-        quantity,
-        price
+    // Reserve stock atomically so concurrent orders cannot oversell
+    const unavailable = await reserveStock(validatedProducts);
+    if (unavailable) {
+      const line = validated.lines[validatedProducts.findIndex(p => p === unavailable)];
+      res.status(409).json({
+        success: false,
+        message: `Insufficient stock for product ${line?.title}`
       });
-
-      calculatedTotal += price * quantity;
+      return;
     }
 
-    // Verify calculated total matches provided total
-    if (Math.abs(calculatedTotal - totalAmount) > 0.01) {
-      res.status(400).json({
+    // Claim the coupon before placing the order so its usage caps hold
+    const checkoutId = generateCheckoutId();
+    const { couponDiscount } = priced;
+    if (couponDiscount && !(await redeemCoupon(couponDiscount.coupon, buyerId!, checkoutId, couponDiscount.discount))) {
+      await releaseStock(validatedProducts);
+      res.status(409).json({
         success: false,
-        message: 'Total amount mismatch'
+        message: 'This coupon has reached its usage limit'
       });
       return;
     }
 
     // Create the order
     const newOrder = new Order({
+      checkoutId,
       buyerId,
       sellerId,
       products: validatedProducts,
-      totalAmount: calculatedTotal,
-      shippingAddress: shippingAddress.trim(),
+      ...buildOrderAmounts(validated.lines, couponDiscount),
+      shippingAddress: shipping.address,
       paymentMethod: paymentMethod || 'Cash on Delivery',
       status: 'Pending'
     });
 
-    const savedOrder = await newOrder.save();
+    let savedOrder;
+    let payment: IPayment | undefined;
+    try {
+      savedOrder = await newOrder.save();
+      if (savedOrder.paymentMethod === 'Online Payment') {
+        payment = await startCheckoutPayment(savedOrder.checkoutId!, buyerId!, [savedOrder]);
+      }
+    } catch (error) {
+      // Give the reserved units and coupon back if the order or its payment could not be created
+      if (savedOrder) {
+        await Order.deleteOne({ _id: savedOrder._id });
+      }
+      await releaseStock(validatedProducts);
+      if (couponDiscount) {
+        await releaseCoupon(couponDiscount.coupon, checkoutId);
+      }
+      throw error;
+    }
+
+    emitAppEvent('order.created', { order: savedOrder });
 
     // Populate order with buyer and seller info
     const populatedOrder = await Order.findById(savedOrder._id)
@@ -149,7 +403,8 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
     res.status(201).json({
       success: true,
       message: 'Order created successfully',
-      data: populatedOrder
+      data: populatedOrder,
+      ...(payment && { payment: toPaymentSummary(payment) })
     });
 
   } catch (error) {
@@ -162,9 +417,154 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
-// Get user orders (buyer or seller)
-export const getUserOrders = async (req: AuthRequest, res: Response): Promise<void> => {
+// Checkout a mixed cart: one order per seller, grouped under a shared checkout ID
+export const checkout = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
+    const { products, totalAmount, paymentMethod, couponCode } = req.body;
+    const buyerId = req.user?.userId;
+
+    const requestError = await validateOrderRequest(buyerId, req.body);
+    if (requestError) {
+      res.status(requestError.status).json({
+        success: false,
+        message: requestError.message
+      });
+      return;
+    }
+
+    // Saved address (addressId) or a structured address sent with the order
+    const shipping = await resolveShippingAddress(buyerId!, req.body);
+    if ('status' in shipping) {
+      res.status(shipping.status).json({
+        success: false,
+        message: shipping.message
+      });
+      return;
+    }
+
+    const validated = await validateOrderLines(products);
+    if ('status' in validated) {
+      res.status(validated.status).json({
+        success: false,
+        message: validated.message
+      });
+      return;
+    }
+
+    // A coupon covering several sellers is split across their orders
+    const priced = await priceOrderLines(buyerId!, validated.lines, validated.subtotal, couponCode, totalAmount);
+    if ('status' in priced) {
+      res.status(priced.status).json({
+        success: false,
+        message: priced.message
+      });
+      return;
+    }
+
+    // Reserve stock for the whole cart up front so either every seller's order
+    // is placed or none are
+    const allProducts = toOrderProducts(validated.lines);
+    const unavailable = await reserveStock(allProducts);
+    if (unavailable) {
+      const line = validated.lines[allProducts.findIndex(p => p === unavailable)];
+      res.status(409).json({
+        success: false,
+        message: `Insufficient stock for product ${line?.title}`
+      });
+      return;
+    }
+
+    // Group lines by seller
+    const linesBySeller = new Map<string, ValidatedOrderLine[]>();
+    for (const line of validated.lines) {
+      const sellerLines = linesBySeller.get(line.sellerId) || [];
+      sellerLines.push(line);
+      linesBySeller.set(line.sellerId, sellerLines);
+    }
+
+    const checkoutId = generateCheckoutId();
+    const savedOrders: IOrder[] = [];
+    const savedOrderIds: string[] = [];
+    let payment: IPayment | undefined;
+
+    const { couponDiscount } = priced;
+    if (couponDiscount && !(await redeemCoupon(couponDiscount.coupon, buyerId!, checkoutId, couponDiscount.discount))) {
+      await releaseStock(allProducts);
+      res.status(409).json({
+        success: false,
+        message: 'This coupon has reached its usage limit'
+      });
+      return;
+    }
+
+    try {
+      for (const [sellerId, sellerLines] of linesBySeller) {
+        const order = new Order({
+          checkoutId,
+          buyerId,
+          sellerId,
+          products: toOrderProducts(sellerLines),
+          ...buildOrderAmounts(sellerLines, couponDiscount),
+          shippingAddress: shipping.address,
+          paymentMethod: paymentMethod || 'Cash on Delivery',
+          status: 'Pending'
+        });
+
+        const savedOrder = await order.save();
+        savedOrders.push(savedOrder);
+        savedOrderIds.push(savedOrder._id);
+      }
+
+      // One online payment covers every seller's order in the checkout
+      if (paymentMethod === 'Online Payment') {
+        const placedOrders = await Order.find({ _id: { $in: savedOrderIds } });
+        payment = await startCheckoutPayment(checkoutId, buyerId!, placedOrders);
+      }
+    } catch (error) {
+      // Undo the partial checkout: remove placed orders, return the stock and the coupon
+      await Order.deleteMany({ _id: { $in: savedOrderIds } });
+      await releaseStock(allProducts);
+      if (couponDiscount) {
+        await releaseCoupon(couponDiscount.coupon, checkoutId);
+      }
+      throw error;
+    }
+
+    savedOrders.forEach(order => emitAppEvent('order.created', { order }));
+
+    const orders = await Order.find({ _id: { $in: savedOrderIds } })
+      .populate('buyerId', 'name email')
+      .populate('sellerId', 'name email')
+      .populate('products.productId', 'title images')
+      .sort({ orderDate: 1 });
+
+    res.status(201).json({
+      success: true,
+      message: `Checkout completed with ${orders.length} order(s)`,
+      data: {
+        checkoutId,
+        subtotal: validated.subtotal,
+        discountTotal: couponDiscount?.discount || 0,
+        totalAmount: priced.total,
+        orders,
+        ...(payment && { payment: toPaymentSummary(payment) })
+      }
+    });
+
+  } catch (error) {
+    console.error('Checkout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to complete checkout',
+      error: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+// Get all orders placed in a single checkout
+export const getCheckoutOrders = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { checkoutId } = req.params;
     const userId = req.user?.userId;
     const userRole = req.user?.role;
 
@@ -176,23 +576,66 @@ export const getUserOrders = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    let query: any = {};
-    
-    // Filter orders based on user role
-    if (userRole === 'buyer') {
+    const query: any = { checkoutId };
+    if (!(await hasPermission(userRole, 'order:read:any'))) {
       query.buyerId = userId;
-    } else if (userRole === 'seller') {
-      query.sellerId = userId;
-    } else if (userRole === 'admin') {
-      // Admin can see all orders - no filter needed
-    } else {
-      res.status(403).json({
+    }
+
+    const orders = await Order.find(query)
+      .populate('buyerId', 'name email')
+      .populate('sellerId', 'name email')
+      .populate('products.productId', 'title images price')
+      .sort({ orderDate: 1 });
+
+    if (orders.length === 0) {
+      res.status(404).json({
         success: false,
-        message: 'Unauthorized access'
+        message: 'Checkout not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        checkoutId,
+        totalAmount: orders.reduce((sum, order) => sum + order.totalAmount, 0),
+        orders
+      }
+    });
+
+  } catch (error) {
+    console.error('Get checkout orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch checkout',
+      error: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+// Get user orders (buyer or seller)
+export const getUserOrders = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
       });
       return;
     }
 
+    let query: any = {};
+
+    // Roles with order:read:any see every order; everyone else sees the orders
+    // they placed (buyers) or received (sellers)
+    if (!(await hasPermission(userRole, 'order:read:any'))) {
+      query = { $or: [{ buyerId: userId }, { sellerId: userId }] };
+    }
+
     const orders = await Order.find(query)
       .populate('buyerId', 'name email')
       .populate('sellerId', 'name email')
@@ -214,6 +657,29 @@ export const getUserOrders = async (req: AuthRequest, res: Response): Promise<vo
   }
 };
 
+// Stream order events the user can see: their own orders, or every order with
+// order:read:any (Server-Sent Events)
+export const streamOrderEvents = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const seesAll = await hasPermission(req.user?.role, 'order:read:any');
+
+    openOrderStream(req, res, {
+      userId,
+      seesAll,
+      expiresAt: req.user?.exp ? req.user.exp * 1000 : undefined
+    });
+
+  } catch (error) {
+    console.error('Stream order events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to open order event stream',
+      error: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
 // Get single order by ID
 export const getOrderById = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -243,7 +709,7 @@ export const getOrderById = async (req: AuthRequest, res: Response): Promise<voi
     }
 
     // Check if user has permission to view this order
-    const canView = userRole === 'admin' || 
+    const canView = await hasPermission(userRole, 'order:read:any') ||
                    order.buyerId._id.toString() === userId || 
                    order.sellerId._id.toString() === userId;
 
@@ -275,6 +741,7 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
   try {
     const { id } = req.params;
     const { status } = req.body;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : undefined;
     const userId = req.user?.userId;
     const userRole = req.user?.role;
 
@@ -287,8 +754,7 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
     }
 
     // Validate status
-    const validStatuses = ['Pending', 'Processing', 'Out for Delivery', 'Completed', 'Cancelled'];
-    if (!status || !validStatuses.includes(status)) {
+    if (!status || !ORDER_STATUSES.includes(status)) {
       res.status(400).json({
         success: false,
         message: 'Invalid status value'
@@ -305,29 +771,47 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    // Check if user has permission to update this order
-    const canUpdate = userRole === 'admin' || 
-                     (userRole === 'seller' && order.sellerId.toString() === userId);
+    // Check the transition and whether this user's role may perform it
+    const statusError = await validateStatusChange(order, userId, userRole, status, reason);
+    if (statusError) {
+      res.status(statusError.status).json({
+        success: false,
+        message: statusError.message
+      });
+      return;
+    }
 
-    if (!canUpdate) {
-      res.status(403).json({
+    // Online orders are only fulfilled once their payment has been captured
+    if (order.paymentId && order.paymentStatus !== 'Paid' && status !== 'Cancelled') {
+      res.status(409).json({
         success: false,
-        message: 'Unauthorized to update this order'
+        message: `Order is awaiting online payment (payment status: ${order.paymentStatus})`
       });
       return;
     }
 
-    // Update order status
-    order.status = status as any;
-    
-    // Add status change to history
-    order.statusHistory.push({
+    const previousStatus = order.status;
+    const result = await changeOrderStatus(order, {
       status,
-      timestamp: new Date(),
-      updatedBy: userId as any
+      userId,
+      reason,
+      isOverride: !canTransitionStatus(previousStatus, status)
     });
+    if (!('order' in result)) {
+      res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+      return;
+    }
+    const updatedOrder = result.order;
 
-    const updatedOrder = await order.save();
+    emitAppEvent('order.status_changed', {
+      order: updatedOrder,
+      previousStatus,
+      changedBy: userId,
+      reason
+    });
 
     // Populate and return updated order
     const populatedOrder = await Order.findById(updatedOrder._id)
@@ -349,4 +833,296 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
       error: process.env.NODE_ENV === 'development' ? error : undefined
     });
   }
-};
\ No newline at end of file
+};
+// Open a return request on a Completed order (buyers only).
+// Sent as multipart form data so photos can be attached; `items` is then a JSON string.
+export const requestReturn = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    if (reason.length < 10) {
+      res.status(400).json({
+        success: false,
+        message: 'Return reason must be at least 10 characters'
+      });
+      return;
+    }
+
+    let items = req.body.items;
+    if (typeof items === 'string') {
+      try {
+        items = JSON.parse(items);
+      } catch {
+        items = null;
+      }
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Select at least one product to return'
+      });
+      return;
+    }
+
+    if (files.length > MAX_RETURN_PHOTOS) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot attach more than ${MAX_RETURN_PHOTOS} photos to a return request`
+      });
+      return;
+    }
+
+    const order = await Order.findById(id);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+      return;
+    }
+
+    if (order.buyerId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Unauthorized to request a return for this order'
+      });
+      return;
+    }
+
+    if (order.status !== 'Completed') {
+      res.status(400).json({
+        success: false,
+        message: 'Returns can only be requested for completed orders'
+      });
+      return;
+    }
+
+    if (order.returnRequest) {
+      res.status(409).json({
+        success: false,
+        message: 'A return has already been requested for this order'
+      });
+      return;
+    }
+
+    // Each returned line must belong to the order and not exceed the ordered quantity
+    const returnItems: IReturnItem[] = [];
+    let refundAmount = 0;
+
+    for (const item of items) {
+      const productId = String(item?.productId);
+      const variantId = item?.variantId ? String(item.variantId) : undefined;
+      const quantity = Number(item?.quantity);
+      // Lines are identified by product and, for products sold in variants, the variant
+      const isSameLine = (line: { productId: mongoose.Types.ObjectId; variantId?: mongoose.Types.ObjectId }) =>
+        line.productId.toString() === productId && line.variantId?.toString() === variantId;
+      const label = variantId ? `${productId} (variant ${variantId})` : productId;
+      const orderLine = order.products.find(isSameLine);
+
+      if (!orderLine) {
+        res.status(400).json({
+          success: false,
+          message: `Product ${label} is not part of this order`
+        });
+        return;
+      }
+
+      if (returnItems.some(isSameLine)) {
+        res.status(400).json({
+          success: false,
+          message: `Product ${label} is listed more than once`
+        });
+        return;
+      }
+
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > orderLine.quantity) {
+        res.status(400).json({
+          success: false,
+          message: `Return quantity for product ${label} must be between 1 and ${orderLine.quantity}`
+        });
+        return;
+      }
+
+      returnItems.push({
+        productId: orderLine.productId,
+        ...(orderLine.variantId ? { variantId: orderLine.variantId } : {}),
+        quantity
+      });
+      refundAmount += orderLine.price * quantity;
+    }
+
+    // Discounted orders refund what the buyer actually paid for the returned items
+    if (order.discountTotal > 0 && order.subtotal) {
+      refundAmount = roundMoney(refundAmount * order.totalAmount / order.subtotal);
+    }
+
+    // Store photos from memory buffer (all or none)
+    const assets = await storeUploadedFiles(files, {
+      ownerId: userId,
+      folder: `returns/${order._id}`,
+      purpose: 'return_photo'
+    });
+
+    const requestedAt = new Date();
+    order.returnRequest = {
+      status: 'Requested',
+      reason,
+      items: returnItems,
+      photos: assets.map(asset => asset.url),
+      refundAmount,
+      requestedAt,
+      history: [{
+        status: 'Requested',
+        timestamp: requestedAt,
+        updatedBy: userId as any,
+        note: reason
+      }]
+    };
+
+    const updatedOrder = await order.save();
+
+    const populatedOrder = await Order.findById(updatedOrder._id)
+      .populate('buyerId', 'name email')
+      .populate('sellerId', 'name email')
+      .populate('products.productId', 'title images price');
+
+    res.status(201).json({
+      success: true,
+      message: 'Return requested successfully',
+      data: populatedOrder
+    });
+
+  } catch (error: any) {
+    console.error('Request return error:', error);
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      res.status(400).json({
+        success: false,
+        message: firstError?.message || 'Return request validation failed'
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to request return',
+      error: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+// Approve, reject or mark a return request refunded (order's seller or admins)
+export const updateReturnStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+    const note = typeof req.body.note === 'string' ? req.body.note.trim() : undefined;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    if (!status || !RETURN_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid return status value'
+      });
+      return;
+    }
+
+    // Buyers see why their return was turned down
+    if (status === 'Rejected' && !note) {
+      res.status(400).json({
+        success: false,
+        message: 'A note is required when rejecting a return'
+      });
+      return;
+    }
+
+    const order = await Order.findById(id);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+      return;
+    }
+
+    const canUpdate = await hasPermission(userRole, 'order:return:review:any') ||
+                     (order.sellerId.toString() === userId && await hasPermission(userRole, 'order:return:review:own'));
+
+    if (!canUpdate) {
+      res.status(403).json({
+        success: false,
+        message: 'Unauthorized to update this return'
+      });
+      return;
+    }
+
+    const returnRequest = order.returnRequest;
+    if (!returnRequest) {
+      res.status(404).json({
+        success: false,
+        message: 'No return has been requested for this order'
+      });
+      return;
+    }
+
+    const previousStatus = returnRequest.status;
+    if (!RETURN_STATUS_TRANSITIONS[previousStatus].includes(status)) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot change return status from ${previousStatus} to ${status}`
+      });
+      return;
+    }
+
+    const result = await changeReturnStatus(order, { status, userId, note });
+    if (!('order' in result)) {
+      res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+      return;
+    }
+    const updatedOrder = result.order;
+
+    const populatedOrder = await Order.findById(updatedOrder._id)
+      .populate('buyerId', 'name email')
+      .populate('sellerId', 'name email')
+      .populate('products.productId', 'title images price');
+
+    res.json({
+      success: true,
+      message: `Return ${status.toLowerCase()} successfully`,
+      data: populatedOrder
+    });
+
+  } catch (error) {
+    console.error('Update return status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update return status',
+      error: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import Payment from '../models/Payment';
+import Order from '../models/Order';
+import { getPaymentProvider, isOnlinePaymentEnabled, MockPaymentProvider } from '../config/payments';
+import { applyPaymentEvent } from '../utils/payments';
+import { hasPermission } from '../utils/permissions';
+import { MockPaymentInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+import { securityLogger, SecurityLogLevel, SecurityEventType } from '../middleware/securityLogger';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Header carrying the provider's "t=...,v1=..." webhook signature
+const SIGNATURE_HEADER = 'x-payment-signature';
+
+// Payment methods buyers can choose at checkout
+export const getPaymentMethods = async (req: Request, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: {
+      methods: isOnlinePaymentEnabled() ? ['Cash on Delivery', 'Online Payment'] : ['Cash on Delivery']
+    }
+  });
+};
+
+// Receive a payment event from the provider.
+// The signature is checked against the raw body before anything is parsed or applied.
+export const handleWebhook = async (req: Request, res: Response) => {
+  try {
+    const provider = isOnlinePaymentEnabled() ? getPaymentProvider() : null;
+
+    if (!provider || req.params.provider !== provider.name) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unknown payment provider'
+      });
+    }
+
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody || !provider.verifyWebhookSignature(rawBody, req.get(SIGNATURE_HEADER))) {
+      securityLogger.log(
+        SecurityLogLevel.WARNING,
+        SecurityEventType.SUSPICIOUS_ACTIVITY,
+        'Payment webhook with invalid signature rejected',
+        req,
+        { provider: provider.name },
+        false
+      );
+
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid webhook signature'
+      });
+    }
+
+    const event = provider.parseWebhookEvent(rawBody);
+    const result = await applyPaymentEvent(event);
+
+    // Duplicates and unknown payments are acknowledged so the provider stops retrying
+    return res.status(200).json({
+      success: true,
+      message: 'Webhook received',
+      data: { received: true, result }
+    });
+  } catch (error: any) {
+    console.error('Payment webhook error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to process webhook',
+      error: error.message
+    });
+  }
+};
+
+// Get the payment for a checkout, for its buyer or staff who can read any order
+export const getCheckoutPayment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { checkoutId } = req.params;
+    const userId = req.user?.userId;
+
+    const payment = await Payment.findOne({ checkoutId }).sort({ createdAt: -1 });
+
+    if (!payment || (payment.buyerId.toString() !== userId && !(await hasPermission(req.user?.role, 'order:read:any')))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
+    }
+
+    const orders = await Order.find({ _id: { $in: payment.orderIds } })
+      .select('orderId status paymentStatus totalAmount sellerId')
+      .populate('sellerId', 'name');
+
+    return res.status(200).json({
+      success: true,
+      message: 'Payment retrieved successfully',
+      data: {
+        _id: payment._id,
+        checkoutId: payment.checkoutId,
+        provider: payment.provider,
+        providerPaymentId: payment.providerPaymentId,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        capturedAmount: payment.capturedAmount,
+        refundedAmount: payment.refundedAmount,
+        failureReason: payment.failureReason,
+        redirectUrl: payment.redirectUrl,
+        history: payment.history,
+        orders,
+        createdAt: payment.createdAt,
+        updatedAt: payment.updatedAt
+      }
+    });
+  } catch (error: any) {
+    console.error('Get checkout payment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payment',
+      error: error.message
+    });
+  }
+};
+
+// Approve or decline a mock payment from the local payment page. The mock
+// gateway sends itself a signed webhook, so the normal webhook path is exercised.
+export const completeMockPayment = async (req: AuthRequest, res: Response) => {
+  try {
+    const provider = isOnlinePaymentEnabled() ? getPaymentProvider() : null;
+
+    if (!(provider instanceof MockPaymentProvider) || process.env.NODE_ENV === 'production') {
+      return res.status(404).json({
+        success: false,
+        message: 'Mock payments are not available'
+      });
+    }
+
+    const { providerPaymentId } = req.params;
+    const { outcome, failureReason } = req.body as MockPaymentInput;
+
+    const payment = await Payment.findOne({ providerPaymentId });
+    if (!payment || payment.buyerId.toString() !== req.user?.userId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
+    }
+
+    if (payment.status !== 'Pending') {
+      return res.status(409).json({
+        success: false,
+        message: `Payment is already ${payment.status.toLowerCase()}`
+      });
+    }
+
+    const webhook = provider.buildWebhook(
+      outcome === 'succeed'
+        ? { type: 'payment.authorized', providerPaymentId, amount: payment.amount }
+        : { type: 'payment.failed', providerPaymentId, failureReason: failureReason || 'Declined by the buyer' }
+    );
+
+    const rawBody = Buffer.from(webhook.body);
+    if (!provider.verifyWebhookSignature(rawBody, webhook.signature)) {
+      throw new Error('Mock webhook signature could not be verified');
+    }
+    await applyPaymentEvent(provider.parseWebhookEvent(rawBody));
+
+    const updated = await Payment.findById(payment._id);
+
+    return res.status(200).json({
+      success: true,
+      message: outcome === 'succeed' ? 'Payment completed' : 'Payment declined',
+      data: {
+        status: updated?.status,
+        checkoutId: payment.checkoutId
+      }
+    });
+  } catch (error: any) {
+    console.error('Mock payment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to complete mock payment',
+      error: error.message
+    });
+  }
+};
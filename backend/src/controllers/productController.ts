@@ -1,74 +1,82 @@
 import { Request, Response } from 'express';
 import Product, { IProduct } from '../models/Product';
+import User from '../models/User';
 import { 
   createProductSchema, 
   updateProductSchema, 
-  productQuerySchema,
   CreateProductInput,
   UpdateProductInput,
-  ProductQueryInput
+  ProductQueryInput,
+  SearchSuggestionQueryInput
 } from '../utils/validation';
 // Using the extended Request interface from authMiddleware
 import { JWTPayload } from '../config/jwt';
+import { storeUploadedFiles, removeStoredFile } from '../utils/assets';
+import { hasPermission } from '../utils/permissions';
+import { buildVariants } from '../utils/variants';
+import { isProductAvailable, notifyWishlistWatchers } from '../utils/wishlists';
+import { emitAppEvent } from '../utils/appEvents';
+import { CATEGORY_SUMMARY_FIELDS, findAssignableCategory, loadCategories, resolveCategoryFilter } from '../utils/categories';
+import {
+  buildProductFilters,
+  buildProductSort,
+  buildSearchPipeline,
+  combineFilters,
+  escapeRegex,
+  formatFacets
+} from '../utils/search';
 
 interface AuthRequest extends Request {
   user?: JWTPayload;
 }
 
+// Sellers manage their own products; roles with the ":any" permission
+// (e.g. catalog moderators, admins) manage every product
+const canManageProduct = async (
+  user: JWTPayload | undefined,
+  product: IProduct,
+  action: 'update' | 'delete'
+): Promise<boolean> => {
+  if (!user) return false;
+
+  if (await hasPermission(user.role, `product:${action}:any`)) {
+    return true;
+  }
+
+  return product.sellerId.toString() === user.userId &&
+    hasPermission(user.role, `product:${action}:own`);
+};
+
+// Related documents returned with a product
+const PRODUCT_POPULATE = [
+  { path: 'seller', select: 'name email' },
+  { path: 'category', select: CATEGORY_SUMMARY_FIELDS }
+];
+
 // Get all products with filtering and search
 export const getProducts = async (req: Request, res: Response) => {
   try {
-    // Validate query parameters
-    const validatedQuery = productQuerySchema.parse(req.query);
-    
+    const query = req.query as unknown as ProductQueryInput;
     const {
       search,
-      category,
-      minPrice,
-      maxPrice,
-      sellerId,
       page = 1,
       limit = 10,
-      sortBy = 'createdAt',
+      sortBy = search ? 'relevance' : 'createdAt',
       sortOrder = 'desc'
-    } = validatedQuery;
-
-    // Build filter object
-    const filter: any = { isActive: true };
-
-    // Add search functionality
-    if (search) {
-      filter.$text = { $search: search };
-    }
-
-    // Add category filter
-    if (category) {
-      filter.category = category;
-    }
-
-    // Add price range filter
-    if (minPrice !== undefined || maxPrice !== undefined) {
-      filter.price = {};
-      if (minPrice !== undefined) filter.price.$gte = minPrice;
-      if (maxPrice !== undefined) filter.price.$lte = maxPrice;
-    }
+    } = query;
 
-    // Add seller filter
-    if (sellerId) {
-      filter.sellerId = sellerId;
-    }
+    const filter = combineFilters(await buildProductFilters(query));
 
     // Calculate pagination
     const skip = (page - 1) * limit;
 
     // Build sort object
-    const sort: any = {};
-    sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    const sort = buildProductSort(sortBy, sortOrder, Boolean(search));
 
     // Execute query with pagination
     const [products, totalCount] = await Promise.all([
       Product.find(filter)
-        .populate('seller', 'name email')
+        .populate(PRODUCT_POPULATE)
         .sort(sort)
         .skip(skip)
         .limit(limit)
@@ -99,15 +107,6 @@ export const getProducts = async (req: Request, res: Response) => {
 
   } catch (error: any) {
     console.error('Get products error:', error);
-    
-    if (error.name === 'ZodError') {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid query parameters',
-        error: error.issues?.[0]?.message || 'Validation failed'
-      });
-    }
-
     res.status(500).json({
       success: false,
       message: 'Failed to retrieve products',
@@ -116,13 +115,104 @@ export const getProducts = async (req: Request, res: Response) => {
   }
 };
 
+// Search products. Takes the same filters as getProducts and also returns
+// facet counts for category, price range, seller and rating.
+export const searchProducts = async (req: Request, res: Response) => {
+  try {
+    const query = req.query as unknown as ProductQueryInput;
+    const {
+      search,
+      page = 1,
+      limit = 10,
+      sortBy = search ? 'relevance' : 'createdAt',
+      sortOrder = 'desc'
+    } = query;
+
+    const categories = await loadCategories({ isActive: true });
+    const filters = await buildProductFilters(query, categories);
+    const sort = buildProductSort(sortBy, sortOrder, Boolean(search));
+    const skip = (page - 1) * limit;
+
+    const [result] = await Product.aggregate(buildSearchPipeline(filters, sort, skip, limit));
+    const products = await Product.populate(result.results, PRODUCT_POPULATE);
+
+    const totalCount: number = result.total[0]?.count || 0;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        products,
+        facets: formatFacets(categories, result),
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      },
+      message: 'Products retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Search products error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search products',
+      error: error.message
+    });
+  }
+};
+
+// Typeahead suggestions: products whose title has a word starting with the
+// term, and categories whose name does
+export const getSearchSuggestions = async (req: Request, res: Response) => {
+  try {
+    const { q, limit } = req.query as unknown as SearchSuggestionQueryInput;
+    const wordPrefix = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegex(q)}`, 'iu');
+
+    const [products, categories] = await Promise.all([
+      Product.find({ isActive: true, title: wordPrefix })
+        .select('title images price')
+        .sort({ averageRating: -1, reviewCount: -1 })
+        .limit(limit)
+        .lean(),
+      loadCategories({ isActive: true, name: wordPrefix })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        products: products.map(product => ({
+          _id: product._id,
+          title: product.title,
+          price: product.price,
+          image: product.images[0] || null
+        })),
+        categories: categories.slice(0, limit).map(({ _id, name, slug, icon }) => ({ _id, name, slug, icon }))
+      },
+      message: 'Suggestions retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get search suggestions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve suggestions',
+      error: error.message
+    });
+  }
+};
+
 // Get single product by ID
 export const getProductById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
     const product = await Product.findOne({ _id: id, isActive: true })
-      .populate('seller', 'name email')
+      .populate(PRODUCT_POPULATE)
       .lean();
 
     if (!product) {
@@ -154,26 +244,58 @@ export const createProduct = async (req: AuthRequest, res: Response) => {
     // Validate input
     const validatedData: CreateProductInput = createProductSchema.parse(req.body);
 
-    // Check if user is seller
-    if (req.user?.role !== 'seller') {
+    // Permission to list products is enforced by the route
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    // Sellers must verify their email before listing products
+    const seller = await User.findById(req.user.userId).select('emailVerified');
+    if (!seller?.emailVerified) {
       return res.status(403).json({
         success: false,
-        message: 'Only sellers can create products'
+        message: 'Please verify your email address before listing products',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    const category = await findAssignableCategory(validatedData.category);
+    if ('status' in category) {
+      return res.status(category.status).json({
+        success: false,
+        message: category.message
       });
     }
 
     // Create product
+    const { variantOptions, variants, ...productData } = validatedData;
     const product = new Product({
-      ...validatedData,
+      ...productData,
       sellerId: req.user.userId,
       images: [], // Will be added via separate upload endpoint
       documents: [] // Will be added via separate upload endpoint
     });
 
+    // Generate one variant per combination of option values
+    if (variantOptions) {
+      const built = buildVariants(product, variantOptions, variants);
+      if ('status' in built) {
+        return res.status(built.status).json({
+          success: false,
+          message: built.message
+        });
+      }
+      product.variantOptions = variantOptions;
+      product.variants = built;
+    }
+
     await product.save();
 
-    // Populate seller info for response
-    await product.populate('seller', 'name email');
+    // Populate seller and category info for response
+    await product.populate(PRODUCT_POPULATE);
 
     res.status(201).json({
       success: true,
@@ -217,30 +339,64 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
     // Validate input
     const validatedData: UpdateProductInput = updateProductSchema.parse(req.body);
 
-    // Find product and check ownership
-    const product = await Product.findOne({ _id: id, isActive: true });
+    // Find product and check ownership; deleted products can only be restored
+    const product = await Product.findById(id);
 
-    if (!product) {
+    if (!product || (!product.isActive && !validatedData.isActive)) {
       return res.status(404).json({
         success: false,
         message: 'Product not found'
       });
     }
 
-    // Check if user is the seller of this product
-    if (req.user?.role !== 'seller' || product.sellerId.toString() !== req.user.userId) {
+    // Check if user may edit this product
+    if (!(await canManageProduct(req.user, product, 'update'))) {
       return res.status(403).json({
         success: false,
         message: 'You can only update your own products'
       });
     }
 
+    // Moving to another category requires it to be active
+    if (validatedData.category && validatedData.category !== product.category.toString()) {
+      const category = await findAssignableCategory(validatedData.category);
+      if ('status' in category) {
+        return res.status(category.status).json({
+          success: false,
+          message: category.message
+        });
+      }
+    }
+
+    // Regenerate variants when the options or variant settings change
+    const { variantOptions, variants, ...productData } = validatedData;
+    if (variantOptions || variants) {
+      const options = variantOptions ?? product.variantOptions;
+      const built = buildVariants(product, options, variants);
+      if ('status' in built) {
+        return res.status(built.status).json({
+          success: false,
+          message: built.message
+        });
+      }
+      product.variantOptions = options;
+      product.variants = built;
+    }
+
     // Update product
-    Object.assign(product, validatedData);
+    const previousPrice = product.price;
+    const wasAvailable = isProductAvailable(product);
+    Object.assign(product, productData);
     await product.save();
 
-    // Populate seller info for response
-    await product.populate('seller', 'name email');
+    // Tell buyers who saved the product about a lower price or that it is back
+    if (product.price < previousPrice || (!wasAvailable && isProductAvailable(product))) {
+      notifyWishlistWatchers(product, wasAvailable)
+        .catch(error => console.error('Wishlist notification error:', error));
+    }
+
+    // Populate seller and category info for response
+    await product.populate(PRODUCT_POPULATE);
 
     res.status(200).json({
       success: true,
@@ -291,8 +447,8 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if user is the seller of this product
-    if (req.user?.role !== 'seller' || product.sellerId.toString() !== req.user.userId) {
+    // Check if user may delete this product
+    if (!(await canManageProduct(req.user, product, 'delete'))) {
       return res.status(403).json({
         success: false,
         message: 'You can only delete your own products'
@@ -303,6 +459,8 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
     product.isActive = false;
     await product.save();
 
+    emitAppEvent('product.deactivated', { product, deactivatedBy: req.user!.userId });
+
     res.status(200).json({
       success: true,
       message: 'Product deleted successfully'
@@ -321,25 +479,22 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
 // Get seller's own products
 export const getSellerProducts = async (req: AuthRequest, res: Response) => {
   try {
-    // Check if user is seller
-    if (req.user?.role !== 'seller') {
-      return res.status(403).json({
+    if (!req.user) {
+      return res.status(401).json({
         success: false,
-        message: 'Only sellers can access this endpoint'
+        message: 'Authentication required'
       });
     }
 
-    // Validate query parameters
-    const validatedQuery = productQuerySchema.parse(req.query);
-    
     const {
       search,
       category,
+      lowStock,
       page = 1,
       limit = 10,
-      sortBy = 'createdAt',
+      sortBy = search ? 'relevance' : 'createdAt',
       sortOrder = 'desc'
-    } = validatedQuery;
+    } = req.query as unknown as ProductQueryInput;
 
     // Build filter object for seller's products
     const filter: any = { 
@@ -347,26 +502,31 @@ export const getSellerProducts = async (req: AuthRequest, res: Response) => {
       isActive: true 
     };
 
+    // Only products at or below their low-stock threshold
+    if (lowStock === 'true') {
+      filter.$expr = { $lte: ['$stock', '$lowStockThreshold'] };
+    }
+
     // Add search functionality
     if (search) {
       filter.$text = { $search: search };
     }
 
-    // Add category filter
+    // Add category filter (the category and its subcategories)
     if (category) {
-      filter.category = category;
+      filter.category = await resolveCategoryFilter(category);
     }
 
     // Calculate pagination
     const skip = (page - 1) * limit;
 
     // Build sort object
-    const sort: any = {};
-    sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    const sort = buildProductSort(sortBy, sortOrder, Boolean(search));
 
     // Execute query with pagination
     const [products, totalCount] = await Promise.all([
       Product.find(filter)
+        .populate({ path: 'category', select: CATEGORY_SUMMARY_FIELDS })
         .sort(sort)
         .skip(skip)
         .limit(limit)
@@ -397,15 +557,6 @@ export const getSellerProducts = async (req: AuthRequest, res: Response) => {
 
   } catch (error: any) {
     console.error('Get seller products error:', error);
-    
-    if (error.name === 'ZodError') {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid query parameters',
-        error: error.errors[0]?.message || 'Validation failed'
-      });
-    }
-
     res.status(500).json({
       success: false,
       message: 'Failed to retrieve seller products',
@@ -414,7 +565,7 @@ export const getSellerProducts = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// Upload product images to Cloudinary
+// Upload product images to file storage
 export const uploadProductImages = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
@@ -427,14 +578,6 @@ export const uploadProductImages = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if user is seller
-    if (req.user?.role !== 'seller') {
-      return res.status(403).json({
-        success: false,
-        message: 'Only sellers can upload product images'
-      });
-    }
-
     // Find product and check ownership
     const product = await Product.findOne({ _id: id, isActive: true });
 
@@ -445,8 +588,8 @@ export const uploadProductImages = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if user is the seller of this product
-    if (product.sellerId.toString() !== req.user.userId) {
+    // Check if user may edit this product
+    if (!(await canManageProduct(req.user, product, 'update'))) {
       return res.status(403).json({
         success: false,
         message: 'You can only upload images to your own products'
@@ -461,22 +604,21 @@ export const uploadProductImages = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Upload images to Cloudinary from memory buffer
-    const { uploadImage } = await import('../config/cloudinary');
-    const uploadPromises = files.map(file => uploadImage(file.buffer, `products/${product._id}`));
-    
-    const uploadResults = await Promise.all(uploadPromises);
+    // Store images from memory buffer (all or none)
+    const assets = await storeUploadedFiles(files, {
+      ownerId: product.sellerId,
+      productId: product._id,
+      folder: `products/${product._id}`,
+      purpose: 'product_image'
+    });
 
     // Add new image URLs to product
-    const newImageUrls = uploadResults.map(result => result.secure_url);
+    const newImageUrls = assets.map(asset => asset.url);
     product.images.push(...newImageUrls);
     await product.save();
 
-    // No cleanup needed with memory storage
-    console.log(`${files.length} image(s) uploaded to Cloudinary successfully`);
-
-    // Populate seller info for response
-    await product.populate('seller', 'name email');
+    // Populate seller and category info for response
+    await product.populate(PRODUCT_POPULATE);
 
     res.status(200).json({
       success: true,
@@ -497,7 +639,7 @@ export const uploadProductImages = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// Upload product documents (PDFs) to Cloudinary
+// Upload product documents (PDFs) to file storage
 export const uploadProductDocuments = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
@@ -510,14 +652,6 @@ export const uploadProductDocuments = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Check if user is seller
-    if (req.user?.role !== 'seller') {
-      return res.status(403).json({
-        success: false,
-        message: 'Only sellers can upload product documents'
-      });
-    }
-
     // Find product and check ownership
     const product = await Product.findOne({ _id: id, isActive: true });
 
@@ -528,8 +662,8 @@ export const uploadProductDocuments = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Check if user is the seller of this product
-    if (product.sellerId.toString() !== req.user.userId) {
+    // Check if user may edit this product
+    if (!(await canManageProduct(req.user, product, 'update'))) {
       return res.status(403).json({
         success: false,
         message: 'You can only upload documents to your own products'
@@ -544,22 +678,21 @@ export const uploadProductDocuments = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Upload documents to Cloudinary from memory buffer
-    const { uploadPDF } = await import('../config/cloudinary');
-    const uploadPromises = files.map(file => uploadPDF(file.buffer, `documents/${product._id}`));
-    
-    const uploadResults = await Promise.all(uploadPromises);
+    // Store documents from memory buffer (all or none)
+    const assets = await storeUploadedFiles(files, {
+      ownerId: product.sellerId,
+      productId: product._id,
+      folder: `documents/${product._id}`,
+      purpose: 'product_document'
+    });
 
     // Add new document URLs to product
-    const newDocumentUrls = uploadResults.map(result => result.secure_url);
+    const newDocumentUrls = assets.map(asset => asset.url);
     product.documents.push(...newDocumentUrls);
     await product.save();
 
-    // No cleanup needed with memory storage
-    console.log(`${files.length} document(s) uploaded to Cloudinary successfully`);
-
-    // Populate seller info for response
-    await product.populate('seller', 'name email');
+    // Populate seller and category info for response
+    await product.populate(PRODUCT_POPULATE);
 
     res.status(200).json({
       success: true,
@@ -593,14 +726,6 @@ export const removeProductImage = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if user is seller
-    if (req.user?.role !== 'seller') {
-      return res.status(403).json({
-        success: false,
-        message: 'Only sellers can remove product images'
-      });
-    }
-
     // Find product and check ownership
     const product = await Product.findOne({ _id: id, isActive: true });
 
@@ -611,8 +736,8 @@ export const removeProductImage = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if user is the seller of this product
-    if (product.sellerId.toString() !== req.user.userId) {
+    // Check if user may edit this product
+    if (!(await canManageProduct(req.user, product, 'update'))) {
       return res.status(403).json({
         success: false,
         message: 'You can only remove images from your own products'
@@ -628,21 +753,18 @@ export const removeProductImage = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Extract public_id from Cloudinary URL
-    const urlParts = imageUrl.split('/');
-    const publicIdWithExtension = urlParts.slice(-2).join('/'); // folder/filename.ext
-    const publicId = publicIdWithExtension.split('.')[0]; // Remove extension
+    // Delete the stored file (images hosted elsewhere, e.g. seed data, are just unlinked)
+    await removeStoredFile(imageUrl, 'image');
 
-    // Delete from Cloudinary
-    const { deleteFile } = await import('../config/cloudinary');
-    await deleteFile(publicId, 'image');
-
-    // Remove from product
+    // Remove from product and any variants showing it
     product.images.splice(imageIndex, 1);
+    product.variants.forEach(variant => {
+      variant.images = variant.images.filter(image => image !== imageUrl);
+    });
     await product.save();
 
-    // Populate seller info for response
-    await product.populate('seller', 'name email');
+    // Populate seller and category info for response
+    await product.populate(PRODUCT_POPULATE);
 
     res.status(200).json({
       success: true,
@@ -673,14 +795,6 @@ export const removeProductDocument = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Check if user is seller
-    if (req.user?.role !== 'seller') {
-      return res.status(403).json({
-        success: false,
-        message: 'Only sellers can remove product documents'
-      });
-    }
-
     // Find product and check ownership
     const product = await Product.findOne({ _id: id, isActive: true });
 
@@ -691,8 +805,8 @@ export const removeProductDocument = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Check if user is the seller of this product
-    if (product.sellerId.toString() !== req.user.userId) {
+    // Check if user may edit this product
+    if (!(await canManageProduct(req.user, product, 'update'))) {
       return res.status(403).json({
         success: false,
         message: 'You can only remove documents from your own products'
@@ -708,21 +822,15 @@ export const removeProductDocument = async (req: AuthRequest, res: Response) =>
       });
     }
 
-    // Extract public_id from Cloudinary URL
-    const urlParts = documentUrl.split('/');
-    const publicIdWithExtension = urlParts.slice(-2).join('/'); // folder/filename.ext
-    const publicId = publicIdWithExtension.split('.')[0]; // Remove extension
-
-    // Delete from Cloudinary
-    const { deleteFile } = await import('../config/cloudinary');
-    await deleteFile(publicId, 'raw');
+    // Delete the stored file (documents hosted elsewhere are just unlinked)
+    await removeStoredFile(documentUrl, 'document');
 
     // Remove from product
     product.documents.splice(documentIndex, 1);
     await product.save();
 
-    // Populate seller info for response
-    await product.populate('seller', 'name email');
+    // Populate seller and category info for response
+    await product.populate(PRODUCT_POPULATE);
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,306 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Review from '../models/Review';
+import Product from '../models/Product';
+import { hasPermission } from '../utils/permissions';
+import { findVerifiedPurchase, updateProductRating } from '../utils/reviews';
+import { CreateReviewInput, ReviewReplyInput, ModerateReviewInput, ReviewQueryInput } from '../utils/validation';
+import { securityLogger, SecurityLogLevel, SecurityEventType } from '../middleware/securityLogger';
+import { JWTPayload } from '../config/jwt';
+import { storeUploadedFiles } from '../utils/assets';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Maximum number of images a buyer may attach to a review
+const MAX_REVIEW_IMAGES = 5;
+
+// Why a user can or cannot review a product (null when they can)
+const getReviewBlocker = async (userId: string, role: string, productId: string): Promise<string | null> => {
+  if (!(await hasPermission(role, 'review:create'))) {
+    return 'Only buyers can review products';
+  }
+
+  if (await Review.exists({ productId, buyerId: userId })) {
+    return 'You have already reviewed this product';
+  }
+
+  if (!(await findVerifiedPurchase(userId, productId))) {
+    return 'Only buyers with a completed order for this product can review it';
+  }
+
+  return null;
+};
+
+// Get reviews for a product with a rating summary
+export const getProductReviews = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId } = req.params;
+    const { page = 1, limit = 10, sortBy = 'createdAt', includeHidden } = req.query as unknown as ReviewQueryInput;
+
+    const product = await Product.findById(productId).select('averageRating reviewCount');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    // Hidden reviews are only listed for moderators
+    const filter: any = { productId };
+    const canModerate = await hasPermission(req.user?.role, 'review:moderate');
+    if (!(includeHidden === 'true' && canModerate)) {
+      filter.isHidden = false;
+    }
+
+    const sort: Record<string, 1 | -1> = sortBy === 'rating'
+      ? { rating: -1, createdAt: -1 }
+      : { createdAt: -1 };
+
+    const [reviews, totalCount, distribution] = await Promise.all([
+      Review.find(filter)
+        .populate('buyerId', 'name')
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Review.countDocuments(filter),
+      Review.aggregate([
+        { $match: { productId: new mongoose.Types.ObjectId(productId), isHidden: false } },
+        { $group: { _id: '$rating', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const ratingBreakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    distribution.forEach(entry => {
+      ratingBreakdown[entry._id] = entry.count;
+    });
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        reviews,
+        summary: {
+          averageRating: product.averageRating,
+          reviewCount: product.reviewCount,
+          ratingBreakdown
+        },
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      },
+      message: 'Reviews retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get product reviews error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve reviews',
+      error: error.message
+    });
+  }
+};
+
+// Check whether the current user may review a product
+export const getReviewEligibility = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId } = req.params;
+    const reason = await getReviewBlocker(req.user!.userId, req.user!.role, productId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        canReview: !reason,
+        reason: reason || undefined
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Get review eligibility error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check review eligibility',
+      error: error.message
+    });
+  }
+};
+
+// Create a review (verified purchasers only, one per product), with optional images
+export const createReview = async (req: AuthRequest, res: Response) => {
+  try {
+    const { productId } = req.params;
+    const userId = req.user!.userId;
+    const { rating, title, body }: CreateReviewInput = req.body;
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (files.length > MAX_REVIEW_IMAGES) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot attach more than ${MAX_REVIEW_IMAGES} images to a review`
+      });
+    }
+
+    const product = await Product.findOne({ _id: productId, isActive: true }).select('_id');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (await Review.exists({ productId, buyerId: userId })) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product'
+      });
+    }
+
+    const order = await findVerifiedPurchase(userId, productId);
+    if (!order) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only buyers with a completed order for this product can review it'
+      });
+    }
+
+    // Store images from memory buffer (all or none)
+    const assets = await storeUploadedFiles(files, {
+      ownerId: userId,
+      productId,
+      folder: `reviews/${productId}`,
+      purpose: 'review_image'
+    });
+
+    const review = await Review.create({
+      productId,
+      buyerId: userId,
+      orderId: order._id,
+      rating,
+      title,
+      body,
+      images: assets.map(asset => asset.url)
+    });
+
+    await updateProductRating(productId);
+    await review.populate('buyerId', 'name');
+
+    res.status(201).json({
+      success: true,
+      data: review,
+      message: 'Review submitted successfully'
+    });
+
+  } catch (error: any) {
+    // Two concurrent submissions can both pass the exists() check
+    if (error?.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product'
+      });
+    }
+
+    console.error('Create review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit review',
+      error: error.message
+    });
+  }
+};
+
+// Reply to a review of one of the seller's products (replaces any earlier reply)
+export const replyToReview = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { body }: ReviewReplyInput = req.body;
+
+    const review = await Review.findById(id).populate('productId', 'sellerId');
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    const product = review.productId as any;
+    if (!product || product.sellerId.toString() !== req.user!.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only reply to reviews of your own products'
+      });
+    }
+
+    review.sellerReply = {
+      body,
+      repliedBy: req.user!.userId as any,
+      repliedAt: new Date()
+    };
+    await review.save();
+
+    res.status(200).json({
+      success: true,
+      data: review,
+      message: 'Reply saved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Reply to review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save reply',
+      error: error.message
+    });
+  }
+};
+
+// Hide or restore a review (moderators); hidden reviews don't count towards the rating
+export const moderateReview = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { isHidden, reason }: ModerateReviewInput = req.body;
+
+    const review = await Review.findById(id);
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    review.isHidden = isHidden;
+    review.hiddenReason = isHidden ? reason : undefined;
+    review.hiddenBy = isHidden ? req.user!.userId as any : undefined;
+    await review.save();
+
+    await updateProductRating(review.productId);
+
+    securityLogger.log(
+      SecurityLogLevel.AUDIT,
+      SecurityEventType.ADMIN_ACTION,
+      `Review ${isHidden ? 'hidden' : 'restored'}`,
+      req,
+      { reviewId: review._id, productId: review.productId, reason }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: review,
+      message: `Review ${isHidden ? 'hidden' : 'restored'} successfully`
+    });
+
+  } catch (error: any) {
+    console.error('Moderate review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to moderate review',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,236 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Order, { ORDER_STATUSES } from '../models/Order';
+import Product from '../models/Product';
+import { hasPermission } from '../utils/permissions';
+import { SellerAnalyticsQueryInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const TOP_PRODUCTS_LIMIT = 5;
+
+// $dateToString formats for each revenue series bucket size
+const INTERVAL_FORMATS = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m'
+} as const;
+
+// Pick a bucket size that keeps the revenue chart readable
+const defaultInterval = (rangeDays: number): keyof typeof INTERVAL_FORMATS => {
+  if (rangeDays <= 31) return 'day';
+  if (rangeDays <= 120) return 'week';
+  return 'month';
+};
+
+// Get sales analytics for the current seller over a date range
+// (admins with analytics:read:any may pass ?sellerId= to view any seller)
+export const getSellerAnalytics = async (req: AuthRequest, res: Response) => {
+  try {
+    const { startDate, endDate, interval, sellerId: requestedSellerId } = req.query as unknown as SellerAnalyticsQueryInput;
+
+    let sellerId = req.user!.userId;
+    if (requestedSellerId && requestedSellerId !== sellerId) {
+      if (!(await hasPermission(req.user!.role, 'analytics:read:any'))) {
+        return res.status(403).json({
+          success: false,
+          message: 'You can only view your own analytics'
+        });
+      }
+      sellerId = requestedSellerId;
+    }
+
+    // endDate is inclusive, so the range runs up to the start of the following day
+    const rangeEnd = endDate ? new Date(endDate.getTime() + DAY_MS) : new Date();
+    const rangeStart = startDate || new Date(rangeEnd.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    const rangeDays = Math.ceil((rangeEnd.getTime() - rangeStart.getTime()) / DAY_MS);
+
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        message: `Date range cannot exceed ${MAX_RANGE_DAYS} days`
+      });
+    }
+
+    const bucket = interval || defaultInterval(rangeDays);
+    const match = {
+      sellerId: new mongoose.Types.ObjectId(sellerId),
+      orderDate: { $gte: rangeStart, $lt: rangeEnd }
+    };
+
+    const [revenueSeries, revenueTotals, topProducts, funnel, fulfilment, buyers] = await Promise.all([
+      // Completed revenue per bucket
+      Order.aggregate([
+        { $match: { ...match, status: 'Completed' } },
+        {
+          $group: {
+            _id: { $dateToString: { format: INTERVAL_FORMATS[bucket], date: '$orderDate', timezone: 'UTC' } },
+            revenue: { $sum: '$totalAmount' },
+            orders: { $sum: 1 }
+          }
+        },
+        { $sort: { _id: 1 } }
+      ]),
+
+      // Gross completed revenue and refunds paid out on returns
+      Order.aggregate([
+        { $match: { ...match, status: 'Completed' } },
+        {
+          $group: {
+            _id: null,
+            gross: { $sum: '$totalAmount' },
+            refunded: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$returnRequest.status', 'Refunded'] },
+                  '$returnRequest.refundAmount',
+                  0
+                ]
+              }
+            },
+            orders: { $sum: 1 }
+          }
+        }
+      ]),
+
+      // Top products by units and by revenue from completed orders
+      Order.aggregate([
+        { $match: { ...match, status: 'Completed' } },
+        { $unwind: '$products' },
+        {
+          $group: {
+            _id: '$products.productId',
+            units: { $sum: '$products.quantity' },
+            revenue: { $sum: { $multiply: ['$products.quantity', '$products.price'] } }
+          }
+        },
+        {
+          $facet: {
+            byUnits: [{ $sort: { units: -1, revenue: -1 } }, { $limit: TOP_PRODUCTS_LIMIT }],
+            byRevenue: [{ $sort: { revenue: -1, units: -1 } }, { $limit: TOP_PRODUCTS_LIMIT }]
+          }
+        }
+      ]),
+
+      // Orders placed in the range by their current status
+      Order.aggregate([
+        { $match: match },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ]),
+
+      // Time from placing an order to its (last) Completed status change
+      Order.aggregate([
+        { $match: { ...match, status: 'Completed' } },
+        {
+          $project: {
+            completedAt: {
+              $max: {
+                $map: {
+                  input: { $filter: { input: '$statusHistory', cond: { $eq: ['$$this.status', 'Completed'] } } },
+                  in: '$$this.timestamp'
+                }
+              }
+            },
+            orderDate: 1
+          }
+        },
+        { $match: { completedAt: { $ne: null } } },
+        {
+          $group: {
+            _id: null,
+            averageMs: { $avg: { $subtract: ['$completedAt', '$orderDate'] } },
+            count: { $sum: 1 }
+          }
+        }
+      ]),
+
+      // Orders per buyer, ignoring cancelled orders
+      Order.aggregate([
+        { $match: { ...match, status: { $ne: 'Cancelled' } } },
+        { $group: { _id: '$buyerId', orders: { $sum: 1 } } },
+        {
+          $group: {
+            _id: null,
+            buyers: { $sum: 1 },
+            repeatBuyers: { $sum: { $cond: [{ $gt: ['$orders', 1] }, 1, 0] } }
+          }
+        }
+      ])
+    ]);
+
+    // Attach product titles to the top product lists
+    const { byUnits = [], byRevenue = [] } = topProducts[0] || {};
+    const productIds = [...byUnits, ...byRevenue].map((entry: any) => entry._id);
+    const products = await Product.find({ _id: { $in: productIds } }).select('title images');
+    const productMap = new Map(products.map(product => [product._id.toString(), product]));
+    const withProductInfo = (entries: any[]) => entries.map(entry => {
+      const product = productMap.get(entry._id.toString());
+      return {
+        productId: entry._id,
+        title: product?.title || 'Deleted product',
+        image: product?.images?.[0],
+        units: entry.units,
+        revenue: entry.revenue
+      };
+    });
+
+    const statusCounts = new Map(funnel.map(entry => [entry._id, entry.count]));
+    const totals = revenueTotals[0] || { gross: 0, refunded: 0, orders: 0 };
+    const buyerStats = buyers[0] || { buyers: 0, repeatBuyers: 0 };
+
+    res.status(200).json({
+      success: true,
+      data: {
+        range: {
+          startDate: rangeStart,
+          endDate: rangeEnd,
+          interval: bucket
+        },
+        revenue: {
+          gross: totals.gross,
+          refunded: totals.refunded,
+          net: totals.gross - totals.refunded,
+          completedOrders: totals.orders,
+          averageOrderValue: totals.orders > 0 ? totals.gross / totals.orders : 0,
+          series: revenueSeries.map(entry => ({
+            period: entry._id,
+            revenue: entry.revenue,
+            orders: entry.orders
+          }))
+        },
+        topProducts: {
+          byUnits: withProductInfo(byUnits),
+          byRevenue: withProductInfo(byRevenue)
+        },
+        funnel: ORDER_STATUSES.map(status => ({
+          status,
+          count: statusCounts.get(status) || 0
+        })),
+        fulfilment: {
+          averageHours: fulfilment[0] ? Math.round(fulfilment[0].averageMs / (60 * 60 * 1000) * 10) / 10 : null,
+          completedOrders: fulfilment[0]?.count || 0
+        },
+        buyers: {
+          total: buyerStats.buyers,
+          repeat: buyerStats.repeatBuyers,
+          repeatRate: buyerStats.buyers > 0 ? buyerStats.repeatBuyers / buyerStats.buyers : 0
+        }
+      },
+      message: 'Seller analytics retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get seller analytics error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve seller analytics',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,242 @@
+import { Request, Response } from 'express';
+import WebhookEndpoint, { MAX_WEBHOOK_ENDPOINTS, generateWebhookSecret } from '../models/WebhookEndpoint';
+import WebhookDelivery from '../models/WebhookDelivery';
+import { replayWebhookDelivery } from '../utils/webhooks';
+import { CreateWebhookEndpointInput, UpdateWebhookEndpointInput, WebhookDeliveryQueryInput } from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Get the seller's webhook endpoints (secrets are never listed)
+export const getWebhookEndpoints = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoints = await WebhookEndpoint.find({ sellerId: req.user!.userId }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: endpoints,
+      message: 'Webhook endpoints retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get webhook endpoints error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve webhook endpoints',
+      error: error.message
+    });
+  }
+};
+
+// Register an endpoint. The response is the only time its secret is returned
+// (apart from rotating it).
+export const createWebhookEndpoint = async (req: AuthRequest, res: Response) => {
+  try {
+    const data: CreateWebhookEndpointInput = req.body;
+    const sellerId = req.user!.userId;
+
+    if (await WebhookEndpoint.countDocuments({ sellerId }) >= MAX_WEBHOOK_ENDPOINTS) {
+      return res.status(400).json({
+        success: false,
+        message: `You can register at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`
+      });
+    }
+
+    const endpoint = await WebhookEndpoint.create({ ...data, sellerId });
+
+    res.status(201).json({
+      success: true,
+      data: endpoint,
+      message: 'Webhook endpoint created. Store the signing secret now; it will not be shown again'
+    });
+
+  } catch (error: any) {
+    console.error('Create webhook endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create webhook endpoint',
+      error: error.message
+    });
+  }
+};
+
+// Change an endpoint's URL, description, events or whether it is active
+export const updateWebhookEndpoint = async (req: AuthRequest, res: Response) => {
+  try {
+    const data: UpdateWebhookEndpointInput = req.body;
+
+    const endpoint = await WebhookEndpoint.findOne({ _id: req.params.id, sellerId: req.user!.userId });
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        message: 'Webhook endpoint not found'
+      });
+    }
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) endpoint.set(key, value);
+    });
+    await endpoint.save();
+
+    res.status(200).json({
+      success: true,
+      data: endpoint,
+      message: 'Webhook endpoint updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update webhook endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update webhook endpoint',
+      error: error.message
+    });
+  }
+};
+
+// Remove an endpoint along with its delivery log
+export const deleteWebhookEndpoint = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await WebhookEndpoint.findOneAndDelete({ _id: req.params.id, sellerId: req.user!.userId });
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        message: 'Webhook endpoint not found'
+      });
+    }
+
+    await WebhookDelivery.deleteMany({ endpointId: endpoint._id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook endpoint deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete webhook endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete webhook endpoint',
+      error: error.message
+    });
+  }
+};
+
+// Replace an endpoint's signing secret. Deliveries sent from now on, retries
+// included, are signed with the new one.
+export const rotateWebhookSecret = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await WebhookEndpoint.findOneAndUpdate(
+      { _id: req.params.id, sellerId: req.user!.userId },
+      { $set: { secret: generateWebhookSecret(), secretRotatedAt: new Date(), updatedAt: new Date() } },
+      { new: true }
+    ).select('+secret');
+
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        message: 'Webhook endpoint not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: endpoint,
+      message: 'Signing secret rotated. Store the new secret now; it will not be shown again'
+    });
+
+  } catch (error: any) {
+    console.error('Rotate webhook secret error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to rotate signing secret',
+      error: error.message
+    });
+  }
+};
+
+// Get the seller's delivery log, newest first
+export const getWebhookDeliveries = async (req: AuthRequest, res: Response) => {
+  try {
+    const { page = 1, limit = 20, endpointId, status, event } = req.query as unknown as WebhookDeliveryQueryInput;
+
+    const filter: Record<string, any> = { sellerId: req.user!.userId };
+    if (endpointId) filter.endpointId = endpointId;
+    if (status) filter.status = status;
+    if (event) filter.event = event;
+
+    const [deliveries, totalCount] = await Promise.all([
+      WebhookDelivery.find(filter)
+        .select('-lockedUntil -responseBody') // Deliveries logged before response bodies stopped being kept
+        .populate('endpointId', 'url description')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      WebhookDelivery.countDocuments(filter)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deliveries,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      },
+      message: 'Webhook deliveries retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve webhook deliveries',
+      error: error.message
+    });
+  }
+};
+
+// Send a logged delivery again (as a new delivery with the same event ID)
+export const replayDelivery = async (req: AuthRequest, res: Response) => {
+  try {
+    const delivery = await WebhookDelivery.findOne({ _id: req.params.id, sellerId: req.user!.userId });
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        message: 'Webhook delivery not found'
+      });
+    }
+
+    const endpoint = await WebhookEndpoint.findById(delivery.endpointId).select('isActive');
+    if (!endpoint?.isActive) {
+      return res.status(400).json({
+        success: false,
+        message: 'Enable the endpoint before replaying its deliveries'
+      });
+    }
+
+    const replay = await replayWebhookDelivery(delivery);
+
+    res.status(201).json({
+      success: true,
+      data: replay,
+      message: 'Delivery queued for replay'
+    });
+
+  } catch (error: any) {
+    console.error('Replay webhook delivery error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to replay webhook delivery',
+      error: error.message
+    });
+  }
+};
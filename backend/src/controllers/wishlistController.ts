@@ -0,0 +1,361 @@
+import { Request, Response } from 'express';
+import Wishlist, { IWishlist, MAX_WISHLISTS, generateShareToken } from '../models/Wishlist';
+import Product from '../models/Product';
+import User from '../models/User';
+import { findVariant, getUnitPrice } from '../utils/variants';
+import { CATEGORY_SUMMARY_FIELDS } from '../utils/categories';
+import { WISHLIST_PRODUCT_FIELDS, findOrCreateDefaultWishlist } from '../utils/wishlists';
+import {
+  CreateWishlistInput,
+  UpdateWishlistInput,
+  AddWishlistItemInput,
+  CartItemQueryInput
+} from '../utils/validation';
+import { JWTPayload } from '../config/jwt';
+
+interface AuthRequest extends Request {
+  user?: JWTPayload;
+}
+
+// Resolve live product data for every saved product. The owner also gets the
+// share token and products that are no longer on sale; visitors of a shared
+// list only see what they can buy.
+const buildWishlistResponse = async (wishlist: IWishlist, isOwner: boolean) => {
+  await wishlist.populate({
+    path: 'items.productId',
+    select: WISHLIST_PRODUCT_FIELDS,
+    populate: { path: 'category', select: CATEGORY_SUMMARY_FIELDS }
+  });
+
+  const items = wishlist.items
+    .filter(item => item.productId) // Drop products that no longer exist
+    .map(item => {
+      const product = item.productId as any;
+      const variant = findVariant(product, item.variantId);
+      const stock = variant ? variant.stock : product.stock;
+      return {
+        product: product.toJSON(),
+        variant: variant ? (variant as any).toJSON() : null,
+        price: getUnitPrice(product, variant),
+        isAvailable: product.isActive && (!item.variantId || !!variant) && stock > 0,
+        addedAt: item.addedAt
+      };
+    })
+    .filter(item => isOwner || item.product.isActive);
+
+  return {
+    _id: wishlist._id,
+    name: wishlist.name,
+    isPublic: wishlist.isPublic,
+    notify: wishlist.notify,
+    ...(isOwner && { shareToken: wishlist.shareToken }),
+    items,
+    createdAt: wishlist.createdAt,
+    updatedAt: wishlist.updatedAt
+  };
+};
+
+// Reply for a duplicate wishlist name
+const duplicateNameResponse = (res: Response) => res.status(409).json({
+  success: false,
+  message: 'You already have a wishlist with this name'
+});
+
+// Get the current buyer's wishlists, oldest first (the first is the default list)
+export const getWishlists = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlists = await Wishlist.find({ userId: req.user!.userId }).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: await Promise.all(wishlists.map(wishlist => buildWishlistResponse(wishlist, true))),
+      message: 'Wishlists retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get wishlists error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve wishlists',
+      error: error.message
+    });
+  }
+};
+
+// Create a named wishlist
+export const createWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const data: CreateWishlistInput = req.body;
+
+    const count = await Wishlist.countDocuments({ userId });
+    if (count >= MAX_WISHLISTS) {
+      return res.status(400).json({
+        success: false,
+        message: `You can keep up to ${MAX_WISHLISTS} wishlists`
+      });
+    }
+
+    const wishlist = await Wishlist.create({ ...data, userId });
+
+    res.status(201).json({
+      success: true,
+      data: await buildWishlistResponse(wishlist, true),
+      message: 'Wishlist created successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Create wishlist error:', error);
+
+    if (error.code === 11000) {
+      return duplicateNameResponse(res);
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create wishlist',
+      error: error.message
+    });
+  }
+};
+
+// Rename a wishlist, make it public or private, or turn notifications on or off
+export const updateWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const updates: UpdateWishlistInput = req.body;
+
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.user!.userId });
+    if (!wishlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist not found'
+      });
+    }
+
+    Object.assign(wishlist, updates);
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildWishlistResponse(wishlist, true),
+      message: 'Wishlist updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Update wishlist error:', error);
+
+    if (error.code === 11000) {
+      return duplicateNameResponse(res);
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update wishlist',
+      error: error.message
+    });
+  }
+};
+
+// Replace a wishlist's share token, so links shared earlier stop working
+export const regenerateShareToken = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.user!.userId });
+    if (!wishlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist not found'
+      });
+    }
+
+    wishlist.shareToken = generateShareToken();
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildWishlistResponse(wishlist, true),
+      message: 'Share link reset successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Regenerate share token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset share link',
+      error: error.message
+    });
+  }
+};
+
+// Delete a wishlist
+export const deleteWishlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const wishlist = await Wishlist.findOneAndDelete({ _id: req.params.id, userId: req.user!.userId });
+    if (!wishlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete wishlist',
+      error: error.message
+    });
+  }
+};
+
+// Save a product (or one of its variants) to a wishlist. Saving it again is a no-op.
+export const addWishlistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { productId, variantId, wishlistId }: AddWishlistItemInput = req.body;
+
+    const product = await Product.findOne({ _id: productId, isActive: true });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found or inactive'
+      });
+    }
+
+    const variant = findVariant(product, variantId);
+    if (variantId && !variant) {
+      return res.status(400).json({
+        success: false,
+        message: 'Selected variant is not available'
+      });
+    }
+
+    const wishlist = wishlistId
+      ? await Wishlist.findOne({ _id: wishlistId, userId })
+      : await findOrCreateDefaultWishlist(userId);
+    if (!wishlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist not found'
+      });
+    }
+
+    const alreadySaved = wishlist.items.some(item =>
+      item.productId.toString() === productId && item.variantId?.toString() === variantId
+    );
+    if (!alreadySaved) {
+      wishlist.items.push({
+        productId: product._id as any,
+        variantId: variant?._id,
+        alertPrice: getUnitPrice(product, variant),
+        addedAt: new Date()
+      });
+      await wishlist.save();
+    }
+
+    res.status(alreadySaved ? 200 : 201).json({
+      success: true,
+      data: await buildWishlistResponse(wishlist, true),
+      message: alreadySaved ? 'Product is already in this wishlist' : `Saved to ${wishlist.name}`
+    });
+
+  } catch (error: any) {
+    console.error('Add wishlist item error:', error);
+
+    if (error.name === 'ValidationError') {
+      const firstError = Object.values(error.errors)[0] as any;
+      return res.status(400).json({
+        success: false,
+        message: firstError?.message || 'Wishlist validation failed'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save product',
+      error: error.message
+    });
+  }
+};
+
+// Remove a product from a wishlist; ?variantId= picks one saved variant
+export const removeWishlistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, productId } = req.params;
+    const { variantId } = req.query as unknown as CartItemQueryInput;
+
+    const wishlist = await Wishlist.findOne({ _id: id, userId: req.user!.userId });
+    if (!wishlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist not found'
+      });
+    }
+
+    const remaining = wishlist.items.filter(item =>
+      item.productId.toString() !== productId ||
+      (variantId !== undefined && item.variantId?.toString() !== variantId)
+    );
+    if (remaining.length === wishlist.items.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in wishlist'
+      });
+    }
+
+    wishlist.items = remaining;
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      data: await buildWishlistResponse(wishlist, true),
+      message: 'Product removed from wishlist'
+    });
+
+  } catch (error: any) {
+    console.error('Remove wishlist item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove product',
+      error: error.message
+    });
+  }
+};
+
+// View a public wishlist through its share link
+export const getSharedWishlist = async (req: Request, res: Response) => {
+  try {
+    const wishlist = await Wishlist.findOne({ shareToken: req.params.token, isPublic: true });
+    if (!wishlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wishlist not found or no longer shared'
+      });
+    }
+
+    // Only the owner's first name is shown to visitors
+    const user = await User.findById(wishlist.userId).select('name');
+    const owner = user?.name.split(' ')[0] || 'A shopper';
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...(await buildWishlistResponse(wishlist, false)),
+        owner
+      },
+      message: 'Wishlist retrieved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Get shared wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve wishlist',
+      error: error.message
+    });
+  }
+};
@@ -2,14 +2,32 @@ import express from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { initializeConfig } from './config';
+import { getStorageDriver, LocalStorageDriver, LOCAL_UPLOADS_PATH } from './config/storage';
 import authRoutes from './routes/authRoutes';
 import productRoutes from './routes/productRoutes';
 import orderRoutes from './routes/orderRoutes';
 import adminRoutes from './routes/adminRoutes';
+import cartRoutes from './routes/cartRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import sellerRoutes from './routes/sellerRoutes';
+import addressRoutes from './routes/addressRoutes';
+import paymentRoutes from './routes/paymentRoutes';
+import couponRoutes from './routes/couponRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import wishlistRoutes from './routes/wishlistRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import { registerNotificationListeners } from './utils/notifications';
+import { registerOrderStreamListeners } from './utils/orderStream';
+import { registerWebhookListeners, startWebhookWorker } from './utils/webhooks';
+import { startAssetReconciler } from './utils/assets';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Number of proxies in front of the app (e.g. 1 on Vercel), so req.ip is the
+// client's address rather than the proxy's. Rate limits are counted per req.ip.
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '0'));
+
 // CORS Configuration
 const corsOptions = {
   origin: function (origin: string | undefined, callback: (err: Error | null, allow?: boolean) => void) {
@@ -56,7 +74,8 @@ const corsOptions = {
     'Cache-Control',
     'Pragma',
     'X-Forwarded-For',
-    'X-Real-IP'
+    'X-Real-IP',
+    'Last-Event-ID'
   ],
   exposedHeaders: ['Set-Cookie', 'Authorization'],
   maxAge: 86400, // 24 hours
@@ -65,7 +84,15 @@ const corsOptions = {
 
 // Middleware
 app.use(cors(corsOptions));
-app.use(express.json({ limit: '10mb' })); // Increase limit for file uploads
+app.use(express.json({
+  limit: '10mb', // Increase limit for file uploads
+  // Keep the raw bytes of payment webhooks; their signatures are computed over them
+  verify: (req, _res, buf) => {
+    if ((req as any).originalUrl?.startsWith('/api/payments/webhook')) {
+      (req as any).rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
 
@@ -79,7 +106,7 @@ app.use((req, res, next) => {
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, Cache-Control, Pragma');
+    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, Cache-Control, Pragma, Last-Event-ID');
     res.header('Access-Control-Max-Age', '3600');
     return res.status(200).end();
   }
@@ -87,11 +114,35 @@ app.use((req, res, next) => {
   next();
 });
 
+// Turn order and account events into in-app notifications
+registerNotificationListeners();
+
+// Push order events to clients connected to /api/orders/events
+registerOrderStreamListeners();
+
+// Queue seller webhook deliveries for order and product events
+registerWebhookListeners();
+
+// Serve uploaded files when they are stored on local disk
+const storageDriver = getStorageDriver();
+if (storageDriver instanceof LocalStorageDriver) {
+  app.use(LOCAL_UPLOADS_PATH, ...storageDriver.staticHandler());
+}
+
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/seller', sellerRoutes);
+app.use('/api/addresses', addressRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/wishlists', wishlistRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Basic route
 app.get('/', (_req, res) => {
@@ -105,8 +156,14 @@ app.get('/', (_req, res) => {
 // Initialize configurations and start server
 const startServer = async () => {
   try {
-    // Initialize all configurations (MongoDB, Cloudinary, etc.)
+    // Initialize all configurations (MongoDB, file storage, etc.)
     await initializeConfig();
+
+    // Send queued webhook deliveries and retry failed ones
+    startWebhookWorker();
+
+    // Delete uploaded files that nothing uses any more
+    startAssetReconciler();
     
     // Start server
     app.listen(PORT, () => {
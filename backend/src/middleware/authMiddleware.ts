@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, extractTokenFromCookie, JWTPayload } from '../config/jwt';
 import User from '../models/User';
+import { Permission } from '../models/Role';
+import { isSessionActive } from '../utils/sessions';
+import { hasPermission } from '../utils/permissions';
 import { securityLogger, SecurityLogLevel, SecurityEventType, logUnauthorizedAccess } from './securityLogger';
 
 // Extend Request interface to include user data
@@ -91,8 +94,29 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
             });
         }
 
-        // Add user data to request object
-        req.user = decoded;
+        // Reject tokens whose session was logged out, revoked or ended by a ban
+        if (!(await isSessionActive(decoded.sessionId))) {
+            securityLogger.log(
+                SecurityLogLevel.WARNING,
+                SecurityEventType.UNAUTHORIZED_ACCESS,
+                'Token used after its session was revoked',
+                req,
+                {
+                    userId: decoded.userId,
+                    sessionId: decoded.sessionId
+                },
+                false
+            );
+
+            return res.status(401).json({
+                success: false,
+                message: 'Access denied. Session has expired or been revoked.'
+            });
+        }
+
+        // Add user data to request object. The role comes from the database so
+        // role changes made by an admin apply without waiting for a new token.
+        req.user = { ...decoded, role: user.role };
         next();
 
     } catch (error) {
@@ -180,6 +204,80 @@ export const authorize = (...roles: string[]) => {
     };
 };
 
+// Permission-based authorization: the user's role must grant at least one of the
+// given permissions (role→permission mappings live in the roles collection)
+export const requirePermission = (...permissions: Permission[]) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            securityLogger.log(
+                SecurityLogLevel.WARNING,
+                SecurityEventType.UNAUTHORIZED_ACCESS,
+                'Permission check failed - no user in request',
+                req,
+                {
+                    requiredPermissions: permissions,
+                    path: req.path,
+                    method: req.method
+                },
+                false
+            );
+
+            return res.status(401).json({
+                success: false,
+                message: 'Access denied. User not authenticated.'
+            });
+        }
+
+        try {
+            if (!(await hasPermission(req.user.role, ...permissions))) {
+                securityLogger.log(
+                    SecurityLogLevel.WARNING,
+                    SecurityEventType.UNAUTHORIZED_ACCESS,
+                    `Missing permission for ${req.user.role} accessing ${req.path}`,
+                    req,
+                    {
+                        userRole: req.user.role,
+                        requiredPermissions: permissions,
+                        userId: req.user.userId,
+                        path: req.path,
+                        method: req.method
+                    },
+                    false
+                );
+
+                return res.status(403).json({
+                    success: false,
+                    message: 'Access denied. Insufficient permissions.'
+                });
+            }
+        } catch (error) {
+            console.error('Permission check error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Error checking permissions.'
+            });
+        }
+
+        // Log successful authorization for administrative permissions
+        if (permissions.some(permission => /^(admin|user|role):/.test(permission))) {
+            securityLogger.log(
+                SecurityLogLevel.AUDIT,
+                SecurityEventType.ADMIN_ACTION,
+                `Administrative access granted to ${req.path}`,
+                req,
+                {
+                    action: `${req.method} ${req.path}`,
+                    userId: req.user.userId,
+                    userRole: req.user.role,
+                    permissions
+                }
+            );
+        }
+
+        next();
+    };
+};
+
 // Middleware to check if user is admin
 export const requireAdmin = authorize('admin');
 
@@ -212,8 +310,9 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
                 const decoded = verifyToken(token);
                 const user = await User.findById(decoded.userId);
 
-                if (user && user.isActive) {
-                    req.user = decoded;
+                // Same checks as authenticate, with the role taken from the database
+                if (user && user.isActive && await isSessionActive(decoded.sessionId)) {
+                    req.user = { ...decoded, role: user.role };
                 }
             } catch (error) {
                 // Token is invalid, but we don't fail the request for optional auth
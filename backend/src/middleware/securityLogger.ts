@@ -1,30 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import fs from 'fs';
 import path from 'path';
+import mongoose from 'mongoose';
+import AuditEvent, { SecurityLogLevel, SecurityEventType } from '../models/AuditEvent';
+import { getRateLimitStore } from '../config/rateLimit';
+import { redactSecrets, redactString } from '../utils/redaction';
 
-// Security log levels
-export enum SecurityLogLevel {
-  INFO = 'INFO',
-  WARNING = 'WARNING',
-  CRITICAL = 'CRITICAL',
-  AUDIT = 'AUDIT'
-}
-
-// Security event types
-export enum SecurityEventType {
-  AUTH_SUCCESS = 'AUTH_SUCCESS',
-  AUTH_FAILURE = 'AUTH_FAILURE',
-  UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
-  ACCOUNT_BAN = 'ACCOUNT_BAN',
-  ACCOUNT_UNBAN = 'ACCOUNT_UNBAN',
-  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
-  ADMIN_ACTION = 'ADMIN_ACTION',
-  FILE_UPLOAD = 'FILE_UPLOAD',
-  MALICIOUS_FILE_DETECTED = 'MALICIOUS_FILE_DETECTED',
-  VALIDATION_FAILURE = 'VALIDATION_FAILURE',
-  RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
-  SUSPICIOUS_ACTIVITY = 'SUSPICIOUS_ACTIVITY'
-}
+export { SecurityLogLevel, SecurityEventType };
 
 // Log entry interface
 interface SecurityLogEntry {
@@ -98,19 +80,24 @@ class SecurityLogger {
     details?: any,
     success: boolean = true
   ): void {
+    // Events logged before authentication (logins, registrations) name the user in details
+    const userId = req?.user?.userId || details?.userId;
+    const email = req?.user?.email || details?.email;
+
+    // Secrets (passwords, tokens, card numbers) never reach the file, console or database
+    const safeDetails = details && redactSecrets(details);
+
     const entry: SecurityLogEntry = {
       timestamp: new Date().toISOString(),
       level,
       eventType,
-      action,
+      action: redactString(action),
       success,
       ipAddress: req?.ip || req?.connection?.remoteAddress,
       userAgent: req?.get('User-Agent'),
-      ...(req?.user && {
-        userId: req.user.userId,
-        email: req.user.email
-      }),
-      ...(details && { details })
+      ...(userId && { userId: String(userId) }),
+      ...(typeof email === 'string' && { email }),
+      ...(safeDetails && { details: safeDetails })
     };
 
     const logLine = this.formatLogEntry(entry);
@@ -124,11 +111,10 @@ class SecurityLogger {
       }
     }
 
+    this.persist(entry);
+
     // Always log to console for monitoring services to capture (Vercel logs, CloudWatch, etc.)
-    console.log(`[SECURITY LOG] ${level}: ${action}`, {
-      ...entry,
-      details
-    });
+    console.log(`[SECURITY LOG] ${level}: ${entry.action}`, entry);
 
     // Send critical alerts (in production, this could send to monitoring systems)
     if (level === SecurityLogLevel.CRITICAL) {
@@ -136,6 +122,17 @@ class SecurityLogger {
     }
   }
 
+  // Store the event for the admin viewer. Logging never waits on or fails because of the database.
+  private persist(entry: SecurityLogEntry): void {
+    AuditEvent.create({
+      ...entry,
+      timestamp: new Date(entry.timestamp),
+      userId: entry.userId && mongoose.isValidObjectId(entry.userId) ? entry.userId : undefined
+    }).catch(error => {
+      console.error('Failed to store security event:', error);
+    });
+  }
+
   private sendCriticalAlert(entry: SecurityLogEntry): void {
     // In a real application, this would send alerts to monitoring systems
     console.error('🚨 CRITICAL SECURITY EVENT:', entry);
@@ -146,37 +143,6 @@ class SecurityLogger {
     // - Security monitoring tools
     // - Log aggregation services (ELK, Splunk, etc.)
   }
-
-  public getRecentLogs(hours: number = 24): SecurityLogEntry[] {
-    if (!this.useFileLogging || !this.logFile) {
-      console.warn('File logging is disabled. Logs are only available in console/monitoring services.');
-      return [];
-    }
-
-    try {
-      if (!fs.existsSync(this.logFile)) {
-        return [];
-      }
-
-      const logContent = fs.readFileSync(this.logFile, 'utf-8');
-      const lines = logContent.split('\n').filter(line => line.trim());
-      const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000);
-
-      return lines
-        .map(line => {
-          try {
-            return JSON.parse(line) as SecurityLogEntry;
-          } catch {
-            return null;
-          }
-        })
-        .filter(entry => entry && new Date(entry.timestamp) > cutoffTime)
-        .filter(Boolean) as SecurityLogEntry[];
-    } catch (error) {
-      console.error('Failed to read security logs:', error);
-      return [];
-    }
-  }
 }
 
 // Singleton instance
@@ -344,44 +310,67 @@ export const logValidationFailure = (errors: any[]) => {
   };
 };
 
-// Rate limiting tracker
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
-
-// Middleware for basic rate limiting and logging
-export const rateLimitAndLog = (maxRequests: number = 100, windowMs: number = 15 * 60 * 1000) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const clientId = req.ip || 'unknown';
-    const now = Date.now();
-    const windowStart = now - windowMs;
+// Middleware for rate limiting and logging. Requests are counted per limiter
+// name and client (by default the signed-in user, otherwise the IP address;
+// getClientId can key on something else, such as the email a request targets)
+// in the configured rate limit store. Requests without a client ID, or while
+// the store is unreachable, are let through.
+export const rateLimitAndLog = (
+  maxRequests: number = 100,
+  windowMs: number = 15 * 60 * 1000,
+  name: string = 'global',
+  getClientId: (req: Request) => string | undefined = req => req.user?.userId || req.ip || 'unknown'
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const clientId = getClientId(req);
+    if (!clientId) {
+      return next();
+    }
 
-    // Get or create request count for this client
-    let clientData = requestCounts.get(clientId);
-    
-    if (!clientData || clientData.resetTime < now) {
-      clientData = { count: 0, resetTime: now + windowMs };
-      requestCounts.set(clientId, clientData);
+    let hit;
+    try {
+      hit = await getRateLimitStore().increment(`${name}:${clientId}`, windowMs);
+    } catch (error) {
+      console.error('Rate limit store error:', error);
+      return next();
     }
 
-    clientData.count++;
+    if (hit.count > maxRequests) {
+      const retryAfter = Math.max(1, Math.ceil((hit.resetTime - Date.now()) / 1000));
+      const details = {
+        limiter: name,
+        clientId,
+        requestCount: hit.count,
+        maxRequests,
+        windowMs
+      };
+
+      // Flag the client once, when it first goes over the limit in this window
+      if (hit.count === maxRequests + 1) {
+        securityLogger.log(
+          SecurityLogLevel.WARNING,
+          SecurityEventType.SUSPICIOUS_ACTIVITY,
+          `Rate limit "${name}" tripped by ${clientId}`,
+          req,
+          details,
+          false
+        );
+      }
 
-    if (clientData.count > maxRequests) {
       securityLogger.log(
         SecurityLogLevel.WARNING,
         SecurityEventType.RATE_LIMIT_EXCEEDED,
-        `Rate limit exceeded for IP ${clientId}`,
+        `Rate limit exceeded for ${clientId}`,
         req,
-        {
-          requestCount: clientData.count,
-          maxRequests,
-          windowMs
-        },
+        details,
         false
       );
 
+      res.setHeader('Retry-After', retryAfter.toString());
       return res.status(429).json({
         success: false,
         message: 'Too many requests. Please try again later.',
-        retryAfter: Math.ceil((clientData.resetTime - now) / 1000)
+        retryAfter
       });
     }
 
@@ -391,8 +380,3 @@ export const rateLimitAndLog = (maxRequests: number = 100, windowMs: number = 15
 
 // Export the logger instance for direct use
 export { securityLogger };
-
-// Helper function to get security logs (for admin dashboard)
-export const getSecurityLogs = (hours: number = 24): SecurityLogEntry[] => {
-  return securityLogger.getRecentLogs(hours);
-};
\ No newline at end of file
@@ -1,6 +1,7 @@
 import multer from 'multer';
 import path from 'path';
 import { fileUploadSchema } from '../utils/validation';
+import { rateLimitAndLog } from './securityLogger';
 
 // Sanitize filename to prevent directory traversal and other attacks
 const sanitizeFilename = (filename: string): string => {
@@ -13,8 +14,8 @@ const sanitizeFilename = (filename: string): string => {
     .substring(0, 100); // Limit length
 };
 
-// Configure multer for memory storage (files uploaded to Cloudinary, no local storage)
-// Files will be stored in memory temporarily and uploaded directly to Cloudinary
+// Configure multer for memory storage (multer writes nothing to disk)
+// Files are held in memory temporarily and handed to the storage driver (see config/storage)
 const storage = multer.memoryStorage();
 
 // Enhanced file filter function with security checks
@@ -89,6 +90,9 @@ const upload = multer({
   }
 });
 
+// Upload requests allowed per user every 15 minutes, across all upload routes
+export const uploadRateLimit = rateLimitAndLog(30, 15 * 60 * 1000, 'upload');
+
 // Middleware for uploading images with additional validation
 export const uploadImages = (req: any, res: any, next: any) => {
   const uploadMiddleware = upload.array('images', 10);
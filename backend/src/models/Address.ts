@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema, SchemaDefinition } from 'mongoose';
+
+// Maximum number of saved addresses per user
+export const MAX_SAVED_ADDRESSES = 20;
+
+// Postal address fields, shared by saved addresses and order shipping addresses
+export interface IAddressFields {
+  fullName: string;
+  phone: string;
+  street: string;
+  city: string;
+  state?: string;
+  zipCode?: string;
+  country: string;
+}
+
+const addressFields: SchemaDefinition<IAddressFields> = {
+  fullName: {
+    type: String,
+    required: [true, 'Full name is required'],
+    trim: true,
+    maxlength: [100, 'Full name cannot exceed 100 characters']
+  },
+  phone: {
+    type: String,
+    required: [true, 'Phone number is required'],
+    trim: true,
+    maxlength: [20, 'Phone number cannot exceed 20 characters']
+  },
+  street: {
+    type: String,
+    required: [true, 'Street address is required'],
+    trim: true,
+    maxlength: [200, 'Street address cannot exceed 200 characters']
+  },
+  city: {
+    type: String,
+    required: [true, 'City is required'],
+    trim: true,
+    maxlength: [50, 'City cannot exceed 50 characters']
+  },
+  state: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'State cannot exceed 50 characters']
+  },
+  zipCode: {
+    type: String,
+    trim: true,
+    maxlength: [10, 'ZIP code cannot exceed 10 characters']
+  },
+  country: {
+    type: String,
+    required: [true, 'Country is required'],
+    trim: true,
+    maxlength: [50, 'Country cannot exceed 50 characters']
+  }
+};
+
+// Embedded copy of an address, e.g. the shipping address stored on an order
+export const addressFieldsSchema = new Schema<IAddressFields>(addressFields, { _id: false });
+
+// Saved address interface
+export interface IAddress extends IAddressFields, Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  label?: string;            // e.g. "Home", "Office"
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Saved address schema
+const addressSchema = new Schema<IAddress>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [30, 'Label cannot exceed 30 characters']
+  },
+  ...addressFields,
+  isDefaultShipping: {
+    type: Boolean,
+    default: false
+  },
+  isDefaultBilling: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keep updatedAt current on every save
+addressSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// At most one default shipping and one default billing address per user
+addressSchema.index({ userId: 1, isDefaultShipping: 1 }, { unique: true, partialFilterExpression: { isDefaultShipping: true } });
+addressSchema.index({ userId: 1, isDefaultBilling: 1 }, { unique: true, partialFilterExpression: { isDefaultBilling: true } });
+addressSchema.index({ userId: 1, updatedAt: -1 });
+
+const Address = mongoose.model<IAddress>('Address', addressSchema);
+
+export default Address;
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What an uploaded file was uploaded for, which decides where it may be referenced
+export const ASSET_PURPOSES = ['product_image', 'product_document', 'review_image', 'return_photo'] as const;
+
+export type AssetPurpose = typeof ASSET_PURPOSES[number];
+
+// Asset interface: one uploaded file and who it belongs to
+export interface IAsset extends Document {
+  _id: string;
+  ownerId: mongoose.Types.ObjectId;       // Product's seller, or the buyer for review and return photos
+  productId?: mongoose.Types.ObjectId;
+  purpose: AssetPurpose;
+  driver: string;                         // Storage driver holding the file (see config/storage)
+  key: string;                            // Driver's key for the file (the Cloudinary public_id)
+  url: string;
+  kind: 'image' | 'document';
+  bytes: number;
+  contentType?: string;
+  orphanedAt?: Date;                      // When the file was first found unused; cleared if it is used again
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Asset schema
+const assetSchema = new Schema<IAsset>({
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Owner ID is required']
+  },
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product'
+  },
+  purpose: {
+    type: String,
+    required: [true, 'Purpose is required'],
+    enum: {
+      values: ASSET_PURPOSES,
+      message: 'Invalid asset purpose'
+    }
+  },
+  driver: {
+    type: String,
+    required: [true, 'Storage driver is required']
+  },
+  key: {
+    type: String,
+    required: [true, 'Storage key is required']
+  },
+  url: {
+    type: String,
+    required: [true, 'URL is required']
+  },
+  kind: {
+    type: String,
+    enum: ['image', 'document'],
+    required: [true, 'Kind is required']
+  },
+  bytes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  contentType: {
+    type: String
+  },
+  orphanedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for better query performance (lookups by file, usage per owner)
+assetSchema.index({ driver: 1, key: 1 }, { unique: true });
+assetSchema.index({ url: 1 });
+assetSchema.index({ ownerId: 1, purpose: 1 });
+
+// Update the updatedAt field before saving
+assetSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Create and export the Asset model
+const Asset = mongoose.model<IAsset>('Asset', assetSchema);
+
+export default Asset;
@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Security log levels
+export enum SecurityLogLevel {
+  INFO = 'INFO',
+  WARNING = 'WARNING',
+  CRITICAL = 'CRITICAL',
+  AUDIT = 'AUDIT'
+}
+
+// Security event types
+export enum SecurityEventType {
+  AUTH_SUCCESS = 'AUTH_SUCCESS',
+  AUTH_FAILURE = 'AUTH_FAILURE',
+  UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
+  ACCOUNT_BAN = 'ACCOUNT_BAN',
+  ACCOUNT_UNBAN = 'ACCOUNT_UNBAN',
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
+  ADMIN_ACTION = 'ADMIN_ACTION',
+  ROLE_CHANGE = 'ROLE_CHANGE',
+  FILE_UPLOAD = 'FILE_UPLOAD',
+  MALICIOUS_FILE_DETECTED = 'MALICIOUS_FILE_DETECTED',
+  VALIDATION_FAILURE = 'VALIDATION_FAILURE',
+  RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+  SUSPICIOUS_ACTIVITY = 'SUSPICIOUS_ACTIVITY'
+}
+
+// How long audit events are kept before MongoDB removes them. Changing it only
+// affects a new deployment; an existing TTL index must be updated with collMod.
+export const AUDIT_RETENTION_DAYS = parseInt(process.env.AUDIT_RETENTION_DAYS || '90');
+
+// AuditEvent interface (one per SecurityLogger.log call)
+export interface IAuditEvent extends Document {
+  _id: string;
+  timestamp: Date;
+  level: SecurityLogLevel;
+  eventType: SecurityEventType;
+  action: string;
+  success: boolean;
+  userId?: mongoose.Types.ObjectId;
+  email?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  resource?: string;
+  details?: any;
+}
+
+// AuditEvent schema
+const auditEventSchema = new Schema<IAuditEvent>({
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  level: {
+    type: String,
+    required: [true, 'Log level is required'],
+    enum: {
+      values: Object.values(SecurityLogLevel),
+      message: 'Invalid log level'
+    }
+  },
+  eventType: {
+    type: String,
+    required: [true, 'Event type is required'],
+    enum: {
+      values: Object.values(SecurityEventType),
+      message: 'Invalid event type'
+    }
+  },
+  action: {
+    type: String,
+    required: [true, 'Action is required'],
+    trim: true,
+    maxlength: [500, 'Action cannot exceed 500 characters']
+  },
+  success: {
+    type: Boolean,
+    default: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+  resource: {
+    type: String,
+    trim: true
+  },
+  details: {
+    type: Schema.Types.Mixed
+  }
+});
+
+// Index for better query performance (the admin viewer filters by each of these, newest first)
+auditEventSchema.index({ eventType: 1, timestamp: -1 });
+auditEventSchema.index({ userId: 1, timestamp: -1 });
+auditEventSchema.index({ ipAddress: 1, timestamp: -1 });
+auditEventSchema.index({ level: 1, timestamp: -1 });
+
+// Let MongoDB remove events once they are older than the retention period
+auditEventSchema.index({ timestamp: 1 }, { expireAfterSeconds: AUDIT_RETENTION_DAYS * 24 * 60 * 60 });
+
+// Create and export the AuditEvent model
+const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AuthTokenType = 'password_reset' | 'email_verification';
+
+// Single-use token emailed to a user (password reset, email verification).
+// Only a SHA-256 hash of the token is stored.
+export interface IAuthToken extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+// Auth token schema
+const authTokenSchema = new Schema<IAuthToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  type: {
+    type: String,
+    required: [true, 'Token type is required'],
+    enum: {
+      values: ['password_reset', 'email_verification'],
+      message: 'Invalid token type'
+    }
+  },
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  usedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for better query performance
+authTokenSchema.index({ userId: 1, type: 1 });
+
+// Let MongoDB remove tokens once they have expired
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export the AuthToken model
+const AuthToken = mongoose.model<IAuthToken>('AuthToken', authTokenSchema);
+
+export default AuthToken;
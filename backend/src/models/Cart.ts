@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Cart item interface
+export interface ICartItem {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;  // Chosen variant for products sold in variants
+  quantity: number;
+  addedAt: Date;
+}
+
+// Cart interface (one cart per user; prices are resolved live from Product)
+export interface ICart extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  items: ICartItem[];
+  updatedAt: Date;
+}
+
+// Cart item schema
+const cartItemSchema = new Schema<ICartItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  variantId: {
+    type: Schema.Types.ObjectId
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+    max: [100, 'Quantity cannot exceed 100']
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Cart schema
+const cartSchema = new Schema<ICart>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    unique: true
+  },
+  items: {
+    type: [cartItemSchema],
+    default: [],
+    validate: {
+      validator: function(items: ICartItem[]) {
+        return items.length <= 50; // Maximum 50 distinct lines per cart
+      },
+      message: 'Cart cannot contain more than 50 different products'
+    }
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keep updatedAt current on every save
+cartSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Create and export the Cart model
+const Cart = mongoose.model<ICart>('Cart', cartSchema);
+
+export default Cart;
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Categories nest at most this deep (top level = 1), e.g. Clothing > Men > Jackets
+export const MAX_CATEGORY_DEPTH = 3;
+
+// Top-level categories created by the seed script and by the migration from the
+// old fixed category list (names match the strings products used to store)
+export const DEFAULT_CATEGORIES = [
+  { name: 'Electronics', slug: 'electronics', icon: '💻' },
+  { name: 'Clothing', slug: 'clothing', icon: '👕' },
+  { name: 'Books', slug: 'books', icon: '📚' },
+  { name: 'Home & Garden', slug: 'home-and-garden', icon: '🏡' },
+  { name: 'Sports', slug: 'sports', icon: '⚽' },
+  { name: 'Beauty', slug: 'beauty', icon: '💄' },
+  { name: 'Automotive', slug: 'automotive', icon: '🚗' },
+  { name: 'Food', slug: 'food', icon: '🍎' },
+  { name: 'Toys', slug: 'toys', icon: '🧸' },
+  { name: 'Other', slug: 'other', icon: '📦' }
+] as const;
+
+// Category interface
+export interface ICategory extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;                         // URL-safe identifier used in search links, unique across the tree
+  parent?: mongoose.Types.ObjectId | null;
+  icon?: string;                        // Emoji shown next to the name, e.g. "📚"
+  sortOrder: number;                    // Siblings are listed by sortOrder, then name
+  isActive: boolean;                    // Inactive categories are hidden and can't receive new products
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Category schema
+const categorySchema = new Schema<ICategory>({
+  name: {
+    type: String,
+    required: [true, 'Category name is required'],
+    trim: true,
+    maxlength: [50, 'Category name cannot exceed 50 characters']
+  },
+  slug: {
+    type: String,
+    required: [true, 'Category slug is required'],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and single hyphens'],
+    maxlength: [60, 'Slug cannot exceed 60 characters']
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null
+  },
+  icon: {
+    type: String,
+    trim: true,
+    maxlength: [16, 'Icon cannot exceed 16 characters']
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keep updatedAt current on every save
+categorySchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Sibling categories must have distinct names
+categorySchema.index({ parent: 1, name: 1 }, { unique: true });
+categorySchema.index({ parent: 1, sortOrder: 1 });
+
+const Category = mongoose.model<ICategory>('Category', categorySchema);
+
+export default Category;
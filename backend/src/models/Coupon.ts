@@ -0,0 +1,195 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Percentage coupons take value% off the eligible items (optionally capped at
+// maxDiscount); fixed coupons take value off, up to the eligible subtotal.
+export const COUPON_TYPES = ['percentage', 'fixed'] as const;
+export type CouponType = typeof COUPON_TYPES[number];
+
+// Coupon interface
+export interface ICoupon extends Document {
+  _id: string;
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  minOrderValue: number;               // Minimum eligible subtotal
+  usageLimit?: number;                 // Total redemptions across all buyers
+  perUserLimit?: number;               // Redemptions per buyer
+  usedCount: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  // Restrictions; an empty list means no restriction of that kind
+  categories: mongoose.Types.ObjectId[];   // Subcategories are included
+  productIds: mongoose.Types.ObjectId[];
+  sellerIds: mongoose.Types.ObjectId[];
+  sellerId?: mongoose.Types.ObjectId;  // Set for seller promotions, which only apply to that seller's products
+  createdBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Coupon redemption interface. One per checkout that used the coupon.
+export interface ICouponRedemption extends Document {
+  couponId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  checkoutId: string;
+  slot?: number;           // Which of the buyer's perUserLimit uses this is (coupons with a per-user limit)
+  discount: number;
+  createdAt: Date;
+}
+
+// Coupon schema
+const couponSchema = new Schema<ICoupon>({
+  code: {
+    type: String,
+    required: [true, 'Coupon code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z0-9_-]{3,30}$/, 'Coupon code must be 3-30 letters, numbers, dashes or underscores']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  type: {
+    type: String,
+    required: [true, 'Coupon type is required'],
+    enum: {
+      values: COUPON_TYPES,
+      message: 'Invalid coupon type'
+    }
+  },
+  value: {
+    type: Number,
+    required: [true, 'Coupon value is required'],
+    min: [0.01, 'Coupon value must be positive']
+  },
+  maxDiscount: {
+    type: Number,
+    min: [0.01, 'Maximum discount must be positive']
+  },
+  minOrderValue: {
+    type: Number,
+    default: 0,
+    min: [0, 'Minimum order value cannot be negative']
+  },
+  usageLimit: {
+    type: Number,
+    min: [1, 'Usage limit must be at least 1']
+  },
+  perUserLimit: {
+    type: Number,
+    min: [1, 'Per-user limit must be at least 1']
+  },
+  usedCount: {
+    type: Number,
+    default: 0
+  },
+  startsAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  },
+  categories: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Category'
+  }],
+  productIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Product'
+  }],
+  sellerIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  sellerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Percentage coupons cannot exceed 100% and the validity window must be ordered
+couponSchema.pre('validate', function(next) {
+  if (this.type === 'percentage' && this.value > 100) {
+    this.invalidate('value', 'Percentage discount cannot exceed 100');
+  }
+  if (this.startsAt && this.expiresAt && this.startsAt >= this.expiresAt) {
+    this.invalidate('expiresAt', 'Expiry must be after the start date');
+  }
+  next();
+});
+
+// Update the updatedAt field before saving
+couponSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+couponSchema.index({ sellerId: 1, createdAt: -1 });
+
+// Coupon redemption schema
+const couponRedemptionSchema = new Schema<ICouponRedemption>({
+  couponId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: [true, 'Coupon ID is required']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  checkoutId: {
+    type: String,
+    required: [true, 'Checkout ID is required']
+  },
+  slot: {
+    type: Number,
+    min: [0, 'Slot cannot be negative']
+  },
+  discount: {
+    type: Number,
+    required: [true, 'Discount is required'],
+    min: [0, 'Discount cannot be negative']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+couponRedemptionSchema.index({ couponId: 1, userId: 1 });
+couponRedemptionSchema.index({ couponId: 1, checkoutId: 1 }, { unique: true });
+// Each per-user slot can be taken once, so concurrent checkouts can't exceed perUserLimit
+couponRedemptionSchema.index(
+  { couponId: 1, userId: 1, slot: 1 },
+  { unique: true, partialFilterExpression: { slot: { $exists: true } } }
+);
+
+export const CouponRedemption = mongoose.model<ICouponRedemption>('CouponRedemption', couponRedemptionSchema);
+
+const Coupon = mongoose.model<ICoupon>('Coupon', couponSchema);
+
+export default Coupon;
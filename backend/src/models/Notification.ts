@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What a notification is about. Each type belongs to a preference category.
+export const NOTIFICATION_TYPES = [
+  'order_placed',       // Seller: a buyer ordered their products
+  'order_status',       // Buyer or seller: an order moved to a new status
+  'account_banned',
+  'account_unbanned',
+  'product_deactivated' // Seller: someone else took their product off sale
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Categories users can switch off in their notification preferences
+export const NOTIFICATION_CATEGORIES = ['orders', 'account', 'products'] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const NOTIFICATION_TYPE_CATEGORIES: Record<NotificationType, NotificationCategory> = {
+  order_placed: 'orders',
+  order_status: 'orders',
+  account_banned: 'account',
+  account_unbanned: 'account',
+  product_deactivated: 'products'
+};
+
+// Most notifications returned by one list request
+export const MAX_NOTIFICATIONS_PAGE = 50;
+
+// How long notifications are kept before MongoDB removes them
+export const NOTIFICATION_RETENTION_DAYS = 90;
+
+// Notification interface
+export interface INotification extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;           // Frontend path to open, e.g. /orders
+  data?: Record<string, any>;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+// Notification schema
+const notificationSchema = new Schema<INotification>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  type: {
+    type: String,
+    required: [true, 'Notification type is required'],
+    enum: {
+      values: NOTIFICATION_TYPES,
+      message: 'Invalid notification type'
+    }
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [120, 'Title cannot exceed 120 characters']
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  link: {
+    type: String,
+    trim: true
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  readAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for better query performance (a user's newest first, and their unread count)
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, readAt: 1 });
+
+// Let MongoDB remove old notifications
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 });
+
+// Create and export the Notification model
+const Notification = mongoose.model<INotification>('Notification', notificationSchema);
+
+export default Notification;
@@ -1,32 +1,118 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { addressFieldsSchema, IAddressFields } from './Address';
+import { variantSelectionSchema, IVariantSelection } from './Product';
+
+// Order lifecycle statuses
+export const ORDER_STATUSES = ['Pending', 'Processing', 'Out for Delivery', 'Completed', 'Cancelled'] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed status transitions. Orders can only be cancelled before they ship;
+// Completed and Cancelled are terminal (only an admin override can leave them).
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  'Pending': ['Processing', 'Cancelled'],
+  'Processing': ['Out for Delivery', 'Cancelled'],
+  'Out for Delivery': ['Completed'],
+  'Completed': [],
+  'Cancelled': []
+};
+
+// Check whether an order may move from one status to another without an override
+export const canTransitionStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+// Return request lifecycle: a buyer requests a return on a Completed order,
+// the seller (or an admin) approves or rejects it, and approved returns are
+// marked refunded once the money has been sent back.
+export const RETURN_STATUSES = ['Requested', 'Approved', 'Rejected', 'Refunded'] as const;
+export type ReturnStatus = typeof RETURN_STATUSES[number];
+
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  'Requested': ['Approved', 'Rejected'],
+  'Approved': ['Refunded'],
+  'Rejected': [],
+  'Refunded': []
+};
+
+// Payment state of an order. Cash on Delivery orders stay Unpaid until
+// delivery; online orders wait for the payment provider to confirm.
+export const ORDER_PAYMENT_STATUSES = ['Unpaid', 'Awaiting Payment', 'Paid', 'Payment Failed', 'Refunded'] as const;
+export type OrderPaymentStatus = typeof ORDER_PAYMENT_STATUSES[number];
 
 // Order product interface
 export interface IOrderProduct {
   productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;  // Chosen variant for products sold in variants
+  sku?: string;            // Variant SKU and options are copied at order time so
+  variantOptions?: IVariantSelection[];  // later variant edits don't change what was bought
   quantity: number;
   price: number;
 }
 
+// Discount line interface. Coupons spanning several sellers are split across
+// their orders, so each order records its own share.
+export interface IOrderDiscount {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  description?: string;
+  amount: number;
+}
+
 // Order status history interface
 export interface IOrderStatusHistory {
-  status: string;
+  status: OrderStatus;
+  timestamp: Date;
+  updatedBy: mongoose.Types.ObjectId;
+  reason?: string;         // Required when an admin overrides the transition table
+  isOverride?: boolean;
+}
+
+// Return request line interface
+export interface IReturnItem {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+// Return request history interface
+export interface IReturnHistory {
+  status: ReturnStatus;
   timestamp: Date;
   updatedBy: mongoose.Types.ObjectId;
+  note?: string;
+}
+
+// Return request interface
+export interface IReturnRequest {
+  status: ReturnStatus;
+  reason: string;
+  items: IReturnItem[];
+  photos: string[];        // File storage URLs uploaded by the buyer
+  refundAmount: number;
+  requestedAt: Date;
+  history: IReturnHistory[];
 }
 
 // Order interface
 export interface IOrder extends Document {
   _id: string;
   orderId: string;         // Unique order identifier
+  checkoutId?: string;     // Shared by all per-seller orders placed in one checkout
   buyerId: mongoose.Types.ObjectId;
   sellerId: mongoose.Types.ObjectId;
   products: IOrderProduct[];
-  totalAmount: number;
-  status: 'Pending' | 'Processing' | 'Out for Delivery' | 'Completed' | 'Cancelled';
+  subtotal?: number;       // Sum of line prices before discounts (missing on orders placed before coupons)
+  discounts: IOrderDiscount[];
+  discountTotal: number;
+  totalAmount: number;     // What the buyer pays: subtotal - discountTotal
+  status: OrderStatus;
   paymentMethod: string;
-  shippingAddress: string;
+  paymentStatus: OrderPaymentStatus;
+  paymentId?: mongoose.Types.ObjectId;  // Online payment covering this order's checkout
+  shippingAddress: IAddressFields; // Copied at order time so later address book edits don't change it
   orderDate: Date;
   statusHistory: IOrderStatusHistory[];
+  returnRequest?: IReturnRequest;
 }
 
 // Order product schema
@@ -36,6 +122,17 @@ const orderProductSchema = new Schema<IOrderProduct>({
     ref: 'Product',
     required: [true, 'Product ID is required']
   },
+  variantId: {
+    type: Schema.Types.ObjectId
+  },
+  sku: {
+    type: String,
+    trim: true
+  },
+  variantOptions: {
+    type: [variantSelectionSchema],
+    default: undefined
+  },
   quantity: {
     type: Number,
     required: [true, 'Quantity is required'],
@@ -49,13 +146,36 @@ const orderProductSchema = new Schema<IOrderProduct>({
   }
 }, { _id: false });
 
+// Discount line schema
+const orderDiscountSchema = new Schema<IOrderDiscount>({
+  couponId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: [true, 'Coupon ID is required']
+  },
+  code: {
+    type: String,
+    required: [true, 'Coupon code is required'],
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Discount amount is required'],
+    min: [0, 'Discount amount cannot be negative']
+  }
+}, { _id: false });
+
 // Order status history schema
 const statusHistorySchema = new Schema<IOrderStatusHistory>({
   status: {
     type: String,
     required: [true, 'Status is required'],
     enum: {
-      values: ['Pending', 'Processing', 'Out for Delivery', 'Completed', 'Cancelled'],
+      values: ORDER_STATUSES,
       message: 'Invalid status value'
     }
   },
@@ -67,6 +187,109 @@ const statusHistorySchema = new Schema<IOrderStatusHistory>({
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: [true, 'Updated by user ID is required']
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  isOverride: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+// Return request line schema
+const returnItemSchema = new Schema<IReturnItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  variantId: {
+    type: Schema.Types.ObjectId
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1']
+  }
+}, { _id: false });
+
+// Return request history schema
+const returnHistorySchema = new Schema<IReturnHistory>({
+  status: {
+    type: String,
+    required: [true, 'Status is required'],
+    enum: {
+      values: RETURN_STATUSES,
+      message: 'Invalid return status'
+    }
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Updated by user ID is required']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+// Return request schema
+const returnRequestSchema = new Schema<IReturnRequest>({
+  status: {
+    type: String,
+    enum: {
+      values: RETURN_STATUSES,
+      message: 'Invalid return status'
+    },
+    default: 'Requested'
+  },
+  reason: {
+    type: String,
+    required: [true, 'Return reason is required'],
+    trim: true,
+    minlength: [10, 'Return reason must be at least 10 characters'],
+    maxlength: [1000, 'Return reason cannot exceed 1000 characters']
+  },
+  items: {
+    type: [returnItemSchema],
+    validate: {
+      validator: function(items: IReturnItem[]) {
+        return items.length > 0;
+      },
+      message: 'Return request must contain at least one product'
+    }
+  },
+  photos: {
+    type: [String],
+    default: [],
+    validate: {
+      validator: function(photos: string[]) {
+        return photos.length <= 5; // Maximum 5 photos per return request
+      },
+      message: 'Cannot attach more than 5 photos to a return request'
+    }
+  },
+  refundAmount: {
+    type: Number,
+    required: [true, 'Refund amount is required'],
+    min: [0, 'Refund amount cannot be negative']
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now
+  },
+  history: {
+    type: [returnHistorySchema],
+    default: []
   }
 }, { _id: false });
 
@@ -77,6 +300,10 @@ const orderSchema = new Schema<IOrder>({
     unique: true,
     trim: true
   },
+  checkoutId: {
+    type: String,
+    trim: true
+  },
   buyerId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -97,6 +324,19 @@ const orderSchema = new Schema<IOrder>({
       message: 'Order must contain at least one product'
     }
   },
+  subtotal: {
+    type: Number,
+    min: [0, 'Subtotal cannot be negative']
+  },
+  discounts: {
+    type: [orderDiscountSchema],
+    default: []
+  },
+  discountTotal: {
+    type: Number,
+    default: 0,
+    min: [0, 'Discount total cannot be negative']
+  },
   totalAmount: {
     type: Number,
     required: [true, 'Total amount is required'],
@@ -105,7 +345,7 @@ const orderSchema = new Schema<IOrder>({
   status: {
     type: String,
     enum: {
-      values: ['Pending', 'Processing', 'Out for Delivery', 'Completed', 'Cancelled'],
+      values: ORDER_STATUSES,
       message: 'Invalid order status'
     },
     default: 'Pending'
@@ -119,11 +359,21 @@ const orderSchema = new Schema<IOrder>({
       message: 'Invalid payment method'
     }
   },
-  shippingAddress: {
+  paymentStatus: {
     type: String,
-    required: [true, 'Shipping address is required'],
-    trim: true,
-    maxlength: [500, 'Shipping address cannot exceed 500 characters']
+    enum: {
+      values: ORDER_PAYMENT_STATUSES,
+      message: 'Invalid payment status'
+    },
+    default: 'Unpaid'
+  },
+  paymentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Payment'
+  },
+  shippingAddress: {
+    type: addressFieldsSchema,
+    required: [true, 'Shipping address is required']
   },
   orderDate: {
     type: Date,
@@ -132,6 +382,10 @@ const orderSchema = new Schema<IOrder>({
   statusHistory: {
     type: [statusHistorySchema],
     default: []
+  },
+  returnRequest: {
+    type: returnRequestSchema,
+    required: false
   }
 });
 
@@ -156,25 +410,51 @@ orderSchema.pre('save', async function(next) {
   next();
 });
 
-// Pre-save middleware to update status history when status changes
+// Remember the persisted status so transitions can be validated on save
+orderSchema.post('init', function(doc) {
+  doc.$locals.persistedStatus = doc.status;
+});
+
+// Pre-save middleware to enforce the status state machine and update status history.
+// Transitions outside ORDER_STATUS_TRANSITIONS are only accepted when the caller
+// has recorded an override entry (with reason) for the new status.
 orderSchema.pre('save', function(next) {
   if (this.isModified('status') && !this.isNew) {
-    // Add new status to history
-    this.statusHistory.push({
-      status: this.status,
-      timestamp: new Date(),
-      updatedBy: this.sellerId // Assuming seller updates the status
-    });
+    const previousStatus = this.$locals.persistedStatus as OrderStatus | undefined;
+    const lastEntry = this.statusHistory[this.statusHistory.length - 1];
+    const isOverride = lastEntry?.status === this.status && lastEntry.isOverride === true;
+
+    if (previousStatus && !isOverride && !canTransitionStatus(previousStatus, this.status)) {
+      return next(new Error(`Invalid status transition from ${previousStatus} to ${this.status}`));
+    }
+
+    // Add new status to history unless the caller already recorded it
+    if (lastEntry?.status !== this.status) {
+      this.statusHistory.push({
+        status: this.status,
+        timestamp: new Date(),
+        updatedBy: this.sellerId // Assuming seller updates the status
+      });
+    }
   }
   
   next();
 });
 
+// Track the new persisted status after each save
+orderSchema.post('save', function(doc) {
+  doc.$locals.persistedStatus = doc.status;
+});
+
 // Index for better query performance
 orderSchema.index({ buyerId: 1 });
+orderSchema.index({ checkoutId: 1 });
 orderSchema.index({ sellerId: 1 });
+orderSchema.index({ sellerId: 1, orderDate: -1 });
 orderSchema.index({ status: 1 });
 orderSchema.index({ orderDate: -1 });
+orderSchema.index({ 'returnRequest.status': 1 });
+orderSchema.index({ 'discounts.couponId': 1 });
 
 // Virtual for populated buyer information
 orderSchema.virtual('buyer', {
@@ -0,0 +1,206 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Payment lifecycle. A payment is created when an online checkout starts,
+// authorized and captured once the buyer pays, and may then be refunded in
+// one or more steps. Failed, Cancelled and Refunded are terminal.
+export const PAYMENT_STATUSES = ['Pending', 'Authorized', 'Captured', 'Partially Refunded', 'Refunded', 'Failed', 'Cancelled'] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  'Pending': ['Authorized', 'Captured', 'Failed', 'Cancelled'],
+  'Authorized': ['Captured', 'Failed', 'Cancelled'],
+  'Captured': ['Partially Refunded', 'Refunded'],
+  'Partially Refunded': ['Partially Refunded', 'Refunded'],
+  'Refunded': [],
+  'Failed': [],
+  'Cancelled': []
+};
+
+// Check whether a payment may move from one status to another
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus): boolean => {
+  return PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+};
+
+// Payment status history interface
+export interface IPaymentHistory {
+  status: PaymentStatus;
+  timestamp: Date;
+  eventId?: string;        // Provider webhook event that caused the change
+  note?: string;
+}
+
+// Refund interface
+export interface IPaymentRefund {
+  providerRefundId: string;
+  amount: number;
+  orderId?: mongoose.Types.ObjectId;
+  reason?: string;
+  createdAt: Date;
+}
+
+// Payment interface
+export interface IPayment extends Document {
+  _id: string;
+  checkoutId: string;      // Every order in the checkout is paid by this payment
+  orderIds: mongoose.Types.ObjectId[];
+  buyerId: mongoose.Types.ObjectId;
+  provider: string;
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  capturedAmount: number;
+  refundedAmount: number;
+  refunds: IPaymentRefund[];
+  failureReason?: string;
+  redirectUrl?: string;
+  processedEventIds: string[];
+  history: IPaymentHistory[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Payment status history schema
+const paymentHistorySchema = new Schema<IPaymentHistory>({
+  status: {
+    type: String,
+    required: [true, 'Status is required'],
+    enum: {
+      values: PAYMENT_STATUSES,
+      message: 'Invalid payment status'
+    }
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  eventId: {
+    type: String
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+// Refund schema
+const paymentRefundSchema = new Schema<IPaymentRefund>({
+  providerRefundId: {
+    type: String,
+    required: [true, 'Provider refund ID is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Refund amount is required'],
+    min: [0, 'Refund amount cannot be negative']
+  },
+  orderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Payment schema
+const paymentSchema = new Schema<IPayment>({
+  checkoutId: {
+    type: String,
+    required: [true, 'Checkout ID is required']
+  },
+  orderIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  }],
+  buyerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Buyer ID is required']
+  },
+  provider: {
+    type: String,
+    required: [true, 'Payment provider is required']
+  },
+  providerPaymentId: {
+    type: String,
+    required: [true, 'Provider payment ID is required'],
+    unique: true
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0, 'Amount cannot be negative']
+  },
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true
+  },
+  status: {
+    type: String,
+    enum: {
+      values: PAYMENT_STATUSES,
+      message: 'Invalid payment status'
+    },
+    default: 'Pending'
+  },
+  capturedAmount: {
+    type: Number,
+    default: 0
+  },
+  refundedAmount: {
+    type: Number,
+    default: 0
+  },
+  refunds: {
+    type: [paymentRefundSchema],
+    default: []
+  },
+  failureReason: {
+    type: String,
+    trim: true
+  },
+  redirectUrl: {
+    type: String
+  },
+  processedEventIds: {
+    type: [String],
+    default: []
+  },
+  history: {
+    type: [paymentHistorySchema],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Record the initial status and keep updatedAt current
+paymentSchema.pre('save', function(next) {
+  if (this.isNew && this.history.length === 0) {
+    this.history.push({ status: this.status, timestamp: new Date() });
+  }
+  this.updatedAt = new Date();
+  next();
+});
+
+paymentSchema.index({ checkoutId: 1 });
+paymentSchema.index({ buyerId: 1, createdAt: -1 });
+
+const Payment = mongoose.model<IPayment>('Payment', paymentSchema);
+
+export default Payment;
@@ -1,19 +1,115 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// A variant dimension and its allowed values, e.g. Size: S, M, L
+export interface IVariantOption {
+  name: string;
+  values: string[];
+}
+
+// One option value picked for a variant, e.g. Size: M
+export interface IVariantSelection {
+  name: string;
+  value: string;
+}
+
+// A purchasable combination of option values with its own SKU, price and stock
+export interface IProductVariant {
+  _id: mongoose.Types.ObjectId;
+  sku: string;
+  options: IVariantSelection[];  // One value per variant option, in option order
+  price?: number;          // Overrides the product price when set
+  stock: number;
+  images: string[];        // Subset of the product's images showing this variant
+  isActive: boolean;
+}
+
 // Product interface
 export interface IProduct extends Document {
   _id: string;
   title: string;
   description: string;
-  category: string;
+  category: mongoose.Types.ObjectId;  // Category the product is filed under
   price: number;
-  images: string[];        // Array of Cloudinary public URLs
-  documents: string[];     // Array of PDF Cloudinary URLs (optional)
+  images: string[];        // Array of public URLs from file storage
+  documents: string[];     // Array of PDF URLs from file storage (optional)
+  stock: number;           // Units available for sale (sum of variant stock when the product has variants)
+  lowStockThreshold: number; // Seller is warned when stock falls to this level
+  variantOptions: IVariantOption[];
+  variants: IProductVariant[];
   sellerId: mongoose.Types.ObjectId;
+  averageRating: number;   // Mean of visible review ratings, 0 when unreviewed
+  reviewCount: number;     // Number of visible reviews
   isActive: boolean;
   createdAt: Date;
 }
 
+// Variant option schema
+const variantOptionSchema = new Schema<IVariantOption>({
+  name: {
+    type: String,
+    required: [true, 'Option name is required'],
+    trim: true,
+    maxlength: [30, 'Option name cannot exceed 30 characters']
+  },
+  values: {
+    type: [String],
+    validate: {
+      validator: function(values: string[]) {
+        return values.length > 0 && values.length <= 20 && new Set(values).size === values.length;
+      },
+      message: 'Each option needs 1-20 distinct values'
+    }
+  }
+}, { _id: false });
+
+// Variant selection schema (also copied onto order lines)
+export const variantSelectionSchema = new Schema<IVariantSelection>({
+  name: {
+    type: String,
+    required: [true, 'Option name is required'],
+    trim: true
+  },
+  value: {
+    type: String,
+    required: [true, 'Option value is required'],
+    trim: true
+  }
+}, { _id: false });
+
+// Product variant schema
+const productVariantSchema = new Schema<IProductVariant>({
+  sku: {
+    type: String,
+    required: [true, 'Variant SKU is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [40, 'SKU cannot exceed 40 characters']
+  },
+  options: {
+    type: [variantSelectionSchema],
+    required: [true, 'Variant options are required']
+  },
+  price: {
+    type: Number,
+    min: [0, 'Price cannot be negative'],
+    max: [1000000, 'Price cannot exceed 1,000,000']
+  },
+  stock: {
+    type: Number,
+    default: 0,
+    min: [0, 'Stock cannot be negative'],
+    max: [10000, 'Stock cannot exceed 10,000']
+  },
+  images: {
+    type: [String],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+});
+
 // Product schema
 const productSchema = new Schema<IProduct>({
   title: {
@@ -31,24 +127,9 @@ const productSchema = new Schema<IProduct>({
     minlength: [10, 'Description must be at least 10 characters long']
   },
   category: {
-    type: String,
-    required: [true, 'Product category is required'],
-    trim: true,
-    enum: {
-      values: [
-        'Electronics',
-        'Clothing',
-        'Books',
-        'Home & Garden',
-        'Sports',
-        'Beauty',
-        'Automotive',
-        'Food',
-        'Toys',
-        'Other'
-      ],
-      message: 'Please select a valid category'
-    }
+    type: Schema.Types.ObjectId,
+    ref: 'Category',
+    required: [true, 'Product category is required']
   },
   price: {
     type: Number,
@@ -76,11 +157,54 @@ const productSchema = new Schema<IProduct>({
       message: 'Cannot have more than 5 documents per product'
     }
   },
+  stock: {
+    type: Number,
+    default: 0,
+    min: [0, 'Stock cannot be negative'],
+    validate: {
+      // With variants, stock is their total and the cap applies to each variant instead
+      validator: function(this: IProduct, stock: number) {
+        return this.variants.length > 0 || stock <= 10000;
+      },
+      message: 'Stock cannot exceed 10,000'
+    }
+  },
+  lowStockThreshold: {
+    type: Number,
+    default: 5,
+    min: [0, 'Low stock threshold cannot be negative'],
+    max: [10000, 'Low stock threshold cannot exceed 10,000']
+  },
+  variantOptions: {
+    type: [variantOptionSchema],
+    default: [],
+    validate: {
+      validator: function(options: IVariantOption[]) {
+        return options.length <= 3; // e.g. Size, Colour, Material
+      },
+      message: 'Cannot have more than 3 variant options per product'
+    }
+  },
+  variants: {
+    type: [productVariantSchema],
+    default: []
+  },
   sellerId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: [true, 'Seller ID is required']
   },
+  averageRating: {
+    type: Number,
+    default: 0,
+    min: [0, 'Average rating cannot be negative'],
+    max: [5, 'Average rating cannot exceed 5']
+  },
+  reviewCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Review count cannot be negative']
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -91,12 +215,47 @@ const productSchema = new Schema<IProduct>({
   }
 });
 
+// A product with variants is in stock when any of its variants is. Every
+// variant must pick one allowed value per option, and no two variants may
+// share a combination or SKU.
+productSchema.pre('validate', function(next) {
+  if (this.variants.length > 0) {
+    this.stock = this.variants.reduce((sum, variant) => sum + variant.stock, 0);
+  }
+
+  const seenCombinations = new Set<string>();
+  const seenSkus = new Set<string>();
+
+  for (const variant of this.variants) {
+    const matchesOptions = variant.options.length === this.variantOptions.length &&
+      this.variantOptions.every((option, index) =>
+        variant.options[index]?.name === option.name && option.values.includes(variant.options[index].value)
+      );
+    if (!matchesOptions) {
+      this.invalidate('variants', `Variant ${variant.sku} does not match the product's variant options`);
+      break;
+    }
+
+    const combination = variant.options.map(option => option.value).join('|');
+    if (seenCombinations.has(combination) || seenSkus.has(variant.sku)) {
+      this.invalidate('variants', `Duplicate variant ${variant.sku}`);
+      break;
+    }
+    seenCombinations.add(combination);
+    seenSkus.add(variant.sku);
+  }
+
+  next();
+});
+
 // Index for better search performance
 productSchema.index({ title: 'text', description: 'text' });
 productSchema.index({ category: 1 });
 productSchema.index({ price: 1 });
 productSchema.index({ sellerId: 1 });
 productSchema.index({ isActive: 1 });
+productSchema.index({ averageRating: -1, reviewCount: -1 });
+productSchema.index({ 'variants.sku': 1 });
 
 // Virtual for populated seller information
 productSchema.virtual('seller', {
@@ -0,0 +1,34 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// RateLimit interface (one counter per limiter key, e.g. "login:203.0.113.7", per window)
+export interface IRateLimit extends Document {
+  _id: string;
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+// RateLimit schema
+const rateLimitSchema = new Schema<IRateLimit>({
+  key: {
+    type: String,
+    required: [true, 'Rate limit key is required'],
+    unique: true
+  },
+  count: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  }
+});
+
+// Let MongoDB remove counters once their window has ended
+rateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export the RateLimit model
+const RateLimit = mongoose.model<IRateLimit>('RateLimit', rateLimitSchema);
+
+export default RateLimit;
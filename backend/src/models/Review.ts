@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Seller's public answer to a review
+export interface IReviewReply {
+  body: string;
+  repliedBy: mongoose.Types.ObjectId;
+  repliedAt: Date;
+}
+
+// Review interface (one per buyer per product, verified by a Completed order)
+export interface IReview extends Document {
+  _id: string;
+  productId: mongoose.Types.ObjectId;
+  buyerId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId; // Completed order that proves the purchase
+  rating: number;
+  title: string;
+  body: string;
+  images: string[];
+  sellerReply?: IReviewReply;
+  isHidden: boolean;
+  hiddenReason?: string;
+  hiddenBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Review schema
+const reviewSchema = new Schema<IReview>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  buyerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Buyer ID is required']
+  },
+  orderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: [true, 'Order ID is required']
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Rating is required'],
+    min: [1, 'Rating must be at least 1'],
+    max: [5, 'Rating cannot exceed 5'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Rating must be a whole number'
+    }
+  },
+  title: {
+    type: String,
+    required: [true, 'Review title is required'],
+    trim: true,
+    maxlength: [100, 'Title cannot exceed 100 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Review text is required'],
+    trim: true,
+    maxlength: [2000, 'Review cannot exceed 2000 characters']
+  },
+  images: {
+    type: [String],
+    default: [],
+    validate: {
+      validator: function(images: string[]) {
+        return images.length <= 5; // Maximum 5 images per review
+      },
+      message: 'Cannot attach more than 5 images to a review'
+    }
+  },
+  sellerReply: {
+    body: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Reply cannot exceed 1000 characters']
+    },
+    repliedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    repliedAt: {
+      type: Date
+    }
+  },
+  isHidden: {
+    type: Boolean,
+    default: false
+  },
+  hiddenReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  hiddenBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// One review per buyer per product
+reviewSchema.index({ productId: 1, buyerId: 1 }, { unique: true });
+reviewSchema.index({ productId: 1, isHidden: 1, createdAt: -1 });
+
+// Keep updatedAt current on every save
+reviewSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Create and export the Review model
+const Review = mongoose.model<IReview>('Review', reviewSchema);
+
+export default Review;
@@ -0,0 +1,130 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Permission registry: every permission the API checks, with a short description
+// shown to admins when editing roles. Add new permissions here.
+export const PERMISSIONS = {
+  'product:create': 'Create product listings',
+  'product:update:own': 'Edit own products and their files',
+  'product:update:any': 'Edit any product and its files',
+  'product:delete:own': 'Delete own products',
+  'product:delete:any': 'Delete any product',
+  'cart:manage': 'Use the shopping cart',
+  'wishlist:manage': 'Save products to wishlists and share them',
+  'order:create': 'Place orders',
+  'order:read:any': 'View every order',
+  'order:cancel:own': 'Cancel own Pending orders',
+  'order:update_status:own': 'Move own sold orders through the status flow',
+  'order:update_status:any': 'Change the status of any order, overriding the flow with a reason',
+  'order:return:request': 'Request returns on own completed orders',
+  'order:return:review:own': 'Review returns on own sold orders',
+  'order:return:review:any': 'Review returns on any order',
+  'review:create': 'Review products bought in a completed order',
+  'review:reply:own': 'Reply to reviews of own products',
+  'review:moderate': 'Hide and restore any review',
+  'analytics:read:own': 'View sales analytics for own products',
+  'analytics:read:any': 'View sales analytics for any seller',
+  'coupon:manage:own': 'Create and manage promotions for own products',
+  'coupon:manage:any': 'Create and manage platform-wide coupons',
+  'webhook:manage': 'Register webhook endpoints for own orders and products',
+  'category:manage': 'Create, edit and remove product categories',
+  'admin:dashboard': 'View the admin dashboard statistics',
+  'user:read': 'View user accounts',
+  'user:ban': 'Ban and unban users',
+  'role:manage': 'Create and edit roles and assign them to users',
+  'security:read': 'View and export the security audit log',
+  'storage:manage': 'View storage usage and clean up unused uploaded files'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+// Built-in roles. They are created on startup if missing and can't be deleted,
+// but admins may change their permissions like any other role.
+export const SYSTEM_ROLES = ['admin', 'seller', 'buyer'] as const;
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<typeof SYSTEM_ROLES[number], Permission[]> = {
+  admin: PERMISSION_KEYS,
+  seller: [
+    'product:create',
+    'product:update:own',
+    'product:delete:own',
+    'order:update_status:own',
+    'order:return:review:own',
+    'review:reply:own',
+    'analytics:read:own',
+    'coupon:manage:own',
+    'webhook:manage'
+  ],
+  buyer: [
+    'cart:manage',
+    'wishlist:manage',
+    'order:create',
+    'order:cancel:own',
+    'order:return:request',
+    'review:create'
+  ]
+};
+
+// Role interface
+export interface IRole extends Document {
+  _id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  isSystem: boolean;
+  knownPermissions: Permission[]; // Registry as of the last startup sync (system roles only)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Role schema
+const roleSchema = new Schema<IRole>({
+  name: {
+    type: String,
+    required: [true, 'Role name is required'],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z][a-z0-9_-]{1,29}$/, 'Role name may only contain lowercase letters, numbers, hyphens and underscores']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  permissions: [{
+    type: String,
+    enum: {
+      values: PERMISSION_KEYS,
+      message: 'Unknown permission: {VALUE}'
+    }
+  }],
+  isSystem: {
+    type: Boolean,
+    default: false
+  },
+  knownPermissions: {
+    type: [String],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keep updatedAt current on every save
+roleSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Create and export the Role model
+const Role = mongoose.model<IRole>('Role', roleSchema);
+
+export default Role;
@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Session interface (one per login; the refresh token rotates on every refresh)
+export interface ISession extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHash?: string; // Last rotated-out token, used to detect refresh token reuse
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'user' | 'ban' | 'reuse' | 'password_change';
+}
+
+// Session schema
+const sessionSchema = new Schema<ISession>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  refreshTokenHash: {
+    type: String,
+    required: [true, 'Refresh token hash is required'],
+    unique: true
+  },
+  previousTokenHash: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    enum: {
+      values: ['logout', 'user', 'ban', 'reuse', 'password_change'],
+      message: 'Invalid revocation reason'
+    }
+  }
+});
+
+// Index for better query performance
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ previousTokenHash: 1 });
+
+// Let MongoDB remove sessions once the refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Never expose token hashes
+sessionSchema.set('toJSON', {
+  transform: function(doc, ret: any) {
+    delete ret.refreshTokenHash;
+    delete ret.previousTokenHash;
+    return ret;
+  }
+});
+
+// Create and export the Session model
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
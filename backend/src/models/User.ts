@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { NotificationCategory } from './Notification';
 
 // User interface
 export interface IUser extends Document {
@@ -7,8 +8,13 @@ export interface IUser extends Document {
   email: string;
   password: string;
   name: string;
-  role: 'admin' | 'seller' | 'buyer';
+  role: string; // Name of a document in the roles collection (admin, seller, buyer or a custom role)
   isActive: boolean;
+  emailVerified: boolean;
+  failedLoginAttempts: number; // Wrong passwords since the last successful login or lockout
+  lockoutCount: number;        // Lockouts since the last successful login; each one lasts longer
+  lockUntil?: Date;
+  notificationPreferences: Record<NotificationCategory, boolean>; // In-app notification categories turned on
   createdAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -36,16 +42,34 @@ const userSchema = new Schema<IUser>({
   },
   role: {
     type: String,
-    enum: {
-      values: ['admin', 'seller', 'buyer'],
-      message: 'Role must be either admin, seller, or buyer'
-    },
+    lowercase: true,
+    trim: true,
     required: [true, 'Role is required']
   },
   isActive: {
     type: Boolean,
     default: true
   },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockoutCount: {
+    type: Number,
+    default: 0
+  },
+  lockUntil: {
+    type: Date
+  },
+  notificationPreferences: {
+    orders: { type: Boolean, default: true },
+    account: { type: Boolean, default: true },
+    products: { type: Boolean, default: true }
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { WebhookEvent, WEBHOOK_EVENTS } from './WebhookEndpoint';
+
+// pending: waiting for its first or next attempt; failed: out of attempts
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// How long the delivery log is kept before MongoDB removes it
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30');
+
+// Webhook delivery interface: one event sent to one endpoint, with its retries
+export interface IWebhookDelivery extends Document {
+  _id: string;
+  endpointId: mongoose.Types.ObjectId;
+  sellerId: mongoose.Types.ObjectId;
+  eventId: string;               // Same for replays, so receivers can ignore duplicates
+  event: WebhookEvent;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lockedUntil?: Date;            // Set while a worker is sending it
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  error?: string;                // Network error or timeout of the last attempt
+  deliveredAt?: Date;
+  replayOf?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+// Webhook delivery schema
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+  endpointId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookEndpoint',
+    required: [true, 'Endpoint ID is required']
+  },
+  sellerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Seller ID is required']
+  },
+  eventId: {
+    type: String,
+    required: [true, 'Event ID is required']
+  },
+  event: {
+    type: String,
+    required: [true, 'Event is required'],
+    enum: {
+      values: WEBHOOK_EVENTS,
+      message: 'Unknown webhook event: {VALUE}'
+    }
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Payload is required']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: WEBHOOK_DELIVERY_STATUSES,
+      message: 'Invalid delivery status'
+    },
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lastAttemptAt: {
+    type: Date
+  },
+  responseStatus: {
+    type: Number
+  },
+  error: {
+    type: String
+  },
+  deliveredAt: {
+    type: Date
+  },
+  replayOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookDelivery'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for better query performance (due deliveries, and a seller's log)
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ sellerId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+
+// Let MongoDB remove old deliveries
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 });
+
+// Create and export the WebhookDelivery model
+const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
+
+export default WebhookDelivery;
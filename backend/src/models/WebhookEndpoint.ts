@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+// Events sellers can subscribe their endpoints to
+export const WEBHOOK_EVENTS = [
+  'order.created',          // A buyer ordered the seller's products
+  'order.status_changed',   // One of the seller's orders moved to a new status
+  'product.deactivated'     // One of the seller's products was taken off sale
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Limit per seller
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+// Random secret deliveries to an endpoint are signed with
+export const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// Webhook endpoint interface
+export interface IWebhookEndpoint extends Document {
+  _id: string;
+  sellerId: mongoose.Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string;                // Not selected by default; only shown when created or rotated
+  isActive: boolean;             // Inactive endpoints receive no new deliveries
+  secretRotatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Webhook endpoint schema
+const webhookEndpointSchema = new Schema<IWebhookEndpoint>({
+  sellerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Seller ID is required']
+  },
+  url: {
+    type: String,
+    required: [true, 'Endpoint URL is required'],
+    trim: true,
+    maxlength: [500, 'Endpoint URL cannot exceed 500 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  events: {
+    type: [{
+      type: String,
+      enum: {
+        values: WEBHOOK_EVENTS,
+        message: 'Unknown webhook event: {VALUE}'
+      }
+    }],
+    validate: {
+      validator: function(events: WebhookEvent[]) {
+        return events.length > 0;
+      },
+      message: 'Subscribe to at least one event'
+    }
+  },
+  secret: {
+    type: String,
+    required: true,
+    default: generateWebhookSecret,
+    select: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  secretRotatedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keep updatedAt current on every save
+webhookEndpointSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Index for better query performance (a seller's active endpoints for an event)
+webhookEndpointSchema.index({ sellerId: 1, isActive: 1, events: 1 });
+
+// Create and export the WebhookEndpoint model
+const WebhookEndpoint = mongoose.model<IWebhookEndpoint>('WebhookEndpoint', webhookEndpointSchema);
+
+export default WebhookEndpoint;
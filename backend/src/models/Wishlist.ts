@@ -0,0 +1,116 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+// Limits per buyer
+export const MAX_WISHLISTS = 20;
+export const MAX_WISHLIST_ITEMS = 200;
+
+// Name of the list created when a buyer saves a product without picking one
+export const DEFAULT_WISHLIST_NAME = 'My Wishlist';
+
+// Random token for a wishlist's share link
+export const generateShareToken = (): string => crypto.randomBytes(16).toString('hex');
+
+// Wishlist item interface
+export interface IWishlistItem {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;  // Saved variant for products sold in variants
+  alertPrice: number;                   // Price when saved, lowered after each price-drop notification
+  addedAt: Date;
+}
+
+// Wishlist interface (a buyer may keep several named lists)
+export interface IWishlist extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  isPublic: boolean;                    // Public lists can be viewed by anyone with the share link
+  shareToken: string;
+  notify: boolean;                      // Email the owner about price drops and products available again
+  items: IWishlistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Wishlist item schema
+const wishlistItemSchema = new Schema<IWishlistItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  variantId: {
+    type: Schema.Types.ObjectId
+  },
+  alertPrice: {
+    type: Number,
+    required: [true, 'Alert price is required'],
+    min: [0, 'Alert price cannot be negative']
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Wishlist schema
+const wishlistSchema = new Schema<IWishlist>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Wishlist name is required'],
+    trim: true,
+    maxlength: [50, 'Wishlist name cannot exceed 50 characters']
+  },
+  isPublic: {
+    type: Boolean,
+    default: false
+  },
+  shareToken: {
+    type: String,
+    required: true,
+    unique: true,
+    default: generateShareToken
+  },
+  notify: {
+    type: Boolean,
+    default: true
+  },
+  items: {
+    type: [wishlistItemSchema],
+    default: [],
+    validate: {
+      validator: function(items: IWishlistItem[]) {
+        return items.length <= MAX_WISHLIST_ITEMS;
+      },
+      message: `A wishlist cannot contain more than ${MAX_WISHLIST_ITEMS} products`
+    }
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keep updatedAt current on every save
+wishlistSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// A buyer's lists have distinct names
+wishlistSchema.index({ userId: 1, name: 1 }, { unique: true });
+// Owners to notify when a product changes
+wishlistSchema.index({ 'items.productId': 1 });
+
+const Wishlist = mongoose.model<IWishlist>('Wishlist', wishlistSchema);
+
+export default Wishlist;
@@ -1,4 +1,20 @@
 // Export all models from a single file for easier imports
 export { default as User, IUser } from './User';
-export { default as Product, IProduct } from './Product';
-export { default as Order, IOrder, IOrderProduct, IOrderStatusHistory } from './Order';
\ No newline at end of file
+export { default as Product, IProduct, IProductVariant, IVariantOption, IVariantSelection } from './Product';
+export { default as Order, IOrder, IOrderProduct, IOrderDiscount, IOrderStatusHistory, OrderStatus, ORDER_STATUSES, ORDER_STATUS_TRANSITIONS, canTransitionStatus, IReturnRequest, IReturnItem, IReturnHistory, ReturnStatus, RETURN_STATUSES, RETURN_STATUS_TRANSITIONS, OrderPaymentStatus, ORDER_PAYMENT_STATUSES } from './Order';
+export { default as Cart, ICart, ICartItem } from './Cart';
+export { default as Session, ISession } from './Session';
+export { default as AuthToken, IAuthToken, AuthTokenType } from './AuthToken';
+export { default as Role, IRole, Permission, PERMISSIONS, PERMISSION_KEYS, SYSTEM_ROLES, DEFAULT_ROLE_PERMISSIONS } from './Role';
+export { default as Review, IReview, IReviewReply } from './Review';
+export { default as Address, IAddress, IAddressFields, MAX_SAVED_ADDRESSES } from './Address';
+export { default as Payment, IPayment, IPaymentHistory, IPaymentRefund, PaymentStatus, PAYMENT_STATUSES, PAYMENT_STATUS_TRANSITIONS, canTransitionPayment } from './Payment';
+export { default as Coupon, ICoupon, ICouponRedemption, CouponRedemption, CouponType, COUPON_TYPES } from './Coupon';
+export { default as Category, ICategory, MAX_CATEGORY_DEPTH, DEFAULT_CATEGORIES } from './Category';
+export { default as Wishlist, IWishlist, IWishlistItem, MAX_WISHLISTS, MAX_WISHLIST_ITEMS, DEFAULT_WISHLIST_NAME } from './Wishlist';
+export { default as AuditEvent, IAuditEvent, SecurityLogLevel, SecurityEventType, AUDIT_RETENTION_DAYS } from './AuditEvent';
+export { default as RateLimit, IRateLimit } from './RateLimit';
+export { default as Notification, INotification, NotificationType, NOTIFICATION_TYPES, NotificationCategory, NOTIFICATION_CATEGORIES, NOTIFICATION_TYPE_CATEGORIES, MAX_NOTIFICATIONS_PAGE } from './Notification';
+export { default as WebhookEndpoint, IWebhookEndpoint, WebhookEvent, WEBHOOK_EVENTS, MAX_WEBHOOK_ENDPOINTS } from './WebhookEndpoint';
+export { default as WebhookDelivery, IWebhookDelivery, WebhookDeliveryStatus, WEBHOOK_DELIVERY_STATUSES, WEBHOOK_DELIVERY_RETENTION_DAYS } from './WebhookDelivery';
+export { default as Asset, IAsset, AssetPurpose, ASSET_PURPOSES } from './Asset';
\ No newline at end of file
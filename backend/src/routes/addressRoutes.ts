@@ -0,0 +1,34 @@
+import express from 'express';
+import {
+  getAddresses,
+  createAddress,
+  updateAddress,
+  deleteAddress
+} from '../controllers/addressController';
+import { authenticate } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  createAddressSchema,
+  updateAddressSchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// The address book belongs to the signed-in user
+router.use(authenticate);
+
+// GET /api/addresses - Get saved addresses
+router.get('/', getAddresses);
+
+// POST /api/addresses - Save a new address
+router.post('/', validateBody(createAddressSchema), createAddress);
+
+// PUT /api/addresses/:id - Update an address or make it the default
+router.put('/:id', validateParams(idParamSchema), validateBody(updateAddressSchema), updateAddress);
+
+// DELETE /api/addresses/:id - Delete an address
+router.delete('/:id', validateParams(idParamSchema), deleteAddress);
+
+export default router;
@@ -3,34 +3,82 @@ import {
     getDashboardStats, 
     getAllUsers, 
     toggleUserBan, 
-    getUserById 
+    unlockUser,
+    getUserById,
+    updateUserRole,
+    getPermissions,
+    getRoles,
+    createRole,
+    updateRole,
+    deleteRole,
+    getSecurityEvents,
+    exportSecurityEvents,
+    getStorageUsage,
+    cleanupStorage
 } from '../controllers/adminController';
-import { authenticate, requireAdmin } from '../middleware/authMiddleware';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
 import { 
     validateQuery, 
     validateParams, 
     validateBody,
     adminUserQuerySchema,
     idParamSchema,
-    banUserSchema
+    banUserSchema,
+    createRoleSchema,
+    updateRoleSchema,
+    roleNameParamSchema,
+    assignRoleSchema,
+    securityEventQuerySchema
 } from '../utils/validation';
 
 const router = express.Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication; each route checks its own permission
 router.use(authenticate);
-router.use(requireAdmin);
 
 // GET /api/admin/dashboard - Get dashboard statistics
-router.get('/dashboard', getDashboardStats);
+router.get('/dashboard', requirePermission('admin:dashboard'), getDashboardStats);
 
 // GET /api/admin/users - Get all users with pagination and filtering
-router.get('/users', validateQuery(adminUserQuerySchema), getAllUsers);
+router.get('/users', requirePermission('user:read'), validateQuery(adminUserQuerySchema), getAllUsers);
 
 // GET /api/admin/users/:id - Get user details by ID
-router.get('/users/:id', validateParams(idParamSchema), getUserById);
+router.get('/users/:id', requirePermission('user:read'), validateParams(idParamSchema), getUserById);
 
 // PUT /api/admin/users/:id/ban - Ban or unban a user
-router.put('/users/:id/ban', validateParams(idParamSchema), validateBody(banUserSchema), toggleUserBan);
+router.put('/users/:id/ban', requirePermission('user:ban'), validateParams(idParamSchema), validateBody(banUserSchema), toggleUserBan);
+
+// PUT /api/admin/users/:id/unlock - Lift a failed-login lockout
+router.put('/users/:id/unlock', requirePermission('user:ban'), validateParams(idParamSchema), unlockUser);
+
+// PUT /api/admin/users/:id/role - Assign a role to a user
+router.put('/users/:id/role', requirePermission('role:manage'), validateParams(idParamSchema), validateBody(assignRoleSchema), updateUserRole);
+
+// GET /api/admin/permissions - List the permission registry
+router.get('/permissions', requirePermission('role:manage'), getPermissions);
+
+// GET /api/admin/roles - List roles and their permissions
+router.get('/roles', requirePermission('role:manage'), getRoles);
+
+// POST /api/admin/roles - Create a custom role
+router.post('/roles', requirePermission('role:manage'), validateBody(createRoleSchema), createRole);
+
+// PUT /api/admin/roles/:name - Update a role's permissions
+router.put('/roles/:name', requirePermission('role:manage'), validateParams(roleNameParamSchema), validateBody(updateRoleSchema), updateRole);
+
+// DELETE /api/admin/roles/:name - Delete a custom role
+router.delete('/roles/:name', requirePermission('role:manage'), validateParams(roleNameParamSchema), deleteRole);
+
+// GET /api/admin/security-events - Get security audit events with filtering and pagination
+router.get('/security-events', requirePermission('security:read'), validateQuery(securityEventQuerySchema), getSecurityEvents);
+
+// GET /api/admin/security-events/export - Download filtered security audit events as CSV
+router.get('/security-events/export', requirePermission('security:read'), validateQuery(securityEventQuerySchema), exportSecurityEvents);
+
+// GET /api/admin/storage - Get uploaded file totals and usage per seller
+router.get('/storage', requirePermission('storage:manage'), getStorageUsage);
+
+// POST /api/admin/storage/cleanup - Delete unused uploaded files whose grace period is over
+router.post('/storage/cleanup', requirePermission('storage:manage'), cleanupStorage);
 
 export default router;
\ No newline at end of file
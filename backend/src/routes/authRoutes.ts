@@ -1,21 +1,84 @@
 import express from 'express';
-import { register, login, logout, getCurrentUser } from '../controllers/authController';
-import { authenticate } from '../middleware/authMiddleware';
-import { validateBody } from '../utils/validation';
-import { registerSchema, loginSchema } from '../utils/validation';
+import {
+  register,
+  login,
+  logout,
+  refresh,
+  getCurrentUser,
+  getSessions,
+  revokeUserSession,
+  revokeOtherSessions,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  changePassword
+} from '../controllers/authController';
+import { authenticate, optionalAuth } from '../middleware/authMiddleware';
+import { rateLimitAndLog } from '../middleware/securityLogger';
+import { validateBody, validateParams } from '../utils/validation';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  idParamSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  changePasswordSchema
+} from '../utils/validation';
 
 const router = express.Router();
 
-// POST /api/auth/register - with validation
-router.post('/register', validateBody(registerSchema), register);
+// Per-IP limits on credential endpoints (wrong passwords also lock the account, see utils/loginLockout)
+const loginRateLimit = rateLimitAndLog(20, 15 * 60 * 1000, 'login');
+const registerRateLimit = rateLimitAndLog(5, 60 * 60 * 1000, 'register');
 
-// POST /api/auth/login - with validation
-router.post('/login', validateBody(loginSchema), login);
+// Endpoints that send email or take emailed tokens are limited per IP, and
+// password reset requests also per target email, so rotating IPs can't flood a mailbox
+const accountEmailRateLimit = rateLimitAndLog(10, 15 * 60 * 1000, 'account-email');
+const forgotPasswordEmailRateLimit = rateLimitAndLog(3, 60 * 60 * 1000, 'forgot-password-email', req =>
+  typeof req.body?.email === 'string' ? req.body.email : undefined
+);
+const emailTokenRateLimit = rateLimitAndLog(20, 15 * 60 * 1000, 'email-token');
 
-// POST /api/auth/logout
-router.post('/logout', logout);
+// POST /api/auth/register - with rate limiting and validation
+router.post('/register', registerRateLimit, validateBody(registerSchema), register);
+
+// POST /api/auth/login - with rate limiting and validation
+router.post('/login', loginRateLimit, validateBody(loginSchema), login);
+
+// POST /api/auth/logout - revokes the current session
+router.post('/logout', optionalAuth, logout);
+
+// POST /api/auth/refresh - rotate refresh token and issue a new access token
+router.post('/refresh', validateBody(refreshTokenSchema), refresh);
+
+// POST /api/auth/forgot-password - Email a password reset link
+router.post('/forgot-password', accountEmailRateLimit, validateBody(forgotPasswordSchema), forgotPasswordEmailRateLimit, forgotPassword);
+
+// POST /api/auth/reset-password - Set a new password with a reset token
+router.post('/reset-password', emailTokenRateLimit, validateBody(resetPasswordSchema), resetPassword);
+
+// POST /api/auth/verify-email - Verify email address with a verification token
+router.post('/verify-email', emailTokenRateLimit, validateBody(verifyEmailSchema), verifyEmail);
+
+// POST /api/auth/resend-verification - Email a new verification link
+router.post('/resend-verification', authenticate, accountEmailRateLimit, resendVerificationEmail);
+
+// PUT /api/auth/change-password - Change password (requires current password)
+router.put('/change-password', authenticate, validateBody(changePasswordSchema), changePassword);
 
 // GET /api/auth/me - Get current user (protected route)
 router.get('/me', authenticate, getCurrentUser);
 
+// GET /api/auth/sessions - List my active sessions
+router.get('/sessions', authenticate, getSessions);
+
+// DELETE /api/auth/sessions - Revoke all my other sessions
+router.delete('/sessions', authenticate, revokeOtherSessions);
+
+// DELETE /api/auth/sessions/:id - Revoke one of my sessions
+router.delete('/sessions/:id', authenticate, validateParams(idParamSchema), revokeUserSession);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,51 @@
+import express from 'express';
+import {
+  getCart,
+  addToCart,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  mergeCart,
+  applyCoupon
+} from '../controllers/cartController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  addToCartSchema,
+  cartItemQuerySchema,
+  updateCartItemSchema,
+  mergeCartSchema,
+  applyCouponSchema,
+  productIdParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// All cart routes require a user allowed to shop (buyers by default)
+router.use(authenticate);
+router.use(requirePermission('cart:manage'));
+
+// GET /api/cart - Get current cart with live product data
+router.get('/', getCart);
+
+// POST /api/cart/items - Add product to cart
+router.post('/items', validateBody(addToCartSchema), addToCart);
+
+// PUT /api/cart/items/:productId?variantId= - Set quantity of a cart line (0 removes it)
+router.put('/items/:productId', validateParams(productIdParamSchema), validateQuery(cartItemQuerySchema), validateBody(updateCartItemSchema), updateCartItem);
+
+// DELETE /api/cart/items/:productId?variantId= - Remove product (or one of its variants) from cart
+router.delete('/items/:productId', validateParams(productIdParamSchema), validateQuery(cartItemQuerySchema), removeCartItem);
+
+// DELETE /api/cart - Clear cart
+router.delete('/', clearCart);
+
+// POST /api/cart/merge - Merge anonymous cart into user cart after login
+router.post('/merge', validateBody(mergeCartSchema), mergeCart);
+
+// POST /api/cart/apply-coupon - Preview a coupon's discount on the current cart
+router.post('/apply-coupon', validateBody(applyCouponSchema), applyCoupon);
+
+export default router;
@@ -0,0 +1,33 @@
+import express from 'express';
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} from '../controllers/categoryController';
+import { authenticate, optionalAuth, requirePermission } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  createCategorySchema,
+  updateCategorySchema,
+  categoryQuerySchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// GET /api/categories - Get the category tree (inactive ones too for category managers)
+router.get('/', optionalAuth, validateQuery(categoryQuerySchema), getCategories);
+
+// POST /api/categories - Create a category
+router.post('/', authenticate, requirePermission('category:manage'), validateBody(createCategorySchema), createCategory);
+
+// PUT /api/categories/:id - Rename, move, reorder or (de)activate a category
+router.put('/:id', authenticate, requirePermission('category:manage'), validateParams(idParamSchema), validateBody(updateCategorySchema), updateCategory);
+
+// DELETE /api/categories/:id - Delete a category with no subcategories or products
+router.delete('/:id', authenticate, requirePermission('category:manage'), validateParams(idParamSchema), deleteCategory);
+
+export default router;
@@ -0,0 +1,37 @@
+import express from 'express';
+import {
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon
+} from '../controllers/couponController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  createCouponSchema,
+  updateCouponSchema,
+  couponQuerySchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// Sellers manage their own promotions, admins every coupon
+router.use(authenticate);
+router.use(requirePermission('coupon:manage:own', 'coupon:manage:any'));
+
+// GET /api/coupons - List coupons the user manages
+router.get('/', validateQuery(couponQuerySchema), getCoupons);
+
+// POST /api/coupons - Create a coupon or seller promotion
+router.post('/', validateBody(createCouponSchema), createCoupon);
+
+// PUT /api/coupons/:id - Update a coupon
+router.put('/:id', validateParams(idParamSchema), validateBody(updateCouponSchema), updateCoupon);
+
+// DELETE /api/coupons/:id - Delete an unused coupon (used coupons are deactivated)
+router.delete('/:id', validateParams(idParamSchema), deleteCoupon);
+
+export default router;
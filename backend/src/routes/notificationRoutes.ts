@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '../controllers/notificationController';
+import { authenticate } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  notificationQuerySchema,
+  notificationPreferencesSchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// Every user gets their own notifications
+router.use(authenticate);
+
+// GET /api/notifications - Get my notifications and unread count
+router.get('/', validateQuery(notificationQuerySchema), getNotifications);
+
+// PUT /api/notifications/read-all - Mark all my notifications as read
+router.put('/read-all', markAllNotificationsRead);
+
+// GET /api/notifications/preferences - Get my notification preferences
+router.get('/preferences', getNotificationPreferences);
+
+// PUT /api/notifications/preferences - Turn notification categories on or off
+router.put('/preferences', validateBody(notificationPreferencesSchema), updateNotificationPreferences);
+
+// PUT /api/notifications/:id/read - Mark a notification as read
+router.put('/:id/read', validateParams(idParamSchema), markNotificationRead);
+
+export default router;
@@ -1,24 +1,48 @@
 import express from 'express';
 import { 
   createOrder, 
+  checkout,
+  getCheckoutOrders,
   getUserOrders, 
   getOrderById, 
-  updateOrderStatus 
+  streamOrderEvents,
+  updateOrderStatus,
+  requestReturn,
+  updateReturnStatus
 } from '../controllers/orderController';
-import { authenticate, authorize } from '../middleware/authMiddleware';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { uploadImages, uploadRateLimit, handleMulterError } from '../middleware/uploadMiddleware';
 
 const router = express.Router();
 
-// Create new order (buyers only)
-router.post('/', authenticate, authorize('buyer'), createOrder);
+// Create new order
+router.post('/', authenticate, requirePermission('order:create'), createOrder);
+
+// Checkout a mixed cart, split into one order per seller
+router.post('/checkout', authenticate, requirePermission('order:create'), checkout);
+
+// Get all orders placed in one checkout
+router.get('/checkout/:checkoutId', authenticate, getCheckoutOrders);
 
 // Get user orders (role-based filtering)
 router.get('/', authenticate, getUserOrders);
 
+// Live order created/status changed events (Server-Sent Events; send Last-Event-ID to catch up)
+router.get('/events', authenticate, streamOrderEvents);
+
 // Get single order by order ID
 router.get('/:id', authenticate, getOrderById);
 
-// Update order status (sellers and admins only)
-router.put('/:id/status', authenticate, authorize('seller', 'admin'), updateOrderStatus);
+// Update order status (buyers may only cancel Pending orders; order:update_status:any may override with a reason)
+router.put('/:id/status', authenticate, requirePermission('order:cancel:own', 'order:update_status:own', 'order:update_status:any'), updateOrderStatus);
+
+// Request a return on a completed order, with optional photos
+router.post('/:id/return', authenticate, requirePermission('order:return:request'), uploadRateLimit, uploadImages, requestReturn);
+
+// Approve, reject or refund a return request
+router.put('/:id/return/status', authenticate, requirePermission('order:return:review:own', 'order:return:review:any'), updateReturnStatus);
+
+// Error handling middleware for multer
+router.use(handleMulterError);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+import express from 'express';
+import { handleWebhook, getPaymentMethods, getCheckoutPayment, completeMockPayment } from '../controllers/paymentController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { validateBody, validateParams, checkoutIdParamSchema, mockPaymentSchema } from '../utils/validation';
+
+const router = express.Router();
+
+// GET /api/payments/methods - Payment methods offered at checkout (public)
+router.get('/methods', getPaymentMethods);
+
+// POST /api/payments/webhook/:provider - Signed payment events from the provider (no auth, signature checked)
+router.post('/webhook/:provider', handleWebhook);
+
+// GET /api/payments/checkout/:checkoutId - Get the payment for a checkout
+router.get('/checkout/:checkoutId', authenticate, validateParams(checkoutIdParamSchema), getCheckoutPayment);
+
+// POST /api/payments/mock/:providerPaymentId/complete - Approve or decline a mock payment (development only)
+router.post('/mock/:providerPaymentId/complete', authenticate, requirePermission('order:create'), validateBody(mockPaymentSchema), completeMockPayment);
+
+export default router;
@@ -1,6 +1,8 @@
 import express from 'express';
 import {
   getProducts,
+  searchProducts,
+  getSearchSuggestions,
   getProductById,
   createProduct,
   updateProduct,
@@ -11,9 +13,10 @@ import {
   removeProductImage,
   removeProductDocument
 } from '../controllers/productController';
-import { authenticate } from '../middleware/authMiddleware';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
 import { 
   uploadImages, 
+  uploadRateLimit,
   uploadDocuments, 
   handleMulterError 
 } from '../middleware/uploadMiddleware';
@@ -24,32 +27,38 @@ import {
   createProductSchema,
   updateProductSchema,
   productQuerySchema,
+  searchSuggestionQuerySchema,
   idParamSchema
 } from '../utils/validation';
 
 const router = express.Router();
 
+// Editing a product (including its files) requires either ownership-scoped or global edit rights
+const canEditProduct = requirePermission('product:update:own', 'product:update:any');
+
 // Public routes
 router.get('/', validateQuery(productQuerySchema), getProducts);     // GET /api/products - Get all products with filtering
+router.get('/search', validateQuery(productQuerySchema), searchProducts);   // GET /api/products/search - Search products with facet counts
+router.get('/suggestions', validateQuery(searchSuggestionQuerySchema), getSearchSuggestions); // GET /api/products/suggestions - Typeahead suggestions
 
 // Seller-specific routes (MUST be before /:id route to avoid conflict)
-router.get('/seller/my-products', authenticate, validateQuery(productQuerySchema), getSellerProducts);  // GET /api/products/seller/my-products - Get seller's products
+router.get('/seller/my-products', authenticate, requirePermission('product:create', 'product:update:own'), validateQuery(productQuerySchema), getSellerProducts);  // GET /api/products/seller/my-products - Get seller's products
 
 // Public route for single product (MUST be after specific routes)
 router.get('/:id', validateParams(idParamSchema), getProductById); // GET /api/products/:id - Get single product
 
 // Protected routes (require authentication)
-router.post('/', authenticate, validateBody(createProductSchema), createProduct);           // POST /api/products - Create product (seller only)
-router.put('/:id', authenticate, validateParams(idParamSchema), validateBody(updateProductSchema), updateProduct);         // PUT /api/products/:id - Update product (seller only)
-router.delete('/:id', authenticate, validateParams(idParamSchema), deleteProduct);      // DELETE /api/products/:id - Delete product (seller only)
+router.post('/', authenticate, requirePermission('product:create'), validateBody(createProductSchema), createProduct);           // POST /api/products - Create product
+router.put('/:id', authenticate, canEditProduct, validateParams(idParamSchema), validateBody(updateProductSchema), updateProduct);         // PUT /api/products/:id - Update product
+router.delete('/:id', authenticate, requirePermission('product:delete:own', 'product:delete:any'), validateParams(idParamSchema), deleteProduct);      // DELETE /api/products/:id - Delete product
 
 // File upload routes (require authentication)
-router.post('/:id/images', authenticate, validateParams(idParamSchema), uploadImages, uploadProductImages);        // POST /api/products/:id/images - Upload product images
-router.post('/:id/documents', authenticate, validateParams(idParamSchema), uploadDocuments, uploadProductDocuments); // POST /api/products/:id/documents - Upload product documents
+router.post('/:id/images', authenticate, canEditProduct, validateParams(idParamSchema), uploadRateLimit, uploadImages, uploadProductImages);        // POST /api/products/:id/images - Upload product images
+router.post('/:id/documents', authenticate, canEditProduct, validateParams(idParamSchema), uploadRateLimit, uploadDocuments, uploadProductDocuments); // POST /api/products/:id/documents - Upload product documents
 
 // File removal routes (require authentication)
-router.delete('/:id/images', authenticate, validateParams(idParamSchema), removeProductImage);     // DELETE /api/products/:id/images - Remove product image
-router.delete('/:id/documents', authenticate, validateParams(idParamSchema), removeProductDocument); // DELETE /api/products/:id/documents - Remove product document
+router.delete('/:id/images', authenticate, canEditProduct, validateParams(idParamSchema), removeProductImage);     // DELETE /api/products/:id/images - Remove product image
+router.delete('/:id/documents', authenticate, canEditProduct, validateParams(idParamSchema), removeProductDocument); // DELETE /api/products/:id/documents - Remove product document
 
 // Error handling middleware for multer
 router.use(handleMulterError);
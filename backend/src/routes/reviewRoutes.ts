@@ -0,0 +1,43 @@
+import express from 'express';
+import {
+  getProductReviews,
+  getReviewEligibility,
+  createReview,
+  replyToReview,
+  moderateReview
+} from '../controllers/reviewController';
+import { authenticate, optionalAuth, requirePermission } from '../middleware/authMiddleware';
+import { uploadImages, uploadRateLimit, handleMulterError } from '../middleware/uploadMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  createReviewSchema,
+  reviewReplySchema,
+  moderateReviewSchema,
+  reviewQuerySchema,
+  productIdParamSchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// GET /api/reviews/product/:productId - Get visible reviews and rating summary for a product
+router.get('/product/:productId', optionalAuth, validateParams(productIdParamSchema), validateQuery(reviewQuerySchema), getProductReviews);
+
+// GET /api/reviews/product/:productId/eligibility - Check whether the current user may review the product
+router.get('/product/:productId/eligibility', authenticate, validateParams(productIdParamSchema), getReviewEligibility);
+
+// POST /api/reviews/product/:productId - Review a purchased product, with optional images
+router.post('/product/:productId', authenticate, requirePermission('review:create'), validateParams(productIdParamSchema), uploadRateLimit, uploadImages, validateBody(createReviewSchema), createReview);
+
+// PUT /api/reviews/:id/reply - Seller reply to a review of their product
+router.put('/:id/reply', authenticate, requirePermission('review:reply:own'), validateParams(idParamSchema), validateBody(reviewReplySchema), replyToReview);
+
+// PUT /api/reviews/:id/moderation - Hide or restore a review
+router.put('/:id/moderation', authenticate, requirePermission('review:moderate'), validateParams(idParamSchema), validateBody(moderateReviewSchema), moderateReview);
+
+// Error handling middleware for multer
+router.use(handleMulterError);
+
+export default router;
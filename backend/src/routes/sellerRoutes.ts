@@ -0,0 +1,53 @@
+import express from 'express';
+import { getSellerAnalytics } from '../controllers/sellerController';
+import {
+  getWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  rotateWebhookSecret,
+  getWebhookDeliveries,
+  replayDelivery
+} from '../controllers/webhookController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  sellerAnalyticsQuerySchema,
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+  webhookDeliveryQuerySchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// All seller routes require authentication
+router.use(authenticate);
+
+// GET /api/seller/analytics - Get sales analytics for the current seller over a date range
+router.get('/analytics', requirePermission('analytics:read:own', 'analytics:read:any'), validateQuery(sellerAnalyticsQuerySchema), getSellerAnalytics);
+
+// GET /api/seller/webhooks - Get my webhook endpoints
+router.get('/webhooks', requirePermission('webhook:manage'), getWebhookEndpoints);
+
+// POST /api/seller/webhooks - Register a webhook endpoint (returns its signing secret once)
+router.post('/webhooks', requirePermission('webhook:manage'), validateBody(createWebhookEndpointSchema), createWebhookEndpoint);
+
+// GET /api/seller/webhooks/deliveries - Get my webhook delivery log
+router.get('/webhooks/deliveries', requirePermission('webhook:manage'), validateQuery(webhookDeliveryQuerySchema), getWebhookDeliveries);
+
+// POST /api/seller/webhooks/deliveries/:id/replay - Send a delivery again
+router.post('/webhooks/deliveries/:id/replay', requirePermission('webhook:manage'), validateParams(idParamSchema), replayDelivery);
+
+// PUT /api/seller/webhooks/:id - Change an endpoint's URL, events or active state
+router.put('/webhooks/:id', requirePermission('webhook:manage'), validateParams(idParamSchema), validateBody(updateWebhookEndpointSchema), updateWebhookEndpoint);
+
+// DELETE /api/seller/webhooks/:id - Remove an endpoint and its delivery log
+router.delete('/webhooks/:id', requirePermission('webhook:manage'), validateParams(idParamSchema), deleteWebhookEndpoint);
+
+// POST /api/seller/webhooks/:id/rotate-secret - Replace an endpoint's signing secret
+router.post('/webhooks/:id/rotate-secret', requirePermission('webhook:manage'), validateParams(idParamSchema), rotateWebhookSecret);
+
+export default router;
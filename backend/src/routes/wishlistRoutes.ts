@@ -0,0 +1,55 @@
+import express from 'express';
+import {
+  getWishlists,
+  createWishlist,
+  updateWishlist,
+  regenerateShareToken,
+  deleteWishlist,
+  addWishlistItem,
+  removeWishlistItem,
+  getSharedWishlist
+} from '../controllers/wishlistController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  createWishlistSchema,
+  updateWishlistSchema,
+  addWishlistItemSchema,
+  wishlistItemParamsSchema,
+  cartItemQuerySchema,
+  shareTokenParamSchema,
+  idParamSchema
+} from '../utils/validation';
+
+const router = express.Router();
+
+// GET /api/wishlists/shared/:token - View a public wishlist (no login required)
+router.get('/shared/:token', validateParams(shareTokenParamSchema), getSharedWishlist);
+
+// Everything else manages the signed-in buyer's own lists
+router.use(authenticate, requirePermission('wishlist:manage'));
+
+// GET /api/wishlists - Get the buyer's wishlists
+router.get('/', getWishlists);
+
+// POST /api/wishlists - Create a wishlist
+router.post('/', validateBody(createWishlistSchema), createWishlist);
+
+// POST /api/wishlists/items - Save a product (to the default list unless wishlistId is given)
+router.post('/items', validateBody(addWishlistItemSchema), addWishlistItem);
+
+// PUT /api/wishlists/:id - Rename, share/unshare or toggle notifications
+router.put('/:id', validateParams(idParamSchema), validateBody(updateWishlistSchema), updateWishlist);
+
+// POST /api/wishlists/:id/share-token - Replace the share link
+router.post('/:id/share-token', validateParams(idParamSchema), regenerateShareToken);
+
+// DELETE /api/wishlists/:id - Delete a wishlist
+router.delete('/:id', validateParams(idParamSchema), deleteWishlist);
+
+// DELETE /api/wishlists/:id/items/:productId - Remove a product from a wishlist
+router.delete('/:id/items/:productId', validateParams(wishlistItemParamsSchema), validateQuery(cartItemQuerySchema), removeWishlistItem);
+
+export default router;
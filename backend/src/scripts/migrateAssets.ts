@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import configureCloudinary from '../config/cloudinary';
+import { getStorageDriver } from '../config/storage';
+import Asset, { AssetPurpose } from '../models/Asset';
+import Product from '../models/Product';
+import Review from '../models/Review';
+import Order from '../models/Order';
+
+// Load environment variables
+dotenv.config();
+
+interface FileReference {
+  url: string;
+  purpose: AssetPurpose;
+  ownerId: mongoose.Types.ObjectId;
+  productId?: mongoose.Types.ObjectId | string;
+}
+
+// Every uploaded file URL saved on products, reviews and return requests
+const collectFileReferences = async (): Promise<FileReference[]> => {
+  const references: FileReference[] = [];
+
+  const products = await Product.find().select('sellerId images documents').lean();
+  products.forEach(product => {
+    product.images.forEach(url => references.push({ url, purpose: 'product_image', ownerId: product.sellerId, productId: product._id }));
+    product.documents.forEach(url => references.push({ url, purpose: 'product_document', ownerId: product.sellerId, productId: product._id }));
+  });
+
+  const reviews = await Review.find({ 'images.0': { $exists: true } }).select('buyerId productId images').lean();
+  reviews.forEach(review => {
+    review.images.forEach(url => references.push({ url, purpose: 'review_image', ownerId: review.buyerId, productId: review.productId }));
+  });
+
+  const orders = await Order.find({ 'returnRequest.photos.0': { $exists: true } }).select('buyerId returnRequest.photos').lean();
+  orders.forEach(order => {
+    order.returnRequest?.photos.forEach(url => references.push({ url, purpose: 'return_photo', ownerId: order.buyerId }));
+  });
+
+  return references;
+};
+
+// Files uploaded before assets were tracked have no Asset record, so
+// reconciliation and the storage usage report don't know about them. Record
+// the ones held by the current storage driver. Safe to run more than once.
+const migrateAssets = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/ecommerce';
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const storage = getStorageDriver();
+    if (storage.name === 'cloudinary') {
+      configureCloudinary();
+    }
+
+    const references = await collectFileReferences();
+    console.log(`Found ${references.length} file reference(s)`);
+
+    let created = 0;
+    let missing = 0;
+    const seen = new Set<string>();
+
+    for (const reference of references) {
+      const key = storage.keyFromUrl(reference.url);
+      // Hosted elsewhere (e.g. seed images) or already handled
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+
+      if (await Asset.exists({ driver: storage.name, key })) continue;
+
+      const kind = reference.purpose === 'product_document' ? 'document' : 'image';
+      const info = await storage.head(key, kind);
+      if (!info) {
+        console.warn(`⚠️  ${reference.url} is referenced but no longer stored`);
+        missing++;
+        continue;
+      }
+
+      await Asset.create({
+        ...reference,
+        driver: storage.name,
+        key,
+        kind,
+        bytes: info.bytes,
+        contentType: info.contentType,
+        createdAt: info.createdAt
+      });
+      created++;
+    }
+    console.log(`✅ Recorded ${created} asset(s)${missing > 0 ? `, ${missing} referenced file(s) missing` : ''}`);
+
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+
+  } catch (error) {
+    console.error('❌ Error migrating assets:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+};
+
+// Run the migration script
+if (require.main === module) {
+  migrateAssets();
+}
+
+export default migrateAssets;
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Category, { DEFAULT_CATEGORIES } from '../models/Category';
+import Product from '../models/Product';
+import Coupon from '../models/Coupon';
+import { slugify } from '../utils/categories';
+
+// Load environment variables
+dotenv.config();
+
+// Find the top-level category for a legacy category name, creating it if needed.
+// Names from the old fixed list get their usual slug, icon and position.
+const findOrCreateCategory = async (
+  name: string,
+  cache: Map<string, mongoose.Types.ObjectId>
+): Promise<mongoose.Types.ObjectId> => {
+  const cached = cache.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const defaultIndex = DEFAULT_CATEGORIES.findIndex(category => category.name === name);
+  const defaults = defaultIndex >= 0 ? DEFAULT_CATEGORIES[defaultIndex] : undefined;
+  const slug = defaults?.slug || slugify(name);
+
+  let category = await Category.findOne({ $or: [{ slug }, { name, parent: null }] });
+  if (!category) {
+    category = await Category.create({
+      name,
+      slug,
+      icon: defaults?.icon,
+      sortOrder: defaultIndex >= 0 ? defaultIndex * 10 : 1000
+    });
+    console.log(`Created category ${name} (${slug})`);
+  }
+
+  cache.set(name, category._id);
+  return category._id;
+};
+
+// Products and coupons used to store category names from a fixed list; point
+// them at Category documents instead. Safe to run more than once.
+const migrateCategories = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/ecommerce';
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const cache = new Map<string, mongoose.Types.ObjectId>();
+
+    // Read raw documents: legacy strings can't be cast to ObjectIds
+    const legacyNames = await Product.collection.distinct('category', { category: { $type: 'string' } });
+    console.log(`Found ${legacyNames.length} legacy product categor${legacyNames.length === 1 ? 'y' : 'ies'}`);
+
+    let migratedProducts = 0;
+    for (const name of legacyNames as string[]) {
+      const categoryId = await findOrCreateCategory(name.trim() || 'Other', cache);
+      const result = await Product.collection.updateMany(
+        { category: name },
+        { $set: { category: categoryId } }
+      );
+      migratedProducts += result.modifiedCount;
+    }
+    console.log(`✅ Migrated ${migratedProducts} product(s)`);
+
+    const legacyCoupons = await Coupon.collection
+      .find({ categories: { $elemMatch: { $type: 'string' } } })
+      .project({ _id: 1, categories: 1 })
+      .toArray();
+
+    for (const coupon of legacyCoupons) {
+      const categories: mongoose.Types.ObjectId[] = [];
+      for (const category of coupon.categories) {
+        categories.push(typeof category === 'string' ? await findOrCreateCategory(category, cache) : category);
+      }
+      await Coupon.collection.updateOne({ _id: coupon._id }, { $set: { categories } });
+    }
+    console.log(`✅ Migrated ${legacyCoupons.length} coupon(s)`);
+
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+
+  } catch (error) {
+    console.error('❌ Error migrating categories:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+};
+
+// Run the migration script
+if (require.main === module) {
+  migrateCategories();
+}
+
+export default migrateCategories;
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import User from '../models/User';
+
+// Load environment variables
+dotenv.config();
+
+// Accounts created before email verification was introduced have no
+// emailVerified field and read as unverified, which stops existing sellers
+// from listing products. Mark them verified; accounts registered since then
+// store the field and are left alone. Safe to run more than once.
+const migrateEmailVerification = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/ecommerce';
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    const result = await User.collection.updateMany(
+      { emailVerified: { $exists: false } },
+      { $set: { emailVerified: true } }
+    );
+
+    console.log(`✅ Marked ${result.modifiedCount} existing account(s) as verified`);
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+
+  } catch (error) {
+    console.error('❌ Error migrating email verification:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+};
+
+// Run the migration script
+if (require.main === module) {
+  migrateEmailVerification();
+}
+
+export default migrateEmailVerification;
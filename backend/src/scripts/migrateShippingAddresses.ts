@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Order from '../models/Order';
+import User from '../models/User';
+import { IAddressFields } from '../models/Address';
+
+// Load environment variables
+dotenv.config();
+
+// Orders placed before this migration stored the address as one string, e.g.
+// "House 12, Road 5, Dhaka, 1205" (checkout) or "123 Main Street, Dhaka, Bangladesh" (seed)
+const DEFAULT_COUNTRY = 'Bangladesh';
+const ZIP_CODE_REGEX = /^[A-Za-z0-9\s-]{3,10}$/;
+
+// Best-effort split of a legacy address string into structured fields
+const parseLegacyAddress = (legacy: string, fullName: string): IAddressFields => {
+  const parts = legacy.split(',').map(part => part.trim()).filter(Boolean);
+
+  let zipCode: string | undefined;
+  if (parts.length > 1 && /\d/.test(parts[parts.length - 1]) && ZIP_CODE_REGEX.test(parts[parts.length - 1])) {
+    zipCode = parts.pop();
+  }
+
+  let country = DEFAULT_COUNTRY;
+  if (parts.length > 2 && !/\d/.test(parts[parts.length - 1])) {
+    country = parts.pop()!;
+  }
+
+  const city = parts.length > 1 ? parts.pop()! : 'Unknown';
+
+  return {
+    fullName,
+    phone: 'Not provided',
+    street: parts.join(', ') || legacy.trim(),
+    city,
+    ...(zipCode ? { zipCode } : {}),
+    country
+  };
+};
+
+const migrateShippingAddresses = async () => {
+  try {
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/ecommerce';
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    // Read raw documents: legacy strings can't be cast to the new subdocument
+    const legacyOrders = await Order.collection
+      .find({ shippingAddress: { $type: 'string' } })
+      .project({ _id: 1, buyerId: 1, shippingAddress: 1 })
+      .toArray();
+    console.log(`Found ${legacyOrders.length} order(s) with a free-text shipping address`);
+
+    const buyerIds = [...new Set(legacyOrders.map(order => order.buyerId.toString()))];
+    const buyers = await User.find({ _id: { $in: buyerIds } }).select('name');
+    const buyerNames = new Map(buyers.map(buyer => [buyer._id.toString(), buyer.name]));
+
+    for (const order of legacyOrders) {
+      const fullName = buyerNames.get(order.buyerId.toString()) || 'Customer';
+      const shippingAddress = parseLegacyAddress(order.shippingAddress, fullName);
+      await Order.collection.updateOne(
+        { _id: order._id },
+        { $set: { shippingAddress, legacyShippingAddress: order.shippingAddress } }
+      );
+    }
+
+    console.log(`✅ Migrated ${legacyOrders.length} order(s)`);
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+
+  } catch (error) {
+    console.error('❌ Error migrating shipping addresses:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+};
+
+// Run the migration script
+if (require.main === module) {
+  migrateShippingAddresses();
+}
+
+export default migrateShippingAddresses;
@@ -3,6 +3,13 @@ import dotenv from 'dotenv';
 import User from '../models/User';
 import Product from '../models/Product';
 import Order from '../models/Order';
+import Role from '../models/Role';
+import Address from '../models/Address';
+import Payment from '../models/Payment';
+import Coupon, { CouponRedemption } from '../models/Coupon';
+import Category, { DEFAULT_CATEGORIES } from '../models/Category';
+import { ensureDefaultRoles } from '../utils/permissions';
+import { toAddressFields } from '../utils/addresses';
 
 // Load environment variables
 dotenv.config();
@@ -20,15 +27,31 @@ const seedData = async () => {
     await User.deleteMany({});
     await Product.deleteMany({});
     await Order.deleteMany({});
+    await Role.deleteMany({});
+    await Address.deleteMany({});
+    await Payment.deleteMany({});
+    await Coupon.deleteMany({});
+    await CouponRedemption.deleteMany({});
+    await Category.deleteMany({});
     console.log('✅ Existing data cleared');
 
+    // Create built-in roles plus an example custom role
+    console.log('Creating roles...');
+    await ensureDefaultRoles();
+    await Role.create({
+      name: 'catalog-moderator',
+      description: 'Reviews and cleans up product listings from every seller',
+      permissions: ['product:update:any', 'product:delete:any', 'user:read']
+    });
+
     // Create Admin user
     console.log('Creating admin user...');
     const admin = await User.create({
       name: 'Admin User',
       email: 'admin@ecommerce.com',
       password: 'admin123', // Plain text - will be hashed by pre-save hook
-      role: 'admin'
+      role: 'admin',
+      emailVerified: true // Seeded accounts are pre-verified
     });
 
     // Create Sellers
@@ -38,25 +61,29 @@ const seedData = async () => {
         name: 'Tech Store BD',
         email: 'techstore@example.com',
         password: 'seller123', // Plain text - will be hashed by pre-save hook
-        role: 'seller'
+        role: 'seller',
+        emailVerified: true
       },
       {
         name: 'Fashion House',
         email: 'fashion@example.com',
         password: 'seller123', // Plain text - will be hashed by pre-save hook
-        role: 'seller'
+        role: 'seller',
+        emailVerified: true
       },
       {
         name: 'Book Corner',
         email: 'books@example.com',
         password: 'seller123', // Plain text - will be hashed by pre-save hook
-        role: 'seller'
+        role: 'seller',
+        emailVerified: true
       },
       {
         name: 'Home & Garden Shop',
         email: 'homeandgarden@example.com',
         password: 'seller123', // Plain text - will be hashed by pre-save hook
-        role: 'seller'
+        role: 'seller',
+        emailVerified: true
       }
     ]);
 
@@ -67,22 +94,67 @@ const seedData = async () => {
         name: 'Ahmed Rahman',
         email: 'ahmed@example.com',
         password: 'buyer123', // Plain text - will be hashed by pre-save hook
-        role: 'buyer'
+        role: 'buyer',
+        emailVerified: true
       },
       {
         name: 'Fatima Khan',
         email: 'fatima@example.com',
         password: 'buyer123', // Plain text - will be hashed by pre-save hook
-        role: 'buyer'
+        role: 'buyer',
+        emailVerified: true
       },
       {
         name: 'Karim Hassan',
         email: 'karim@example.com',
         password: 'buyer123', // Plain text - will be hashed by pre-save hook
-        role: 'buyer'
+        role: 'buyer',
+        emailVerified: true
       }
     ]);
 
+    // Give each buyer a default address in their address book
+    console.log('Creating buyer addresses...');
+    const addresses = await Address.create([
+      {
+        userId: buyers[0]._id,
+        label: 'Home',
+        fullName: 'Ahmed Rahman',
+        phone: '01711000001',
+        street: '123 Main Street, Dhanmondi',
+        city: 'Dhaka',
+        zipCode: '1205',
+        country: 'Bangladesh',
+        isDefaultShipping: true,
+        isDefaultBilling: true
+      },
+      {
+        userId: buyers[1]._id,
+        label: 'Home',
+        fullName: 'Fatima Khan',
+        phone: '01811000002',
+        street: '456 Fashion Avenue, Agrabad',
+        city: 'Chittagong',
+        zipCode: '4100',
+        country: 'Bangladesh',
+        isDefaultShipping: true,
+        isDefaultBilling: true
+      },
+      {
+        userId: buyers[2]._id,
+        label: 'Home',
+        fullName: 'Karim Hassan',
+        phone: '01911000003',
+        street: '789 Book Street, Zindabazar',
+        city: 'Sylhet',
+        zipCode: '3100',
+        country: 'Bangladesh',
+        isDefaultShipping: true,
+        isDefaultBilling: true
+      }
+    ]);
+    const shippingTo = (index: number) => toAddressFields(addresses[index]);
+
     // Sample product images (using placeholder images)
     const sampleImages = [
       'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=500',
@@ -92,6 +164,22 @@ const seedData = async () => {
       'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=500'
     ];
 
+    // Create Categories: the top-level defaults plus a subcategory to show nesting
+    console.log('Creating categories...');
+    const topCategories = await Category.create(
+      DEFAULT_CATEGORIES.map((category, index) => ({ ...category, sortOrder: index * 10 }))
+    );
+    const subcategories = await Category.create([
+      {
+        name: 'Outerwear',
+        slug: 'outerwear',
+        icon: '🧥',
+        parent: topCategories.find(category => category.slug === 'clothing')!._id
+      }
+    ]);
+    const categories = [...topCategories, ...subcategories];
+    const categoryId = (name: string) => categories.find(category => category.name === name)!._id;
+
     // Create Products
     console.log('Creating products...');
     const products = await Product.create([
@@ -99,8 +187,9 @@ const seedData = async () => {
       {
         title: 'iPhone 15 Pro',
         description: 'Latest iPhone with A17 Pro chip, titanium design, and advanced camera system. Perfect for photography and gaming.',
-        category: 'Electronics',
+        category: categoryId('Electronics'),
         price: 120000,
+        stock: 50,
         images: [sampleImages[0], sampleImages[1]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -108,8 +197,9 @@ const seedData = async () => {
       {
         title: 'Samsung Galaxy S24 Ultra',
         description: 'Premium Android smartphone with S Pen, 200MP camera, and AI features. Perfect for productivity.',
-        category: 'Electronics',
+        category: categoryId('Electronics'),
         price: 110000,
+        stock: 50,
         images: [sampleImages[1], sampleImages[0]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -117,8 +207,9 @@ const seedData = async () => {
       {
         title: 'MacBook Air M3',
         description: 'Ultra-thin laptop with M3 chip, 18-hour battery life, and stunning Retina display.',
-        category: 'Electronics',
+        category: categoryId('Electronics'),
         price: 150000,
+        stock: 50,
         images: [sampleImages[2], sampleImages[3]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -126,8 +217,9 @@ const seedData = async () => {
       {
         title: 'Sony WH-1000XM5 Headphones',
         description: 'Industry-leading noise cancellation, 30-hour battery, crystal clear calls.',
-        category: 'Electronics',
+        category: categoryId('Electronics'),
         price: 35000,
+        stock: 50,
         images: [sampleImages[3], sampleImages[4]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -137,8 +229,9 @@ const seedData = async () => {
       {
         title: 'Premium Cotton T-Shirt',
         description: 'Comfortable 100% cotton t-shirt in various colors. Perfect for daily wear.',
-        category: 'Clothing',
+        category: categoryId('Clothing'),
         price: 1200,
+        stock: 50,
         images: [sampleImages[0], sampleImages[2]],
         sellerId: sellers[1]._id,
         isActive: true
@@ -146,8 +239,9 @@ const seedData = async () => {
       {
         title: 'Denim Jeans',
         description: 'High-quality denim jeans with perfect fit. Available in multiple sizes.',
-        category: 'Clothing',
+        category: categoryId('Clothing'),
         price: 2500,
+        stock: 50,
         images: [sampleImages[1], sampleImages[3]],
         sellerId: sellers[1]._id,
         isActive: true
@@ -155,8 +249,9 @@ const seedData = async () => {
       {
         title: 'Formal Shirt',
         description: 'Professional formal shirt for office wear. Wrinkle-free fabric.',
-        category: 'Clothing',
+        category: categoryId('Clothing'),
         price: 1800,
+        stock: 50,
         images: [sampleImages[2], sampleImages[4]],
         sellerId: sellers[1]._id,
         isActive: true
@@ -164,9 +259,21 @@ const seedData = async () => {
       {
         title: 'Winter Jacket',
         description: 'Warm winter jacket with water-resistant outer layer.',
-        category: 'Clothing',
+        category: categoryId('Outerwear'),
         price: 4500,
         images: [sampleImages[3], sampleImages[0]],
+        // Sold in variants: stock is the sum of the variants' stock
+        variantOptions: [
+          { name: 'Size', values: ['S', 'M', 'L', 'XL'] },
+          { name: 'Colour', values: ['Black', 'Navy'] }
+        ],
+        variants: ['S', 'M', 'L', 'XL'].flatMap(size => ['Black', 'Navy'].map(colour => ({
+          sku: `JACKET-${size}-${colour.toUpperCase()}`,
+          options: [{ name: 'Size', value: size }, { name: 'Colour', value: colour }],
+          ...(size === 'XL' ? { price: 4800 } : {}),
+          stock: 6,
+          images: [colour === 'Black' ? sampleImages[3] : sampleImages[0]]
+        }))),
         sellerId: sellers[1]._id,
         isActive: true
       },
@@ -175,8 +282,9 @@ const seedData = async () => {
       {
         title: 'Learn JavaScript',
         description: 'Comprehensive guide to JavaScript programming. Perfect for beginners and intermediate developers.',
-        category: 'Books',
+        category: categoryId('Books'),
         price: 800,
+        stock: 50,
         images: [sampleImages[4], sampleImages[1]],
         sellerId: sellers[2]._id,
         isActive: true
@@ -184,8 +292,9 @@ const seedData = async () => {
       {
         title: 'React Development Handbook',
         description: 'Master React.js with practical examples and real-world projects.',
-        category: 'Books',
+        category: categoryId('Books'),
         price: 1200,
+        stock: 50,
         images: [sampleImages[0], sampleImages[3]],
         sellerId: sellers[2]._id,
         isActive: true
@@ -193,8 +302,9 @@ const seedData = async () => {
       {
         title: 'Data Structures & Algorithms',
         description: 'Essential computer science concepts with Python implementations.',
-        category: 'Books',
+        category: categoryId('Books'),
         price: 1500,
+        stock: 50,
         images: [sampleImages[1], sampleImages[4]],
         sellerId: sellers[2]._id,
         isActive: true
@@ -204,8 +314,9 @@ const seedData = async () => {
       {
         title: 'Indoor Plant Set',
         description: 'Beautiful set of 5 indoor plants perfect for home decoration and air purification.',
-        category: 'Home & Garden',
+        category: categoryId('Home & Garden'),
         price: 2200,
+        stock: 50,
         images: [sampleImages[2], sampleImages[0]],
         sellerId: sellers[3]._id,
         isActive: true
@@ -213,8 +324,9 @@ const seedData = async () => {
       {
         title: 'LED Table Lamp',
         description: 'Modern LED table lamp with adjustable brightness and USB charging port.',
-        category: 'Home & Garden',
+        category: categoryId('Home & Garden'),
         price: 1800,
+        stock: 50,
         images: [sampleImages[3], sampleImages[1]],
         sellerId: sellers[3]._id,
         isActive: true
@@ -222,8 +334,9 @@ const seedData = async () => {
       {
         title: 'Ceramic Dinner Set',
         description: '12-piece ceramic dinner set for 4 people. Dishwasher safe.',
-        category: 'Home & Garden',
+        category: categoryId('Home & Garden'),
         price: 3500,
+        stock: 50,
         images: [sampleImages[4], sampleImages[2]],
         sellerId: sellers[3]._id,
         isActive: true
@@ -233,8 +346,9 @@ const seedData = async () => {
       {
         title: 'Cricket Bat',
         description: 'Professional cricket bat made from premium English willow.',
-        category: 'Sports',
+        category: categoryId('Sports'),
         price: 4500,
+        stock: 50,
         images: [sampleImages[0], sampleImages[4]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -242,8 +356,9 @@ const seedData = async () => {
       {
         title: 'Football',
         description: 'Official size football with excellent grip and durability.',
-        category: 'Sports',
+        category: categoryId('Sports'),
         price: 1200,
+        stock: 50,
         images: [sampleImages[1], sampleImages[0]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -253,8 +368,9 @@ const seedData = async () => {
       {
         title: 'Skincare Set',
         description: 'Complete skincare routine with cleanser, toner, and moisturizer.',
-        category: 'Beauty',
+        category: categoryId('Beauty'),
         price: 2800,
+        stock: 50,
         images: [sampleImages[2], sampleImages[3]],
         sellerId: sellers[1]._id,
         isActive: true
@@ -262,8 +378,9 @@ const seedData = async () => {
       {
         title: 'Car Phone Holder',
         description: 'Universal car phone holder with 360-degree rotation.',
-        category: 'Automotive',
+        category: categoryId('Automotive'),
         price: 800,
+        stock: 50,
         images: [sampleImages[3], sampleImages[4]],
         sellerId: sellers[0]._id,
         isActive: true
@@ -288,7 +405,7 @@ const seedData = async () => {
       totalAmount: 120000,
       status: 'Processing',
       paymentMethod: 'Cash on Delivery',
-      shippingAddress: '123 Main Street, Dhaka, Bangladesh'
+      shippingAddress: shippingTo(0)
     });
     await order1.save();
     orders.push(order1);
@@ -312,7 +429,7 @@ const seedData = async () => {
       totalAmount: 6100, // (1200 * 3) + 2500
       status: 'Completed',
       paymentMethod: 'Cash on Delivery',
-      shippingAddress: '456 Fashion Avenue, Chittagong, Bangladesh'
+      shippingAddress: shippingTo(1)
     });
     await order2.save();
     orders.push(order2);
@@ -336,7 +453,7 @@ const seedData = async () => {
       totalAmount: 2000,
       status: 'Pending',
       paymentMethod: 'Cash on Delivery',
-      shippingAddress: '789 Book Street, Sylhet, Bangladesh'
+      shippingAddress: shippingTo(2)
     });
     await order3.save();
     orders.push(order3);
@@ -360,18 +477,44 @@ const seedData = async () => {
       totalAmount: 5800, // 2200 + (1800 * 2)
       status: 'Out for Delivery',
       paymentMethod: 'Cash on Delivery',
-      shippingAddress: '123 Main Street, Dhaka, Bangladesh'
+      shippingAddress: shippingTo(0)
     });
     await order4.save();
     orders.push(order4);
 
+    console.log('Creating sample coupons...');
+    const coupons = await Coupon.create([
+      {
+        code: 'WELCOME10',
+        description: '10% off your order, up to ৳500',
+        type: 'percentage',
+        value: 10,
+        maxDiscount: 500,
+        perUserLimit: 1,
+        createdBy: admin._id
+      },
+      {
+        code: 'BOOKS100',
+        description: '৳100 off books over ৳1000',
+        type: 'fixed',
+        value: 100,
+        minOrderValue: 1000,
+        categories: [categoryId('Books')],
+        sellerId: sellers[2]._id,
+        createdBy: sellers[2]._id
+      }
+    ]);
+
     console.log('Seed data created successfully!');
     console.log(`Created:
     - 1 Admin user
     - ${sellers.length} Seller users
     - ${buyers.length} Buyer users
+    - ${addresses.length} Saved addresses
+    - ${categories.length} Categories
     - ${products.length} Products
-    - ${orders.length} Orders`);
+    - ${orders.length} Orders
+    - ${coupons.length} Coupons`);
 
     console.log('\nLogin credentials:');
     console.log('Admin: admin@ecommerce.com / admin123');
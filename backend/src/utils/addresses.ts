@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import Address, { IAddressFields } from '../models/Address';
+import { addressSchema } from './validation';
+
+type ShippingAddressResult = { address: IAddressFields } | { status: number; message: string };
+
+// Copy only the postal fields, dropping empty optional ones
+export const toAddressFields = (source: IAddressFields): IAddressFields => {
+  const { fullName, phone, street, city, state, zipCode, country } = source;
+  return {
+    fullName,
+    phone,
+    street,
+    city,
+    ...(state ? { state } : {}),
+    ...(zipCode ? { zipCode } : {}),
+    country
+  };
+};
+
+// Work out the shipping address for an order: either a saved address owned by
+// the buyer (addressId) or a structured address sent inline (shippingAddress)
+export const resolveShippingAddress = async (buyerId: string, body: any): Promise<ShippingAddressResult> => {
+  const { addressId, shippingAddress } = body;
+
+  if (addressId) {
+    if (typeof addressId !== 'string' || !mongoose.Types.ObjectId.isValid(addressId)) {
+      return { status: 400, message: 'Invalid address ID format' };
+    }
+
+    const saved = await Address.findOne({ _id: addressId, userId: buyerId });
+    if (!saved) {
+      return { status: 404, message: 'Saved address not found' };
+    }
+    return { address: toAddressFields(saved) };
+  }
+
+  if (!shippingAddress) {
+    return { status: 400, message: 'Shipping address is required' };
+  }
+
+  const parsed = addressSchema.safeParse(shippingAddress);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      status: 400,
+      message: issue.path.length > 0 ? `shippingAddress.${issue.path.join('.')}: ${issue.message}` : 'Shipping address must include name, phone, street, city and country'
+    };
+  }
+
+  return { address: toAddressFields(parsed.data as IAddressFields) };
+};
+
+// Make one address the user's only default shipping and/or billing address
+export const clearOtherDefaults = async (
+  userId: string,
+  keepId: string,
+  flags: { shipping?: boolean; billing?: boolean }
+): Promise<void> => {
+  if (flags.shipping) {
+    await Address.updateMany(
+      { userId, _id: { $ne: keepId }, isDefaultShipping: true },
+      { $set: { isDefaultShipping: false } }
+    );
+  }
+  if (flags.billing) {
+    await Address.updateMany(
+      { userId, _id: { $ne: keepId }, isDefaultBilling: true },
+      { $set: { isDefaultBilling: false } }
+    );
+  }
+};
+
+// After a default address is deleted, hand the default to the most recently
+// updated remaining address
+export const promoteDefaultAddress = async (
+  userId: string,
+  flags: { shipping?: boolean; billing?: boolean }
+): Promise<void> => {
+  if (!flags.shipping && !flags.billing) return;
+
+  const next = await Address.findOne({ userId }).sort({ updatedAt: -1 });
+  if (!next) return;
+
+  if (flags.shipping) next.isDefaultShipping = true;
+  if (flags.billing) next.isDefaultBilling = true;
+  await next.save();
+};
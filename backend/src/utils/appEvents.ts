@@ -0,0 +1,40 @@
+import { EventEmitter } from 'events';
+import { IOrder, OrderStatus } from '../models/Order';
+import { IProduct } from '../models/Product';
+import { IUser } from '../models/User';
+
+// Domain events raised by controllers once a change has been saved. Listeners
+// (notifications and the like) react to them without the controllers knowing.
+export interface AppEvents {
+  'order.created': { order: IOrder };
+  'order.status_changed': {
+    order: IOrder;
+    previousStatus: OrderStatus;
+    changedBy?: string;          // User who made the change; unset for system changes (e.g. failed payments)
+    reason?: string;
+  };
+  'user.banned': { user: IUser; bannedBy: string };
+  'user.unbanned': { user: IUser; unbannedBy: string };
+  'product.deactivated': { product: IProduct; deactivatedBy: string };
+}
+
+export type AppEventName = keyof AppEvents;
+
+type AppEventListener<K extends AppEventName> = (payload: AppEvents[K]) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+
+// Subscribe to an event. Errors thrown or rejected by the listener are logged
+// and never reach the code that emitted the event.
+export const onAppEvent = <K extends AppEventName>(event: K, listener: AppEventListener<K>): void => {
+  emitter.on(event, (payload: AppEvents[K]) => {
+    Promise.resolve()
+      .then(() => listener(payload))
+      .catch(error => console.error(`Error handling ${event} event:`, error));
+  });
+};
+
+// Raise an event. Listeners run in the background; emit returns immediately.
+export const emitAppEvent = <K extends AppEventName>(event: K, payload: AppEvents[K]): void => {
+  emitter.emit(event, payload);
+};
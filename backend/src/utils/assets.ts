@@ -0,0 +1,223 @@
+import mongoose from 'mongoose';
+import Asset, { AssetPurpose, IAsset } from '../models/Asset';
+import Product from '../models/Product';
+import Review from '../models/Review';
+import Order from '../models/Order';
+import { getStorageDriver, StoredFileKind } from '../config/storage';
+
+// Unused uploads are kept this long before they are deleted, so files that
+// were just uploaded and are still being attached aren't removed
+const ORPHAN_GRACE_MS = parseInt(process.env.ASSET_ORPHAN_GRACE_HOURS || '24') * 60 * 60 * 1000;
+
+// Files of deleted products are kept longer, as order history still shows them
+const DELETED_PRODUCT_RETENTION_MS = parseInt(process.env.ASSET_DELETED_PRODUCT_RETENTION_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+const RECONCILE_INTERVAL_MS = parseInt(process.env.ASSET_RECONCILE_INTERVAL_HOURS || '6') * 60 * 60 * 1000;
+
+// Assets checked per query while reconciling
+const RECONCILE_BATCH_SIZE = 200;
+
+const PURPOSE_KINDS: Record<AssetPurpose, StoredFileKind> = {
+  product_image: 'image',
+  product_document: 'document',
+  review_image: 'image',
+  return_photo: 'image'
+};
+
+export interface StoreFilesOptions {
+  ownerId: mongoose.Types.ObjectId | string;
+  productId?: mongoose.Types.ObjectId | string;
+  folder: string;
+  purpose: AssetPurpose;
+}
+
+export interface AssetReconcileResult {
+  checked: number;
+  orphaned: number;     // Newly found unused; deleted once their grace period is over
+  deleted: number;
+  failed: number;
+  bytesFreed: number;
+}
+
+// Delete an asset's file and its record
+export const removeAsset = async (asset: IAsset): Promise<void> => {
+  const storage = getStorageDriver();
+  if (asset.driver !== storage.name) {
+    throw new Error(`File is stored with the ${asset.driver} driver, not ${storage.name}`);
+  }
+
+  await storage.delete(asset.key, asset.kind);
+  await Asset.deleteOne({ _id: asset._id });
+};
+
+// Store uploaded files and record each as an asset. If any file fails, the
+// ones already stored are removed again and the first error is thrown.
+export const storeUploadedFiles = async (files: Express.Multer.File[], options: StoreFilesOptions): Promise<IAsset[]> => {
+  const storage = getStorageDriver();
+  const kind = PURPOSE_KINDS[options.purpose];
+
+  const storeFile = async (file: Express.Multer.File): Promise<IAsset> => {
+    const stored = await storage.put(file.buffer, { folder: options.folder, kind, contentType: file.mimetype });
+
+    try {
+      return await Asset.create({
+        ownerId: options.ownerId,
+        productId: options.productId,
+        purpose: options.purpose,
+        driver: storage.name,
+        key: stored.key,
+        url: stored.url,
+        kind,
+        bytes: stored.bytes,
+        contentType: file.mimetype
+      });
+    } catch (error) {
+      // Nothing tracks the file yet, so don't leave it behind
+      await storage.delete(stored.key, kind).catch(deleteError => {
+        console.error('Error removing untracked upload:', deleteError);
+      });
+      throw error;
+    }
+  };
+
+  const results = await Promise.allSettled(files.map(storeFile));
+  const assets = results
+    .filter((result): result is PromiseFulfilledResult<IAsset> => result.status === 'fulfilled')
+    .map(result => result.value);
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+  if (failure) {
+    // Any file that can't be removed now is picked up by reconciliation later
+    await Promise.all(assets.map(asset => removeAsset(asset).catch(error => {
+      console.error('Error removing upload after failed batch:', error);
+    })));
+    throw failure.reason;
+  }
+
+  return assets;
+};
+
+// Delete a file by the URL saved on a product, review or order. Files
+// uploaded before assets were tracked are deleted through the driver directly;
+// URLs hosted elsewhere (e.g. seed data) are ignored.
+export const removeStoredFile = async (url: string, kind: StoredFileKind): Promise<void> => {
+  const storage = getStorageDriver();
+  const asset = await Asset.findOne({ url, driver: storage.name });
+  if (asset) {
+    return removeAsset(asset);
+  }
+
+  const key = storage.keyFromUrl(url);
+  if (key) {
+    await storage.delete(key, kind);
+  }
+};
+
+// How each of these URLs is used: 'active' (by a live product, a review or a
+// return request) or 'deleted_product' (only by soft-deleted products).
+// URLs missing from the result aren't used anywhere.
+const findAssetReferences = async (urls: string[]): Promise<Map<string, 'active' | 'deleted_product'>> => {
+  const [products, reviews, orders] = await Promise.all([
+    Product.find({ $or: [{ images: { $in: urls } }, { documents: { $in: urls } }] })
+      .select('images documents isActive')
+      .lean(),
+    Review.find({ images: { $in: urls } }).select('images').lean(),
+    Order.find({ 'returnRequest.photos': { $in: urls } }).select('returnRequest.photos').lean()
+  ]);
+
+  const wanted = new Set(urls);
+  const references = new Map<string, 'active' | 'deleted_product'>();
+  const mark = (url: string, reference: 'active' | 'deleted_product') => {
+    if (wanted.has(url) && references.get(url) !== 'active') {
+      references.set(url, reference);
+    }
+  };
+
+  products.forEach(product => {
+    [...product.images, ...product.documents].forEach(url => mark(url, product.isActive ? 'active' : 'deleted_product'));
+  });
+  reviews.forEach(review => review.images.forEach(url => mark(url, 'active')));
+  orders.forEach(order => order.returnRequest?.photos.forEach(url => mark(url, 'active')));
+
+  return references;
+};
+
+const reconcileBatch = async (assets: IAsset[], result: AssetReconcileResult): Promise<void> => {
+  const references = await findAssetReferences(assets.map(asset => asset.url));
+  const now = Date.now();
+
+  for (const asset of assets) {
+    result.checked++;
+    const reference = references.get(asset.url);
+
+    if (reference === 'active') {
+      if (asset.orphanedAt) {
+        await Asset.updateOne({ _id: asset._id }, { $unset: { orphanedAt: 1 } });
+      }
+      continue;
+    }
+
+    if (!asset.orphanedAt) {
+      await Asset.updateOne({ _id: asset._id }, { orphanedAt: new Date(now) });
+      result.orphaned++;
+      continue;
+    }
+
+    const keepFor = reference === 'deleted_product' ? DELETED_PRODUCT_RETENTION_MS : ORPHAN_GRACE_MS;
+    if (now - asset.orphanedAt.getTime() < keepFor) {
+      continue;
+    }
+
+    try {
+      await removeAsset(asset);
+      result.deleted++;
+      result.bytesFreed += asset.bytes;
+    } catch (error) {
+      console.error(`Error removing unused file ${asset.key}:`, error);
+      result.failed++;
+    }
+  }
+};
+
+let running: Promise<AssetReconcileResult> | null = null;
+
+// Find uploaded files that nothing uses any more and delete them once their
+// grace period is over. Only files held by the current storage driver are
+// checked. Calls made while a run is in progress share its result.
+export const reconcileAssets = (): Promise<AssetReconcileResult> => {
+  if (!running) {
+    running = (async () => {
+      const result: AssetReconcileResult = { checked: 0, orphaned: 0, deleted: 0, failed: 0, bytesFreed: 0 };
+      const driver = getStorageDriver().name;
+      let lastId: string | undefined;
+
+      for (;;) {
+        const assets = await Asset.find({ driver, ...(lastId ? { _id: { $gt: lastId } } : {}) })
+          .sort({ _id: 1 })
+          .limit(RECONCILE_BATCH_SIZE);
+        if (assets.length === 0) break;
+
+        await reconcileBatch(assets, result);
+        lastId = assets[assets.length - 1]._id;
+      }
+
+      console.log(`Asset cleanup: checked ${result.checked}, ${result.orphaned} newly unused, deleted ${result.deleted} (${result.bytesFreed} bytes), ${result.failed} failed`);
+      return result;
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+// Reconcile periodically in the background (once, at startup)
+let reconcilerStarted = false;
+
+export const startAssetReconciler = (): void => {
+  if (reconcilerStarted) return;
+  reconcilerStarted = true;
+
+  setInterval(() => {
+    reconcileAssets().catch(error => console.error('Asset cleanup error:', error));
+  }, RECONCILE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,51 @@
+import { IAuditEvent } from '../models/AuditEvent';
+import { SecurityEventQueryInput } from './validation';
+
+// Most rows a single CSV export returns; narrow the filters for more
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS = ['timestamp', 'level', 'eventType', 'action', 'success', 'userId', 'email', 'ipAddress', 'userAgent', 'details'] as const;
+
+// Build the MongoDB filter for the admin security event viewer and export
+export const buildAuditEventFilter = (query: SecurityEventQueryInput): Record<string, any> => {
+  const { eventType, level, userId, ipAddress, startDate, endDate, success } = query;
+  const filter: Record<string, any> = {};
+
+  if (eventType) filter.eventType = eventType;
+  if (level) filter.level = level;
+  if (userId) filter.userId = userId;
+  if (ipAddress) filter.ipAddress = ipAddress;
+  if (success !== undefined) filter.success = success;
+
+  if (startDate || endDate) {
+    filter.timestamp = {};
+    if (startDate) filter.timestamp.$gte = startDate;
+    // endDate is the start of the last day to include
+    if (endDate) filter.timestamp.$lt = new Date(endDate.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  return filter;
+};
+
+// Quote a CSV cell. Cells that a spreadsheet would run as a formula are
+// prefixed with ' since actions and details contain user input.
+const escapeCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+
+  let text = typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(value)
+    : value instanceof Date ? value.toISOString() : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Render audit events as CSV with a header row
+export const auditEventsToCsv = (events: Array<Pick<IAuditEvent, typeof CSV_COLUMNS[number]>>): string => {
+  const rows = events.map(event =>
+    CSV_COLUMNS.map(column => escapeCsvCell(event[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
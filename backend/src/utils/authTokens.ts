@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import AuthToken, { AuthTokenType } from '../models/AuthToken';
+
+// How long each kind of emailed token stays valid
+export const AUTH_TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+  password_reset: 60 * 60 * 1000,              // 1 hour
+  email_verification: 24 * 60 * 60 * 1000      // 24 hours
+};
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Create a new token for a user, invalidating any unused token of the same type.
+// Returns the raw token to email; it is never stored.
+export const createAuthToken = async (userId: string, type: AuthTokenType): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await AuthToken.deleteMany({ userId, type, usedAt: null });
+  await AuthToken.create({
+    userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + AUTH_TOKEN_TTL_MS[type])
+  });
+
+  return token;
+};
+
+// Atomically mark a token as used. Returns the owning user's ID, or null if the
+// token is unknown, expired or already used.
+export const consumeAuthToken = async (token: string, type: AuthTokenType): Promise<string | null> => {
+  const authToken = await AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      type,
+      usedAt: null,
+      expiresAt: { $gt: new Date() }
+    },
+    { usedAt: new Date() }
+  );
+
+  return authToken ? authToken.userId.toString() : null;
+};
@@ -0,0 +1,128 @@
+import mongoose from 'mongoose';
+import Category, { ICategory, MAX_CATEGORY_DEPTH } from '../models/Category';
+
+type CategoryResult = ICategory | { status: number; message: string };
+
+// Category with its subcategories, as returned by GET /api/categories
+export interface CategoryNode {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;
+  parent?: mongoose.Types.ObjectId | null;
+  icon?: string;
+  sortOrder: number;
+  isActive: boolean;
+  productCount?: number;   // Active products filed directly under the category
+  children: CategoryNode[];
+}
+
+export type CategoryRecord = Omit<CategoryNode, 'children'>;
+
+// Fields of a category embedded in product responses
+export const CATEGORY_SUMMARY_FIELDS = 'name slug icon';
+
+// URL-safe slug from a category name, e.g. "Home & Garden" -> "home-and-garden"
+export const slugify = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '') || 'category';
+
+// Every category, siblings in display order. The taxonomy is small enough to
+// walk in memory.
+export const loadCategories = async (filter: Record<string, unknown> = {}): Promise<CategoryRecord[]> => {
+  return Category.find(filter)
+    .select('name slug parent icon sortOrder isActive')
+    .sort({ sortOrder: 1, name: 1 })
+    .lean<CategoryRecord[]>();
+};
+
+// Nest a flat category list under its parents. Categories whose parent is not
+// in the list (e.g. an inactive parent filtered out) are dropped with it.
+export const buildCategoryTree = (categories: CategoryRecord[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map(category => [category._id.toString(), { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  for (const node of nodes.values()) {
+    if (!node.parent) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parent.toString())?.children.push(node);
+    }
+  }
+
+  return roots;
+};
+
+// IDs of a category and everything below it
+export const collectDescendantIds = (
+  categories: CategoryRecord[],
+  rootId: string
+): mongoose.Types.ObjectId[] => {
+  const ids: mongoose.Types.ObjectId[] = [];
+  const queue = [rootId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const category of categories) {
+      if (category._id.toString() === current) {
+        ids.push(category._id);
+      } else if (category.parent?.toString() === current) {
+        queue.push(category._id.toString());
+      }
+    }
+  }
+
+  return ids;
+};
+
+// Depth of a category in the tree (top level = 1)
+export const getCategoryDepth = (categories: CategoryRecord[], categoryId: string): number => {
+  let depth = 0;
+  let current = categories.find(category => category._id.toString() === categoryId);
+  while (current && depth <= MAX_CATEGORY_DEPTH) {
+    depth++;
+    const parentId = current.parent?.toString();
+    current = parentId ? categories.find(category => category._id.toString() === parentId) : undefined;
+  }
+  return depth;
+};
+
+// Levels below a category, counting the category itself
+export const getSubtreeHeight = (categories: CategoryRecord[], categoryId: string): number => {
+  const children = categories.filter(category => category.parent?.toString() === categoryId);
+  return 1 + Math.max(0, ...children.map(child => getSubtreeHeight(categories, child._id.toString())));
+};
+
+// Product filter for a category ID or slug: the category plus its subcategories,
+// so browsing "Clothing" also lists products filed under "Clothing > Men".
+// Unknown categories match nothing. Pass the categories if already loaded.
+export const resolveCategoryFilter = async (
+  idOrSlug: string,
+  preloaded?: CategoryRecord[]
+): Promise<{ $in: mongoose.Types.ObjectId[] }> => {
+  const categories = preloaded ?? await loadCategories();
+  const category = categories.find(c =>
+    c.slug === idOrSlug.toLowerCase() || c._id.toString() === idOrSlug
+  );
+  return { $in: category ? collectDescendantIds(categories, category._id.toString()) : [] };
+};
+
+// A category a product may be filed under: it must exist and be active
+export const findAssignableCategory = async (categoryId: string): Promise<CategoryResult> => {
+  const category = await Category.findById(categoryId);
+  if (!category) {
+    return { status: 400, message: 'Category not found' };
+  }
+  if (!category.isActive) {
+    return { status: 400, message: `Category ${category.name} is no longer available` };
+  }
+  return category;
+};
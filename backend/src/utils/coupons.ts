@@ -0,0 +1,205 @@
+import mongoose from 'mongoose';
+import Coupon, { ICoupon, CouponRedemption } from '../models/Coupon';
+import { collectDescendantIds, loadCategories } from './categories';
+
+// A priced line the coupon may apply to (cart line or validated order line)
+export interface CouponLine {
+  productId: mongoose.Types.ObjectId | string;
+  sellerId: string;
+  category: string;        // Category ID
+  price: number;
+  quantity: number;
+}
+
+// The discount a coupon gives, with each line's share so per-seller orders
+// can record their own part of it
+export interface CouponDiscount {
+  coupon: ICoupon;
+  discount: number;
+  lineDiscounts: number[];   // Same order as the lines passed in
+}
+
+type CouponResult = CouponDiscount | { status: number; message: string };
+
+// Round a money amount to whole cents
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Whether a coupon's restrictions cover a line. Category restrictions are
+// passed in expanded to include subcategories.
+const appliesToLine = (coupon: ICoupon, line: CouponLine, categoryIds: Set<string>): boolean => {
+  const productId = line.productId.toString();
+
+  if (coupon.sellerId && coupon.sellerId.toString() !== line.sellerId) return false;
+  if (coupon.sellerIds.length > 0 && !coupon.sellerIds.some(id => id.toString() === line.sellerId)) return false;
+  if (coupon.productIds.length > 0 && !coupon.productIds.some(id => id.toString() === productId)) return false;
+  if (coupon.categories.length > 0 && !categoryIds.has(line.category)) return false;
+
+  return true;
+};
+
+// Look up an active coupon by the code a buyer typed
+export const findCouponByCode = async (code: string): Promise<ICoupon | null> => {
+  return Coupon.findOne({ code: code.trim().toUpperCase(), isActive: true });
+};
+
+// Work out what a coupon takes off these lines for this buyer, or why it can't be used.
+// The discount is split across eligible lines in proportion to their value; the
+// last eligible line absorbs any rounding so the shares add up exactly.
+export const evaluateCoupon = async (
+  code: string,
+  userId: string,
+  lines: CouponLine[]
+): Promise<CouponResult> => {
+  const coupon = await findCouponByCode(code);
+  if (!coupon) {
+    return { status: 404, message: 'Coupon not found' };
+  }
+
+  const now = new Date();
+  if (coupon.startsAt && coupon.startsAt > now) {
+    return { status: 400, message: 'This coupon is not active yet' };
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    return { status: 400, message: 'This coupon has expired' };
+  }
+
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    return { status: 409, message: 'This coupon has reached its usage limit' };
+  }
+
+  if (coupon.perUserLimit) {
+    const used = await CouponRedemption.countDocuments({ couponId: coupon._id, userId });
+    if (used >= coupon.perUserLimit) {
+      return { status: 409, message: 'You have already used this coupon the maximum number of times' };
+    }
+  }
+
+  // A coupon for a category also covers its subcategories
+  const categoryIds = new Set<string>();
+  if (coupon.categories.length > 0) {
+    const categories = await loadCategories();
+    for (const categoryId of coupon.categories) {
+      collectDescendantIds(categories, categoryId.toString()).forEach(id => categoryIds.add(id.toString()));
+    }
+  }
+
+  const eligible = lines.map(line => appliesToLine(coupon, line, categoryIds));
+  const eligibleSubtotal = lines.reduce(
+    (sum, line, index) => eligible[index] ? sum + line.price * line.quantity : sum,
+    0
+  );
+
+  if (eligibleSubtotal <= 0) {
+    return { status: 400, message: 'This coupon does not apply to any items in your cart' };
+  }
+  if (eligibleSubtotal < coupon.minOrderValue) {
+    return { status: 400, message: `Spend at least ${coupon.minOrderValue} on eligible items to use this coupon` };
+  }
+
+  let discount = coupon.type === 'percentage'
+    ? eligibleSubtotal * coupon.value / 100
+    : coupon.value;
+  if (coupon.maxDiscount) {
+    discount = Math.min(discount, coupon.maxDiscount);
+  }
+  discount = roundMoney(Math.min(discount, eligibleSubtotal));
+
+  const lastEligible = eligible.lastIndexOf(true);
+  let allocated = 0;
+  const lineDiscounts = lines.map((line, index) => {
+    if (!eligible[index]) return 0;
+    if (index === lastEligible) return roundMoney(discount - allocated);
+
+    const share = roundMoney(discount * (line.price * line.quantity) / eligibleSubtotal);
+    allocated += share;
+    return share;
+  });
+
+  return { coupon, discount, lineDiscounts };
+};
+
+// Record a redemption in one of the buyer's perUserLimit slots. The unique
+// index on (couponId, userId, slot) lets only one of several concurrent
+// checkouts take each slot; returns false when they are all taken.
+const recordUserRedemption = async (
+  coupon: ICoupon,
+  userId: string,
+  checkoutId: string,
+  discount: number
+): Promise<boolean> => {
+  const limit = coupon.perUserLimit!;
+
+  for (;;) {
+    const redemptions = await CouponRedemption.find({ couponId: coupon._id, userId }).select('slot').lean();
+    if (redemptions.length >= limit) {
+      return false;
+    }
+
+    // Redemptions recorded before slots were used take up the first ones
+    const taken = new Set(redemptions.map(redemption => redemption.slot));
+    let slot = redemptions.filter(redemption => redemption.slot === undefined).length;
+    while (taken.has(slot)) slot++;
+    if (slot >= limit) {
+      return false;
+    }
+
+    try {
+      await CouponRedemption.create({ couponId: coupon._id, userId, checkoutId, slot, discount });
+      return true;
+    } catch (error: any) {
+      // Another checkout took this slot first; look again
+      if (error?.code !== 11000 || !error.keyPattern?.slot) {
+        throw error;
+      }
+    }
+  }
+};
+
+// Record a checkout's use of a coupon. The global and per-user caps are
+// enforced atomically so concurrent checkouts can't overshoot them; returns
+// false when either was hit. Redemptions are kept if the orders are later
+// cancelled, so caps can't be sidestepped by cancelling and ordering again.
+export const redeemCoupon = async (
+  coupon: ICoupon,
+  userId: string,
+  checkoutId: string,
+  discount: number
+): Promise<boolean> => {
+  const claimed = await Coupon.findOneAndUpdate(
+    {
+      _id: coupon._id,
+      $or: [
+        { usageLimit: null },    // Also matches coupons without a limit
+        { $expr: { $lt: ['$usedCount', '$usageLimit'] } }
+      ]
+    },
+    { $inc: { usedCount: 1 } }
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  let recorded = false;
+  try {
+    if (coupon.perUserLimit) {
+      recorded = await recordUserRedemption(coupon, userId, checkoutId, discount);
+    } else {
+      await CouponRedemption.create({ couponId: coupon._id, userId, checkoutId, discount });
+      recorded = true;
+    }
+  } finally {
+    if (!recorded) {
+      // Give back the use claimed above
+      await Coupon.updateOne({ _id: coupon._id }, { $inc: { usedCount: -1 } });
+    }
+  }
+  return recorded;
+};
+
+// Undo redeemCoupon when the checkout it was claimed for could not be placed
+export const releaseCoupon = async (coupon: ICoupon, checkoutId: string): Promise<void> => {
+  const removed = await CouponRedemption.deleteOne({ couponId: coupon._id, checkoutId });
+  if (removed.deletedCount > 0) {
+    await Coupon.updateOne({ _id: coupon._id }, { $inc: { usedCount: -1 } });
+  }
+};
@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+import Product from '../models/Product';
+
+// A single product/quantity pair whose stock should be reserved or released
+export interface StockLine {
+  productId: mongoose.Types.ObjectId | string;
+  variantId?: mongoose.Types.ObjectId | string;  // Set for products sold in variants
+  quantity: number;
+}
+
+// Release previously reserved stock (e.g. when an order is cancelled)
+export const releaseStock = async (lines: StockLine[]): Promise<void> => {
+  for (const line of lines) {
+    if (line.variantId) {
+      // Nothing to give back to if the variant has since been removed
+      await Product.updateOne(
+        { _id: line.productId, 'variants._id': line.variantId },
+        { $inc: { 'variants.$.stock': line.quantity, stock: line.quantity } }
+      );
+      continue;
+    }
+
+    await Product.updateOne(
+      { _id: line.productId },
+      { $inc: { stock: line.quantity } }
+    );
+  }
+};
+
+// Atomically reserve stock for every line.
+// Each decrement only matches when enough units remain, so concurrent orders
+// cannot oversell. Variant lines decrement the variant and the product total
+// in the same update. If any line fails, lines reserved so far are rolled back
+// and the failing line is returned; null means everything was reserved.
+export const reserveStock = async (lines: StockLine[]): Promise<StockLine | null> => {
+  const reserved: StockLine[] = [];
+
+  for (const line of lines) {
+    const result = line.variantId
+      ? await Product.updateOne(
+        {
+          _id: line.productId,
+          isActive: true,
+          variants: { $elemMatch: { _id: line.variantId, isActive: true, stock: { $gte: line.quantity } } }
+        },
+        { $inc: { 'variants.$.stock': -line.quantity, stock: -line.quantity } }
+      )
+      : await Product.updateOne(
+        { _id: line.productId, isActive: true, stock: { $gte: line.quantity } },
+        { $inc: { stock: -line.quantity } }
+      );
+
+    if (result.modifiedCount === 0) {
+      await releaseStock(reserved);
+      return line;
+    }
+
+    reserved.push(line);
+  }
+
+  return null;
+};
@@ -0,0 +1,74 @@
+import { Request } from 'express';
+import User, { IUser } from '../models/User';
+import { securityLogger, SecurityLogLevel, SecurityEventType } from '../middleware/securityLogger';
+
+// Wrong passwords allowed before an account is locked
+export const MAX_FAILED_LOGINS = parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5');
+
+// The first lockout lasts this long; each further one before a successful login doubles it
+const BASE_LOCKOUT_MS = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export const getLockoutDurationMs = (lockoutCount: number): number => {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** lockoutCount, MAX_LOCKOUT_MS);
+};
+
+// Seconds until a locked account can try again, or 0 if it isn't locked
+export const getLockoutRemainingSeconds = (user: Pick<IUser, 'lockUntil'>): number => {
+  if (!user.lockUntil) return 0;
+  return Math.max(0, Math.ceil((user.lockUntil.getTime() - Date.now()) / 1000));
+};
+
+// Count a wrong password and lock the account once it reaches MAX_FAILED_LOGINS.
+// Returns when the new lock ends, or null if the account wasn't locked.
+export const recordFailedLogin = async (user: IUser, req: Request): Promise<Date | null> => {
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
+  );
+  if (!updated || updated.failedLoginAttempts < MAX_FAILED_LOGINS) {
+    return null;
+  }
+
+  // Only the attempt that still sees the full count applies the lock
+  const lockUntil = new Date(Date.now() + getLockoutDurationMs(updated.lockoutCount));
+  const locked = await User.findOneAndUpdate(
+    { _id: user._id, failedLoginAttempts: { $gte: MAX_FAILED_LOGINS } },
+    {
+      $set: { failedLoginAttempts: 0, lockUntil },
+      $inc: { lockoutCount: 1 }
+    },
+    { new: true }
+  );
+  if (!locked) {
+    return null;
+  }
+
+  securityLogger.log(
+    SecurityLogLevel.CRITICAL,
+    SecurityEventType.SUSPICIOUS_ACTIVITY,
+    `Account locked after ${MAX_FAILED_LOGINS} failed login attempts`,
+    req,
+    {
+      userId: user._id.toString(),
+      email: user.email,
+      lockUntil,
+      lockoutCount: locked.lockoutCount
+    },
+    false
+  );
+
+  return lockUntil;
+};
+
+// Forget failed attempts and lift any lock (successful login, admin unlock)
+export const clearFailedLogins = async (userId: string): Promise<void> => {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: { failedLoginAttempts: 0, lockoutCount: 0 },
+      $unset: { lockUntil: 1 }
+    }
+  );
+};
@@ -0,0 +1,96 @@
+import Notification, { NotificationType, NOTIFICATION_TYPE_CATEGORIES } from '../models/Notification';
+import User from '../models/User';
+import { IOrder } from '../models/Order';
+import { onAppEvent } from './appEvents';
+
+interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  data?: Record<string, any>;
+}
+
+// Notify a user unless they switched off the notification's category
+export const notifyUser = async (userId: string, notification: NotificationInput): Promise<void> => {
+  const user = await User.findById(userId).select('notificationPreferences');
+  if (!user) return;
+
+  const category = NOTIFICATION_TYPE_CATEGORIES[notification.type];
+  if (user.notificationPreferences?.[category] === false) return;
+
+  await Notification.create({ userId, ...notification });
+};
+
+const idOf = (ref: any): string => String(ref?._id ?? ref);
+
+const orderData = (order: IOrder) => ({ orderId: order.orderId, checkoutId: order.checkoutId });
+
+// Subscribe to the events that produce notifications (once, at startup)
+let registered = false;
+
+export const registerNotificationListeners = (): void => {
+  if (registered) return;
+  registered = true;
+
+  onAppEvent('order.created', async ({ order }) => {
+    await notifyUser(idOf(order.sellerId), {
+      type: 'order_placed',
+      title: 'New order received',
+      message: `Order ${order.orderId} for ${order.products.length} item(s), $${order.totalAmount.toFixed(2)} total.`,
+      link: '/seller/orders',
+      data: orderData(order)
+    });
+  });
+
+  // Tell the buyer and the seller, except whoever made the change
+  onAppEvent('order.status_changed', async ({ order, previousStatus, changedBy, reason }) => {
+    const recipients = [
+      { userId: idOf(order.buyerId), link: '/orders' },
+      { userId: idOf(order.sellerId), link: '/seller/orders' }
+    ].filter(recipient => recipient.userId !== changedBy);
+
+    const message = `Order ${order.orderId} moved from ${previousStatus} to ${order.status}.` +
+      (reason ? ` Reason: ${reason}` : '');
+
+    await Promise.all(recipients.map(({ userId, link }) =>
+      notifyUser(userId, {
+        type: 'order_status',
+        title: `Order ${order.status.toLowerCase()}`,
+        message,
+        link,
+        data: { ...orderData(order), previousStatus, status: order.status }
+      })
+    ));
+  });
+
+  onAppEvent('user.banned', async ({ user }) => {
+    await notifyUser(user._id.toString(), {
+      type: 'account_banned',
+      title: 'Account suspended',
+      message: 'Your account has been suspended by an administrator. Contact support if you think this is a mistake.'
+    });
+  });
+
+  onAppEvent('user.unbanned', async ({ user }) => {
+    await notifyUser(user._id.toString(), {
+      type: 'account_unbanned',
+      title: 'Account restored',
+      message: 'Your account has been restored. Welcome back!'
+    });
+  });
+
+  // Sellers deleting their own products don't need telling
+  onAppEvent('product.deactivated', async ({ product, deactivatedBy }) => {
+    const sellerId = idOf(product.sellerId);
+    if (sellerId === deactivatedBy) return;
+
+    await notifyUser(sellerId, {
+      type: 'product_deactivated',
+      title: 'Product removed from sale',
+      message: `"${product.title}" was taken off sale by an administrator.`,
+      link: '/seller/products',
+      data: { productId: product._id.toString() }
+    });
+  });
+};
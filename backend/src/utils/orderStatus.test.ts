@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Order, { IOrder } from '../models/Order';
+import Payment from '../models/Payment';
+import Product from '../models/Product';
+import { PaymentProvider, setPaymentProvider } from '../config/payments';
+import { changeOrderStatus, changeReturnStatus } from './orderStatus';
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+// A Pending order paid online, as updateOrderStatus reads it
+const paidOrder = () => ({
+  _id: new mongoose.Types.ObjectId().toString(),
+  status: 'Pending',
+  paymentStatus: 'Paid',
+  paymentId: new mongoose.Types.ObjectId(),
+  totalAmount: 100,
+  products: [{ productId: new mongoose.Types.ObjectId(), quantity: 2 }]
+}) as unknown as IOrder;
+
+const capturedPayment = () => ({
+  _id: new mongoose.Types.ObjectId(),
+  provider: 'mock',
+  providerPaymentId: 'mock_pi_1',
+  status: 'Captured',
+  capturedAmount: 100,
+  refundedAmount: 0,
+  refunds: [],
+  history: [],
+  save: async () => undefined
+});
+
+const stubProvider = (refund: PaymentProvider['refund']) => ({
+  name: 'mock',
+  refund
+}) as unknown as PaymentProvider;
+
+let findOneAndUpdate: ReturnType<typeof mock.fn>;
+let updateOne: ReturnType<typeof mock.fn>;
+let findByIdAndUpdate: ReturnType<typeof mock.fn>;
+let productUpdateOne: ReturnType<typeof mock.fn>;
+let findPayment: ReturnType<typeof mock.fn>;
+
+beforeEach(() => {
+  // The conditional update matches, as if no other change got there first
+  findOneAndUpdate = mock.method(Order, 'findOneAndUpdate', async (filter: any, update: any) => ({
+    ...paidOrder(),
+    _id: filter._id,
+    status: update.$set.status
+  }));
+  updateOne = mock.method(Order, 'updateOne', async () => ({ modifiedCount: 1 }));
+  findByIdAndUpdate = mock.method(Order, 'findByIdAndUpdate', async () => null);
+  productUpdateOne = mock.method(Product, 'updateOne', async () => ({ modifiedCount: 1 }));
+  findPayment = mock.method(Payment, 'findById', async () => capturedPayment());
+  mock.method(console, 'warn', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('changeOrderStatus', () => {
+  it('cancels a paid order, refunds it and releases its stock', async () => {
+    const refund = mock.fn(async () => ({ providerRefundId: 'mock_re_1', refundedAmount: 100 }));
+    setPaymentProvider(stubProvider(refund));
+    const order = paidOrder();
+
+    const result = await changeOrderStatus(order, { status: 'Cancelled', userId, isOverride: false });
+
+    assert.ok('order' in result);
+    assert.deepEqual(findOneAndUpdate.mock.calls[0].arguments[0], { _id: order._id, status: 'Pending' });
+    assert.equal(refund.mock.callCount(), 1);
+    assert.equal(productUpdateOne.mock.callCount(), 1);
+    assert.deepEqual(findByIdAndUpdate.mock.calls[0].arguments[1], { paymentStatus: 'Refunded' });
+    assert.equal(updateOne.mock.callCount(), 0);
+  });
+
+  it('puts the order back as an override when the refund is refused', async () => {
+    setPaymentProvider(stubProvider(async () => {
+      throw new Error('Gateway unavailable');
+    }));
+    const order = paidOrder();
+
+    await assert.rejects(
+      changeOrderStatus(order, { status: 'Cancelled', userId, isOverride: false }),
+      /Gateway unavailable/
+    );
+
+    assert.equal(updateOne.mock.callCount(), 1);
+    const [filter, update] = updateOne.mock.calls[0].arguments as any[];
+    assert.deepEqual(filter, { _id: order._id, status: 'Cancelled' });
+    assert.equal(update.$set.status, 'Pending');
+    assert.equal(update.$push.statusHistory.status, 'Pending');
+    assert.equal(update.$push.statusHistory.isOverride, true);
+    assert.equal(productUpdateOne.mock.callCount(), 0);
+    assert.equal(findByIdAndUpdate.mock.callCount(), 0);
+  });
+
+  it('puts the order back and returns the error when the payment cannot be refunded', async () => {
+    const refund = mock.fn(async () => ({ providerRefundId: 'mock_re_1', refundedAmount: 100 }));
+    setPaymentProvider(stubProvider(refund));
+    findPayment.mock.mockImplementation(async () => ({ ...capturedPayment(), status: 'Refunded' }));
+    const order = paidOrder();
+
+    const result = await changeOrderStatus(order, { status: 'Cancelled', userId, isOverride: false });
+
+    assert.deepEqual(result, { status: 409, message: 'The online payment for this order cannot be refunded' });
+    assert.equal(refund.mock.callCount(), 0);
+    assert.equal(updateOne.mock.callCount(), 1);
+    assert.equal((updateOne.mock.calls[0].arguments as any[])[1].$set.status, 'Pending');
+    assert.equal(productUpdateOne.mock.callCount(), 0);
+  });
+
+  it('does nothing when another change got to the order first', async () => {
+    const refund = mock.fn(async () => ({ providerRefundId: 'mock_re_1', refundedAmount: 100 }));
+    setPaymentProvider(stubProvider(refund));
+    findOneAndUpdate.mock.mockImplementation(async () => null);
+
+    const result = await changeOrderStatus(paidOrder(), { status: 'Cancelled', userId, isOverride: false });
+
+    assert.equal('status' in result && result.status, 409);
+    assert.equal(findPayment.mock.callCount(), 0);
+    assert.equal(refund.mock.callCount(), 0);
+    assert.equal(productUpdateOne.mock.callCount(), 0);
+  });
+
+  it('gives back reserved stock when a reopened order was changed meanwhile', async () => {
+    findOneAndUpdate.mock.mockImplementation(async () => null);
+    const order = { ...paidOrder(), status: 'Cancelled' } as unknown as IOrder;
+
+    const result = await changeOrderStatus(order, { status: 'Pending', userId, reason: 'Reopened', isOverride: true });
+
+    assert.equal('status' in result && result.status, 409);
+    // One update reserves the line, one releases it again
+    assert.equal(productUpdateOne.mock.callCount(), 2);
+    assert.equal((productUpdateOne.mock.calls[1].arguments as any[])[1].$inc.stock, 2);
+  });
+});
+
+describe('changeReturnStatus', () => {
+  // A Completed order paid online with an approved return of one unit
+  const returnedOrder = () => ({
+    ...paidOrder(),
+    status: 'Completed',
+    returnRequest: {
+      status: 'Approved',
+      refundAmount: 40,
+      items: [{ productId: new mongoose.Types.ObjectId(), quantity: 1 }],
+      history: []
+    }
+  }) as unknown as IOrder;
+
+  beforeEach(() => {
+    findOneAndUpdate.mock.mockImplementation(async (filter: any, update: any) => {
+      const order = returnedOrder();
+      if (update.$set['returnRequest.status']) {
+        order.returnRequest!.status = update.$set['returnRequest.status'];
+      }
+      return { ...order, _id: filter._id };
+    });
+  });
+
+  it('marks the return refunded before refunding it and puts the units back', async () => {
+    const refund = mock.fn(async () => ({ providerRefundId: 'mock_re_1', refundedAmount: 40 }));
+    setPaymentProvider(stubProvider(refund));
+    const order = returnedOrder();
+
+    const result = await changeReturnStatus(order, { status: 'Refunded', userId });
+
+    assert.ok('order' in result);
+    assert.deepEqual(findOneAndUpdate.mock.calls[0].arguments[0], { _id: order._id, 'returnRequest.status': 'Approved' });
+    assert.equal(refund.mock.callCount(), 1);
+    assert.equal(productUpdateOne.mock.callCount(), 1);
+    // A partial refund leaves the order paid
+    assert.equal(findByIdAndUpdate.mock.callCount(), 0);
+    assert.equal(updateOne.mock.callCount(), 0);
+  });
+
+  it('puts the return back to Approved when the refund is refused', async () => {
+    setPaymentProvider(stubProvider(async () => {
+      throw new Error('Gateway unavailable');
+    }));
+    const order = returnedOrder();
+
+    await assert.rejects(changeReturnStatus(order, { status: 'Refunded', userId }), /Gateway unavailable/);
+
+    assert.equal(updateOne.mock.callCount(), 1);
+    const [filter, update] = updateOne.mock.calls[0].arguments as any[];
+    assert.deepEqual(filter, { _id: order._id, 'returnRequest.status': 'Refunded' });
+    assert.equal(update.$set['returnRequest.status'], 'Approved');
+    assert.equal(productUpdateOne.mock.callCount(), 0);
+  });
+
+  it('does not refund again when another reviewer got to the return first', async () => {
+    const refund = mock.fn(async () => ({ providerRefundId: 'mock_re_1', refundedAmount: 40 }));
+    setPaymentProvider(stubProvider(refund));
+    findOneAndUpdate.mock.mockImplementation(async () => null);
+
+    const result = await changeReturnStatus(returnedOrder(), { status: 'Refunded', userId });
+
+    assert.equal('status' in result && result.status, 409);
+    assert.equal(refund.mock.callCount(), 0);
+    assert.equal(productUpdateOne.mock.callCount(), 0);
+  });
+});
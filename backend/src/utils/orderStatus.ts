@@ -0,0 +1,155 @@
+import Order, { IOrder, OrderStatus, ReturnStatus } from '../models/Order';
+import { reserveStock, releaseStock } from './inventory';
+import { refundOrderPayment } from './payments';
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  userId: string;
+  reason?: string;
+  isOverride: boolean;
+}
+
+export interface ReturnStatusChange {
+  status: ReturnStatus;
+  userId: string;
+  note?: string;
+}
+
+type StatusChangeResult = { order: IOrder } | { status: number; message: string };
+
+// Put back an order whose cancellation could not be completed. Recorded as an
+// override, as Cancelled can't otherwise be left.
+const revertCancellation = async (order: IOrder, previousStatus: OrderStatus, userId: string, reason: string): Promise<void> => {
+  await Order.updateOne(
+    { _id: order._id, status: 'Cancelled' },
+    {
+      $set: { status: previousStatus },
+      $push: {
+        statusHistory: { status: previousStatus, timestamp: new Date(), updatedBy: userId, reason, isOverride: true }
+      }
+    }
+  );
+};
+
+// Move an order to a new status that the caller has already checked is
+// allowed. The change is only saved if the order still has the status it was
+// read with, so of several concurrent changes one goes through and stock and
+// refunds are handled once. Reopening a cancelled order reserves its stock
+// again; cancelling refunds an online payment in full (the cancellation is
+// undone if that fails) and releases the stock.
+export const changeOrderStatus = async (order: IOrder, change: OrderStatusChange): Promise<StatusChangeResult> => {
+  const { status, userId, reason, isOverride } = change;
+  const previousStatus = order.status;
+  const isReopening = previousStatus === 'Cancelled';
+
+  if (isReopening) {
+    const unavailable = await reserveStock(order.products);
+    if (unavailable) {
+      return { status: 409, message: `Insufficient stock to reopen order for product ${unavailable.productId}` };
+    }
+  }
+
+  let updatedOrder: IOrder | null;
+  try {
+    updatedOrder = await Order.findOneAndUpdate(
+      { _id: order._id, status: previousStatus },
+      {
+        $set: { status },
+        $push: {
+          statusHistory: { status, timestamp: new Date(), updatedBy: userId, reason: reason || undefined, isOverride }
+        }
+      },
+      { new: true }
+    );
+  } catch (error) {
+    if (isReopening) {
+      await releaseStock(order.products);
+    }
+    throw error;
+  }
+
+  if (!updatedOrder) {
+    if (isReopening) {
+      await releaseStock(order.products);
+    }
+    return { status: 409, message: 'The order status has just been changed; reload the order and try again' };
+  }
+
+  if (status === 'Cancelled') {
+    let refund;
+    try {
+      refund = await refundOrderPayment(updatedOrder, updatedOrder.totalAmount, reason || 'Order cancelled');
+    } catch (error) {
+      await revertCancellation(updatedOrder, previousStatus, userId, 'Cancellation undone: refund failed');
+      throw error;
+    }
+    if (refund && 'status' in refund) {
+      await revertCancellation(updatedOrder, previousStatus, userId, `Cancellation undone: ${refund.message}`);
+      return refund;
+    }
+
+    await releaseStock(updatedOrder.products);
+
+    if (refund) {
+      updatedOrder = await Order.findByIdAndUpdate(updatedOrder._id, { paymentStatus: 'Refunded' }, { new: true }) || updatedOrder;
+    }
+  }
+
+  return { order: updatedOrder };
+};
+
+// Move an order's return request to a new status that the caller has already
+// checked is allowed, saved only if it hasn't changed since it was read.
+// Marking it Refunded sends the refund through the gateway when the order was
+// paid online (undone if that fails) and puts the returned units back.
+export const changeReturnStatus = async (order: IOrder, change: ReturnStatusChange): Promise<StatusChangeResult> => {
+  const { status, userId, note } = change;
+  const previousStatus = order.returnRequest!.status;
+
+  let updatedOrder = await Order.findOneAndUpdate(
+    { _id: order._id, 'returnRequest.status': previousStatus },
+    {
+      $set: { 'returnRequest.status': status },
+      $push: {
+        'returnRequest.history': { status, timestamp: new Date(), updatedBy: userId, note: note || undefined }
+      }
+    },
+    { new: true }
+  );
+  if (!updatedOrder?.returnRequest) {
+    return { status: 409, message: 'The return status has just been changed; reload the order and try again' };
+  }
+
+  if (status === 'Refunded') {
+    const returnRequest = updatedOrder.returnRequest;
+    const revert = (reason: string) => Order.updateOne(
+      { _id: order._id, 'returnRequest.status': 'Refunded' },
+      {
+        $set: { 'returnRequest.status': previousStatus },
+        $push: {
+          'returnRequest.history': { status: previousStatus, timestamp: new Date(), updatedBy: userId, note: reason }
+        }
+      }
+    );
+
+    let refund;
+    try {
+      refund = await refundOrderPayment(updatedOrder, returnRequest.refundAmount, note || 'Return refunded');
+    } catch (error) {
+      await revert('Refund failed');
+      throw error;
+    }
+    if (refund && 'status' in refund) {
+      await revert(`Refund failed: ${refund.message}`);
+      return refund;
+    }
+
+    await releaseStock(returnRequest.items);
+
+    if (refund && returnRequest.refundAmount >= updatedOrder.totalAmount) {
+      updatedOrder = await Order.findByIdAndUpdate(updatedOrder._id, { paymentStatus: 'Refunded' }, { new: true }) || updatedOrder;
+    }
+  }
+
+  return { order: updatedOrder };
+};
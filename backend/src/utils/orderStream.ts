@@ -0,0 +1,165 @@
+import { Request, Response } from 'express';
+import { IOrder, OrderStatus } from '../models/Order';
+import { onAppEvent } from './appEvents';
+
+export type OrderStreamEventType = 'order.created' | 'order.status_changed';
+
+interface OrderStreamEvent {
+  id: string;
+  sequence: number;
+  type: OrderStreamEventType;
+  buyerId: string;
+  sellerId: string;
+  data: {
+    orderId: string;
+    checkoutId?: string;
+    status: OrderStatus;
+    previousStatus?: OrderStatus;
+    totalAmount: number;
+    occurredAt: string;
+  };
+}
+
+interface OrderStreamClient {
+  userId: string;
+  seesAll: boolean;             // Holds order:read:any
+  res: Response;
+}
+
+export interface OrderStreamOptions {
+  userId: string;
+  seesAll: boolean;
+  expiresAt?: number;           // Access token expiry (ms); the stream is closed then
+}
+
+// Recent events kept so reconnecting clients can catch up via Last-Event-ID
+const ORDER_STREAM_BACKLOG = parseInt(process.env.ORDER_STREAM_BACKLOG || '500');
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Sent to clients as the SSE retry delay
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+// Event ids are "<epoch>-<sequence>". The epoch changes on every restart, so ids
+// handed out by an earlier process are recognised as unknown.
+const streamEpoch = Date.now().toString(36);
+let sequence = 0;
+
+const backlog: OrderStreamEvent[] = [];
+const clients = new Set<OrderStreamClient>();
+
+const idOf = (ref: any): string => String(ref?._id ?? ref);
+
+const canSee = (client: OrderStreamClient, event: OrderStreamEvent): boolean =>
+  client.seesAll || client.userId === event.buyerId || client.userId === event.sellerId;
+
+const writeEvent = (res: Response, event: OrderStreamEvent): void => {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+};
+
+// Record an event and push it to every connected client allowed to see it
+const publish = (type: OrderStreamEventType, order: IOrder, previousStatus?: OrderStatus): void => {
+  sequence += 1;
+
+  const event: OrderStreamEvent = {
+    id: `${streamEpoch}-${sequence}`,
+    sequence,
+    type,
+    buyerId: idOf(order.buyerId),
+    sellerId: idOf(order.sellerId),
+    data: {
+      orderId: order.orderId,
+      checkoutId: order.checkoutId,
+      status: order.status,
+      previousStatus,
+      totalAmount: order.totalAmount,
+      occurredAt: new Date().toISOString()
+    }
+  };
+
+  backlog.push(event);
+  if (backlog.length > ORDER_STREAM_BACKLOG) {
+    backlog.shift();
+  }
+
+  clients.forEach(client => {
+    if (canSee(client, event)) writeEvent(client.res, event);
+  });
+};
+
+// Events after lastEventId, or null when they can no longer be replayed
+// (unknown id, a restart since, or events already dropped from the backlog)
+const eventsSince = (lastEventId: string): OrderStreamEvent[] | null => {
+  const [epoch, sequenceText] = lastEventId.split('-');
+  const lastSequence = Number(sequenceText);
+
+  if (epoch !== streamEpoch || !Number.isInteger(lastSequence) || lastSequence > sequence) {
+    return null;
+  }
+
+  const oldest = backlog.length > 0 ? backlog[0].sequence : sequence + 1;
+  if (lastSequence < oldest - 1) {
+    return null;
+  }
+
+  return backlog.filter(event => event.sequence > lastSequence);
+};
+
+// Turn the response into an event stream for one user. Missed events are
+// replayed when the client sends Last-Event-ID; if they can't be, a "resync"
+// event tells the client to reload what it shows.
+export const openOrderStream = (req: Request, res: Response, options: OrderStreamOptions): void => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const client: OrderStreamClient = { userId: options.userId, seesAll: options.seesAll, res };
+
+  const lastEventId = req.header('Last-Event-ID');
+  if (lastEventId) {
+    const missed = eventsSince(lastEventId);
+    if (missed) {
+      missed.filter(event => canSee(client, event)).forEach(event => writeEvent(res, event));
+    } else {
+      res.write(`id: ${streamEpoch}-${sequence}\nevent: resync\ndata: {}\n\n`);
+    }
+  }
+
+  clients.add(client);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  // Close when the access token expires so the client reconnects with a fresh
+  // one; revoked sessions and lost permissions then take effect on the stream
+  const expiry = options.expiresAt
+    ? setTimeout(() => res.end(), Math.max(0, options.expiresAt - Date.now()))
+    : undefined;
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    if (expiry) clearTimeout(expiry);
+    clients.delete(client);
+  });
+};
+
+// Subscribe to the order events that are streamed (once, at startup)
+let registered = false;
+
+export const registerOrderStreamListeners = (): void => {
+  if (registered) return;
+  registered = true;
+
+  onAppEvent('order.created', ({ order }) => {
+    publish('order.created', order);
+  });
+
+  onAppEvent('order.status_changed', ({ order, previousStatus }) => {
+    publish('order.status_changed', order, previousStatus);
+  });
+};
@@ -0,0 +1,276 @@
+import Order, { IOrder } from '../models/Order';
+import Payment, { IPayment, PaymentStatus, canTransitionPayment } from '../models/Payment';
+import { getPaymentProvider, getPaymentCurrency, isOnlinePaymentEnabled, PaymentEvent } from '../config/payments';
+import { releaseStock } from './inventory';
+import { emitAppEvent } from './appEvents';
+
+export type PaymentEventResult = 'processed' | 'duplicate' | 'ignored';
+
+type RefundOutcome = { refundedAmount: number } | { status: number; message: string } | null;
+
+// Rounding slack when comparing money amounts
+const AMOUNT_EPSILON = 0.01;
+
+// Move a payment to a new status, recording why. Returns false (and leaves the
+// payment alone) for out-of-order events that the state machine doesn't allow.
+const transitionPayment = (payment: IPayment, status: PaymentStatus, eventId?: string, note?: string): boolean => {
+  if (payment.status === status && status !== 'Partially Refunded') {
+    return false;
+  }
+  if (!canTransitionPayment(payment.status, status)) {
+    console.warn(`Ignoring payment ${payment._id} transition from ${payment.status} to ${status}`);
+    return false;
+  }
+
+  payment.status = status;
+  payment.history.push({ status, timestamp: new Date(), eventId, note });
+  return true;
+};
+
+// Start an online payment covering every order placed in a checkout
+export const startCheckoutPayment = async (
+  checkoutId: string,
+  buyerId: string,
+  orders: IOrder[]
+): Promise<IPayment> => {
+  const provider = getPaymentProvider();
+  const amount = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+  const currency = getPaymentCurrency();
+
+  const intent = await provider.createIntent({
+    amount,
+    currency,
+    reference: checkoutId,
+    metadata: { buyerId }
+  });
+
+  const payment = await Payment.create({
+    checkoutId,
+    orderIds: orders.map(order => order._id),
+    buyerId,
+    provider: provider.name,
+    providerPaymentId: intent.providerPaymentId,
+    amount,
+    currency,
+    redirectUrl: intent.redirectUrl
+  });
+
+  await Order.updateMany(
+    { _id: { $in: payment.orderIds } },
+    { $set: { paymentStatus: 'Awaiting Payment', paymentId: payment._id } }
+  );
+
+  return payment;
+};
+
+// Send money back to the buyer for (part of) an order paid online.
+// Returns null when the order wasn't paid online, so callers can carry on.
+export const refundOrderPayment = async (order: IOrder, amount: number, reason?: string): Promise<RefundOutcome> => {
+  if (!order.paymentId || order.paymentStatus !== 'Paid') {
+    return null;
+  }
+
+  const payment = await Payment.findById(order.paymentId);
+  if (!payment || !['Captured', 'Partially Refunded'].includes(payment.status)) {
+    return { status: 409, message: 'The online payment for this order cannot be refunded' };
+  }
+
+  const provider = isOnlinePaymentEnabled() ? getPaymentProvider() : null;
+  if (provider?.name !== payment.provider) {
+    return { status: 502, message: `Payment provider ${payment.provider} is not available` };
+  }
+
+  const refundable = payment.capturedAmount - payment.refundedAmount;
+  const refundAmount = Math.min(amount, refundable);
+  if (refundAmount <= 0) {
+    return { refundedAmount: 0 };
+  }
+
+  const result = await provider.refund(payment.providerPaymentId, refundAmount, reason);
+
+  payment.refunds.push({
+    providerRefundId: result.providerRefundId,
+    amount: result.refundedAmount,
+    orderId: order._id as any,
+    reason,
+    createdAt: new Date()
+  });
+  payment.refundedAmount += result.refundedAmount;
+  transitionPayment(
+    payment,
+    payment.refundedAmount >= payment.capturedAmount - AMOUNT_EPSILON ? 'Refunded' : 'Partially Refunded',
+    undefined,
+    reason
+  );
+  await payment.save();
+
+  return { refundedAmount: result.refundedAmount };
+};
+
+// Note a refund that has to be followed up by hand in the payment's history
+const flagFailedRefund = async (paymentId: IPayment['_id'], note: string): Promise<void> => {
+  console.error(`Payment ${paymentId}: ${note}`);
+
+  // Reloaded, as refunds of earlier orders may have changed it
+  const payment = await Payment.findById(paymentId);
+  if (payment) {
+    payment.history.push({ status: payment.status, timestamp: new Date(), note });
+    await payment.save();
+  }
+};
+
+// Mark the payment's orders as paid. Orders the buyer cancelled while the
+// payment was in flight are refunded straight away; those that can't be stay
+// paid and are flagged on the payment.
+const settleOrders = async (payment: IPayment): Promise<void> => {
+  const orders = await Order.find({ _id: { $in: payment.orderIds } });
+
+  for (const order of orders) {
+    order.paymentStatus = 'Paid';
+    await order.save();
+
+    if (order.status === 'Cancelled') {
+      const note = `Order ${order.orderId} was cancelled before payment completed and needs a manual refund`;
+      let refund: RefundOutcome;
+      try {
+        refund = await refundOrderPayment(order, order.totalAmount, 'Order cancelled before payment completed');
+      } catch (error) {
+        await flagFailedRefund(payment._id, `${note}: ${error instanceof Error ? error.message : 'refund failed'}`);
+        continue;
+      }
+      if (refund && 'status' in refund) {
+        await flagFailedRefund(payment._id, `${note}: ${refund.message}`);
+        continue;
+      }
+
+      order.paymentStatus = 'Refunded';
+      await order.save();
+    }
+  }
+};
+
+// Cancel the payment's pending orders and give their stock back
+const failOrders = async (payment: IPayment, reason: string): Promise<void> => {
+  const orders = await Order.find({ _id: { $in: payment.orderIds } });
+
+  for (const order of orders) {
+    order.paymentStatus = 'Payment Failed';
+
+    if (order.status === 'Pending') {
+      order.status = 'Cancelled';
+      order.statusHistory.push({
+        status: 'Cancelled',
+        timestamp: new Date(),
+        updatedBy: order.buyerId,
+        reason: `Online payment failed: ${reason}`
+      });
+      await order.save();
+      await releaseStock(order.products);
+      emitAppEvent('order.status_changed', { order, previousStatus: 'Pending', reason: `Online payment failed: ${reason}` });
+    } else {
+      await order.save();
+    }
+  }
+};
+
+// Record a capture for less than the payment's amount (or of an unknown
+// amount) without marking the payment Captured, so its orders stay unpaid.
+// Returns false for a full capture.
+const flagShortCapture = (payment: IPayment, capturedAmount: number | undefined, eventId: string): boolean => {
+  if (capturedAmount !== undefined && capturedAmount >= payment.amount - AMOUNT_EPSILON) {
+    return false;
+  }
+
+  const note = capturedAmount === undefined
+    ? 'Capture reported without an amount; orders left unpaid'
+    : `Captured ${capturedAmount} of ${payment.amount} ${payment.currency}; orders left unpaid`;
+  payment.capturedAmount = capturedAmount ?? 0;
+  payment.history.push({ status: payment.status, timestamp: new Date(), eventId, note });
+  console.warn(`Payment ${payment._id}: ${note}`);
+  return true;
+};
+
+// Capture an authorized payment with the provider and settle its orders
+const capturePayment = async (payment: IPayment, eventId: string): Promise<void> => {
+  const provider = getPaymentProvider();
+  const result = await provider.capture(payment.providerPaymentId, payment.amount);
+
+  if (flagShortCapture(payment, result.capturedAmount, eventId)) {
+    await payment.save();
+    return;
+  }
+
+  payment.capturedAmount = result.capturedAmount;
+  if (transitionPayment(payment, 'Captured', eventId)) {
+    await payment.save();
+    await settleOrders(payment);
+  }
+};
+
+// Apply a verified provider event. Each event ID is claimed atomically before
+// processing, so retried or concurrent deliveries only take effect once.
+export const applyPaymentEvent = async (event: PaymentEvent): Promise<PaymentEventResult> => {
+  const payment = await Payment.findOneAndUpdate(
+    { providerPaymentId: event.providerPaymentId, processedEventIds: { $ne: event.id } },
+    { $push: { processedEventIds: event.id } },
+    { new: true }
+  );
+
+  if (!payment) {
+    const exists = await Payment.exists({ providerPaymentId: event.providerPaymentId });
+    return exists ? 'duplicate' : 'ignored';
+  }
+
+  try {
+    switch (event.type) {
+      case 'payment.authorized':
+        if (transitionPayment(payment, 'Authorized', event.id)) {
+          await payment.save();
+          await capturePayment(payment, event.id);
+        }
+        break;
+
+      case 'payment.captured':
+        if (flagShortCapture(payment, event.amount, event.id)) {
+          await payment.save();
+          break;
+        }
+
+        payment.capturedAmount = event.amount!;
+        if (transitionPayment(payment, 'Captured', event.id)) {
+          await payment.save();
+          await settleOrders(payment);
+        }
+        break;
+
+      case 'payment.failed':
+        payment.failureReason = event.failureReason || 'Payment declined';
+        if (transitionPayment(payment, 'Failed', event.id, payment.failureReason)) {
+          await payment.save();
+          await failOrders(payment, payment.failureReason);
+        }
+        break;
+
+      case 'payment.refunded':
+        // Refund issued from the provider's dashboard rather than through us
+        payment.refundedAmount = Math.min(payment.capturedAmount, payment.refundedAmount + (event.amount ?? payment.capturedAmount));
+        if (transitionPayment(
+          payment,
+          payment.refundedAmount >= payment.capturedAmount - AMOUNT_EPSILON ? 'Refunded' : 'Partially Refunded',
+          event.id
+        )) {
+          await payment.save();
+        }
+        break;
+
+      default:
+        return 'ignored';
+    }
+
+    return 'processed';
+  } catch (error) {
+    // Release the claim so the provider's retry can process the event again
+    await Payment.updateOne({ _id: payment._id }, { $pull: { processedEventIds: event.id } });
+    throw error;
+  }
+};
@@ -0,0 +1,72 @@
+import Role, { Permission, PERMISSION_KEYS, SYSTEM_ROLES, DEFAULT_ROLE_PERMISSIONS } from '../models/Role';
+
+// How long role→permission mappings are cached before being re-read from MongoDB.
+// Edits made through the admin API clear the cache immediately on this instance.
+const ROLE_CACHE_TTL_MS = 60 * 1000;
+
+let rolePermissionsCache: Map<string, Set<Permission>> | null = null;
+let rolePermissionsLoadedAt = 0;
+
+// Load every role's permissions, served from the cache while it is fresh
+const loadRolePermissions = async (): Promise<Map<string, Set<Permission>>> => {
+  if (rolePermissionsCache && Date.now() - rolePermissionsLoadedAt < ROLE_CACHE_TTL_MS) {
+    return rolePermissionsCache;
+  }
+
+  const roles = await Role.find().select('name permissions').lean();
+
+  rolePermissionsCache = new Map(roles.map(role => [role.name, new Set(role.permissions)]));
+  rolePermissionsLoadedAt = Date.now();
+  return rolePermissionsCache;
+};
+
+// Drop cached mappings after a role is created, edited or deleted
+export const invalidateRolePermissions = (): void => {
+  rolePermissionsCache = null;
+};
+
+// Permissions granted to a role (empty for unknown roles)
+export const getRolePermissions = async (role: string | undefined): Promise<Set<Permission>> => {
+  if (!role) return new Set();
+
+  const permissions = await loadRolePermissions();
+  return permissions.get(role) || new Set();
+};
+
+// True when the role holds at least one of the given permissions
+export const hasPermission = async (role: string | undefined, ...permissions: Permission[]): Promise<boolean> => {
+  const granted = await getRolePermissions(role);
+  return permissions.some(permission => granted.has(permission));
+};
+
+export const roleExists = async (role: string): Promise<boolean> => {
+  const permissions = await loadRolePermissions();
+  return permissions.has(role);
+};
+
+// Create the built-in roles with their default permissions if they don't exist yet.
+// Existing roles keep their (possibly admin-edited) permissions, except that
+// permissions added to the registry since the last startup are granted to the
+// built-in roles that have them by default.
+export const ensureDefaultRoles = async (): Promise<void> => {
+  for (const name of SYSTEM_ROLES) {
+    const defaults = DEFAULT_ROLE_PERMISSIONS[name];
+    const role = await Role.findOne({ name });
+
+    if (!role) {
+      await Role.create({ name, permissions: defaults, isSystem: true, knownPermissions: PERMISSION_KEYS });
+      continue;
+    }
+
+    const known = new Set(role.knownPermissions);
+    const newDefaults = defaults.filter(permission => !known.has(permission) && !role.permissions.includes(permission));
+
+    if (newDefaults.length > 0 || known.size !== PERMISSION_KEYS.length) {
+      role.permissions = [...role.permissions, ...newDefaults];
+      role.knownPermissions = PERMISSION_KEYS;
+      await role.save();
+    }
+  }
+
+  invalidateRolePermissions();
+};
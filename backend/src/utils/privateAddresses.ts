@@ -0,0 +1,53 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local (incl. cloud metadata), carrier-grade NAT,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses (::ffff:a.b.c.d)
+// are checked against the IPv4 ranges.
+const privateRanges = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 96], ['64:ff9b::', 96], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv6'));
+
+// Whether an IP address belongs to this machine or a non-public network
+export const isPrivateAddress = (address: string): boolean =>
+  privateRanges.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Whether a URL's hostname names this machine or a private network. Names that
+// resolve to such addresses are caught when connecting (see publicOnlyLookup).
+export const isPrivateHostname = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true;
+  return net.isIP(host) !== 0 && isPrivateAddress(host);
+};
+
+// dns.lookup for requests to user-supplied URLs that refuses hosts resolving
+// to a private address. Used as a request's `lookup` option, the connection
+// goes to the address that was checked, so DNS rebinding can't swap it later.
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+    if (privateAddress || addresses.length === 0) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`);
+      refused.code = 'EADDRNOTAVAIL';
+      return callback(refused, '', 0);
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
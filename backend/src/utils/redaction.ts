@@ -0,0 +1,140 @@
+// Redaction for anything written to the security log (file, console, audit
+// collection). Secrets are replaced by a marker before an entry reaches any sink.
+
+export const REDACTED = '[REDACTED]';
+
+export interface RedactionRules {
+  // Key names redacted at any depth (e.g. "password"), or dotted paths from the
+  // root of the value (e.g. "body.card.number"); "*" matches any one segment.
+  // Names are compared without case, "-" or "_".
+  fields: string[];
+  // Keys matching any of these are redacted at any depth
+  keyPatterns: RegExp[];
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  fields: [
+    'password',
+    'pwd',
+    'currentPassword',
+    'newPassword',
+    'confirmPassword',
+    'token',
+    'accessToken',
+    'refreshToken',
+    'authorization',
+    'cookie',
+    'setCookie',
+    'cardNumber',
+    'cvv',
+    'cvv2',
+    'cvc',
+    'cvc2',
+    'pin'
+  ],
+  keyPatterns: [/pass(word|wd)/i, /token/i, /secret/i, /api[-_]?key/i, /authorization/i, /cookie/i]
+};
+
+// Extra fields from SECURITY_LOG_REDACT_FIELDS (comma-separated names or paths)
+const getConfiguredFields = (): string[] =>
+  (process.env.SECURITY_LOG_REDACT_FIELDS || '')
+    .split(',')
+    .map(field => field.trim())
+    .filter(Boolean);
+
+const MAX_DEPTH = 10;
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[-_]/g, '');
+
+// Luhn check, so order totals and phone numbers aren't mistaken for cards
+const isCardNumber = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Secrets recognised by their value wherever they appear in a string
+export const redactString = (value: string): string => {
+  return value
+    .replace(/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`)
+    .replace(/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED)
+    .replace(/\b\d(?:[ -]?\d){12,18}\b/g, match =>
+      isCardNumber(match.replace(/\D/g, '')) ? REDACTED : match
+    );
+};
+
+// Build a redactor for the given rules. The returned function copies its input;
+// the original (often req.body) is never modified.
+export const createRedactor = (rules: RedactionRules = DEFAULT_REDACTION_RULES) => {
+  const keyNames = new Set<string>();
+  const paths: string[][] = [];
+
+  rules.fields.forEach(field => {
+    if (field.includes('.')) {
+      paths.push(field.split('.').map(normalizeKey));
+    } else {
+      keyNames.add(normalizeKey(field));
+    }
+  });
+
+  const isSecretKey = (key: string, path: string[]): boolean => {
+    if (keyNames.has(normalizeKey(key))) return true;
+    if (rules.keyPatterns.some(pattern => pattern.test(key))) return true;
+
+    return paths.some(fieldPath =>
+      fieldPath.length === path.length &&
+      fieldPath.every((segment, i) => segment === '*' || segment === normalizeKey(path[i]))
+    );
+  };
+
+  const redactValue = (value: unknown, path: string[], seen: WeakSet<object>): unknown => {
+    if (typeof value === 'string') return redactString(value);
+    if (value === null || typeof value !== 'object') return value;
+    if (value instanceof Date) return value;
+    if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+
+    if (seen.has(value)) return '[Circular]';
+    if (path.length >= MAX_DEPTH) return '[Truncated]';
+    seen.add(value);
+
+    // Mongoose documents, ObjectIds and the like serialise through toJSON
+    const plain = typeof (value as any).toJSON === 'function' && !Array.isArray(value)
+      ? (value as any).toJSON()
+      : value;
+    if (plain !== value) {
+      const result = redactValue(plain, path, seen);
+      seen.delete(value);
+      return result;
+    }
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map((item, i) => redactValue(item, [...path, String(i)], seen));
+    } else {
+      result = Object.fromEntries(
+        Object.entries(value).map(([key, item]) => {
+          const itemPath = [...path, key];
+          return [key, isSecretKey(key, itemPath) ? REDACTED : redactValue(item, itemPath, seen)];
+        })
+      );
+    }
+
+    seen.delete(value);
+    return result;
+  };
+
+  return <T>(value: T): T => redactValue(value, [], new WeakSet()) as T;
+};
+
+// Redactor for the default rules plus SECURITY_LOG_REDACT_FIELDS
+export const redactSecrets = createRedactor({
+  ...DEFAULT_REDACTION_RULES,
+  fields: [...DEFAULT_REDACTION_RULES.fields, ...getConfiguredFields()]
+});
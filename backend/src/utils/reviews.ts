@@ -0,0 +1,32 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Product from '../models/Product';
+import Review from '../models/Review';
+
+// Find the buyer's most recent Completed order containing the product, which
+// makes them a verified purchaser
+export const findVerifiedPurchase = async (buyerId: string, productId: string) => {
+  return Order.findOne({
+    buyerId,
+    status: 'Completed',
+    'products.productId': productId
+  })
+    .sort({ orderDate: -1 })
+    .select('_id');
+};
+
+// Recalculate a product's average rating and review count from its visible reviews
+export const updateProductRating = async (productId: string | mongoose.Types.ObjectId): Promise<void> => {
+  const [summary] = await Review.aggregate([
+    { $match: { productId: new mongoose.Types.ObjectId(productId.toString()), isHidden: false } },
+    { $group: { _id: null, averageRating: { $avg: '$rating' }, reviewCount: { $sum: 1 } } }
+  ]);
+
+  await Product.updateOne(
+    { _id: productId },
+    {
+      averageRating: summary ? Math.round(summary.averageRating * 10) / 10 : 0,
+      reviewCount: summary ? summary.reviewCount : 0
+    }
+  );
+};
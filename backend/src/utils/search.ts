@@ -0,0 +1,236 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { CategoryRecord, resolveCategoryFilter } from './categories';
+import { ProductQueryInput } from './validation';
+
+// Lower bounds of the price facet's ranges; the last range is open-ended
+export const PRICE_BUCKETS = [0, 500, 1000, 5000, 10000, 50000];
+
+// Thresholds of the "n stars & up" rating facet
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+// Number of sellers listed in the seller facet
+const SELLER_FACET_LIMIT = 10;
+
+// Facets a shopper can narrow by. Each facet is counted with every filter
+// except its own, so picking "Electronics" still shows how many results the
+// other categories would have.
+type FacetKey = 'category' | 'price' | 'sellerId' | 'averageRating';
+
+export interface ProductFilters {
+  base: Record<string, any>;                        // Always applied (active products, search text)
+  facets: Partial<Record<FacetKey, any>>;           // Applied per facet
+}
+
+export interface CategoryFacet {
+  _id: string;
+  name: string;
+  slug: string;
+  icon?: string;
+  parent: string | null;
+  count: number;       // Matching products in the category and its subcategories
+}
+
+export interface SearchFacets {
+  categories: CategoryFacet[];
+  priceRanges: Array<{ min: number; max: number | null; count: number }>;
+  sellers: Array<{ _id: string; name: string; count: number }>;
+  ratings: Array<{ minRating: number; count: number }>;
+}
+
+// Escape a user-supplied string for use inside a regular expression
+export const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Product filters for a listing or search query, split so facets can be counted
+// without their own filter. Pass the categories if already loaded.
+export const buildProductFilters = async (
+  query: ProductQueryInput,
+  categories?: CategoryRecord[]
+): Promise<ProductFilters> => {
+  const { search, category, minPrice, maxPrice, sellerId, minRating } = query;
+  const base: Record<string, any> = { isActive: true };
+  const facets: ProductFilters['facets'] = {};
+
+  if (search) {
+    base.$text = { $search: search };
+  }
+
+  // The category and its subcategories
+  if (category) {
+    facets.category = await resolveCategoryFilter(category, categories);
+  }
+
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    facets.price = {};
+    if (minPrice !== undefined) facets.price.$gte = minPrice;
+    if (maxPrice !== undefined) facets.price.$lte = maxPrice;
+  }
+
+  if (sellerId) {
+    facets.sellerId = new mongoose.Types.ObjectId(sellerId);
+  }
+
+  if (minRating !== undefined) {
+    facets.averageRating = { $gte: minRating };
+  }
+
+  return { base, facets };
+};
+
+// Every filter of a query, e.g. for Product.find()
+export const combineFilters = ({ base, facets }: ProductFilters, except?: FacetKey): Record<string, any> => {
+  const filter = { ...base };
+  for (const [key, value] of Object.entries(facets)) {
+    if (key !== except) filter[key] = value;
+  }
+  return filter;
+};
+
+// Sort for product listings. Relevance orders by text score and only applies
+// to searches; rating ties are broken by the number of reviews.
+export const buildProductSort = (
+  sortBy: string,
+  sortOrder: string,
+  hasSearch: boolean
+): Record<string, any> => {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  if (sortBy === 'relevance') {
+    return hasSearch ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1 };
+  }
+  if (sortBy === 'rating') {
+    return { averageRating: direction, reviewCount: direction };
+  }
+  return { [sortBy]: direction };
+};
+
+// Aggregation returning one page of results, the total count and the facet
+// counts in a single round trip
+export const buildSearchPipeline = (
+  filters: ProductFilters,
+  sort: Record<string, any>,
+  skip: number,
+  limit: number
+): PipelineStage[] => {
+  const hasSearch = Boolean(filters.base.$text);
+  // $text must be in the first stage; its score is copied to a field so the
+  // facet sub-pipelines can sort on it
+  const resultSort = sort.score ? { ...sort, score: -1 } : sort;
+
+  return [
+    { $match: filters.base },
+    ...(hasSearch ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+    {
+      $facet: {
+        results: [
+          { $match: combineFilters(filters) },
+          { $sort: resultSort },
+          { $skip: skip },
+          { $limit: limit },
+          ...(hasSearch ? [{ $project: { score: 0 } }] : [])
+        ],
+        total: [
+          { $match: combineFilters(filters) },
+          { $count: 'count' }
+        ],
+        categories: [
+          { $match: combineFilters(filters, 'category') },
+          { $group: { _id: '$category', count: { $sum: 1 } } }
+        ],
+        priceRanges: [
+          { $match: combineFilters(filters, 'price') },
+          {
+            $bucket: {
+              groupBy: '$price',
+              boundaries: [...PRICE_BUCKETS, Number.MAX_SAFE_INTEGER],
+              default: 'other',
+              output: { count: { $sum: 1 } }
+            }
+          }
+        ],
+        sellers: [
+          { $match: combineFilters(filters, 'sellerId') },
+          { $group: { _id: '$sellerId', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: SELLER_FACET_LIMIT },
+          { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'seller' } },
+          { $project: { count: 1, name: { $ifNull: [{ $arrayElemAt: ['$seller.name', 0] }, 'Unknown seller'] } } }
+        ],
+        ratings: [
+          { $match: combineFilters(filters, 'averageRating') },
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(RATING_THRESHOLDS.map(threshold => [
+                `r${threshold}`,
+                { $sum: { $cond: [{ $gte: ['$averageRating', threshold] }, 1, 0] } }
+              ]))
+            }
+          }
+        ]
+      }
+    }
+  ] as PipelineStage[];
+};
+
+// Roll per-category counts up to every ancestor and label them. Categories
+// with no matching products are left out.
+export const buildCategoryFacet = (
+  categories: CategoryRecord[],
+  counts: Array<{ _id: mongoose.Types.ObjectId | null; count: number }>
+): CategoryFacet[] => {
+  const byId = new Map(categories.map(category => [category._id.toString(), category]));
+  const totals = new Map<string, number>();
+
+  for (const { _id, count } of counts) {
+    let current = _id ? byId.get(_id.toString()) : undefined;
+    while (current) {
+      const id = current._id.toString();
+      totals.set(id, (totals.get(id) || 0) + count);
+      current = current.parent ? byId.get(current.parent.toString()) : undefined;
+    }
+  }
+
+  return categories
+    .filter(category => totals.has(category._id.toString()))
+    .map(category => ({
+      _id: category._id.toString(),
+      name: category.name,
+      slug: category.slug,
+      icon: category.icon,
+      parent: category.parent ? category.parent.toString() : null,
+      count: totals.get(category._id.toString())!
+    }));
+};
+
+// Shape the raw facet output of buildSearchPipeline
+export const formatFacets = (
+  categories: CategoryRecord[],
+  raw: {
+    categories: Array<{ _id: mongoose.Types.ObjectId | null; count: number }>;
+    priceRanges: Array<{ _id: number | string; count: number }>;
+    sellers: Array<{ _id: mongoose.Types.ObjectId; name: string; count: number }>;
+    ratings: Array<Record<string, number>>;
+  }
+): SearchFacets => ({
+  categories: buildCategoryFacet(categories, raw.categories),
+  priceRanges: raw.priceRanges
+    .filter(range => typeof range._id === 'number')
+    .map(range => {
+      const index = PRICE_BUCKETS.indexOf(range._id as number);
+      return {
+        min: range._id as number,
+        max: index < PRICE_BUCKETS.length - 1 ? PRICE_BUCKETS[index + 1] : null,
+        count: range.count
+      };
+    }),
+  sellers: raw.sellers.map(seller => ({
+    _id: seller._id.toString(),
+    name: seller.name,
+    count: seller.count
+  })),
+  ratings: RATING_THRESHOLDS.map(threshold => ({
+    minRating: threshold,
+    count: raw.ratings[0]?.[`r${threshold}`] || 0
+  }))
+});
@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import Session, { ISession } from '../models/Session';
+import { IUser } from '../models/User';
+import {
+  generateToken,
+  generateRefreshToken,
+  hashRefreshToken,
+  setTokenCookie,
+  setRefreshTokenCookie,
+  REFRESH_TOKEN_TTL_MS
+} from '../config/jwt';
+
+// Access/refresh token pair handed to the client
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+type RevokeReason = NonNullable<ISession['revokedReason']>;
+
+// Issue a fresh token pair for a session and set both cookies
+const issueTokens = (user: IUser, session: ISession, refreshToken: string, res: Response): IssuedTokens => {
+  const token = generateToken({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId: session._id.toString()
+  });
+
+  setTokenCookie(res, token);
+  setRefreshTokenCookie(res, refreshToken);
+
+  return { token, refreshToken, sessionId: session._id.toString() };
+};
+
+// Start a new session for a user (login/registration)
+export const createSession = async (user: IUser, req: Request, res: Response): Promise<IssuedTokens> => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent: req.get('user-agent')?.substring(0, 500),
+    ipAddress: req.ip,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  });
+
+  return issueTokens(user, session, refreshToken, res);
+};
+
+// Replace a session's refresh token with a new one and extend its expiry
+export const rotateSession = async (user: IUser, session: ISession, req: Request, res: Response): Promise<IssuedTokens> => {
+  const refreshToken = generateRefreshToken();
+
+  session.previousTokenHash = session.refreshTokenHash;
+  session.refreshTokenHash = hashRefreshToken(refreshToken);
+  session.lastUsedAt = new Date();
+  session.expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+  session.ipAddress = req.ip;
+  await session.save();
+
+  return issueTokens(user, session, refreshToken, res);
+};
+
+// Check that an access token's session has not been revoked or expired
+export const isSessionActive = async (sessionId: string | undefined): Promise<boolean> => {
+  if (!sessionId) return false;
+
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+
+  return !!session;
+};
+
+// Revoke a single session
+export const revokeSession = async (sessionId: string, reason: RevokeReason): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+
+  return result.modifiedCount > 0;
+};
+
+// Revoke every active session of a user, optionally keeping one (e.g. the current one)
+export const revokeUserSessions = async (
+  userId: string,
+  reason: RevokeReason,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: Record<string, unknown> = { userId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount;
+};
@@ -1,3 +1,5 @@
+import { isOnlinePaymentEnabled } from '../config/payments';
+
 /**
  * Utility to validate environment configuration
  */
@@ -5,12 +7,14 @@
 export const validateEnvironmentConfig = (): void => {
   const requiredEnvVars = [
     'MONGODB_URI',
-    'JWT_SECRET',
-    'CLOUDINARY_CLOUD_NAME',
-    'CLOUDINARY_API_KEY',
-    'CLOUDINARY_API_SECRET'
+    'JWT_SECRET'
   ];
 
+  // Cloudinary credentials are only needed when uploads are stored there
+  if ((process.env.STORAGE_DRIVER || 'cloudinary') === 'cloudinary') {
+    requiredEnvVars.push('CLOUDINARY_CLOUD_NAME', 'CLOUDINARY_API_KEY', 'CLOUDINARY_API_SECRET');
+  }
+
   const missingVars: string[] = [];
 
   requiredEnvVars.forEach(varName => {
@@ -30,6 +34,30 @@ export const validateEnvironmentConfig = (): void => {
   } else {
     console.log('✅ All required environment variables are configured');
   }
+
+  if (!isOnlinePaymentEnabled()) {
+    console.warn('⚠️  Online payments are disabled: set PAYMENT_PROVIDER and PAYMENT_WEBHOOK_SECRET to offer them at checkout');
+  }
+
+  // Settings that are unsafe in production stop the server from starting
+  if (process.env.NODE_ENV === 'production') {
+    const unsafeSettings: string[] = [];
+
+    if (process.env.PAYMENT_PROVIDER === 'mock') {
+      unsafeSettings.push('PAYMENT_PROVIDER is "mock"; the mock provider lets anyone mark orders paid');
+    } else if (process.env.PAYMENT_PROVIDER && !process.env.PAYMENT_WEBHOOK_SECRET) {
+      unsafeSettings.push('PAYMENT_WEBHOOK_SECRET is not set');
+    }
+    if (process.env.MAIL_TRANSPORT !== 'smtp') {
+      unsafeSettings.push('MAIL_TRANSPORT is not "smtp"; password reset and verification emails would only be logged');
+    } else if (!process.env.SMTP_HOST) {
+      unsafeSettings.push('SMTP_HOST is not set');
+    }
+
+    if (unsafeSettings.length > 0) {
+      throw new Error(`Unsafe production configuration:\n   - ${unsafeSettings.join('\n   - ')}`);
+    }
+  }
 };
 
 export const getConfigStatus = () => {
@@ -40,7 +68,8 @@ export const getConfigStatus = () => {
     },
     jwt: {
       configured: !!process.env.JWT_SECRET,
-      expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+      expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+      refreshTokenExpiresDays: parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30')
     },
     cloudinary: {
       configured: !!(process.env.CLOUDINARY_CLOUD_NAME && 
@@ -48,6 +77,19 @@ export const getConfigStatus = () => {
                      process.env.CLOUDINARY_API_SECRET),
       cloudName: process.env.CLOUDINARY_CLOUD_NAME || 'Not configured'
     },
+    storage: {
+      driver: process.env.STORAGE_DRIVER || 'cloudinary'
+    },
+    mail: {
+      transport: process.env.MAIL_TRANSPORT || 'console',
+      from: process.env.MAIL_FROM || 'Not configured'
+    },
+    payments: {
+      provider: process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? 'None' : 'mock'),
+      enabled: isOnlinePaymentEnabled(),
+      currency: process.env.PAYMENT_CURRENCY || 'BDT',
+      webhookSecretConfigured: !!process.env.PAYMENT_WEBHOOK_SECRET
+    },
     server: {
       port: process.env.PORT || 5000,
       environment: process.env.NODE_ENV || 'development'
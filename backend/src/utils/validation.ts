@@ -1,6 +1,22 @@
 import { z } from 'zod';
+import { PERMISSION_KEYS, Permission } from '../models/Role';
+import { SecurityLogLevel, SecurityEventType } from '../models/AuditEvent';
+import { NOTIFICATION_CATEGORIES, NotificationCategory, MAX_NOTIFICATIONS_PAGE } from '../models/Notification';
+import { WEBHOOK_EVENTS } from '../models/WebhookEndpoint';
+import { WEBHOOK_DELIVERY_STATUSES } from '../models/WebhookDelivery';
+import { isPrivateHostname } from './privateAddresses';
 
 // Enhanced User validation schemas
+const passwordSchema = z.string()
+  .min(6, 'Password must be at least 6 characters')
+  .max(128, 'Password too long')
+  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number');
+
+// Single-use token from a password reset or verification email
+const emailTokenSchema = z.string()
+  .min(1, 'Token is required')
+  .max(200, 'Invalid token');
+
 export const registerSchema = z.object({
   email: z.string()
     .min(1, 'Email is required')
@@ -8,10 +24,7 @@ export const registerSchema = z.object({
     .max(254, 'Email too long')
     .toLowerCase()
     .trim(),
-  password: z.string()
-    .min(6, 'Password must be at least 6 characters')
-    .max(128, 'Password too long')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  password: passwordSchema,
   name: z.string()
     .min(2, 'Name must be at least 2 characters')
     .max(50, 'Name cannot exceed 50 characters')
@@ -30,7 +43,86 @@ export const loginSchema = z.object({
     .min(1, 'Password is required')
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string()
+    .min(1, 'Email is required')
+    .email('Invalid email format')
+    .toLowerCase()
+    .trim()
+});
+
+export const resetPasswordSchema = z.object({
+  token: emailTokenSchema,
+  password: passwordSchema
+});
+
+export const verifyEmailSchema = z.object({
+  token: emailTokenSchema
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string()
+    .min(1, 'Current password is required'),
+  newPassword: passwordSchema
+}).refine(data => data.currentPassword !== data.newPassword, {
+  message: 'New password must be different from the current password',
+  path: ['newPassword']
+});
+
+// Refresh token may come from the body or the refresh_token cookie
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string()
+    .min(1, 'Refresh token cannot be empty')
+    .max(200, 'Invalid refresh token')
+    .optional()
+});
+
 // Enhanced Product validation schemas
+const stockSchema = z.number()
+  .int('Stock must be a whole number')
+  .min(0, 'Stock cannot be negative')
+  .max(10000, 'Stock cannot exceed 10,000');
+
+const lowStockThresholdSchema = z.number()
+  .int('Low stock threshold must be a whole number')
+  .min(0, 'Low stock threshold cannot be negative')
+  .max(10000, 'Low stock threshold cannot exceed 10,000');
+
+const variantLabelSchema = z.string()
+  .trim()
+  .min(1, 'Variant option names and values cannot be empty')
+  .max(30, 'Variant option names and values cannot exceed 30 characters');
+
+// e.g. { name: 'Size', values: ['S', 'M', 'L'] }
+const variantOptionSchema = z.object({
+  name: variantLabelSchema,
+  values: z.array(variantLabelSchema)
+    .min(1, 'Each variant option needs at least one value')
+    .max(20, 'A variant option cannot have more than 20 values')
+    .refine(values => new Set(values).size === values.length, 'Variant option values must be unique')
+});
+
+// Settings for one generated combination, identified by its option values.
+// Omitted fields keep their current value (or the default for new variants).
+const variantSchema = z.object({
+  options: z.array(z.object({ name: variantLabelSchema, value: variantLabelSchema }))
+    .min(1, 'Variant options are required'),
+  sku: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]{1,40}$/, 'SKU can only contain letters, numbers, dashes and underscores')
+    .optional(),
+  price: z.number()
+    .min(0.01, 'Price must be at least $0.01')
+    .max(1000000, 'Price cannot exceed $1,000,000')
+    .multipleOf(0.01, 'Price must have at most 2 decimal places')
+    .nullable()
+    .optional(),
+  stock: stockSchema.optional(),
+  images: z.array(z.string().url('Invalid image URL')).max(10, 'Too many variant images').optional(),
+  isActive: z.boolean().optional()
+});
+
 export const createProductSchema = z.object({
   title: z.string()
     .min(3, 'Title must be at least 3 characters')
@@ -41,39 +133,51 @@ export const createProductSchema = z.object({
     .min(10, 'Description must be at least 10 characters')
     .max(2000, 'Description cannot exceed 2000 characters')
     .trim(),
-  category: z.enum([
-    'Electronics',
-    'Clothing', 
-    'Books',
-    'Home & Garden',
-    'Sports',
-    'Beauty',
-    'Automotive',
-    'Food',
-    'Toys',
-    'Other'
-  ]),
+  category: z.string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Please select a valid category'),
   price: z.number()
     .min(0.01, 'Price must be at least $0.01')
     .max(1000000, 'Price cannot exceed $1,000,000')
     .multipleOf(0.01, 'Price must have at most 2 decimal places'),
-  stock: z.number()
-    .int('Stock must be a whole number')
-    .min(0, 'Stock cannot be negative')
-    .max(10000, 'Stock cannot exceed 10,000')
+  stock: stockSchema
+    .optional()
+    .default(0),
+  lowStockThreshold: lowStockThresholdSchema
+    .optional()
+    .default(5),
+  variantOptions: z.array(variantOptionSchema)
+    .max(3, 'Cannot have more than 3 variant options')
+    .refine(
+      options => new Set(options.map(option => option.name.toLowerCase())).size === options.length,
+      'Variant option names must be unique'
+    )
+    .optional(),
+  variants: z.array(variantSchema)
+    .max(100, 'Cannot have more than 100 variants')
     .optional()
-    .default(0)
 });
 
-export const updateProductSchema = createProductSchema.partial();
+// Defaults must not apply on update, otherwise omitting stock would reset it
+export const updateProductSchema = createProductSchema.partial().extend({
+  stock: stockSchema.optional(),
+  lowStockThreshold: lowStockThresholdSchema.optional(),
+  // true restores a deleted product
+  isActive: z.literal(true).optional()
+});
+
+// Free-text search term. Letters and digits of any script are accepted; the
+// term is NFKC-normalized (e.g. full-width "ｓｈｏｅ" -> "shoe") and its
+// whitespace collapsed before matching.
+const searchTermSchema = z.string()
+  .max(100, 'Search term too long')
+  .transform(val => val.normalize('NFKC').replace(/\s+/g, ' ').trim())
+  .pipe(z.string().regex(/^[\p{L}\p{M}\p{N}\s\-.,!?()'&]*$/u, 'Search contains invalid characters'));
 
 export const productQuerySchema = z.object({
-  search: z.string()
-    .max(100, 'Search term too long')
-    .regex(/^[a-zA-Z0-9\s\-.,!?()]*$/, 'Search contains invalid characters')
-    .optional(),
+  search: searchTermSchema.optional(),
+  // Category ID or slug; subcategories are included
   category: z.string()
-    .max(50, 'Category name too long')
+    .max(60, 'Category too long')
     .optional(),
   minPrice: z.string()
     .regex(/^\d+(\.\d{1,2})?$/, 'Invalid price format')
@@ -86,6 +190,11 @@ export const productQuerySchema = z.object({
   sellerId: z.string()
     .regex(/^[0-9a-fA-F]{24}$/, 'Invalid seller ID format')
     .optional(),
+  minRating: z.string()
+    .regex(/^[1-5]$/, 'Minimum rating must be between 1 and 5')
+    .transform(val => parseInt(val))
+    .optional(),
+  lowStock: z.enum(['true', 'false']).optional(),
   page: z.union([z.string(), z.number()])
     .transform(val => typeof val === 'string' ? parseInt(val) : val)
     .pipe(z.number().int().min(1, 'Page must be at least 1'))
@@ -96,10 +205,70 @@ export const productQuerySchema = z.object({
     .pipe(z.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be between 1 and 100'))
     .optional()
     .default(10),
-  sortBy: z.enum(['price', 'createdAt', 'title']).optional(),
+  // Relevance only applies to searches; it is the default when searching
+  sortBy: z.enum(['relevance', 'price', 'createdAt', 'title', 'stock', 'rating']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional()
 });
 
+// Typeahead suggestions for the search box
+export const searchSuggestionQuerySchema = z.object({
+  q: searchTermSchema.pipe(z.string().min(1, 'Search term is required')),
+  limit: z.union([z.string(), z.number()])
+    .transform(val => typeof val === 'string' ? parseInt(val) : val)
+    .pipe(z.number().int().min(1, 'Limit must be at least 1').max(10, 'Limit cannot exceed 10'))
+    .optional()
+    .default(6)
+});
+
+// Address validation schemas
+const addressNameRegex = /^[\p{L}\s\-'.]+$/u;
+
+export const addressSchema = z.object({
+  fullName: z.string()
+    .trim()
+    .min(2, 'Full name must be at least 2 characters')
+    .max(100, 'Full name too long'),
+  phone: z.string()
+    .trim()
+    .regex(/^\+?[0-9\s\-()]{7,20}$/, 'Invalid phone number'),
+  street: z.string()
+    .trim()
+    .min(5, 'Street address must be at least 5 characters')
+    .max(200, 'Street address too long'),
+  city: z.string()
+    .trim()
+    .min(2, 'City must be at least 2 characters')
+    .max(50, 'City name too long')
+    .regex(addressNameRegex, 'City contains invalid characters'),
+  state: z.string()
+    .trim()
+    .max(50, 'State name too long')
+    .regex(addressNameRegex, 'State contains invalid characters')
+    .optional()
+    .or(z.literal('')),
+  zipCode: z.string()
+    .trim()
+    .regex(/^[A-Za-z0-9\s\-]{3,10}$/, 'Invalid ZIP code format')
+    .optional()
+    .or(z.literal('')),
+  country: z.string()
+    .trim()
+    .min(2, 'Country must be at least 2 characters')
+    .max(50, 'Country name too long')
+    .regex(addressNameRegex, 'Country contains invalid characters')
+});
+
+export const createAddressSchema = addressSchema.extend({
+  label: z.string()
+    .trim()
+    .max(30, 'Label cannot exceed 30 characters')
+    .optional(),
+  isDefaultShipping: z.boolean().optional(),
+  isDefaultBilling: z.boolean().optional()
+});
+
+export const updateAddressSchema = createAddressSchema.partial();
+
 // Order validation schemas
 export const createOrderSchema = z.object({
   items: z.array(
@@ -115,30 +284,7 @@ export const createOrderSchema = z.object({
         .max(1000000, 'Price too high')
     })
   ).min(1, 'Order must contain at least one item'),
-  shippingAddress: z.object({
-    street: z.string()
-      .min(5, 'Street address must be at least 5 characters')
-      .max(100, 'Street address too long')
-      .trim(),
-    city: z.string()
-      .min(2, 'City must be at least 2 characters')
-      .max(50, 'City name too long')
-      .regex(/^[a-zA-Z\s\-']+$/, 'City contains invalid characters')
-      .trim(),
-    state: z.string()
-      .min(2, 'State must be at least 2 characters')
-      .max(50, 'State name too long')
-      .regex(/^[a-zA-Z\s\-']+$/, 'State contains invalid characters')
-      .trim(),
-    zipCode: z.string()
-      .regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format')
-      .trim(),
-    country: z.string()
-      .min(2, 'Country must be at least 2 characters')
-      .max(50, 'Country name too long')
-      .regex(/^[a-zA-Z\s\-']+$/, 'Country contains invalid characters')
-      .trim()
-  }),
+  shippingAddress: addressSchema,
   paymentMethod: z.enum(['cash_on_delivery', 'credit_card', 'paypal'])
 });
 
@@ -148,11 +294,11 @@ export const updateOrderStatusSchema = z.object({
     'Processing',
     'Out for Delivery',
     'Completed',
-    'Cancelled',
-    'Rejected'
+    'Cancelled'
   ]),
-  notes: z.string()
-    .max(500, 'Notes cannot exceed 500 characters')
+  reason: z.string()
+    .trim()
+    .max(500, 'Reason cannot exceed 500 characters')
     .optional()
 });
 
@@ -168,7 +314,9 @@ export const adminUserQuerySchema = z.object({
     .transform(val => val ? parseInt(val) : 10)
     .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
     .optional(),
-  role: z.enum(['all', 'admin', 'seller', 'buyer']).optional(),
+  role: z.string()
+    .regex(/^[a-z][a-z0-9_-]{1,29}$/, 'Invalid role')
+    .optional(),
   search: z.string()
     .max(100, 'Search term too long')
     .regex(/^[a-zA-Z0-9\s@.\-_]*$/, 'Search contains invalid characters')
@@ -180,6 +328,41 @@ export const banUserSchema = z.object({
   action: z.enum(['ban', 'unban'])
 });
 
+// Role management validation schemas
+const roleNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z][a-z0-9_-]{1,29}$/, 'Role name must be 2-30 characters of lowercase letters, numbers, hyphens and underscores');
+
+const permissionListSchema = z.array(z.enum(PERMISSION_KEYS as [Permission, ...Permission[]]))
+  .max(PERMISSION_KEYS.length, 'Too many permissions')
+  .transform(permissions => [...new Set(permissions)]);
+
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  description: z.string()
+    .trim()
+    .max(200, 'Description cannot exceed 200 characters')
+    .optional(),
+  permissions: permissionListSchema
+});
+
+export const updateRoleSchema = z.object({
+  description: z.string()
+    .trim()
+    .max(200, 'Description cannot exceed 200 characters')
+    .optional(),
+  permissions: permissionListSchema.optional()
+});
+
+export const roleNameParamSchema = z.object({
+  name: roleNameSchema
+});
+
+export const assignRoleSchema = z.object({
+  role: roleNameSchema
+});
+
 // File upload validation
 export const fileUploadSchema = z.object({
   originalname: z.string()
@@ -210,6 +393,343 @@ export const idParamSchema = z.object({
   id: objectIdSchema
 });
 
+// Product ID parameter validation schema (cart routes)
+export const productIdParamSchema = z.object({
+  productId: objectIdSchema
+});
+
+// Checkout ID parameter validation schema (payment routes)
+export const checkoutIdParamSchema = z.object({
+  checkoutId: z.string().regex(/^CHK-\d+-[A-Z0-9]{6}$/, 'Invalid checkout ID')
+});
+
+// Mock gateway: approve or decline a payment from the local payment page
+export const mockPaymentSchema = z.object({
+  outcome: z.enum(['succeed', 'fail']),
+  failureReason: z.string()
+    .trim()
+    .max(200, 'Failure reason cannot exceed 200 characters')
+    .optional()
+});
+
+// Cart validation schemas
+const cartQuantitySchema = z.number()
+  .int('Quantity must be a whole number')
+  .min(1, 'Quantity must be at least 1')
+  .max(100, 'Quantity cannot exceed 100');
+
+export const addToCartSchema = z.object({
+  productId: objectIdSchema,
+  variantId: objectIdSchema.optional(),
+  quantity: cartQuantitySchema.optional().default(1)
+});
+
+// Picks the variant line when a product is in the cart in several variants
+export const cartItemQuerySchema = z.object({
+  variantId: objectIdSchema.optional()
+});
+
+export const updateCartItemSchema = z.object({
+  quantity: z.number()
+    .int('Quantity must be a whole number')
+    .min(0, 'Quantity cannot be negative')
+    .max(100, 'Quantity cannot exceed 100')
+});
+
+export const mergeCartSchema = z.object({
+  items: z.array(
+    z.object({
+      productId: objectIdSchema,
+      variantId: objectIdSchema.optional(),
+      quantity: cartQuantitySchema
+    })
+  ).max(50, 'Cannot merge more than 50 items')
+});
+
+// Coupon validation schemas
+const couponCodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]{3,30}$/, 'Coupon code must be 3-30 letters, numbers, dashes or underscores');
+
+export const applyCouponSchema = z.object({
+  code: couponCodeSchema
+});
+
+const couponFieldsSchema = z.object({
+  code: couponCodeSchema,
+  description: z.string()
+    .trim()
+    .max(200, 'Description cannot exceed 200 characters')
+    .optional(),
+  type: z.enum(['percentage', 'fixed']),
+  value: z.number()
+    .min(0.01, 'Coupon value must be positive')
+    .max(1000000, 'Coupon value too high'),
+  maxDiscount: z.number().min(0.01, 'Maximum discount must be positive').nullable().optional(),
+  minOrderValue: z.number().min(0, 'Minimum order value cannot be negative').optional(),
+  usageLimit: z.number().int().min(1, 'Usage limit must be at least 1').nullable().optional(),
+  perUserLimit: z.number().int().min(1, 'Per-user limit must be at least 1').nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  categories: z.array(objectIdSchema).max(10, 'Too many categories').optional(),
+  productIds: z.array(objectIdSchema).max(100, 'Too many products').optional(),
+  sellerIds: z.array(objectIdSchema).max(50, 'Too many sellers').optional(),
+  isActive: z.boolean().optional()
+});
+
+export const createCouponSchema = couponFieldsSchema
+  .refine(data => data.type !== 'percentage' || data.value <= 100, {
+    message: 'Percentage discount cannot exceed 100',
+    path: ['value']
+  })
+  .refine(data => !data.startsAt || !data.expiresAt || data.startsAt < data.expiresAt, {
+    message: 'Expiry must be after the start date',
+    path: ['expiresAt']
+  });
+
+export const updateCouponSchema = couponFieldsSchema.omit({ code: true }).partial();
+
+export const couponQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/, 'Page must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1, 'Page must be at least 1')
+    .optional(),
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+    .optional(),
+  search: z.string().trim().max(30).optional(),
+  status: z.enum(['active', 'inactive', 'expired']).optional()
+});
+
+// Review validation schemas (create accepts multipart form data, so numbers arrive as strings)
+export const createReviewSchema = z.object({
+  rating: z.coerce.number()
+    .int('Rating must be a whole number')
+    .min(1, 'Rating must be at least 1')
+    .max(5, 'Rating cannot exceed 5'),
+  title: z.string()
+    .trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(100, 'Title cannot exceed 100 characters'),
+  body: z.string()
+    .trim()
+    .min(10, 'Review must be at least 10 characters')
+    .max(2000, 'Review cannot exceed 2000 characters')
+});
+
+export const reviewReplySchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, 'Reply is required')
+    .max(1000, 'Reply cannot exceed 1000 characters')
+});
+
+export const moderateReviewSchema = z.object({
+  isHidden: z.boolean(),
+  reason: z.string()
+    .trim()
+    .max(500, 'Reason cannot exceed 500 characters')
+    .optional()
+}).refine(data => !data.isHidden || !!data.reason, {
+  message: 'A reason is required when hiding a review',
+  path: ['reason']
+});
+
+export const reviewQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/, 'Page must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1, 'Page must be at least 1')
+    .optional(),
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1 && val <= 50, 'Limit must be between 1 and 50')
+    .optional(),
+  sortBy: z.enum(['createdAt', 'rating']).optional(),
+  includeHidden: z.enum(['true', 'false']).optional()
+});
+
+// Seller analytics validation schema
+const analyticsDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .transform(val => new Date(`${val}T00:00:00.000Z`))
+  .refine(date => !isNaN(date.getTime()), 'Invalid date');
+
+export const sellerAnalyticsQuerySchema = z.object({
+  startDate: analyticsDateSchema.optional(),
+  endDate: analyticsDateSchema.optional(),
+  interval: z.enum(['day', 'week', 'month']).optional(),
+  sellerId: z.string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid seller ID format')
+    .optional()
+}).refine(data => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+  message: 'Start date must be before end date',
+  path: ['startDate']
+});
+
+// Security audit log validation schema (dates are whole days, endDate inclusive)
+export const securityEventQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/, 'Page must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1, 'Page must be at least 1')
+    .optional(),
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+    .optional(),
+  eventType: z.enum(SecurityEventType).optional(),
+  level: z.enum(SecurityLogLevel).optional(),
+  userId: objectIdSchema.optional(),
+  ipAddress: z.string()
+    .trim()
+    .max(45, 'IP address too long')
+    .regex(/^[0-9a-fA-F:.]+$/, 'Invalid IP address')
+    .optional(),
+  startDate: analyticsDateSchema.optional(),
+  endDate: analyticsDateSchema.optional(),
+  success: z.enum(['true', 'false'])
+    .transform(val => val === 'true')
+    .optional()
+}).refine(data => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+  message: 'Start date must be before end date',
+  path: ['startDate']
+});
+
+// Category validation schemas
+export const createCategorySchema = z.object({
+  name: z.string()
+    .trim()
+    .min(2, 'Category name must be at least 2 characters')
+    .max(50, 'Category name cannot exceed 50 characters'),
+  slug: z.string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and single hyphens')
+    .max(60, 'Slug cannot exceed 60 characters')
+    .optional(),
+  parent: objectIdSchema.nullable().optional(),
+  icon: z.string()
+    .trim()
+    .max(16, 'Icon cannot exceed 16 characters')
+    .optional(),
+  sortOrder: z.number()
+    .int('Sort order must be a whole number')
+    .min(-1000, 'Sort order must be between -1000 and 1000')
+    .max(1000, 'Sort order must be between -1000 and 1000')
+    .optional(),
+  isActive: z.boolean().optional()
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export const categoryQuerySchema = z.object({
+  // Admins may ask for inactive categories too
+  includeInactive: z.enum(['true', 'false']).optional()
+});
+
+// Wishlist validation schemas
+export const createWishlistSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Wishlist name is required')
+    .max(50, 'Wishlist name cannot exceed 50 characters'),
+  isPublic: z.boolean().optional(),
+  notify: z.boolean().optional()
+});
+
+export const updateWishlistSchema = createWishlistSchema.partial();
+
+// Without a wishlistId the product goes to the buyer's first list, which is
+// created if they have none
+export const addWishlistItemSchema = z.object({
+  productId: objectIdSchema,
+  variantId: objectIdSchema.optional(),
+  wishlistId: objectIdSchema.optional()
+});
+
+export const wishlistItemParamsSchema = z.object({
+  id: objectIdSchema,
+  productId: objectIdSchema
+});
+
+export const shareTokenParamSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{32}$/, 'Invalid share link')
+});
+
+// Notification validation schemas
+export const notificationQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/, 'Page must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1, 'Page must be at least 1')
+    .optional(),
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1 && val <= MAX_NOTIFICATIONS_PAGE, `Limit must be between 1 and ${MAX_NOTIFICATIONS_PAGE}`)
+    .optional(),
+  unreadOnly: z.enum(['true', 'false'])
+    .transform(val => val === 'true')
+    .optional()
+});
+
+export const notificationPreferencesSchema = z.object(
+  Object.fromEntries(NOTIFICATION_CATEGORIES.map(category => [category, z.boolean().optional()])) as
+    Record<NotificationCategory, z.ZodOptional<z.ZodBoolean>>
+).refine(data => Object.values(data).some(value => value !== undefined), 'No preferences provided');
+
+// Webhook validation schemas
+
+// Private hosts may only be registered in development, so the API can't be
+// used to probe internal services. Names are checked again when delivering.
+const webhookUrlSchema = z.string()
+  .trim()
+  .max(500, 'Endpoint URL cannot exceed 500 characters')
+  .url('Invalid endpoint URL')
+  .refine(value => {
+    const { protocol, hostname } = new URL(value);
+    if (process.env.NODE_ENV === 'development') return protocol === 'https:' || protocol === 'http:';
+    return protocol === 'https:' && !isPrivateHostname(hostname);
+  }, 'Endpoint URL must be a public https:// address');
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string()
+    .trim()
+    .max(200, 'Description cannot exceed 200 characters')
+    .optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS))
+    .min(1, 'Subscribe to at least one event')
+    .transform(events => [...new Set(events)]),
+  isActive: z.boolean().optional()
+});
+
+export const updateWebhookEndpointSchema = createWebhookEndpointSchema.partial()
+  .refine(data => Object.values(data).some(value => value !== undefined), 'No changes provided');
+
+export const webhookDeliveryQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/, 'Page must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1, 'Page must be at least 1')
+    .optional(),
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(val => parseInt(val))
+    .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+    .optional(),
+  endpointId: objectIdSchema.optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional()
+});
+
 // Pagination schema
 export const paginationSchema = z.object({
   page: z.number().int().min(1).default(1),
@@ -219,14 +739,54 @@ export const paginationSchema = z.object({
 // Export types
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
 export type ProductQueryInput = z.infer<typeof productQuerySchema>;
+export type SearchSuggestionQueryInput = z.infer<typeof searchSuggestionQuerySchema>;
+export type VariantOptionInput = z.infer<typeof variantOptionSchema>;
+export type VariantInput = z.infer<typeof variantSchema>;
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type AddressInput = z.infer<typeof addressSchema>;
+export type CreateAddressInput = z.infer<typeof createAddressSchema>;
+export type UpdateAddressInput = z.infer<typeof updateAddressSchema>;
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
 export type AdminUserQueryInput = z.infer<typeof adminUserQuerySchema>;
+export type SecurityEventQueryInput = z.infer<typeof securityEventQuerySchema>;
 export type BanUserInput = z.infer<typeof banUserSchema>;
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type AssignRoleInput = z.infer<typeof assignRoleSchema>;
 export type FileUploadInput = z.infer<typeof fileUploadSchema>;
+export type AddToCartInput = z.infer<typeof addToCartSchema>;
+export type CartItemQueryInput = z.infer<typeof cartItemQuerySchema>;
+export type UpdateCartItemInput = z.infer<typeof updateCartItemSchema>;
+export type MergeCartInput = z.infer<typeof mergeCartSchema>;
+export type ApplyCouponInput = z.infer<typeof applyCouponSchema>;
+export type CreateCouponInput = z.infer<typeof createCouponSchema>;
+export type UpdateCouponInput = z.infer<typeof updateCouponSchema>;
+export type CouponQueryInput = z.infer<typeof couponQuerySchema>;
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type ReviewReplyInput = z.infer<typeof reviewReplySchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
+export type ReviewQueryInput = z.infer<typeof reviewQuerySchema>;
+export type SellerAnalyticsQueryInput = z.infer<typeof sellerAnalyticsQuerySchema>;
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type CategoryQueryInput = z.infer<typeof categoryQuerySchema>;
+export type CreateWishlistInput = z.infer<typeof createWishlistSchema>;
+export type UpdateWishlistInput = z.infer<typeof updateWishlistSchema>;
+export type AddWishlistItemInput = z.infer<typeof addWishlistItemSchema>;
+export type NotificationQueryInput = z.infer<typeof notificationQuerySchema>;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
+export type WebhookDeliveryQueryInput = z.infer<typeof webhookDeliveryQuerySchema>;
+export type MockPaymentInput = z.infer<typeof mockPaymentSchema>;
 
 // Validation middleware factory
 export const validateBody = (schema: z.ZodSchema) => {
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import { IProduct, IProductVariant, IVariantOption, IVariantSelection } from '../models/Product';
+import { VariantInput } from './validation';
+
+type VariantsResult = IProductVariant[] | { status: number; message: string };
+
+// Most combinations a product's options may generate
+const MAX_VARIANTS = 100;
+
+// Identify a combination by its values in option order, e.g. "M|Red"
+const combinationKey = (options: IVariantSelection[]): string =>
+  options.map(option => option.value).join('|');
+
+// Human-readable variant label, e.g. "Size: M, Colour: Red"
+export const formatVariantOptions = (options: IVariantSelection[]): string =>
+  options.map(option => `${option.name}: ${option.value}`).join(', ');
+
+// Every combination of the options' values, e.g. S/Red, S/Blue, M/Red, ...
+export const generateCombinations = (variantOptions: IVariantOption[]): IVariantSelection[][] =>
+  variantOptions.reduce<IVariantSelection[][]>(
+    (combinations, option) => combinations.flatMap(combination =>
+      option.values.map(value => [...combination, { name: option.name, value }])
+    ),
+    [[]]
+  );
+
+// Default SKU for a new variant: the end of the product ID plus its option values
+const defaultSku = (productId: string, options: IVariantSelection[]): string =>
+  [productId.slice(-6), ...options.map(option => option.value)]
+    .join('-')
+    .toUpperCase()
+    .replace(/[^A-Z0-9_-]/g, '')
+    .slice(0, 40);
+
+// Generate the variants for a product's options, applying the seller's settings
+// for each combination. Combinations that already exist keep their ID, stock and
+// settings unless overridden, so carts and orders pointing at them stay valid.
+export const buildVariants = (
+  product: IProduct,
+  variantOptions: IVariantOption[],
+  requested: VariantInput[] = []
+): VariantsResult => {
+  if (variantOptions.length === 0) {
+    return requested.length > 0
+      ? { status: 400, message: 'Define variant options before adding variants' }
+      : [];
+  }
+
+  const combinations = generateCombinations(variantOptions);
+  if (combinations.length > MAX_VARIANTS) {
+    return { status: 400, message: `Variant options cannot produce more than ${MAX_VARIANTS} combinations` };
+  }
+
+  const keys = new Set(combinations.map(combinationKey));
+  const requestedByKey = new Map<string, VariantInput>();
+  for (const variant of requested) {
+    const key = combinationKey(variant.options);
+    const matchesOptions = variant.options.length === variantOptions.length &&
+      variant.options.every((option, index) => option.name === variantOptions[index].name);
+    if (!matchesOptions || !keys.has(key)) {
+      return { status: 400, message: `Variant ${formatVariantOptions(variant.options)} does not match the variant options` };
+    }
+    requestedByKey.set(key, variant);
+  }
+
+  const existingByKey = new Map(product.variants.map(variant => [combinationKey(variant.options), variant]));
+  const productImages = new Set(product.images);
+
+  const variants: IProductVariant[] = [];
+  for (const options of combinations) {
+    const key = combinationKey(options);
+    const existing = existingByKey.get(key);
+    const settings = requestedByKey.get(key);
+
+    const images = settings?.images ?? existing?.images ?? [];
+    if (images.some(image => !productImages.has(image))) {
+      return { status: 400, message: `Images for ${formatVariantOptions(options)} must be uploaded to the product first` };
+    }
+
+    const price = settings?.price === null ? undefined : settings?.price ?? existing?.price;
+
+    variants.push({
+      _id: existing?._id || new mongoose.Types.ObjectId(),
+      sku: settings?.sku ?? existing?.sku ?? defaultSku(product._id.toString(), options),
+      options,
+      ...(price !== undefined ? { price } : {}),
+      stock: settings?.stock ?? existing?.stock ?? 0,
+      images,
+      isActive: settings?.isActive ?? existing?.isActive ?? true
+    });
+  }
+
+  return variants;
+};
+
+// Find an active variant of a product
+export const findVariant = (
+  product: IProduct,
+  variantId: mongoose.Types.ObjectId | string | undefined
+): IProductVariant | undefined => {
+  if (!variantId) return undefined;
+  return product.variants.find(variant => variant._id.equals(variantId) && variant.isActive);
+};
+
+// Unit price of a product, or of one of its variants
+export const getUnitPrice = (product: IProduct, variant?: IProductVariant): number =>
+  variant?.price ?? product.price;
@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import WebhookEndpoint, { WebhookEvent } from '../models/WebhookEndpoint';
+import WebhookDelivery, { IWebhookDelivery } from '../models/WebhookDelivery';
+import { IOrder } from '../models/Order';
+import { signWebhookPayload } from '../config/payments';
+import { onAppEvent } from './appEvents';
+import { isPrivateHostname, publicOnlyLookup } from './privateAddresses';
+
+// Attempts before a delivery is given up on (the first send included)
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10');
+
+// Wait before the first retry; doubles after every failed attempt, up to the cap
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// How long an endpoint has to respond
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is retried by another worker if this one dies mid-send
+const DELIVERY_LOCK_MS = 60 * 1000;
+
+// How often the worker looks for retries that have come due
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_POLL_INTERVAL_SECONDS || '30') * 1000;
+
+// Headers sent with every delivery. The signature is "t=<unix seconds>,v1=<hex
+// HMAC-SHA256 of `${t}.${body}`>" using the endpoint's secret.
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+
+const idOf = (ref: any): string => String(ref?._id ?? ref);
+
+// The parts of an order a seller's systems need to fulfil it
+const orderPayload = (order: IOrder) => {
+  const plain: any = typeof (order as any).toObject === 'function' ? order.toObject() : order;
+
+  return {
+    orderId: plain.orderId,
+    checkoutId: plain.checkoutId,
+    status: plain.status,
+    paymentMethod: plain.paymentMethod,
+    paymentStatus: plain.paymentStatus,
+    products: plain.products.map((line: any) => ({
+      productId: idOf(line.productId),
+      variantId: line.variantId ? idOf(line.variantId) : undefined,
+      sku: line.sku,
+      variantOptions: line.variantOptions?.map((option: any) => ({ name: option.name, value: option.value })),
+      quantity: line.quantity,
+      price: line.price
+    })),
+    subtotal: plain.subtotal,
+    discountTotal: plain.discountTotal,
+    totalAmount: plain.totalAmount,
+    shippingAddress: plain.shippingAddress,
+    orderDate: plain.orderDate
+  };
+};
+
+// Queue an event for every active endpoint of the seller subscribed to it
+export const enqueueWebhookEvent = async (sellerId: string, event: WebhookEvent, data: Record<string, any>): Promise<void> => {
+  const endpoints = await WebhookEndpoint.find({ sellerId, isActive: true, events: event }).select('_id');
+  if (endpoints.length === 0) return;
+
+  const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+  const createdAt = new Date();
+  const payload = { id: eventId, event, createdAt: createdAt.toISOString(), data };
+
+  await WebhookDelivery.insertMany(endpoints.map(endpoint => ({
+    endpointId: endpoint._id,
+    sellerId,
+    eventId,
+    event,
+    payload,
+    nextAttemptAt: createdAt
+  })));
+
+  triggerWebhookDeliveries();
+};
+
+// Send a delivery again as a new log entry with the same event ID and payload
+export const replayWebhookDelivery = async (delivery: IWebhookDelivery): Promise<IWebhookDelivery> => {
+  const replay = await WebhookDelivery.create({
+    endpointId: delivery.endpointId,
+    sellerId: delivery.sellerId,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    payload: delivery.payload,
+    replayOf: delivery._id
+  });
+
+  triggerWebhookDeliveries();
+  return replay;
+};
+
+// Lock the oldest due delivery so no other worker sends it at the same time
+const claimDueDelivery = (): Promise<IWebhookDelivery | null> => {
+  const now = new Date();
+
+  return WebhookDelivery.findOneAndUpdate(
+    {
+      status: 'pending',
+      nextAttemptAt: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + DELIVERY_LOCK_MS) } },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  );
+};
+
+// POST a body to an endpoint and resolve with the response status. Outside
+// development only https:// URLs on public addresses are contacted: the host
+// is resolved and checked on every delivery, and the connection goes to the
+// checked address. The response body is never read, so a seller can't use the
+// delivery log to see what an internal service returned.
+const postToEndpoint = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const allowPrivate = process.env.NODE_ENV === 'development';
+
+    if (!allowPrivate && (target.protocol !== 'https:' || isPrivateHostname(target.hostname))) {
+      reject(new Error('Endpoint URL must be a public https:// address'));
+      return;
+    }
+
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: allowPrivate ? undefined : publicOnlyLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, response => {
+      resolve(response.statusCode ?? 0);
+      response.destroy();
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+
+// POST the delivery to its endpoint and record the outcome. Any 2xx response
+// counts as delivered; redirects are not followed.
+const attemptDelivery = async (delivery: IWebhookDelivery): Promise<void> => {
+  const endpoint = await WebhookEndpoint.findById(delivery.endpointId).select('+secret');
+
+  if (!endpoint || !endpoint.isActive) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: { status: 'failed', error: endpoint ? 'Endpoint is disabled' : 'Endpoint was deleted' },
+        $unset: { nextAttemptAt: 1, lockedUntil: 1 }
+      }
+    );
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  const attemptedAt = new Date();
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    responseStatus = await postToEndpoint(endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ecommerce-webhooks/1.0',
+      [WEBHOOK_EVENT_HEADER]: delivery.event,
+      [WEBHOOK_ID_HEADER]: delivery.eventId,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, endpoint.secret)
+    }, body);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = responseStatus !== undefined && responseStatus >= 200 && responseStatus < 300;
+  const outOfAttempts = attempts >= WEBHOOK_MAX_ATTEMPTS;
+
+  const set: Record<string, any> = {
+    attempts,
+    lastAttemptAt: attemptedAt,
+    status: succeeded ? 'succeeded' : outOfAttempts ? 'failed' : 'pending'
+  };
+  const unset: Record<string, 1> = { lockedUntil: 1 };
+
+  if (responseStatus !== undefined) set.responseStatus = responseStatus; else unset.responseStatus = 1;
+  if (error !== undefined) set.error = error; else unset.error = 1;
+
+  if (succeeded) {
+    set.deliveredAt = attemptedAt;
+  }
+  if (succeeded || outOfAttempts) {
+    unset.nextAttemptAt = 1;
+  } else {
+    set.nextAttemptAt = new Date(attemptedAt.getTime() + getRetryDelayMs(attempts));
+  }
+
+  await WebhookDelivery.updateOne({ _id: delivery._id }, { $set: set, $unset: unset });
+};
+
+// Send every delivery that is due, one at a time. Concurrent calls on the same
+// instance share the run already in progress.
+let running: Promise<void> | null = null;
+
+export const processDueWebhookDeliveries = (): Promise<void> => {
+  if (!running) {
+    running = (async () => {
+      let delivery: IWebhookDelivery | null;
+      while ((delivery = await claimDueDelivery())) {
+        await attemptDelivery(delivery);
+      }
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+// Start sending in the background without waiting for it
+const triggerWebhookDeliveries = (): void => {
+  processDueWebhookDeliveries().catch(error => console.error('Webhook delivery error:', error));
+};
+
+// Poll for retries that have come due (once, at startup)
+let workerStarted = false;
+
+export const startWebhookWorker = (): void => {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  triggerWebhookDeliveries();
+  setInterval(triggerWebhookDeliveries, POLL_INTERVAL_MS).unref();
+};
+
+// Subscribe to the events sellers can receive webhooks for (once, at startup)
+let registered = false;
+
+export const registerWebhookListeners = (): void => {
+  if (registered) return;
+  registered = true;
+
+  onAppEvent('order.created', async ({ order }) => {
+    await enqueueWebhookEvent(idOf(order.sellerId), 'order.created', { order: orderPayload(order) });
+  });
+
+  onAppEvent('order.status_changed', async ({ order, previousStatus, reason }) => {
+    await enqueueWebhookEvent(idOf(order.sellerId), 'order.status_changed', {
+      order: orderPayload(order),
+      previousStatus,
+      reason
+    });
+  });
+
+  onAppEvent('product.deactivated', async ({ product, deactivatedBy }) => {
+    const sellerId = idOf(product.sellerId);
+
+    await enqueueWebhookEvent(sellerId, 'product.deactivated', {
+      product: {
+        productId: product._id.toString(),
+        title: product.title,
+        skus: product.variants?.map(variant => variant.sku) ?? []
+      },
+      deactivatedBySeller: deactivatedBy === sellerId
+    });
+  });
+};
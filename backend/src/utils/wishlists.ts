@@ -0,0 +1,98 @@
+import Wishlist, { DEFAULT_WISHLIST_NAME, IWishlist } from '../models/Wishlist';
+import { IProduct } from '../models/Product';
+import { IUser } from '../models/User';
+import { sendMail } from '../config/mail';
+
+// Fields of saved products returned with a wishlist
+export const WISHLIST_PRODUCT_FIELDS = 'title price images stock variants isActive sellerId category averageRating reviewCount';
+
+// Base URL for links in outgoing emails
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// Whether shoppers can buy the product right now
+export const isProductAvailable = (product: Pick<IProduct, 'isActive' | 'stock'>): boolean =>
+  product.isActive && product.stock > 0;
+
+// The buyer's first list, created if they have none yet
+export const findOrCreateDefaultWishlist = async (userId: string): Promise<IWishlist> => {
+  const existing = await Wishlist.findOne({ userId }).sort({ createdAt: 1 });
+  if (existing) return existing;
+
+  try {
+    return await Wishlist.create({ userId, name: DEFAULT_WISHLIST_NAME });
+  } catch (error: any) {
+    // Created by a concurrent request
+    if (error.code === 11000) {
+      const wishlist = await Wishlist.findOne({ userId, name: DEFAULT_WISHLIST_NAME });
+      if (wishlist) return wishlist;
+    }
+    throw error;
+  }
+};
+
+interface WatcherAlert {
+  user: IUser;
+  previousPrice?: number;   // Highest price the buyer saved or was last told about
+}
+
+// Email the owners of wishlists holding a product after it changed: when its
+// price fell below the price they last saw, or when it became available again
+// (reactivated or back in stock). Lists with notifications off are skipped, and
+// each owner gets a single email however many of their lists hold the product.
+export const notifyWishlistWatchers = async (product: IProduct, wasAvailable: boolean): Promise<void> => {
+  if (!isProductAvailable(product)) return;
+
+  const productId = String(product._id);
+  const becameAvailable = !wasAvailable;
+
+  const wishlists = await Wishlist.find({ 'items.productId': productId, notify: true })
+    .populate<{ userId: IUser | null }>('userId', 'name email isActive');
+
+  const alerts = new Map<string, WatcherAlert>();
+  for (const wishlist of wishlists) {
+    const user = wishlist.userId;
+    if (!user?.isActive) continue;
+
+    for (const item of wishlist.items) {
+      if (!item.productId.equals(productId)) continue;
+
+      const alert = alerts.get(user._id.toString()) ?? { user };
+      if (item.alertPrice > product.price) {
+        alert.previousPrice = Math.max(alert.previousPrice ?? 0, item.alertPrice);
+      }
+      alerts.set(user._id.toString(), alert);
+    }
+  }
+
+  // Later drops are measured from the price just announced
+  await Wishlist.updateMany(
+    { 'items.productId': productId, notify: true },
+    { $set: { 'items.$[item].alertPrice': product.price } },
+    { arrayFilters: [{ 'item.productId': productId, 'item.alertPrice': { $gt: product.price } }] }
+  );
+
+  const link = `${getFrontendUrl()}/products/${productId}`;
+  const price = `$${product.price.toFixed(2)}`;
+
+  const emails = [...alerts.values()]
+    .filter(alert => alert.previousPrice !== undefined || becameAvailable)
+    .map(({ user, previousPrice }) => {
+      const headline = previousPrice !== undefined
+        ? `${product.title} dropped from $${previousPrice.toFixed(2)} to ${price}`
+        : `${product.title} is available again at ${price}`;
+
+      return sendMail({
+        to: user.email,
+        subject: previousPrice !== undefined ? `Price drop: ${product.title}` : `Available again: ${product.title}`,
+        text: `Hi ${user.name},\n\n${headline}. It's on your wishlist:\n${link}`,
+        html: `<p>Hi ${user.name},</p><p>${headline}. It's on your wishlist: <a href="${link}">view product</a>.</p>`
+      });
+    });
+
+  const results = await Promise.allSettled(emails);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Wishlist notification email failed:', result.reason);
+    }
+  }
+};
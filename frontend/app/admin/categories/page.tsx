@@ -0,0 +1,16 @@
+'use client'
+
+import { CategoryManager } from '@/components/categories'
+
+export default function CategoriesManagement() {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Categories</h1>
+        <p className="text-gray-600 mt-2">The category tree products are filed under and shoppers browse by</p>
+      </div>
+
+      <CategoryManager />
+    </div>
+  )
+}
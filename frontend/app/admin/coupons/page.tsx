@@ -0,0 +1,16 @@
+'use client'
+
+import { CouponManager } from '@/components/coupons'
+
+export default function CouponsManagement() {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Coupons</h1>
+        <p className="text-gray-600 mt-2">Platform-wide coupons and every seller&apos;s promotions</p>
+      </div>
+
+      <CouponManager showOwner />
+    </div>
+  )
+}
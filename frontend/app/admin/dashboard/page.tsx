@@ -151,6 +151,7 @@ export default function AdminDashboard() {
           </div>
           <div className="mt-2 text-sm text-gray-600">
             From completed orders
+            {stats.revenue.discounts > 0 && ` (after ${formatCurrency(stats.revenue.discounts)} in coupon discounts)`}
           </div>
         </div>
       </div>
@@ -163,7 +164,7 @@ export default function AdminDashboard() {
           <div className="space-y-3">
             {stats.products.byCategory.map((category) => (
               <div key={category._id} className="flex justify-between items-center">
-                <span className="text-sm font-medium text-gray-700">{category._id}</span>
+                <span className="text-sm font-medium text-gray-700">{category.name}</span>
                 <span className="text-sm text-gray-500">{category.count} products</span>
               </div>
             ))}
@@ -200,6 +201,9 @@ export default function AdminDashboard() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Revenue
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Discounts
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -214,6 +218,9 @@ export default function AdminDashboard() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {formatCurrency(trend.revenue)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatCurrency(trend.discounts || 0)}
+                  </td>
                 </tr>
               ))}
             </tbody>
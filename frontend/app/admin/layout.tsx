@@ -9,9 +9,16 @@ interface User {
   _id: string
   name: string
   email: string
-  role: 'admin' | 'seller' | 'buyer'
+  role: string
+  permissions?: string[]
 }
 
+// Any of these permissions gives access to the admin area (admins and custom staff roles)
+const ADMIN_AREA_PERMISSIONS = ['admin:dashboard', 'user:read', 'role:manage', 'coupon:manage:any', 'category:manage', 'security:read', 'storage:manage']
+
+const canAccessAdminArea = (user: User) =>
+  user.role === 'admin' || !!user.permissions?.some(permission => ADMIN_AREA_PERMISSIONS.includes(permission))
+
 export default function AdminLayout({
   children,
 }: {
@@ -33,7 +40,7 @@ export default function AdminLayout({
 
     try {
       const parsedUser = JSON.parse(userData)
-      if (parsedUser.role !== 'admin') {
+      if (!canAccessAdminArea(parsedUser)) {
         router.push('/')
         return
       }
@@ -55,7 +62,7 @@ export default function AdminLayout({
     )
   }
 
-  if (!user || user.role !== 'admin') {
+  if (!user || !canAccessAdminArea(user)) {
     return null
   }
 
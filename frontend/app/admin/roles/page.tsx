@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { adminApi, PermissionInfo, Role } from '@/lib/admin-api'
+
+export default function RolesManagement() {
+  const [roles, setRoles] = useState<Role[]>([])
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingRole, setSavingRole] = useState<string | null>(null)
+  // Unsaved permission edits, keyed by role name
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({})
+  const [newRole, setNewRole] = useState({ name: '', description: '' })
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      const [rolesResponse, permissionsResponse] = await Promise.all([
+        adminApi.getRoles(),
+        adminApi.getPermissions()
+      ])
+      setRoles(rolesResponse.data)
+      setPermissions(permissionsResponse.data)
+      setDrafts({})
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch roles')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getRolePermissions = (role: Role) => drafts[role.name] ?? role.permissions
+
+  const togglePermission = (role: Role, permission: string) => {
+    const current = getRolePermissions(role)
+    const updated = current.includes(permission)
+      ? current.filter(p => p !== permission)
+      : [...current, permission]
+
+    setDrafts(prev => ({ ...prev, [role.name]: updated }))
+  }
+
+  const handleSaveRole = async (role: Role) => {
+    try {
+      setSavingRole(role.name)
+      const response = await adminApi.updateRole(role.name, { permissions: getRolePermissions(role) })
+      toast.success(response.message || 'Role updated')
+      setRoles(prev => prev.map(r => r.name === role.name ? { ...r, ...response.data } : r))
+      setDrafts(prev => {
+        const rest = { ...prev }
+        delete rest[role.name]
+        return rest
+      })
+    } catch (error) {
+      console.error('Error updating role:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to update role')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!confirm(`Delete the "${role.name}" role?`)) return
+
+    try {
+      setSavingRole(role.name)
+      await adminApi.deleteRole(role.name)
+      toast.success('Role deleted')
+      setRoles(prev => prev.filter(r => r.name !== role.name))
+    } catch (error) {
+      console.error('Error deleting role:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to delete role')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSavingRole('new')
+      await adminApi.createRole({
+        name: newRole.name.trim().toLowerCase(),
+        description: newRole.description.trim() || undefined,
+        permissions: []
+      })
+      toast.success('Role created. Choose its permissions below.')
+      setNewRole({ name: '', description: '' })
+      fetchData()
+    } catch (error) {
+      console.error('Error creating role:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to create role')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Roles &amp; Permissions</h1>
+        <p className="text-gray-600 mt-2">Control what each role can do on the platform</p>
+      </div>
+
+      {/* Create Role */}
+      <form onSubmit={handleCreateRole} className="bg-white rounded-lg shadow-sm border p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label htmlFor="role-name" className="block text-sm font-medium text-gray-700 mb-1">
+            New role name
+          </label>
+          <input
+            id="role-name"
+            type="text"
+            value={newRole.name}
+            onChange={(e) => setNewRole(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. support-agent"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-black"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="role-description" className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <input
+            id="role-description"
+            type="text"
+            value={newRole.description}
+            onChange={(e) => setNewRole(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="What this role is for"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-black"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!newRole.name.trim() || savingRole === 'new'}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {savingRole === 'new' ? 'Creating...' : 'Create Role'}
+        </button>
+      </form>
+
+      {/* Roles */}
+      {roles.map(role => {
+        const rolePermissions = getRolePermissions(role)
+        const isDirty = drafts[role.name] !== undefined
+
+        return (
+          <div key={role._id} className="bg-white rounded-lg shadow-sm border p-4">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 capitalize">
+                  {role.name}
+                  {role.isSystem && (
+                    <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-medium rounded">
+                      Built-in
+                    </span>
+                  )}
+                </h2>
+                {role.description && <p className="text-sm text-gray-600">{role.description}</p>}
+                <p className="text-xs text-gray-500">{role.userCount || 0} user(s)</p>
+              </div>
+              <div className="flex space-x-2">
+                {!role.isSystem && (
+                  <button
+                    onClick={() => handleDeleteRole(role)}
+                    disabled={savingRole !== null}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                )}
+                <button
+                  onClick={() => handleSaveRole(role)}
+                  disabled={!isDirty || savingRole !== null}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {savingRole === role.name ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+              {permissions.map(permission => (
+                <label key={permission.key} className="flex items-start space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={rolePermissions.includes(permission.key)}
+                    onChange={() => togglePermission(role, permission.key)}
+                    className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>
+                    <code className="text-xs text-gray-900">{permission.key}</code>
+                    <span className="block text-xs text-gray-500">{permission.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
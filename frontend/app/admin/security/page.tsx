@@ -0,0 +1,378 @@
+'use client'
+
+import { Fragment, Suspense, useCallback, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import {
+  adminApi,
+  SecurityEvent,
+  SecurityEventFilters,
+  SecurityEventsResponse,
+  SECURITY_EVENT_TYPES,
+  SECURITY_LOG_LEVELS
+} from '@/lib/admin-api'
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-gray-50 text-black'
+
+const getLevelBadgeColor = (level: string) => {
+  switch (level) {
+    case 'CRITICAL': return 'bg-red-100 text-red-800'
+    case 'WARNING': return 'bg-yellow-100 text-yellow-800'
+    case 'AUDIT': return 'bg-purple-100 text-purple-800'
+    default: return 'bg-blue-100 text-blue-800'
+  }
+}
+
+const formatEventType = (eventType: string) =>
+  eventType.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+function SecurityEventsContent() {
+  const searchParams = useSearchParams()
+  const [events, setEvents] = useState<SecurityEvent[]>([])
+  const [pagination, setPagination] = useState<SecurityEventsResponse['pagination'] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [expandedEvent, setExpandedEvent] = useState<string | null>(null)
+
+  // Filters (userId is set by the "Security Events" link in the users page)
+  const [filters, setFilters] = useState<SecurityEventFilters & { page: number; limit: number }>({
+    page: 1,
+    limit: 25,
+    eventType: '',
+    level: '',
+    userId: searchParams.get('userId') || '',
+    ipAddress: '',
+    startDate: '',
+    endDate: '',
+    success: ''
+  })
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await adminApi.getSecurityEvents(filters)
+      setEvents(response.data.events)
+      setPagination(response.data.pagination)
+    } catch (error) {
+      console.error('Error fetching security events:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch security events')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  const handleExport = async () => {
+    try {
+      setExporting(true)
+      const blob = await adminApi.exportSecurityEvents(filters)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `security-events-${new Date().toISOString().slice(0, 10)}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error exporting security events:', error)
+      toast.error('Failed to export security events')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleFilterChange = (key: keyof SecurityEventFilters, value: string | number) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: value,
+      page: key !== 'page' ? 1 : Number(value) // Reset to page 1 when changing other filters
+    }))
+  }
+
+  const handlePageChange = (newPage: number) => {
+    setFilters(prev => ({ ...prev, page: newPage }))
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Security Events</h1>
+          <p className="text-gray-600 mt-2">Sign-ins, account changes and other security activity across the platform</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="eventType" className="block text-sm font-medium text-gray-700 mb-1">
+              Event Type
+            </label>
+            <select
+              id="eventType"
+              className={inputClassName}
+              value={filters.eventType}
+              onChange={(e) => handleFilterChange('eventType', e.target.value)}
+            >
+              <option value="">All Events</option>
+              {SECURITY_EVENT_TYPES.map(eventType => (
+                <option key={eventType} value={eventType}>{formatEventType(eventType)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="level" className="block text-sm font-medium text-gray-700 mb-1">
+              Level
+            </label>
+            <select
+              id="level"
+              className={inputClassName}
+              value={filters.level}
+              onChange={(e) => handleFilterChange('level', e.target.value)}
+            >
+              <option value="">All Levels</option>
+              {SECURITY_LOG_LEVELS.map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="success" className="block text-sm font-medium text-gray-700 mb-1">
+              Outcome
+            </label>
+            <select
+              id="success"
+              className={inputClassName}
+              value={filters.success}
+              onChange={(e) => handleFilterChange('success', e.target.value)}
+            >
+              <option value="">All Outcomes</option>
+              <option value="true">Succeeded</option>
+              <option value="false">Failed</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="ipAddress" className="block text-sm font-medium text-gray-700 mb-1">
+              IP Address
+            </label>
+            <input
+              type="text"
+              id="ipAddress"
+              className={inputClassName}
+              placeholder="e.g. 192.168.1.10"
+              value={filters.ipAddress}
+              onChange={(e) => handleFilterChange('ipAddress', e.target.value.trim())}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              id="startDate"
+              className={inputClassName}
+              value={filters.startDate}
+              onChange={(e) => handleFilterChange('startDate', e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              id="endDate"
+              className={inputClassName}
+              value={filters.endDate}
+              onChange={(e) => handleFilterChange('endDate', e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="limit" className="block text-sm font-medium text-gray-700 mb-1">
+              Per Page
+            </label>
+            <select
+              id="limit"
+              className={inputClassName}
+              value={filters.limit}
+              onChange={(e) => handleFilterChange('limit', parseInt(e.target.value))}
+            >
+              <option value={25}>25</option>
+              <option value={50}>50</option>
+              <option value={100}>100</option>
+            </select>
+          </div>
+        </div>
+
+        {filters.userId && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+            <span>Showing events for user <span className="font-mono">{filters.userId}</span></span>
+            <button
+              onClick={() => handleFilterChange('userId', '')}
+              className="text-blue-600 hover:text-blue-900 font-medium"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Events Table */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No security events match these filters</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Time
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Event
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      User
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      IP Address
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Details
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {events.map((event) => (
+                    <Fragment key={event._id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(event.timestamp).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-2">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getLevelBadgeColor(event.level)}`}>
+                              {event.level}
+                            </span>
+                            <span className="text-sm font-medium text-gray-900">{formatEventType(event.eventType)}</span>
+                            {!event.success && (
+                              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                Failed
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-sm text-gray-500 mt-1">{event.action}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {event.userId ? (
+                            <Link href={`/admin/users?user=${event.userId._id}`} className="text-blue-600 hover:text-blue-900">
+                              <div className="font-medium">{event.userId.name}</div>
+                              <div className="text-gray-500">{event.userId.email}</div>
+                            </Link>
+                          ) : (
+                            <span className="text-gray-500">{event.email || '—'}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {event.ipAddress ? (
+                            <button
+                              onClick={() => handleFilterChange('ipAddress', event.ipAddress!)}
+                              className="hover:text-blue-600"
+                              title="Show events from this IP"
+                            >
+                              {event.ipAddress}
+                            </button>
+                          ) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <button
+                            onClick={() => setExpandedEvent(expandedEvent === event._id ? null : event._id)}
+                            className="text-blue-600 hover:text-blue-900 font-medium"
+                          >
+                            {expandedEvent === event._id ? 'Hide' : 'View'}
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedEvent === event._id && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={5} className="px-6 py-4 text-sm text-gray-700">
+                            <p><span className="font-medium">User agent:</span> {event.userAgent || '—'}</p>
+                            <pre className="mt-2 p-3 bg-white border rounded-md text-xs overflow-x-auto">
+                              {event.details ? JSON.stringify(event.details, null, 2) : 'No details recorded'}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            {pagination && (
+              <div className="bg-white px-4 py-3 border-t border-gray-200 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-700">
+                    Page <span className="font-medium">{pagination.currentPage}</span> of{' '}
+                    <span className="font-medium">{pagination.totalPages}</span>{' '}
+                    (<span className="font-medium">{pagination.totalEvents}</span> events)
+                  </p>
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={() => handlePageChange(pagination.currentPage - 1)}
+                      disabled={!pagination.hasPrevPage}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => handlePageChange(pagination.currentPage + 1)}
+                      disabled={!pagination.hasNextPage}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function SecurityEvents() {
+  return (
+    <Suspense fallback={null}>
+      <SecurityEventsContent />
+    </Suspense>
+  )
+}
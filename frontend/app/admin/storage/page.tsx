@@ -0,0 +1,146 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { adminApi, StorageUsage } from '@/lib/admin-api'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB', 'TB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(1)} ${units[unit]}`
+}
+
+export default function AdminStoragePage() {
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [cleaning, setCleaning] = useState(false)
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const response = await adminApi.getStorageUsage()
+      if (response.success) {
+        setUsage(response.data)
+      }
+    } catch (error) {
+      console.error('Error fetching storage usage:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch storage usage')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchUsage()
+  }, [fetchUsage])
+
+  const handleCleanup = async () => {
+    if (!confirm('Delete uploaded files that have been unused for longer than their grace period?')) return
+
+    try {
+      setCleaning(true)
+      const response = await adminApi.cleanupStorage()
+      const { deleted, bytesFreed, failed } = response.data
+      toast.success(`Deleted ${deleted} unused file${deleted === 1 ? '' : 's'} (${formatBytes(bytesFreed)})`)
+      if (failed > 0) {
+        toast.error(`${failed} file${failed === 1 ? '' : 's'} could not be deleted`)
+      }
+      fetchUsage()
+    } catch (error) {
+      console.error('Error cleaning up storage:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to clean up storage')
+    } finally {
+      setCleaning(false)
+    }
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Storage</h1>
+          <p className="text-gray-600 mt-2">
+            Uploaded images and documents{usage && <> stored with the <span className="font-medium">{usage.driver}</span> driver</>}
+          </p>
+        </div>
+        <button
+          onClick={handleCleanup}
+          disabled={cleaning}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {cleaning ? 'Cleaning Up...' : 'Clean Up Now'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : usage && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Total Stored</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatBytes(usage.totals.bytes)}</p>
+              <p className="text-sm text-gray-600">{usage.totals.files} files</p>
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Unused</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatBytes(usage.totals.unusedBytes)}</p>
+              <p className="text-sm text-gray-600">{usage.totals.unusedFiles} files awaiting deletion</p>
+            </div>
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Sellers With Files</p>
+              <p className="text-2xl font-semibold text-gray-900">{usage.sellers.length}</p>
+              <p className="text-sm text-gray-600">Review and return photos count towards the totals only</p>
+            </div>
+          </div>
+
+          <div className="bg-white shadow rounded-lg overflow-x-auto">
+            {usage.sellers.length === 0 ? (
+              <p className="p-6 text-sm text-gray-600">No product files have been uploaded yet.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Seller</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Images</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Documents</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unused</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {usage.sellers.map(seller => (
+                    <tr key={seller.sellerId}>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{seller.name}</div>
+                        {seller.email && <div className="text-gray-500">{seller.email}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{seller.products}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{seller.images}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{seller.documents}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 font-medium">{formatBytes(seller.bytes)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {seller.unusedFiles > 0 ? `${seller.unusedFiles} (${formatBytes(seller.unusedBytes)})` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,20 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
 import apiClient from '@/lib/api'
 
 interface User {
   _id: string
   name: string
   email: string
-  role: 'admin' | 'seller' | 'buyer'
+  role: string
   isActive: boolean
+  failedLoginAttempts?: number
+  lockUntil?: string
   createdAt: string
 }
 
@@ -27,7 +32,9 @@ interface PaginationInfo {
   hasPrevPage: boolean
 }
 
-export default function UsersManagement() {
+function UsersManagementContent() {
+  const searchParams = useSearchParams()
+  const linkedUserId = searchParams.get('user')
   const [users, setUsers] = useState<User[]>([])
   const [pagination, setPagination] = useState<PaginationInfo | null>(null)
   const [loading, setLoading] = useState(true)
@@ -35,6 +42,7 @@ export default function UsersManagement() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const [userStats, setUserStats] = useState<UserStats | null>(null)
   const [showUserModal, setShowUserModal] = useState(false)
+  const [roles, setRoles] = useState<string[]>(['admin', 'seller', 'buyer'])
   
   // Filters
   const [filters, setFilters] = useState({
@@ -49,6 +57,29 @@ export default function UsersManagement() {
     fetchUsers()
   }, [filters])
 
+  useEffect(() => {
+    fetchRoles()
+  }, [])
+
+  // Open the user linked from another admin page, e.g. the security events log
+  useEffect(() => {
+    if (linkedUserId) {
+      fetchLinkedUser(linkedUserId)
+    }
+  }, [linkedUserId])
+
+  // Custom roles are only listed for admins allowed to manage roles
+  const fetchRoles = async () => {
+    try {
+      const response = await apiClient.get('/api/admin/roles')
+      if (response.data.success) {
+        setRoles(response.data.data.map((role: { name: string }) => role.name))
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+    }
+  }
+
   const fetchUsers = async () => {
     try {
       setLoading(true)
@@ -95,6 +126,46 @@ export default function UsersManagement() {
     }
   }
 
+  const handleUnlockUser = async (userId: string) => {
+    try {
+      setActionLoading(userId)
+      const response = await apiClient.put(`/api/admin/users/${userId}/unlock`)
+
+      if (response.data.success) {
+        toast.success('User unlocked successfully')
+        setSelectedUser(prev => prev && prev._id === userId ? { ...prev, lockUntil: undefined, failedLoginAttempts: 0 } : prev)
+        fetchUsers()
+      } else {
+        toast.error(response.data.message || 'Failed to unlock user')
+      }
+    } catch (error) {
+      console.error('Error unlocking user:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to unlock user')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleRoleChange = async (userId: string, role: string) => {
+    try {
+      setActionLoading(userId)
+      const response = await apiClient.put(`/api/admin/users/${userId}/role`, { role })
+
+      if (response.data.success) {
+        toast.success('User role updated successfully')
+        setSelectedUser(prev => prev && prev._id === userId ? { ...prev, role } : prev)
+        fetchUsers()
+      } else {
+        toast.error(response.data.message || 'Failed to update role')
+      }
+    } catch (error) {
+      console.error('Error updating user role:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to update role')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   const handleViewUser = async (user: User) => {
     try {
       setSelectedUser(user)
@@ -111,6 +182,20 @@ export default function UsersManagement() {
     }
   }
 
+  const fetchLinkedUser = async (userId: string) => {
+    try {
+      const response = await apiClient.get(`/api/admin/users/${userId}`)
+      if (response.data.success) {
+        setSelectedUser(response.data.data.user)
+        setUserStats(response.data.data.stats)
+        setShowUserModal(true)
+      }
+    } catch (error) {
+      console.error('Error fetching user details:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch user details')
+    }
+  }
+
   const handleFilterChange = (key: string, value: string | number) => {
     setFilters(prev => ({
       ...prev,
@@ -132,6 +217,9 @@ export default function UsersManagement() {
     }
   }
 
+  // Locked after too many failed logins (the lock lifts by itself at lockUntil)
+  const isLocked = (user: User) => !!user.lockUntil && new Date(user.lockUntil) > new Date()
+
   const getStatusBadgeColor = (isActive: boolean) => {
     return isActive 
       ? 'bg-green-100 text-green-800' 
@@ -175,9 +263,9 @@ export default function UsersManagement() {
               onChange={(e) => handleFilterChange('role', e.target.value)}
             >
               <option value="all">All Roles</option>
-              <option value="admin">Admin</option>
-              <option value="seller">Seller</option>
-              <option value="buyer">Buyer</option>
+              {roles.map(role => (
+                <option key={role} value={role} className="capitalize">{role}</option>
+              ))}
             </select>
           </div>
 
@@ -265,6 +353,11 @@ export default function UsersManagement() {
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(user.isActive)}`}>
                           {user.isActive ? 'Active' : 'Banned'}
                         </span>
+                        {isLocked(user) && (
+                          <span className="ml-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                            Locked
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {new Date(user.createdAt).toLocaleDateString()}
@@ -277,6 +370,15 @@ export default function UsersManagement() {
                           >
                             View
                           </button>
+                          {isLocked(user) && (
+                            <button
+                              onClick={() => handleUnlockUser(user._id)}
+                              disabled={actionLoading === user._id}
+                              className="text-yellow-600 hover:text-yellow-900 font-medium disabled:opacity-50"
+                            >
+                              Unlock
+                            </button>
+                          )}
                           {user.role !== 'admin' && (
                             <button
                               onClick={() => handleBanUser(user._id, user.isActive ? 'ban' : 'unban')}
@@ -407,10 +509,23 @@ export default function UsersManagement() {
                 </div>
                 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700">Role</label>
-                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeColor(selectedUser.role)}`}>
-                    {selectedUser.role}
-                  </span>
+                  <label htmlFor="user-role" className="block text-sm font-medium text-gray-700">Role</label>
+                  <div className="flex items-center space-x-2">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeColor(selectedUser.role)}`}>
+                      {selectedUser.role}
+                    </span>
+                    <select
+                      id="user-role"
+                      value={selectedUser.role}
+                      disabled={actionLoading === selectedUser._id}
+                      onChange={(e) => handleRoleChange(selectedUser._id, e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-gray-50 text-black disabled:opacity-50"
+                    >
+                      {roles.map(role => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 
                 <div>
@@ -418,7 +533,26 @@ export default function UsersManagement() {
                   <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(selectedUser.isActive)}`}>
                     {selectedUser.isActive ? 'Active' : 'Banned'}
                   </span>
+                  {isLocked(selectedUser) && (
+                    <div className="mt-2 flex items-center justify-between text-sm text-yellow-800 bg-yellow-50 p-2 rounded-md">
+                      <span>Locked until {new Date(selectedUser.lockUntil!).toLocaleString()}</span>
+                      <button
+                        onClick={() => handleUnlockUser(selectedUser._id)}
+                        disabled={actionLoading === selectedUser._id}
+                        className="font-medium text-yellow-900 hover:underline disabled:opacity-50"
+                      >
+                        Unlock
+                      </button>
+                    </div>
+                  )}
                 </div>
+
+                {!!selectedUser.failedLoginAttempts && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Failed Logins</label>
+                    <p className="text-sm text-gray-900">{selectedUser.failedLoginAttempts} in a row</p>
+                  </div>
+                )}
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Joined</label>
@@ -460,6 +594,13 @@ export default function UsersManagement() {
                     </div>
                   </div>
                 )}
+
+                <Link
+                  href={`/admin/security?userId=${selectedUser._id}`}
+                  className="inline-block text-sm text-blue-600 hover:text-blue-900 font-medium"
+                >
+                  View security events
+                </Link>
               </div>
               
               <div className="mt-6 flex justify-end space-x-3">
@@ -492,4 +633,12 @@ export default function UsersManagement() {
       )}
     </div>
   )
+}
+
+export default function UsersManagement() {
+  return (
+    <Suspense fallback={null}>
+      <UsersManagementContent />
+    </Suspense>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { ForgotPasswordForm } from '@/components/auth'
+
+export default function ForgotPasswordPage() {
+  return <ForgotPasswordForm />
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { Suspense } from 'react'
+import { ResetPasswordForm } from '@/components/auth'
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={null}>
+      <ResetPasswordForm />
+    </Suspense>
+  )
+}
\ No newline at end of file
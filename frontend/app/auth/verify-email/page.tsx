@@ -0,0 +1,10 @@
+import { Suspense } from 'react'
+import { VerifyEmail } from '@/components/auth'
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={null}>
+      <VerifyEmail />
+    </Suspense>
+  )
+}
\ No newline at end of file
@@ -1,6 +1,9 @@
 'use client';
 
 import { useCart } from '@/lib/useCart';
+import { CartItem, getCartItemPrice, getCartLineKey } from '@/lib/cart';
+import { formatVariantOptions } from '@/lib/product-api';
+import { getCategoryName } from '@/lib/category-api';
 import { useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -10,29 +13,30 @@ export default function CartPage() {
   const { cart, isLoading, updateQuantity, removeFromCart } = useCart();
   const [updatingItems, setUpdatingItems] = useState<Set<string>>(new Set());
 
-  const handleQuantityChange = async (productId: string, newQuantity: number) => {
+  const handleQuantityChange = async (item: CartItem, newQuantity: number) => {
     if (newQuantity < 1) return;
     
-    setUpdatingItems(prev => new Set(prev).add(productId));
+    const lineKey = getCartLineKey(item);
+    setUpdatingItems(prev => new Set(prev).add(lineKey));
     
     try {
-      updateQuantity(productId, newQuantity);
+      await updateQuantity(item.product._id, newQuantity, item.variant?._id);
       toast.success('Cart updated');
     } catch (error) {
       toast.error('Failed to update cart');
     } finally {
       setUpdatingItems(prev => {
         const newSet = new Set(prev);
-        newSet.delete(productId);
+        newSet.delete(lineKey);
         return newSet;
       });
     }
   };
 
-  const handleRemoveItem = async (productId: string, productTitle: string) => {
+  const handleRemoveItem = async (item: CartItem) => {
     try {
-      removeFromCart(productId);
-      toast.success(`${productTitle} removed from cart`);
+      await removeFromCart(item.product._id, item.variant?._id);
+      toast.success(`${item.product.title} removed from cart`);
     } catch (error) {
       toast.error('Failed to remove item');
     }
@@ -98,13 +102,13 @@ export default function CartPage() {
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
             {cart.items.map((item) => (
-              <div key={item.product._id} className="bg-white rounded-lg shadow-sm p-6">
+              <div key={getCartLineKey(item)} className="bg-white rounded-lg shadow-sm p-6">
                 <div className="flex items-start space-x-4">
                   {/* Product Image */}
                   <div className="w-20 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
-                    {item.product.images && item.product.images.length > 0 ? (
+                    {(item.variant?.images[0] || item.product.images?.[0]) ? (
                       <Image
-                        src={item.product.images[0]}
+                        src={item.variant?.images[0] || item.product.images[0]}
                         alt={item.product.title}
                         width={80}
                         height={80}
@@ -127,23 +131,34 @@ export default function CartPage() {
                     >
                       {item.product.title}
                     </Link>
+                    {item.variant && (
+                      <p className="text-sm font-medium text-gray-700 mt-1">
+                        {formatVariantOptions(item.variant.options)}
+                        <span className="ml-2 font-normal text-gray-500">SKU {item.variant.sku}</span>
+                      </p>
+                    )}
                     <p className="text-sm text-gray-600 mt-1 line-clamp-2">
                       {item.product.description}
                     </p>
                     <p className="text-sm text-gray-500 mt-1">
-                      Category: {item.product.category}
+                      Category: {getCategoryName(item.product.category)}
                     </p>
                     <p className="text-lg font-bold text-gray-900 mt-2">
-                      ৳{item.product.price.toLocaleString()}
+                      ৳{getCartItemPrice(item).toLocaleString()}
                     </p>
+                    {item.isAvailable === false && (
+                      <p className="text-sm font-medium text-red-600 mt-1">
+                        Currently unavailable - this item won&apos;t be included at checkout
+                      </p>
+                    )}
                   </div>
 
                   {/* Quantity Controls */}
                   <div className="flex flex-col items-end space-y-2">
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => handleQuantityChange(item.product._id, item.quantity - 1)}
-                        disabled={item.quantity <= 1 || updatingItems.has(item.product._id)}
+                        onClick={() => handleQuantityChange(item, item.quantity - 1)}
+                        disabled={item.quantity <= 1 || updatingItems.has(getCartLineKey(item))}
                         className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -152,12 +167,12 @@ export default function CartPage() {
                       </button>
                       
                       <span className="w-12 text-center font-medium">
-                        {updatingItems.has(item.product._id) ? '...' : item.quantity}
+                        {updatingItems.has(getCartLineKey(item)) ? '...' : item.quantity}
                       </span>
                       
                       <button
-                        onClick={() => handleQuantityChange(item.product._id, item.quantity + 1)}
-                        disabled={updatingItems.has(item.product._id)}
+                        onClick={() => handleQuantityChange(item, item.quantity + 1)}
+                        disabled={updatingItems.has(getCartLineKey(item))}
                         className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -168,7 +183,7 @@ export default function CartPage() {
 
                     {/* Remove Button */}
                     <button
-                      onClick={() => handleRemoveItem(item.product._id, item.product.title)}
+                      onClick={() => handleRemoveItem(item)}
                       className="text-red-600 hover:text-red-800 text-sm font-medium transition-colors"
                     >
                       Remove
@@ -176,7 +191,7 @@ export default function CartPage() {
 
                     {/* Item Total */}
                     <p className="text-lg font-bold text-gray-900">
-                      ৳{(item.product.price * item.quantity).toLocaleString()}
+                      ৳{(getCartItemPrice(item) * item.quantity).toLocaleString()}
                     </p>
                   </div>
                 </div>
@@ -3,18 +3,28 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useCart } from '@/lib/useCart';
+import { CartItem, getCartItemPrice, getCartLineKey } from '@/lib/cart';
+import { formatVariantOptions } from '@/lib/product-api';
+import { orderApi } from '@/lib/order-api';
+import { cartApi } from '@/lib/cart-api';
+import { CouponPreview } from '@/lib/coupon-api';
+import { paymentApi, PaymentMethod } from '@/lib/payment-api';
+import { addressApi, formatAddress, Address } from '@/lib/address-api';
+import { AddressForm } from '@/components/addresses';
 import { toast } from 'react-hot-toast';
 import Link from 'next/link';
 import Image from 'next/image';
+import { isAxiosError } from 'axios';
+
+interface SellerGroup {
+  sellerId: string;
+  sellerName: string;
+  items: CartItem[];
+  subtotal: number;
+}
 
 interface CheckoutForm {
-  fullName: string;
-  phone: string;
-  email: string;
-  address: string;
-  city: string;
-  postalCode: string;
-  paymentMethod: 'cash_on_delivery';
+  paymentMethod: PaymentMethod;
 }
 
 export default function CheckoutPage() {
@@ -22,14 +32,58 @@ export default function CheckoutPage() {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState<CheckoutForm>({
-    fullName: '',
-    phone: '',
-    email: '',
-    address: '',
-    city: '',
-    postalCode: '',
-    paymentMethod: 'cash_on_delivery'
+    paymentMethod: 'Cash on Delivery'
   });
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [isAddingAddress, setIsAddingAddress] = useState(false);
+  const [addressesLoading, setAddressesLoading] = useState(true);
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponPreview | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(['Cash on Delivery']);
+
+  // A preview only holds for the cart it was calculated on
+  const activeCoupon = appliedCoupon && appliedCoupon.subtotal === cart.totalAmount ? appliedCoupon : null;
+  const orderTotal = activeCoupon ? activeCoupon.totalAmount : cart.totalAmount;
+
+  // Load the address book and preselect the default shipping address
+  useEffect(() => {
+    const fetchAddresses = async () => {
+      try {
+        const response = await addressApi.getAddresses();
+        if (response.success && response.data) {
+          const saved = response.data;
+          setAddresses(saved);
+          setSelectedAddressId((saved.find(a => a.isDefaultShipping) || saved[0])?._id || null);
+          setIsAddingAddress(saved.length === 0);
+        }
+      } catch (error) {
+        console.error('Error fetching addresses:', error);
+        setIsAddingAddress(true);
+      } finally {
+        setAddressesLoading(false);
+      }
+    };
+
+    fetchAddresses();
+  }, []);
+
+  // Online payment is only offered when the store has a payment provider set up
+  useEffect(() => {
+    const fetchPaymentMethods = async () => {
+      try {
+        const response = await paymentApi.getPaymentMethods();
+        if (response.success && response.data) {
+          setPaymentMethods(response.data.methods);
+        }
+      } catch (error) {
+        console.error('Error fetching payment methods:', error);
+      }
+    };
+
+    fetchPaymentMethods();
+  }, []);
 
   // Redirect if cart is empty
   useEffect(() => {
@@ -38,6 +92,27 @@ export default function CheckoutPage() {
     }
   }, [cart.items.length, isLoading, router]);
 
+  // Split the cart into one group per seller; each group becomes its own order
+  // Unavailable lines (inactive or out of stock) stay in the cart but are not ordered
+  const checkoutItems = cart.items.filter(item => item.isAvailable !== false);
+
+  const sellerGroups = checkoutItems.reduce<SellerGroup[]>((groups, item) => {
+    const sellerId = item.product.sellerId;
+    let group = groups.find(g => g.sellerId === sellerId);
+    if (!group) {
+      group = {
+        sellerId,
+        sellerName: item.product.seller?.name || `Seller ${groups.length + 1}`,
+        items: [],
+        subtotal: 0
+      };
+      groups.push(group);
+    }
+    group.items.push(item);
+    group.subtotal += getCartItemPrice(item) * item.quantity;
+    return groups;
+  }, []);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -46,75 +121,83 @@ export default function CheckoutPage() {
     }));
   };
 
-  const validateForm = (): boolean => {
-    const required = ['fullName', 'phone', 'email', 'address', 'city'];
-    
-    for (const field of required) {
-      if (!formData[field as keyof CheckoutForm].trim()) {
-        toast.error(`${field.replace(/([A-Z])/g, ' $1').toLowerCase()} is required`);
-        return false;
-      }
-    }
+  const handleAddressSaved = (address: Address) => {
+    setAddresses(prev => [...prev, address]);
+    setSelectedAddressId(address._id);
+    setIsAddingAddress(false);
+  };
 
-    // Basic email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(formData.email)) {
-      toast.error('Please enter a valid email address');
-      return false;
-    }
+  const handleApplyCoupon = async () => {
+    const code = couponCode.trim();
+    if (!code) return;
 
-    // Basic phone validation (Bangladesh format)
-    const phoneRegex = /^(\+88)?01[3-9]\d{8}$/;
-    if (!phoneRegex.test(formData.phone.replace(/\s/g, ''))) {
-      toast.error('Please enter a valid phone number');
-      return false;
+    setIsApplyingCoupon(true);
+    try {
+      const result = await cartApi.applyCoupon(code);
+      if (result.success && result.data) {
+        setAppliedCoupon(result.data);
+        toast.success(`Coupon ${result.data.code} applied`);
+      } else {
+        toast.error(result.message || 'Coupon could not be applied');
+      }
+    } catch (error) {
+      setAppliedCoupon(null);
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Coupon could not be applied');
+    } finally {
+      setIsApplyingCoupon(false);
     }
+  };
 
-    return true;
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponCode('');
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
+  const handlePlaceOrder = async () => {
+    if (!selectedAddressId) {
+      toast.error('Please choose a shipping address');
+      return;
+    }
     
     setIsSubmitting(true);
 
     try {
-      // Prepare order data
-      const orderData = {
-        products: cart.items.map(item => ({
+      // Prepare checkout data; the backend splits it into one order per seller
+      const checkoutData = {
+        products: checkoutItems.map(item => ({
           productId: item.product._id,
+          variantId: item.variant?._id,
           quantity: item.quantity,
-          price: item.product.price
+          price: getCartItemPrice(item)
         })),
-        totalAmount: cart.totalAmount,
-        shippingAddress: `${formData.address}, ${formData.city}, ${formData.postalCode}`,
-        customerInfo: {
-          fullName: formData.fullName,
-          phone: formData.phone,
-          email: formData.email
-        },
-        paymentMethod: formData.paymentMethod
+        totalAmount: orderTotal,
+        addressId: selectedAddressId,
+        paymentMethod: formData.paymentMethod,
+        couponCode: activeCoupon?.code
       };
 
-      // Make API call to create order (we'll implement this in the next subtask)
-      const response = await fetch('/api/orders', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(orderData)
-      });
-
-      const result = await response.json();
-
-      if (result.success) {
-        // Clear cart and redirect to success page
-        clearCart();
-        toast.success('Order placed successfully!');
-        router.push(`/orders/${result.data.orderId}`);
+      const result = await orderApi.checkout(checkoutData);
+
+      if (result.success && result.data) {
+        await clearCart();
+        const { orders, checkoutId, payment } = result.data;
+
+        // Online payments are completed on the gateway's payment page
+        if (payment?.redirectUrl) {
+          window.location.assign(payment.redirectUrl);
+          return;
+        }
+
+        toast.success(
+          orders.length > 1
+            ? `Order placed with ${orders.length} sellers!`
+            : 'Order placed successfully!'
+        );
+        router.push(
+          orders.length === 1
+            ? `/orders/${orders[0].orderId}`
+            : `/orders?checkout=${checkoutId}`
+        );
       } else {
         toast.error(result.message || 'Failed to place order');
       }
@@ -163,111 +246,69 @@ export default function CheckoutPage() {
       <div className="max-w-4xl mx-auto px-4">
         <h1 className="text-3xl font-bold text-gray-900 mb-8">Checkout</h1>
         
-        <form onSubmit={handleSubmit}>
+        {/* Plain wrapper rather than a form, so the new-address form can sit inside */}
+        <div>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Shipping Information */}
             <div className="bg-white rounded-lg shadow-sm p-6">
               <h2 className="text-xl font-semibold text-gray-900 mb-6">Shipping Information</h2>
               
               <div className="space-y-4">
-                <div>
-                  <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-1">
-                    Full Name *
-                  </label>
-                  <input
-                    type="text"
-                    id="fullName"
-                    name="fullName"
-                    value={formData.fullName}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Enter your full name"
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
-                      Phone Number *
-                    </label>
-                    <input
-                      type="tel"
-                      id="phone"
-                      name="phone"
-                      value={formData.phone}
-                      onChange={handleInputChange}
-                      required
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="01XXXXXXXXX"
-                    />
-                  </div>
-
-                  <div>
-                    <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-                      Email Address *
-                    </label>
-                    <input
-                      type="email"
-                      id="email"
-                      name="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      required
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="your@email.com"
-                    />
-                  </div>
-                </div>
-
-                <div>
-                  <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
-                    Street Address *
-                  </label>
-                  <textarea
-                    id="address"
-                    name="address"
-                    value={formData.address}
-                    onChange={handleInputChange}
-                    required
-                    rows={3}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="House/Flat number, Street name, Area"
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label htmlFor="city" className="block text-sm font-medium text-gray-700 mb-1">
-                      City *
-                    </label>
-                    <input
-                      type="text"
-                      id="city"
-                      name="city"
-                      value={formData.city}
-                      onChange={handleInputChange}
-                      required
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Dhaka"
-                    />
+                {addressesLoading ? (
+                  <div className="space-y-3">
+                    {[1, 2].map((i) => (
+                      <div key={i} className="h-16 bg-gray-100 rounded-lg animate-pulse"></div>
+                    ))}
                   </div>
+                ) : (
+                  <>
+                    {addresses.map((address) => (
+                      <label
+                        key={address._id}
+                        className={`flex items-start p-3 border rounded-lg cursor-pointer hover:bg-gray-50 ${
+                          selectedAddressId === address._id ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="addressId"
+                          value={address._id}
+                          checked={selectedAddressId === address._id}
+                          onChange={() => setSelectedAddressId(address._id)}
+                          className="mr-3 mt-1"
+                        />
+                        <div className="text-sm text-gray-700">
+                          <p className="font-medium text-gray-900">
+                            {address.label ? `${address.label} · ` : ''}{address.fullName}
+                            {address.isDefaultShipping && (
+                              <span className="ml-2 bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full">Default</span>
+                            )}
+                          </p>
+                          <p>{formatAddress(address)}</p>
+                          <p>{address.phone}</p>
+                        </div>
+                      </label>
+                    ))}
 
-                  <div>
-                    <label htmlFor="postalCode" className="block text-sm font-medium text-gray-700 mb-1">
-                      Postal Code
-                    </label>
-                    <input
-                      type="text"
-                      id="postalCode"
-                      name="postalCode"
-                      value={formData.postalCode}
-                      onChange={handleInputChange}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="1000"
-                    />
-                  </div>
-                </div>
+                    {isAddingAddress ? (
+                      <div className="border border-gray-300 rounded-lg p-4">
+                        <h3 className="text-sm font-medium text-gray-900 mb-3">New Address</h3>
+                        <AddressForm
+                          onSaved={handleAddressSaved}
+                          onCancel={addresses.length > 0 ? () => setIsAddingAddress(false) : undefined}
+                        />
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setIsAddingAddress(true)}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        + Add a new address
+                      </button>
+                    )}
+                  </>
+                )}
 
                 {/* Payment Method */}
                 <div className="pt-4 border-t">
@@ -277,8 +318,8 @@ export default function CheckoutPage() {
                       <input
                         type="radio"
                         name="paymentMethod"
-                        value="cash_on_delivery"
-                        checked={formData.paymentMethod === 'cash_on_delivery'}
+                        value="Cash on Delivery"
+                        checked={formData.paymentMethod === 'Cash on Delivery'}
                         onChange={handleInputChange}
                         className="mr-3"
                       />
@@ -292,6 +333,27 @@ export default function CheckoutPage() {
                         </div>
                       </div>
                     </label>
+                    {paymentMethods.includes('Online Payment') && (
+                      <label className="flex items-center p-3 border border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="radio"
+                          name="paymentMethod"
+                          value="Online Payment"
+                          checked={formData.paymentMethod === 'Online Payment'}
+                          onChange={handleInputChange}
+                          className="mr-3"
+                        />
+                        <div className="flex items-center">
+                          <svg className="w-6 h-6 text-blue-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                          </svg>
+                          <div>
+                            <span className="font-medium">Online Payment</span>
+                            <p className="text-sm text-gray-600">Pay now by card or mobile wallet</p>
+                          </div>
+                        </div>
+                      </label>
+                    )}
                   </div>
                 </div>
               </div>
@@ -301,48 +363,111 @@ export default function CheckoutPage() {
             <div className="bg-white rounded-lg shadow-sm p-6 h-fit sticky top-4">
               <h2 className="text-xl font-semibold text-gray-900 mb-6">Order Summary</h2>
               
-              {/* Order Items */}
-              <div className="space-y-4 mb-6">
-                {cart.items.map((item) => (
-                  <div key={item.product._id} className="flex items-center space-x-3">
-                    <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
-                      {item.product.images && item.product.images.length > 0 ? (
-                        <Image
-                          src={item.product.images[0]}
-                          alt={item.product.title}
-                          width={64}
-                          height={64}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center text-gray-400">
-                          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                          </svg>
-                        </div>
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h3 className="text-sm font-medium text-gray-900 truncate">
-                        {item.product.title}
-                      </h3>
-                      <p className="text-sm text-gray-600">
-                        Qty: {item.quantity} × ৳{item.product.price.toLocaleString()}
-                      </p>
+              {/* Order Items, grouped by seller */}
+              {sellerGroups.length > 1 && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Your cart contains items from {sellerGroups.length} sellers and will be placed as {sellerGroups.length} separate orders.
+                </p>
+              )}
+              <div className="space-y-6 mb-6">
+                {sellerGroups.map((group) => (
+                  <div key={group.sellerId}>
+                    <div className="flex justify-between text-sm font-medium text-gray-700 mb-3">
+                      <span>Sold by {group.sellerName}</span>
+                      <span>৳{group.subtotal.toLocaleString()}</span>
                     </div>
-                    <div className="text-sm font-medium text-gray-900">
-                      ৳{(item.product.price * item.quantity).toLocaleString()}
+                    <div className="space-y-4">
+                      {group.items.map((item) => (
+                        <div key={getCartLineKey(item)} className="flex items-center space-x-3">
+                          <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+                            {(item.variant?.images[0] || item.product.images?.[0]) ? (
+                              <Image
+                                src={item.variant?.images[0] || item.product.images[0]}
+                                alt={item.product.title}
+                                width={64}
+                                height={64}
+                                className="w-full h-full object-cover"
+                              />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center text-gray-400">
+                                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                </svg>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h3 className="text-sm font-medium text-gray-900 truncate">
+                              {item.product.title}
+                            </h3>
+                            {item.variant && (
+                              <p className="text-xs text-gray-500">{formatVariantOptions(item.variant.options)}</p>
+                            )}
+                            <p className="text-sm text-gray-600">
+                              Qty: {item.quantity} × ৳{getCartItemPrice(item).toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="text-sm font-medium text-gray-900">
+                            ৳{(getCartItemPrice(item) * item.quantity).toLocaleString()}
+                          </div>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 ))}
               </div>
 
+              {/* Coupon */}
+              <div className="pt-4 border-t mb-4">
+                {activeCoupon ? (
+                  <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg px-3 py-2 text-sm">
+                    <div>
+                      <span className="font-medium text-green-800">{activeCoupon.code}</span>
+                      {activeCoupon.description && (
+                        <p className="text-green-700">{activeCoupon.description}</p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRemoveCoupon}
+                      className="text-green-800 hover:text-green-900 font-medium"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                      placeholder="Coupon code"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyCoupon}
+                      disabled={isApplyingCoupon || !couponCode.trim()}
+                      className="px-4 py-2 text-sm bg-gray-800 text-white font-medium rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isApplyingCoupon ? 'Applying...' : 'Apply'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
               {/* Order Totals */}
               <div className="space-y-3 mb-6 pt-4 border-t">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal ({cart.totalItems} items)</span>
                   <span className="font-medium">৳{cart.totalAmount.toLocaleString()}</span>
                 </div>
+                {activeCoupon && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Discount ({activeCoupon.code})</span>
+                    <span className="font-medium text-green-600">-৳{activeCoupon.discount.toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Shipping</span>
                   <span className="font-medium text-green-600">Free</span>
@@ -354,7 +479,7 @@ export default function CheckoutPage() {
                 <div className="border-t pt-3">
                   <div className="flex justify-between text-lg font-bold">
                     <span>Total</span>
-                    <span>৳{cart.totalAmount.toLocaleString()}</span>
+                    <span>৳{orderTotal.toLocaleString()}</span>
                   </div>
                 </div>
               </div>
@@ -362,8 +487,9 @@ export default function CheckoutPage() {
               {/* Action Buttons */}
               <div className="space-y-3">
                 <button
-                  type="submit"
-                  disabled={isSubmitting}
+                  type="button"
+                  onClick={handlePlaceOrder}
+                  disabled={isSubmitting || !selectedAddressId}
                   className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
                 >
                   {isSubmitting ? (
@@ -401,7 +527,7 @@ export default function CheckoutPage() {
               </div>
             </div>
           </div>
-        </form>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
+import { paymentApi, Payment, MockPaymentOutcome } from '../../../lib/payment-api';
+
+// How often to check whether the gateway's webhook has been applied
+const POLL_INTERVAL_MS = 1500;
+const MAX_POLLS = 20;
+
+// Statuses that end the payment page's job
+const SETTLED_STATUSES = ['Captured', 'Partially Refunded', 'Refunded', 'Failed', 'Cancelled'];
+
+// Local stand-in for a payment gateway's hosted page. Used with the mock
+// payment provider: the buyer approves or declines, then we wait for the
+// webhook to settle the payment before sending them to their orders.
+function MockPaymentContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const providerPaymentId = searchParams.get('payment');
+  const checkoutId = searchParams.get('ref');
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [submitting, setSubmitting] = useState<MockPaymentOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const fetchPayment = async () => {
+      if (!checkoutId || !providerPaymentId) {
+        setError('This payment link is incomplete.');
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        const response = await paymentApi.getCheckoutPayment(checkoutId);
+        if (response.success && response.data) {
+          setPayment(response.data);
+        } else {
+          setError(response.message || 'Payment not found');
+        }
+      } catch (error) {
+        setError((isAxiosError(error) && error.response?.data?.message) || 'Payment not found');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPayment();
+
+    return () => {
+      if (pollTimer.current) clearTimeout(pollTimer.current);
+    };
+  }, [checkoutId, providerPaymentId]);
+
+  const goToOrders = (settled: Payment) => {
+    router.push(
+      settled.orders.length === 1
+        ? `/orders/${settled.orders[0].orderId}`
+        : `/orders?checkout=${settled.checkoutId}`
+    );
+  };
+
+  // Wait until the payment leaves Pending/Authorized, then leave the page
+  const pollUntilSettled = (attempt = 0) => {
+    pollTimer.current = setTimeout(async () => {
+      try {
+        const response = await paymentApi.getCheckoutPayment(checkoutId!);
+        const latest = response.data;
+        if (latest) {
+          setPayment(latest);
+          if (SETTLED_STATUSES.includes(latest.status)) {
+            if (latest.status === 'Failed') {
+              toast.error('Payment failed. Your order has been cancelled.');
+            } else {
+              toast.success('Payment received. Thank you for your order!');
+            }
+            goToOrders(latest);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Error checking payment status:', error);
+      }
+
+      if (attempt + 1 < MAX_POLLS) {
+        pollUntilSettled(attempt + 1);
+      } else {
+        setSubmitting(null);
+        toast.error('Still waiting for the payment to be confirmed. Check your orders shortly.');
+      }
+    }, POLL_INTERVAL_MS);
+  };
+
+  const handleOutcome = async (outcome: MockPaymentOutcome) => {
+    if (!providerPaymentId) return;
+
+    setSubmitting(outcome);
+    try {
+      await paymentApi.completeMockPayment(providerPaymentId, outcome);
+      pollUntilSettled();
+    } catch (error) {
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Payment could not be completed');
+      setSubmitting(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !payment) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow-sm p-8 max-w-md w-full text-center">
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Payment unavailable</h1>
+          <p className="text-gray-600 mb-6">{error || 'Payment not found'}</p>
+          <Link href="/orders" className="text-blue-600 hover:text-blue-700 font-medium">
+            View my orders
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isPending = payment.status === 'Pending';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg shadow-sm p-8 max-w-md w-full">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-xl font-semibold text-gray-900">Complete your payment</h1>
+          <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2 py-1 rounded-full">Test mode</span>
+        </div>
+
+        <div className="border rounded-lg p-4 mb-6 space-y-2 text-sm text-gray-700">
+          <div className="flex justify-between">
+            <span>Checkout</span>
+            <span className="font-mono text-gray-900">{payment.checkoutId}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Orders</span>
+            <span className="text-gray-900">{payment.orders.length}</span>
+          </div>
+          <div className="flex justify-between text-base font-semibold text-gray-900 pt-2 border-t">
+            <span>Amount</span>
+            <span>{payment.currency} {payment.amount.toFixed(2)}</span>
+          </div>
+        </div>
+
+        {isPending ? (
+          <div className="space-y-3">
+            <button
+              type="button"
+              onClick={() => handleOutcome('succeed')}
+              disabled={submitting !== null}
+              className="w-full py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting === 'succeed' ? 'Processing payment...' : 'Approve payment'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleOutcome('fail')}
+              disabled={submitting !== null}
+              className="w-full py-3 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting === 'fail' ? 'Declining...' : 'Decline payment'}
+            </button>
+            <p className="text-xs text-gray-500 text-center">
+              No money is charged. This page simulates a payment gateway for local development.
+            </p>
+          </div>
+        ) : (
+          <div className="text-center">
+            <p className="text-gray-700 mb-4">
+              This payment is <span className="font-medium">{payment.status.toLowerCase()}</span>.
+            </p>
+            <button
+              type="button"
+              onClick={() => goToOrders(payment)}
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              View my orders
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function MockPaymentPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <MockPaymentContent />
+    </Suspense>
+  );
+}
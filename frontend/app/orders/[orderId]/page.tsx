@@ -5,6 +5,11 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
+import { orderApi, ReturnRequest, OrderDiscount } from '@/lib/order-api';
+import { ShippingAddress } from '@/lib/address-api';
+import { VariantSelection, formatVariantOptions } from '@/lib/product-api';
+import { useOrderEvents } from '@/lib/useOrderEvents';
 
 interface OrderProduct {
   productId: {
@@ -14,6 +19,9 @@ interface OrderProduct {
     price: number;
     description: string;
   };
+  variantId?: string;
+  sku?: string;
+  variantOptions?: VariantSelection[];
   quantity: number;
   price: number;
 }
@@ -32,24 +40,55 @@ interface Order {
     email: string;
   };
   products: OrderProduct[];
+  subtotal?: number;
+  discounts?: OrderDiscount[];
   totalAmount: number;
   status: string;
   paymentMethod: string;
-  shippingAddress: string;
+  paymentStatus?: string;
+  shippingAddress: ShippingAddress;
   orderDate: string;
   statusHistory: Array<{
     status: string;
     timestamp: string;
     updatedBy: string;
+    reason?: string;
+    isOverride?: boolean;
   }>;
+  returnRequest?: ReturnRequest;
 }
 
+const MAX_RETURN_PHOTOS = 5;
+
+// Identify an order line: the product, plus the variant for products sold in variants
+const getLineKey = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
 export default function OrderDetailsPage() {
   const params = useParams();
   const orderId = params.orderId as string;
   const [order, setOrder] = useState<Order | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnReason, setReturnReason] = useState('');
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnPhotos, setReturnPhotos] = useState<File[]>([]);
+
+  // Buyer actions are only offered to the buyer role
+  useEffect(() => {
+    const userData = localStorage.getItem('user');
+    if (userData) {
+      try {
+        setUserRole(JSON.parse(userData).role);
+      } catch {
+        setUserRole(null);
+      }
+    }
+  }, []);
 
   useEffect(() => {
     const fetchOrder = async () => {
@@ -78,6 +117,110 @@ export default function OrderDetailsPage() {
     }
   }, [orderId]);
 
+  // Pick up status changes made elsewhere (by the seller, an admin or a failed payment)
+  useOrderEvents(async message => {
+    if (message.type !== 'resync' && message.orderId !== orderId) return;
+
+    try {
+      const response = await orderApi.getOrder(orderId);
+      if (response.success && response.data) {
+        setOrder(response.data as unknown as Order);
+        if (message.type === 'order.status_changed') {
+          toast(`Order status updated to ${message.status}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error refreshing order:', error);
+    }
+  });
+
+  const getErrorMessage = (error: unknown, fallback: string) =>
+    (isAxiosError(error) && error.response?.data?.message) || fallback;
+
+  const handleCancelOrder = async () => {
+    if (!order || !confirm('Are you sure you want to cancel this order?')) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await orderApi.cancelOrder(order._id, cancelReason.trim() || undefined);
+      if (response.success && response.data) {
+        setOrder(response.data as unknown as Order);
+        toast.success('Order cancelled');
+      }
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      toast.error(getErrorMessage(error, 'Failed to cancel order'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReturnPhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > MAX_RETURN_PHOTOS) {
+      toast.error(`You can attach up to ${MAX_RETURN_PHOTOS} photos`);
+      e.target.value = '';
+      return;
+    }
+    setReturnPhotos(files);
+  };
+
+  const handleRequestReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const items = Object.entries(returnQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([lineKey, quantity]) => {
+        const [productId, variantId] = lineKey.split(':');
+        return variantId ? { productId, variantId, quantity } : { productId, quantity };
+      });
+
+    if (items.length === 0) {
+      toast.error('Select at least one item to return');
+      return;
+    }
+
+    if (returnReason.trim().length < 10) {
+      toast.error('Please describe the reason for the return (at least 10 characters)');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await orderApi.requestReturn(order._id, {
+        reason: returnReason.trim(),
+        items,
+        photos: returnPhotos
+      });
+      if (response.success && response.data) {
+        setOrder(response.data as unknown as Order);
+        setShowReturnForm(false);
+        toast.success('Return requested. The seller will review it shortly.');
+      }
+    } catch (error) {
+      console.error('Error requesting return:', error);
+      toast.error(getErrorMessage(error, 'Failed to request return'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getReturnStatusColor = (status: string) => {
+    switch (status) {
+      case 'Requested':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'Approved':
+        return 'bg-blue-100 text-blue-800';
+      case 'Refunded':
+        return 'bg-green-100 text-green-800';
+      case 'Rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Pending':
@@ -211,6 +354,12 @@ export default function OrderDetailsPage() {
                     </div>
                     <div className="flex-1 min-w-0">
                       <h3 className="text-lg font-medium text-gray-900">{item.productId.title}</h3>
+                      {item.variantOptions && (
+                        <p className="text-sm text-gray-700">
+                          {formatVariantOptions(item.variantOptions)}
+                          {item.sku && <span className="ml-2 text-gray-500">SKU {item.sku}</span>}
+                        </p>
+                      )}
                       <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
                       <p className="text-sm text-gray-600">Price: ৳{item.price.toLocaleString()} each</p>
                     </div>
@@ -232,11 +381,146 @@ export default function OrderDetailsPage() {
                     <div className="flex-1">
                       <p className="font-medium text-gray-900">{history.status}</p>
                       <p className="text-sm text-gray-600">{formatDate(history.timestamp)}</p>
+                      {history.reason && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          {history.isOverride ? 'Admin override: ' : 'Reason: '}{history.reason}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
             </div>
+
+            {/* Return Request */}
+            {order.returnRequest && (
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Return Request</h2>
+                  <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getReturnStatusColor(order.returnRequest.status)}`}>
+                    {order.returnRequest.status}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-2">{order.returnRequest.reason}</p>
+                <ul className="text-sm text-gray-700 mb-3 space-y-1">
+                  {order.returnRequest.items.map((returnItem) => {
+                    const orderItem = order.products.find(item =>
+                      item.productId._id === returnItem.productId && item.variantId === returnItem.variantId
+                    );
+                    return (
+                      <li key={getLineKey(returnItem.productId, returnItem.variantId)}>
+                        {orderItem?.productId.title || 'Product'}
+                        {orderItem?.variantOptions && ` (${formatVariantOptions(orderItem.variantOptions)})`} × {returnItem.quantity}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p className="text-sm font-medium text-gray-900 mb-3">
+                  Refund amount: ৳{order.returnRequest.refundAmount.toLocaleString()}
+                </p>
+                {order.returnRequest.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {order.returnRequest.photos.map((photo) => (
+                      <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                        <Image src={photo} alt="Return photo" width={64} height={64} className="w-16 h-16 object-cover rounded" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <div className="border-t pt-3 space-y-2">
+                  {order.returnRequest.history.map((entry, index) => (
+                    <div key={index} className="text-sm">
+                      <span className="font-medium text-gray-900">{entry.status}</span>
+                      <span className="text-gray-500"> · {formatDate(entry.timestamp)}</span>
+                      {entry.note && entry.status !== 'Requested' && (
+                        <p className="text-gray-600">{entry.note}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Return Request Form */}
+            {userRole === 'buyer' && order.status === 'Completed' && !order.returnRequest && showReturnForm && (
+              <form onSubmit={handleRequestReturn} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+                <h2 className="text-xl font-semibold text-gray-900">Request a Return</h2>
+                <div className="space-y-3">
+                  {order.products.map((item) => {
+                    const lineKey = getLineKey(item.productId._id, item.variantId);
+                    return (
+                      <div key={lineKey} className="flex items-center justify-between">
+                        <span className="text-sm text-gray-900">
+                          {item.productId.title}
+                          {item.variantOptions && (
+                            <span className="text-gray-500"> ({formatVariantOptions(item.variantOptions)})</span>
+                          )}
+                        </span>
+                        <div className="flex items-center space-x-2">
+                          <label className="text-sm text-gray-600" htmlFor={`return-${lineKey}`}>Qty</label>
+                          <input
+                            id={`return-${lineKey}`}
+                            type="number"
+                            min={0}
+                            max={item.quantity}
+                            value={returnQuantities[lineKey] || 0}
+                            onChange={(e) => setReturnQuantities(prev => ({
+                              ...prev,
+                              [lineKey]: Math.min(Math.max(Number(e.target.value) || 0, 0), item.quantity)
+                            }))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                          <span className="text-sm text-gray-500">of {item.quantity}</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="return-reason">
+                    Reason
+                  </label>
+                  <textarea
+                    id="return-reason"
+                    value={returnReason}
+                    onChange={(e) => setReturnReason(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    placeholder="Describe what is wrong with the items"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="return-photos">
+                    Photos (optional, up to {MAX_RETURN_PHOTOS})
+                  </label>
+                  <input
+                    id="return-photos"
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    multiple
+                    onChange={handleReturnPhotosChange}
+                    className="text-sm"
+                  />
+                </div>
+                <div className="flex space-x-3">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    {isSubmitting ? 'Submitting...' : 'Submit Return Request'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowReturnForm(false)}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
 
           {/* Order Summary & Details */}
@@ -247,8 +531,14 @@ export default function OrderDetailsPage() {
               <div className="space-y-3">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="font-medium">৳{order.totalAmount.toLocaleString()}</span>
+                  <span className="font-medium">৳{(order.subtotal ?? order.totalAmount).toLocaleString()}</span>
                 </div>
+                {order.discounts?.map(discount => (
+                  <div key={discount.code} className="flex justify-between text-sm">
+                    <span className="text-gray-600">Discount ({discount.code})</span>
+                    <span className="font-medium text-green-600">-৳{discount.amount.toLocaleString()}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Shipping</span>
                   <span className="font-medium text-green-600">Free</span>
@@ -271,12 +561,17 @@ export default function OrderDetailsPage() {
                   {order.buyerId.name}
                 </p>
                 <p className="text-sm">
-                  <span className="font-medium text-gray-900">Address:</span><br />
-                  {order.shippingAddress}
+                  <span className="font-medium text-gray-900">Ship To:</span><br />
+                  {order.shippingAddress.fullName}<br />
+                  {order.shippingAddress.street}<br />
+                  {[order.shippingAddress.city, order.shippingAddress.state, order.shippingAddress.zipCode].filter(Boolean).join(', ')}<br />
+                  {order.shippingAddress.country}<br />
+                  {order.shippingAddress.phone}
                 </p>
                 <p className="text-sm">
                   <span className="font-medium text-gray-900">Payment Method:</span><br />
                   {order.paymentMethod}
+                  {order.paymentStatus && order.paymentStatus !== 'Unpaid' && ` (${order.paymentStatus})`}
                 </p>
               </div>
             </div>
@@ -298,6 +593,33 @@ export default function OrderDetailsPage() {
 
             {/* Actions */}
             <div className="space-y-3">
+              {userRole === 'buyer' && order.status === 'Pending' && (
+                <div className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+                  <textarea
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value)}
+                    rows={2}
+                    maxLength={500}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    placeholder="Reason for cancelling (optional)"
+                  />
+                  <button
+                    onClick={handleCancelOrder}
+                    disabled={isSubmitting}
+                    className="w-full bg-red-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 transition-colors"
+                  >
+                    {isSubmitting ? 'Cancelling...' : 'Cancel Order'}
+                  </button>
+                </div>
+              )}
+              {userRole === 'buyer' && order.status === 'Completed' && !order.returnRequest && !showReturnForm && (
+                <button
+                  onClick={() => setShowReturnForm(true)}
+                  className="w-full bg-white border border-gray-300 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                >
+                  Request a Return
+                </button>
+              )}
               <Link
                 href="/orders"
                 className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors text-center block"
@@ -1,12 +1,22 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { toast } from 'react-hot-toast';
 import { orderApi, Order } from '../../lib/order-api';
 
-export default function OrdersPage() {
+interface OrderGroup {
+  checkoutId: string;
+  orders: Order[];
+  totalAmount: number;
+  orderDate: string;
+}
+
+function OrdersPageContent() {
+  const searchParams = useSearchParams();
+  const highlightedCheckout = searchParams.get('checkout');
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -131,6 +141,27 @@ export default function OrdersPage() {
   const resolveUser = (user: Order['buyerId'] | Order['sellerId']) =>
     typeof user === 'string' ? undefined : user;
 
+  // Orders placed in one checkout (one per seller) are shown together as a single purchase
+  const groupOrdersByCheckout = (list: Order[]): OrderGroup[] => {
+    const groups: OrderGroup[] = [];
+    for (const order of list) {
+      const key = order.checkoutId || order._id;
+      const group = groups.find(g => g.checkoutId === key);
+      if (group) {
+        group.orders.push(order);
+        group.totalAmount += order.totalAmount;
+      } else {
+        groups.push({
+          checkoutId: key,
+          orders: [order],
+          totalAmount: order.totalAmount,
+          orderDate: order.orderDate
+        });
+      }
+    }
+    return groups;
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -180,6 +211,165 @@ export default function OrdersPage() {
 
   const filteredOrders = getFilteredOrders();
 
+  const renderOrderCard = (order: Order) => {
+    const { progress, isCancelled } = getOrderStatusProgress(order.status);
+
+    return (
+      <div key={order._id} className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="p-6">
+          {/* Order Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                Order #{order.orderId}
+              </h3>
+              <p className="text-sm text-gray-600">
+                Placed on {formatDate(order.orderDate)}
+              </p>
+            </div>
+            <div className="text-right">
+              <div className="flex items-center space-x-2 mb-1">
+                {getStatusIcon(order.status)}
+                <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}>
+                  {order.status}
+                </span>
+              </div>
+              <p className="text-lg font-bold text-gray-900">
+                ৳{order.totalAmount.toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          {/* Progress Bar */}
+          <div className="mb-4">
+            <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
+              <span>Order Progress</span>
+              <span>{isCancelled ? 'Cancelled' : `${Math.round(progress)}% Complete`}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div 
+                className={`h-2 rounded-full transition-all duration-300 ${
+                  isCancelled ? 'bg-red-500' : 'bg-blue-500'
+                }`}
+                style={{ width: `${isCancelled ? 100 : progress}%` }}
+              ></div>
+            </div>
+          </div>
+
+          {/* Order Items Preview */}
+          <div className="mb-4">
+            <div className="flex items-center space-x-4">
+              <div className="flex -space-x-2">
+                {order.products.slice(0, 3).map((item, index) => {
+                  const productDetails = resolveProduct(item.productId);
+
+                  return (
+                    <div key={index} className="w-10 h-10 bg-gray-200 rounded-lg overflow-hidden border-2 border-white">
+                      {productDetails?.images && productDetails.images.length > 0 ? (
+                        <Image
+                          src={productDetails.images[0]}
+                          alt={productDetails.title || 'Product'}
+                          width={40}
+                          height={40}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-gray-400">
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                          </svg>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {order.products.length > 3 && (
+                  <div className="w-10 h-10 bg-gray-100 rounded-lg border-2 border-white flex items-center justify-center">
+                    <span className="text-xs font-medium text-gray-600">+{order.products.length - 3}</span>
+                  </div>
+                )}
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {order.products.length} item{order.products.length > 1 ? 's' : ''}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {(() => {
+                    const firstProduct = order.products[0]
+                      ? resolveProduct(order.products[0].productId)
+                      : undefined;
+                    return firstProduct?.title || 'Product';
+                  })()}
+                  {order.products.length > 1 && ` and ${order.products.length - 1} more`}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Seller Info */}
+          <div className="bg-gray-50 rounded-lg p-3 mb-4">
+            <div className="flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium text-gray-700">Seller:</span>{' '}
+                {resolveUser(order.sellerId)?.name || 'N/A'}
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">Payment:</span> {order.paymentMethod}
+                {order.paymentStatus && order.paymentStatus !== 'Unpaid' && ` (${order.paymentStatus})`}
+              </div>
+            </div>
+          </div>
+
+          {/* Latest Status Update */}
+          {order.statusHistory && order.statusHistory.length > 0 && (
+            <div className="mb-4">
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span>
+                  Last updated: {formatDate(order.statusHistory[order.statusHistory.length - 1].timestamp)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-between pt-4 border-t">
+            <Link
+              href={`/orders/${order.orderId}`}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              Track Order
+            </Link>
+
+            <div className="flex items-center space-x-2">
+              {order.status === 'Completed' && (
+                <button className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors">
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+                  </svg>
+                  Rate & Review
+                </button>
+              )}
+
+              <button className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                </svg>
+                Contact Seller
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-6xl mx-auto px-4">
@@ -265,166 +455,54 @@ export default function OrdersPage() {
           </div>
         ) : (
           <div className="space-y-6">
-            {filteredOrders.map((order) => {
-              const { progress, isCancelled } = getOrderStatusProgress(order.status);
-              
-              return (
-                <div key={order._id} className="bg-white rounded-lg shadow-sm overflow-hidden">
-                  <div className="p-6">
-                    {/* Order Header */}
-                    <div className="flex items-center justify-between mb-4">
-                      <div>
-                        <h3 className="text-lg font-semibold text-gray-900">
-                          Order #{order.orderId}
-                        </h3>
-                        <p className="text-sm text-gray-600">
-                          Placed on {formatDate(order.orderDate)}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <div className="flex items-center space-x-2 mb-1">
-                          {getStatusIcon(order.status)}
-                          <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}>
-                            {order.status}
-                          </span>
-                        </div>
-                        <p className="text-lg font-bold text-gray-900">
-                          ৳{order.totalAmount.toLocaleString()}
-                        </p>
-                      </div>
-                    </div>
-
-                    {/* Progress Bar */}
-                    <div className="mb-4">
-                      <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
-                        <span>Order Progress</span>
-                        <span>{isCancelled ? 'Cancelled' : `${Math.round(progress)}% Complete`}</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div 
-                          className={`h-2 rounded-full transition-all duration-300 ${
-                            isCancelled ? 'bg-red-500' : 'bg-blue-500'
-                          }`}
-                          style={{ width: `${isCancelled ? 100 : progress}%` }}
-                        ></div>
-                      </div>
-                    </div>
-
-                    {/* Order Items Preview */}
-                    <div className="mb-4">
-                      <div className="flex items-center space-x-4">
-                        <div className="flex -space-x-2">
-                          {order.products.slice(0, 3).map((item, index) => {
-                            const productDetails = resolveProduct(item.productId);
-
-                            return (
-                              <div key={index} className="w-10 h-10 bg-gray-200 rounded-lg overflow-hidden border-2 border-white">
-                                {productDetails?.images && productDetails.images.length > 0 ? (
-                                  <Image
-                                    src={productDetails.images[0]}
-                                    alt={productDetails.title || 'Product'}
-                                    width={40}
-                                    height={40}
-                                    className="w-full h-full object-cover"
-                                  />
-                                ) : (
-                                  <div className="w-full h-full flex items-center justify-center text-gray-400">
-                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                                    </svg>
-                                  </div>
-                                )}
-                              </div>
-                            );
-                          })}
-                          {order.products.length > 3 && (
-                            <div className="w-10 h-10 bg-gray-100 rounded-lg border-2 border-white flex items-center justify-center">
-                              <span className="text-xs font-medium text-gray-600">+{order.products.length - 3}</span>
-                            </div>
-                          )}
-                        </div>
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-gray-900">
-                            {order.products.length} item{order.products.length > 1 ? 's' : ''}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            {(() => {
-                              const firstProduct = order.products[0]
-                                ? resolveProduct(order.products[0].productId)
-                                : undefined;
-                              return firstProduct?.title || 'Product';
-                            })()}
-                            {order.products.length > 1 && ` and ${order.products.length - 1} more`}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Seller Info */}
-                    <div className="bg-gray-50 rounded-lg p-3 mb-4">
-                      <div className="flex items-center justify-between text-sm">
-                        <div>
-                          <span className="font-medium text-gray-700">Seller:</span>{' '}
-                          {resolveUser(order.sellerId)?.name || 'N/A'}
-                        </div>
-                        <div>
-                          <span className="font-medium text-gray-700">Payment:</span> {order.paymentMethod}
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Latest Status Update */}
-                    {order.statusHistory && order.statusHistory.length > 0 && (
-                      <div className="mb-4">
-                        <div className="flex items-center space-x-2 text-sm text-gray-600">
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                          </svg>
-                          <span>
-                            Last updated: {formatDate(order.statusHistory[order.statusHistory.length - 1].timestamp)}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Action Buttons */}
-                    <div className="flex items-center justify-between pt-4 border-t">
-                      <Link
-                        href={`/orders/${order.orderId}`}
-                        className="inline-flex items-center px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
-                      >
-                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                        </svg>
-                        Track Order
-                      </Link>
-
-                      <div className="flex items-center space-x-2">
-                        {order.status === 'Completed' && (
-                          <button className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors">
-                            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
-                            </svg>
-                            Rate & Review
-                          </button>
-                        )}
-                        
-                        <button className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors">
-                          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                          </svg>
-                          Contact Seller
-                        </button>
-                      </div>
+            {groupOrdersByCheckout(filteredOrders).map((group) =>
+              group.orders.length === 1 ? (
+                renderOrderCard(group.orders[0])
+              ) : (
+                <div
+                  key={group.checkoutId}
+                  className={`rounded-lg border-2 p-4 ${
+                    group.checkoutId === highlightedCheckout ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-gray-100'
+                  }`}
+                >
+                  {/* Purchase Header */}
+                  <div className="flex items-center justify-between mb-4 px-2">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">
+                        Purchase #{group.checkoutId}
+                      </h2>
+                      <p className="text-sm text-gray-600">
+                        Placed on {formatDate(group.orderDate)} · {group.orders.length} sellers
+                      </p>
                     </div>
+                    <p className="text-lg font-bold text-gray-900">
+                      ৳{group.totalAmount.toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="space-y-4">
+                    {group.orders.map(renderOrderCard)}
                   </div>
                 </div>
-              );
-            })}
+              )
+            )}
           </div>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function OrdersPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading orders...</p>
+        </div>
+      </div>
+    }>
+      <OrdersPageContent />
+    </Suspense>
+  );
+}
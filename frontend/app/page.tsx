@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { productApi, Product } from '../lib/product-api'
+import { useCategories } from '../lib/useCategories'
 import ProductCard from '../components/products/ProductCard'
 import { toast } from 'react-hot-toast'
 
@@ -26,25 +27,15 @@ export default function HomePage() {
   
   // Filter states
   const [selectedCategory, setSelectedCategory] = useState<string>('')
-  const [sortBy, setSortBy] = useState<'price' | 'createdAt'>('createdAt')
+  const [sortBy, setSortBy] = useState<'price' | 'createdAt' | 'rating'>('createdAt')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [currentPage, setCurrentPage] = useState(1)
   const [searchQuery, setSearchQuery] = useState<string>('')
   const [searchInput, setSearchInput] = useState<string>('')
 
-  // Available categories (you can make this dynamic by fetching from backend)
-  const categories = [
-    'Electronics',
-    'Clothing',
-    'Books',
-    'Home & Garden',
-    'Sports',
-    'Toys',
-    'Beauty',
-    'Automotive',
-    'Food',
-    'Other'
-  ]
+  // Top-level categories for the quick filter; subcategories are browsable on the search page
+  const { categories } = useCategories()
+  const selectedCategoryName = categories.find(category => category.slug === selectedCategory)?.name || selectedCategory
 
   // Fetch products
   const fetchProducts = async (page: number = 1) => {
@@ -113,7 +104,7 @@ export default function HomePage() {
   }
 
   // Handle sort change
-  const handleSortChange = (newSortBy: 'price' | 'createdAt', newSortOrder: 'asc' | 'desc') => {
+  const handleSortChange = (newSortBy: 'price' | 'createdAt' | 'rating', newSortOrder: 'asc' | 'desc') => {
     setSortBy(newSortBy)
     setSortOrder(newSortOrder)
   }
@@ -245,15 +236,16 @@ export default function HomePage() {
               </button>
               {categories.map((category) => (
                 <button
-                  key={category}
-                  onClick={() => handleCategoryChange(category)}
+                  key={category._id}
+                  onClick={() => handleCategoryChange(category.slug)}
                   className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
-                    selectedCategory === category
+                    selectedCategory === category.slug
                       ? 'bg-blue-600 text-white'
                       : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                   }`}
                 >
-                  {category}
+                  {category.icon && <span className="mr-1">{category.icon}</span>}
+                  {category.name}
                 </button>
               ))}
             </div>
@@ -266,7 +258,7 @@ export default function HomePage() {
             <select
               value={`${sortBy}-${sortOrder}`}
               onChange={(e) => {
-                const [newSortBy, newSortOrder] = e.target.value.split('-') as ['price' | 'createdAt', 'asc' | 'desc']
+                const [newSortBy, newSortOrder] = e.target.value.split('-') as ['price' | 'createdAt' | 'rating', 'asc' | 'desc']
                 handleSortChange(newSortBy, newSortOrder)
               }}
               className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -275,6 +267,7 @@ export default function HomePage() {
               <option value="createdAt-asc">Oldest First</option>
               <option value="price-asc">Price: Low to High</option>
               <option value="price-desc">Price: High to Low</option>
+              <option value="rating-desc">Top Rated</option>
             </select>
 
             {pagination && (
@@ -384,7 +377,7 @@ export default function HomePage() {
                 {searchQuery 
                   ? `No products found for "${searchQuery}".`
                   : selectedCategory 
-                    ? `No products found in "${selectedCategory}" category.`
+                    ? `No products found in "${selectedCategoryName}" category.`
                     : 'No products available at the moment.'
                 }
               </p>
@@ -4,8 +4,14 @@ import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Image from 'next/image'
 import Link from 'next/link'
-import { productApi, Product } from '../../../lib/product-api'
+import { productApi, Product, findVariantBySelection } from '../../../lib/product-api'
+import { getCategoryName } from '../../../lib/category-api'
 import { toast } from 'react-hot-toast'
+import StarRating from '../../../components/products/StarRating'
+import ProductReviews from '../../../components/products/ProductReviews'
+import VariantSelector from '../../../components/products/VariantSelector'
+import AddToCartButton from '../../../components/cart/AddToCartButton'
+import WishlistButton from '../../../components/wishlists/WishlistButton'
 
 interface ProductWithSeller extends Product {
   seller?: {
@@ -26,7 +32,8 @@ export default function ProductDetailPage() {
   const [selectedImageIndex, setSelectedImageIndex] = useState(0)
   const [imageError, setImageError] = useState<boolean[]>([])
   const [quantity, setQuantity] = useState(1)
-  const [addingToCart, setAddingToCart] = useState(false)
+  // Chosen value for each variant option, keyed by option name
+  const [selection, setSelection] = useState<Record<string, string>>({})
 
   // Fetch product details
   useEffect(() => {
@@ -67,22 +74,10 @@ export default function ProductDetailPage() {
     })
   }
 
-  // Handle add to cart
-  const handleAddToCart = async () => {
-    if (!product) return
-
-    try {
-      setAddingToCart(true)
-      // TODO: Implement actual cart functionality in task 8
-      // For now, just show success message
-      toast.success(`Added ${quantity} ${product.title}${quantity > 1 ? 's' : ''} to cart!`)
-      console.log('Add to cart:', { productId: product._id, quantity })
-    } catch (err: any) {
-      console.error('Error adding to cart:', err)
-      toast.error('Failed to add to cart')
-    } finally {
-      setAddingToCart(false)
-    }
+  // Pick a variant option value; the gallery restarts at the variant's first photo
+  const handleSelectOption = (name: string, value: string) => {
+    setSelection(prev => ({ ...prev, [name]: value }))
+    setSelectedImageIndex(0)
   }
 
   // Format price
@@ -144,6 +139,13 @@ export default function ProductDetailPage() {
     )
   }
 
+  const hasVariants = (product.variants?.length ?? 0) > 0
+  const selectedVariant = findVariantBySelection(product.variants, selection)
+  const price = selectedVariant?.price ?? product.price
+  // Show the chosen variant's own photos when it has any
+  const images = selectedVariant && selectedVariant.images.length > 0 ? selectedVariant.images : product.images
+  const activeImage = Math.min(selectedImageIndex, Math.max((images?.length || 0) - 1, 0))
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-8">
@@ -165,14 +167,14 @@ export default function ProductDetailPage() {
           <div className="space-y-4">
             {/* Main Image */}
             <div className="aspect-square bg-white rounded-lg shadow-sm overflow-hidden">
-              {product.images && product.images.length > 0 && !imageError[selectedImageIndex] ? (
+              {images && images.length > 0 && !imageError[activeImage] ? (
                 <Image
-                  src={product.images[selectedImageIndex]}
+                  src={images[activeImage]}
                   alt={product.title}
                   width={600}
                   height={600}
                   className="w-full h-full object-cover"
-                  onError={() => handleImageError(selectedImageIndex)}
+                  onError={() => handleImageError(activeImage)}
                 />
               ) : (
                 <div className="w-full h-full bg-gray-200 flex items-center justify-center">
@@ -184,14 +186,14 @@ export default function ProductDetailPage() {
             </div>
 
             {/* Thumbnail Images */}
-            {product.images && product.images.length > 1 && (
+            {images && images.length > 1 && (
               <div className="flex gap-2 overflow-x-auto">
-                {product.images.map((image, index) => (
+                {images.map((image, index) => (
                   <button
                     key={index}
                     onClick={() => setSelectedImageIndex(index)}
                     className={`flex-shrink-0 w-20 h-20 rounded-md overflow-hidden border-2 transition-colors ${
-                      selectedImageIndex === index
+                      activeImage === index
                         ? 'border-blue-600'
                         : 'border-gray-200 hover:border-gray-300'
                     }`}
@@ -223,23 +225,56 @@ export default function ProductDetailPage() {
             {/* Title and Category */}
             <div>
               <div className="flex items-center gap-2 mb-2">
-                <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                  {product.category}
-                </span>
+                {product.category ? (
+                  <Link
+                    href={`/search?category=${product.category.slug}`}
+                    className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full hover:bg-blue-200"
+                  >
+                    {product.category.icon && <span className="mr-1">{product.category.icon}</span>}
+                    {product.category.name}
+                  </Link>
+                ) : (
+                  <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                    {getCategoryName(product.category)}
+                  </span>
+                )}
                 {!product.isActive && (
                   <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">
                     Unavailable
                   </span>
                 )}
               </div>
-              <h1 className="text-3xl font-bold text-gray-900 mb-2">
-                {product.title}
-              </h1>
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                  {product.title}
+                </h1>
+                {product.isActive && (
+                  <WishlistButton productId={product._id} variantId={selectedVariant?._id} showLabel className="mt-2 shrink-0" />
+                )}
+              </div>
+              <div className="mb-2">
+                <StarRating rating={product.averageRating || 0} reviewCount={product.reviewCount || 0} size="md" />
+              </div>
               <p className="text-4xl font-bold text-green-600">
-                {formatPrice(product.price)}
+                {formatPrice(price)}
               </p>
+              {selectedVariant && (
+                <p className="mt-1 text-sm text-gray-500">
+                  SKU {selectedVariant.sku} · {selectedVariant.stock > 0 ? `${selectedVariant.stock} in stock` : 'Out of stock'}
+                </p>
+              )}
             </div>
 
+            {/* Variant Options */}
+            {hasVariants && product.variantOptions && (
+              <VariantSelector
+                variantOptions={product.variantOptions}
+                variants={product.variants || []}
+                selection={selection}
+                onChange={handleSelectOption}
+              />
+            )}
+
             {/* Description */}
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">Description</h3>
@@ -321,29 +356,7 @@ export default function ProductDetailPage() {
                   </div>
                 </div>
 
-                <div className="flex gap-4">
-                  <button
-                    onClick={handleAddToCart}
-                    disabled={addingToCart}
-                    className={`flex-1 py-3 px-6 rounded-lg font-medium transition-colors ${
-                      addingToCart
-                        ? 'bg-gray-400 text-white cursor-not-allowed'
-                        : 'bg-blue-600 text-white hover:bg-blue-700'
-                    }`}
-                  >
-                    {addingToCart ? (
-                      <span className="flex items-center justify-center">
-                        <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Adding to Cart...
-                      </span>
-                    ) : (
-                      `Add ${quantity} to Cart - ${formatPrice(product.price * quantity)}`
-                    )}
-                  </button>
-                </div>
+                <AddToCartButton product={product} variant={selectedVariant} quantity={quantity} />
 
                 <p className="text-sm text-gray-600 mt-3">
                   <span className="font-medium">Payment:</span> Cash on Delivery available
@@ -370,6 +383,9 @@ export default function ProductDetailPage() {
           </div>
         </div>
 
+        {/* Reviews */}
+        <ProductReviews productId={product._id} sellerId={product.seller?._id || product.sellerId} />
+
         {/* Back to Products */}
         <div className="mt-12 text-center">
           <Link
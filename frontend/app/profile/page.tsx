@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
+import { authApi, User, UserSession } from '@/lib/auth-api';
+import { ChangePasswordForm } from '@/components/auth';
+import { AddressBook } from '@/components/addresses';
+import { NotificationPreferencesForm } from '@/components/notifications';
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const [user, setUser] = useState<User | null>(null);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    const userData = localStorage.getItem('user');
+    if (!localStorage.getItem('token') || !userData) {
+      router.push('/auth/login');
+      return;
+    }
+
+    try {
+      setUser(JSON.parse(userData));
+    } catch {
+      router.push('/auth/login');
+      return;
+    }
+
+    fetchSessions();
+  }, [router]);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authApi.getSessions();
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast.error('Failed to load active sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: UserSession) => {
+    if (session.isCurrent && !confirm('This will sign you out on this device. Continue?')) return;
+
+    try {
+      setRevokingId(session._id);
+      await authApi.revokeSession(session._id);
+
+      if (session.isCurrent) {
+        localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
+        localStorage.removeItem('user');
+        router.push('/auth/login');
+        return;
+      }
+
+      toast.success('Session revoked');
+      setSessions(prev => prev.filter(s => s._id !== session._id));
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out of all other devices?')) return;
+
+    try {
+      setRevokingId('others');
+      const response = await authApi.revokeOtherSessions();
+      toast.success(response.message || 'Other sessions revoked');
+      setSessions(prev => prev.filter(s => s.isCurrent));
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to revoke sessions');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResending(true);
+      const response = await authApi.resendVerification();
+      toast.success(response.message || 'Verification email sent');
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to send verification email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // Short, human readable device description from the user agent
+  const describeDevice = (userAgent?: string) => {
+    if (!userAgent) return 'Unknown device';
+
+    const browser = ['Edg', 'Chrome', 'Firefox', 'Safari'].find(name => userAgent.includes(name));
+    const os = ['Windows', 'Mac OS', 'Android', 'iPhone', 'Linux'].find(name => userAgent.includes(name));
+    const browserName = browser === 'Edg' ? 'Edge' : browser;
+
+    return [browserName || 'Browser', os && `on ${os}`].filter(Boolean).join(' ');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-3xl mx-auto px-4">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-300 rounded w-48"></div>
+            <div className="h-32 bg-white rounded-lg shadow-sm"></div>
+            <div className="h-48 bg-white rounded-lg shadow-sm"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">My Profile</h1>
+
+        {/* Account Details */}
+        {user && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Account</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <span className="block font-medium text-gray-700">Name</span>
+                {user.name}
+              </div>
+              <div>
+                <span className="block font-medium text-gray-700">Email</span>
+                {user.email}
+              </div>
+              <div>
+                <span className="block font-medium text-gray-700">Role</span>
+                <span className="capitalize">{user.role}</span>
+              </div>
+            </div>
+
+            {/* Email Verification */}
+            {user.emailVerified === false && (
+              <div className="mt-4 flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm">
+                <span className="text-yellow-800">
+                  Your email address is not verified.
+                  {user.role === 'seller' && ' Verify it to start listing products.'}
+                </span>
+                <button
+                  onClick={handleResendVerification}
+                  disabled={isResending}
+                  className="ml-4 px-3 py-1 text-sm text-yellow-800 border border-yellow-300 rounded-lg hover:bg-yellow-100 disabled:opacity-50 transition-colors"
+                >
+                  {isResending ? 'Sending...' : 'Resend email'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Address Book (anyone who can place orders) */}
+        {user?.permissions?.includes('order:create') && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Saved Addresses</h2>
+            <AddressBook />
+          </div>
+        )}
+
+        {/* Notification Preferences */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Notifications</h2>
+          <NotificationPreferencesForm />
+        </div>
+
+        {/* Change Password */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Change Password</h2>
+          <div className="max-w-sm">
+            <ChangePasswordForm onChanged={fetchSessions} />
+          </div>
+        </div>
+
+        {/* Active Sessions */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Active Sessions</h2>
+            {sessions.some(s => !s.isCurrent) && (
+              <button
+                onClick={handleRevokeOthers}
+                disabled={revokingId !== null}
+                className="px-4 py-2 text-sm bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                Sign out other devices
+              </button>
+            )}
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-600">No active sessions found.</p>
+          ) : (
+            <ul className="divide-y">
+              {sessions.map((session) => (
+                <li key={session._id} className="py-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {describeDevice(session.userAgent)}
+                      {session.isCurrent && (
+                        <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 text-xs font-medium rounded">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {session.ipAddress || 'Unknown IP'} · Last active {formatDate(session.lastUsedAt)}
+                    </p>
+                    <p className="text-xs text-gray-500">Signed in {formatDate(session.createdAt)}</p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={revokingId !== null}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                  >
+                    {revokingId === session._id ? 'Revoking...' : session.isCurrent ? 'Sign out' : 'Revoke'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,22 +2,19 @@
 
 import { useState, useEffect, Suspense } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
-import { productApi, Product } from '../../lib/product-api'
+import { productApi, Product, ProductFilters, Pagination, SearchFacets } from '../../lib/product-api'
+import { getCategoryPath } from '../../lib/category-api'
+import { useCategories } from '../../lib/useCategories'
 import ProductCard from '../../components/products/ProductCard'
+import SearchAutocomplete from '../../components/products/SearchAutocomplete'
+import CategoryTree from '../../components/categories/CategoryTree'
 import { toast } from 'react-hot-toast'
 import Link from 'next/link'
 
-interface ProductsResponse {
-  products: Product[]
-  pagination: {
-    currentPage: number
-    totalPages: number
-    totalCount: number
-    hasNextPage: boolean
-    hasPrevPage: boolean
-    limit: number
-  }
-}
+type SortField = NonNullable<ProductFilters['sortBy']>
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(price)
 
 function SearchPageContent() {
   const searchParams = useSearchParams()
@@ -26,31 +23,30 @@ function SearchPageContent() {
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [pagination, setPagination] = useState<ProductsResponse['pagination'] | null>(null)
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
   
   // Search and filter states
   const [searchQuery, setSearchQuery] = useState<string>(searchParams.get('q') || '')
   const [searchInput, setSearchInput] = useState<string>(searchParams.get('q') || '')
+  // Category slug; results include its subcategories
   const [selectedCategory, setSelectedCategory] = useState<string>(searchParams.get('category') || '')
   const [minPrice, setMinPrice] = useState<string>(searchParams.get('minPrice') || '')
   const [maxPrice, setMaxPrice] = useState<string>(searchParams.get('maxPrice') || '')
-  const [sortBy, setSortBy] = useState<'price' | 'createdAt'>((searchParams.get('sortBy') as 'price' | 'createdAt') || 'createdAt')
+  const [sellerId, setSellerId] = useState<string>(searchParams.get('sellerId') || '')
+  const [minRating, setMinRating] = useState<string>(searchParams.get('minRating') || '')
+  // Best match orders searches by relevance and falls back to newest first
+  const [sortBy, setSortBy] = useState<SortField>((searchParams.get('sortBy') as SortField) || 'relevance')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>((searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc')
   const [currentPage, setCurrentPage] = useState(parseInt(searchParams.get('page') || '1'))
 
-  // Available categories
-  const categories = [
-    'Electronics',
-    'Clothing',
-    'Books',
-    'Home & Garden',
-    'Sports',
-    'Toys',
-    'Beauty',
-    'Automotive',
-    'Food',
-    'Other'
-  ]
+  // Category tree for browsing, and the path to the selected category for breadcrumbs
+  const { categories } = useCategories()
+  const categoryPath = getCategoryPath(categories, selectedCategory)
+  const categoryCounts = facets
+    ? Object.fromEntries(facets.categories.map(category => [category._id, category.count]))
+    : undefined
+  const selectedSeller = facets?.sellers.find(seller => seller._id === sellerId)
 
   // Update URL with current search parameters
   const updateURL = (params: Record<string, string>) => {
@@ -72,7 +68,7 @@ function SearchPageContent() {
       setLoading(true)
       setError(null)
 
-      const filters: any = {
+      const filters: ProductFilters = {
         page,
         limit: 12,
         sortBy,
@@ -83,34 +79,21 @@ function SearchPageContent() {
       if (selectedCategory) filters.category = selectedCategory
       if (minPrice) filters.minPrice = parseFloat(minPrice)
       if (maxPrice) filters.maxPrice = parseFloat(maxPrice)
+      if (sellerId) filters.sellerId = sellerId
+      if (minRating) filters.minRating = parseInt(minRating)
 
-      const response = await productApi.getProducts(filters)
+      const response = await productApi.searchProducts(filters)
       
       if (response.success && response.data) {
-        // Check if response.data has pagination property (indicating it's a paginated response)
-        if (typeof response.data === 'object' && 'products' in response.data && 'pagination' in response.data) {
-          const data = response.data as ProductsResponse
-          setProducts(data.products)
-          setPagination(data.pagination)
-        } else {
-          // Handle case where data is just an array of products
-          const products = Array.isArray(response.data) ? response.data : [response.data]
-          setProducts(products)
-          setPagination({
-            currentPage: 1,
-            totalPages: 1,
-            totalCount: products.length,
-            hasNextPage: false,
-            hasPrevPage: false,
-            limit: products.length
-          })
-        }
+        setProducts(response.data.products)
+        setPagination(response.data.pagination)
+        setFacets(response.data.facets)
       } else {
         throw new Error(response.message || 'Failed to fetch products')
       }
     } catch (err: any) {
       console.error('Error fetching products:', err)
-      setError(err.message || 'Failed to load search results')
+      setError(err.response?.data?.message || err.message || 'Failed to load search results')
       toast.error('Failed to load search results')
     } finally {
       setLoading(false)
@@ -128,11 +111,13 @@ function SearchPageContent() {
       category: selectedCategory,
       minPrice,
       maxPrice,
+      sellerId,
+      minRating,
       sortBy,
       sortOrder: sortOrder,
       page: '1'
     })
-  }, [searchQuery, selectedCategory, minPrice, maxPrice, sortBy, sortOrder])
+  }, [searchQuery, selectedCategory, minPrice, maxPrice, sellerId, minRating, sortBy, sortOrder])
 
   // Load products when page changes
   useEffect(() => {
@@ -143,6 +128,8 @@ function SearchPageContent() {
         category: selectedCategory,
         minPrice,
         maxPrice,
+        sellerId,
+        minRating,
         sortBy,
         sortOrder: sortOrder,
         page: currentPage.toString()
@@ -150,10 +137,10 @@ function SearchPageContent() {
     }
   }, [currentPage])
 
-  // Handle search form submission
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault()
-    setSearchQuery(searchInput.trim())
+  // Pick a price facet range; ranges include their lower bound but not their upper one
+  const selectPriceRange = (range: SearchFacets['priceRanges'][number]) => {
+    setMinPrice(range.min ? String(range.min) : '')
+    setMaxPrice(range.max ? (range.max - 0.01).toFixed(2) : '')
   }
 
   // Clear all filters
@@ -163,7 +150,9 @@ function SearchPageContent() {
     setSelectedCategory('')
     setMinPrice('')
     setMaxPrice('')
-    setSortBy('createdAt')
+    setSellerId('')
+    setMinRating('')
+    setSortBy('relevance')
     setSortOrder('desc')
     setCurrentPage(1)
   }
@@ -221,25 +210,13 @@ function SearchPageContent() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Search
                 </label>
-                <form onSubmit={handleSearch}>
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      value={searchInput}
-                      onChange={(e) => setSearchInput(e.target.value)}
-                      placeholder="Product name..."
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    />
-                    <button
-                      type="submit"
-                      className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                      </svg>
-                    </button>
-                  </div>
-                </form>
+                <SearchAutocomplete
+                  value={searchInput}
+                  onChange={setSearchInput}
+                  onSubmit={setSearchQuery}
+                  onSelectCategory={setSelectedCategory}
+                  placeholder="Product name..."
+                />
               </div>
 
               {/* Category Filter */}
@@ -247,18 +224,12 @@ function SearchPageContent() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Category
                 </label>
-                <select
-                  value={selectedCategory}
-                  onChange={(e) => setSelectedCategory(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                >
-                  <option value="">All Categories</option>
-                  {categories.map((category) => (
-                    <option key={category} value={category}>
-                      {category}
-                    </option>
-                  ))}
-                </select>
+                <CategoryTree
+                  categories={categories}
+                  selected={selectedCategory}
+                  onSelect={setSelectedCategory}
+                  counts={categoryCounts}
+                />
               </div>
 
               {/* Price Range */}
@@ -286,8 +257,85 @@ function SearchPageContent() {
                     className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
                 </div>
+                {facets && facets.priceRanges.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {facets.priceRanges.map(range => (
+                      <li key={range.min}>
+                        <button
+                          onClick={() => selectPriceRange(range)}
+                          className="w-full flex items-center justify-between px-2 py-1 rounded-md text-sm text-left text-gray-700 hover:bg-gray-50"
+                        >
+                          <span>
+                            {range.max ? `${formatPrice(range.min)} – ${formatPrice(range.max)}` : `${formatPrice(range.min)} & above`}
+                          </span>
+                          <span className="text-xs text-gray-400">{range.count}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
+              {/* Rating */}
+              {facets && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Customer Rating
+                  </label>
+                  <ul className="space-y-1">
+                    {facets.ratings.map(rating => {
+                      const isSelected = minRating === String(rating.minRating)
+                      return (
+                        <li key={rating.minRating}>
+                          <button
+                            onClick={() => setMinRating(isSelected ? '' : String(rating.minRating))}
+                            aria-pressed={isSelected}
+                            className={`w-full flex items-center justify-between px-2 py-1 rounded-md text-sm text-left transition-colors ${
+                              isSelected ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <span>
+                              <span className="text-yellow-400">{'★'.repeat(rating.minRating)}</span>
+                              <span className="text-gray-300">{'★'.repeat(5 - rating.minRating)}</span>
+                              {' '}& up
+                            </span>
+                            <span className="text-xs text-gray-400">{rating.count}</span>
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {/* Seller */}
+              {facets && facets.sellers.length > 0 && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Seller
+                  </label>
+                  <ul className="space-y-1">
+                    {facets.sellers.map(seller => {
+                      const isSelected = seller._id === sellerId
+                      return (
+                        <li key={seller._id}>
+                          <button
+                            onClick={() => setSellerId(isSelected ? '' : seller._id)}
+                            aria-pressed={isSelected}
+                            className={`w-full flex items-center justify-between px-2 py-1 rounded-md text-sm text-left transition-colors ${
+                              isSelected ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <span className="truncate">{seller.name}</span>
+                            <span className="text-xs text-gray-400">{seller.count}</span>
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </div>
+              )}
+
               {/* Sort Options */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -296,16 +344,18 @@ function SearchPageContent() {
                 <select
                   value={`${sortBy}-${sortOrder}`}
                   onChange={(e) => {
-                    const [newSortBy, newSortOrder] = e.target.value.split('-') as ['price' | 'createdAt', 'asc' | 'desc']
+                    const [newSortBy, newSortOrder] = e.target.value.split('-') as [SortField, 'asc' | 'desc']
                     setSortBy(newSortBy)
                     setSortOrder(newSortOrder)
                   }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
+                  <option value="relevance-desc">Best Match</option>
                   <option value="createdAt-desc">Newest First</option>
                   <option value="createdAt-asc">Oldest First</option>
                   <option value="price-asc">Price: Low to High</option>
                   <option value="price-desc">Price: High to Low</option>
+                  <option value="rating-desc">Top Rated</option>
                 </select>
               </div>
 
@@ -329,7 +379,9 @@ function SearchPageContent() {
                 )}
                 {selectedCategory && (
                   <div className="flex items-center justify-between bg-green-50 px-3 py-2 rounded-md">
-                    <span className="text-sm text-green-700">Category: {selectedCategory}</span>
+                    <span className="text-sm text-green-700">
+                      Category: {categoryPath[categoryPath.length - 1]?.name || selectedCategory}
+                    </span>
                     <button
                       onClick={() => setSelectedCategory('')}
                       className="text-green-600 hover:text-green-800"
@@ -340,6 +392,32 @@ function SearchPageContent() {
                     </button>
                   </div>
                 )}
+                {sellerId && (
+                  <div className="flex items-center justify-between bg-yellow-50 px-3 py-2 rounded-md">
+                    <span className="text-sm text-yellow-700">Seller: {selectedSeller?.name || 'Selected seller'}</span>
+                    <button
+                      onClick={() => setSellerId('')}
+                      className="text-yellow-600 hover:text-yellow-800"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                )}
+                {minRating && (
+                  <div className="flex items-center justify-between bg-orange-50 px-3 py-2 rounded-md">
+                    <span className="text-sm text-orange-700">Rating: {minRating}★ & up</span>
+                    <button
+                      onClick={() => setMinRating('')}
+                      className="text-orange-600 hover:text-orange-800"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                )}
                 {(minPrice || maxPrice) && (
                   <div className="flex items-center justify-between bg-purple-50 px-3 py-2 rounded-md">
                     <span className="text-sm text-purple-700">
@@ -366,6 +444,25 @@ function SearchPageContent() {
           <div className="lg:col-span-3">
             {/* Results Header */}
             <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
+              {categoryPath.length > 0 && (
+                <nav aria-label="Breadcrumb" className="flex flex-wrap items-center gap-1 text-sm mb-2">
+                  <button onClick={() => setSelectedCategory('')} className="text-blue-600 hover:text-blue-800">
+                    All Categories
+                  </button>
+                  {categoryPath.map((category, index) => (
+                    <span key={category._id} className="flex items-center gap-1">
+                      <span className="text-gray-400">/</span>
+                      {index === categoryPath.length - 1 ? (
+                        <span className="font-medium text-gray-900">{category.name}</span>
+                      ) : (
+                        <button onClick={() => setSelectedCategory(category.slug)} className="text-blue-600 hover:text-blue-800">
+                          {category.name}
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </nav>
+              )}
               <div className="flex items-center justify-between">
                 <div>
                   {pagination && (
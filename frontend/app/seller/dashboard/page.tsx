@@ -0,0 +1,293 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { authApi } from '../../../lib/auth-api'
+import { sellerApi, SellerAnalytics, AnalyticsInterval, TopProduct } from '../../../lib/seller-api'
+
+const RANGE_PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 }
+]
+
+const FUNNEL_COLORS: Record<string, string> = {
+  'Pending': 'bg-yellow-400',
+  'Processing': 'bg-blue-400',
+  'Out for Delivery': 'bg-purple-400',
+  'Completed': 'bg-green-500',
+  'Cancelled': 'bg-red-400'
+}
+
+// YYYY-MM-DD for a date `daysAgo` days before today
+const toDateInput = (daysAgo = 0) => {
+  const date = new Date()
+  date.setDate(date.getDate() - daysAgo)
+  return date.toISOString().slice(0, 10)
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount)
+}
+
+const formatDuration = (hours: number | null) => {
+  if (hours === null) return '—'
+  if (hours < 48) return `${hours.toFixed(1)} hours`
+  return `${(hours / 24).toFixed(1)} days`
+}
+
+function TopProductsTable({ title, products, metric }: { title: string; products: TopProduct[]; metric: 'units' | 'revenue' }) {
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+      {products.length === 0 ? (
+        <p className="text-sm text-gray-500">No completed sales in this period</p>
+      ) : (
+        <ol className="space-y-3">
+          {products.map((product, index) => (
+            <li key={product.productId} className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="text-gray-400 w-4">{index + 1}</span>
+                <Link href={`/products/${product.productId}`} className="font-medium text-gray-700 hover:text-blue-600 truncate">
+                  {product.title}
+                </Link>
+              </span>
+              <span className="text-gray-900 font-semibold whitespace-nowrap ml-4">
+                {metric === 'units' ? `${product.units} sold` : formatCurrency(product.revenue)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default function SellerDashboardPage() {
+  const router = useRouter()
+  const [analytics, setAnalytics] = useState<SellerAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [startDate, setStartDate] = useState(() => toDateInput(29))
+  const [endDate, setEndDate] = useState(() => toDateInput())
+  const [groupBy, setGroupBy] = useState<AnalyticsInterval | ''>('')
+
+  // Check authentication and permission
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const response = await authApi.getCurrentUser()
+        if (!response.success || !response.data) {
+          router.push('/auth/login')
+          return
+        }
+
+        const permissions = response.data.user.permissions || []
+        if (!permissions.includes('analytics:read:own') && !permissions.includes('analytics:read:any')) {
+          router.push('/')
+        }
+      } catch {
+        router.push('/auth/login')
+      }
+    }
+
+    checkAuth()
+  }, [router])
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await sellerApi.getAnalytics({
+        startDate,
+        endDate,
+        interval: groupBy || undefined
+      })
+      if (response.success && response.data) {
+        setAnalytics(response.data)
+      }
+    } catch (error) {
+      console.error('Error fetching seller analytics:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch analytics')
+    } finally {
+      setLoading(false)
+    }
+  }, [startDate, endDate, groupBy])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  const applyPreset = (days: number) => {
+    setStartDate(toDateInput(days - 1))
+    setEndDate(toDateInput())
+  }
+
+  const maxRevenue = Math.max(...(analytics?.revenue.series.map(point => point.revenue) || []), 0)
+  const totalFunnelOrders = analytics?.funnel.reduce((sum, stage) => sum + stage.count, 0) || 0
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Sales Dashboard</h1>
+            <p className="mt-2 text-gray-600">How your store is performing</p>
+          </div>
+
+          {/* Date Range */}
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex gap-1">
+              {RANGE_PRESETS.map(preset => (
+                <button
+                  key={preset.days}
+                  onClick={() => applyPreset(preset.days)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Group by
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as AnalyticsInterval | '')}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded-md text-black"
+              >
+                <option value="">Auto</option>
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </label>
+          </div>
+        </div>
+
+        {loading && !analytics ? (
+          <div className="flex items-center justify-center min-h-96">
+            <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !analytics ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Failed to load analytics</p>
+            <button
+              onClick={fetchAnalytics}
+              className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+            >
+              Retry
+            </button>
+          </div>
+        ) : (
+          <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="bg-white shadow rounded-lg p-6">
+                <p className="text-sm font-medium text-gray-500">Net Revenue</p>
+                <p className="text-2xl font-semibold text-gray-900">{formatCurrency(analytics.revenue.net)}</p>
+                <p className="mt-2 text-sm text-gray-600">
+                  {formatCurrency(analytics.revenue.gross)} gross · {formatCurrency(analytics.revenue.refunded)} refunded
+                </p>
+              </div>
+              <div className="bg-white shadow rounded-lg p-6">
+                <p className="text-sm font-medium text-gray-500">Completed Orders</p>
+                <p className="text-2xl font-semibold text-gray-900">{analytics.revenue.completedOrders}</p>
+                <p className="mt-2 text-sm text-gray-600">
+                  Average order {formatCurrency(analytics.revenue.averageOrderValue)}
+                </p>
+              </div>
+              <div className="bg-white shadow rounded-lg p-6">
+                <p className="text-sm font-medium text-gray-500">Average Fulfilment Time</p>
+                <p className="text-2xl font-semibold text-gray-900">{formatDuration(analytics.fulfilment.averageHours)}</p>
+                <p className="mt-2 text-sm text-gray-600">From order to completion</p>
+              </div>
+              <div className="bg-white shadow rounded-lg p-6">
+                <p className="text-sm font-medium text-gray-500">Repeat Buyers</p>
+                <p className="text-2xl font-semibold text-gray-900">{Math.round(analytics.buyers.repeatRate * 100)}%</p>
+                <p className="mt-2 text-sm text-gray-600">
+                  {analytics.buyers.repeat} of {analytics.buyers.total} buyers ordered more than once
+                </p>
+              </div>
+            </div>
+
+            {/* Revenue Chart */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Revenue by {analytics.range.interval}</h3>
+              {analytics.revenue.series.length === 0 ? (
+                <p className="text-sm text-gray-500">No completed orders in this period</p>
+              ) : (
+                <div className="flex items-end gap-1 h-56 overflow-x-auto">
+                  {analytics.revenue.series.map(point => (
+                    <div key={point.period} className="flex flex-col items-center justify-end h-full min-w-8 flex-1 group">
+                      <span className="text-xs text-gray-600 opacity-0 group-hover:opacity-100 whitespace-nowrap">
+                        {formatCurrency(point.revenue)}
+                      </span>
+                      <div
+                        className="w-full bg-blue-500 rounded-t hover:bg-blue-600"
+                        style={{ height: `${maxRevenue > 0 ? (point.revenue / maxRevenue) * 85 : 0}%` }}
+                        title={`${point.period}: ${formatCurrency(point.revenue)} from ${point.orders} orders`}
+                      />
+                      <span className="mt-1 text-[10px] text-gray-500 whitespace-nowrap">{point.period}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Order Funnel */}
+              <div className="bg-white shadow rounded-lg p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Orders by Status</h3>
+                <div className="space-y-3">
+                  {analytics.funnel.map(stage => (
+                    <div key={stage.status}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium text-gray-700">{stage.status}</span>
+                        <span className="text-gray-500">{stage.count}</span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded">
+                        <div
+                          className={`h-2 rounded ${FUNNEL_COLORS[stage.status] || 'bg-gray-400'}`}
+                          style={{ width: `${totalFunnelOrders > 0 ? (stage.count / totalFunnelOrders) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <TopProductsTable title="Top Products by Units" products={analytics.topProducts.byUnits} metric="units" />
+              <TopProductsTable title="Top Products by Revenue" products={analytics.topProducts.byRevenue} metric="revenue" />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
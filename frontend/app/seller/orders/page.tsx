@@ -4,7 +4,11 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
 import { orderApi, Order } from '../../../lib/order-api';
+import { formatAddress } from '../../../lib/address-api';
+import { formatVariantOptions } from '../../../lib/product-api';
+import { useOrderEvents } from '../../../lib/useOrderEvents';
 
 export default function SellerOrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
@@ -16,9 +20,17 @@ export default function SellerOrdersPage() {
     fetchOrders();
   }, []);
 
-  const fetchOrders = async () => {
+  // Keep the list live: reload quietly whenever an order is placed or changes status
+  useOrderEvents(message => {
+    if (message.type === 'order.created') {
+      toast.success(`New order received: ${message.orderId}`);
+    }
+    fetchOrders(false);
+  });
+
+  const fetchOrders = async (showLoading = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       const response = await orderApi.getOrders();
       
       if (response.success && Array.isArray(response.data)) {
@@ -50,12 +62,58 @@ export default function SellerOrdersPage() {
       }
     } catch (error) {
       console.error('Error updating order status:', error);
-      toast.error('Failed to update order status');
+      // Surface transition errors from the server (e.g. status already changed)
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) || 'Failed to update order status'
+      );
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const updateReturnStatus = async (orderId: string, newStatus: 'Approved' | 'Rejected' | 'Refunded') => {
+    // Buyers are shown the note, so a rejection must explain itself
+    const note = newStatus === 'Rejected'
+      ? prompt('Why is this return being rejected?')?.trim()
+      : undefined;
+    if (newStatus === 'Rejected' && !note) return;
+
+    try {
+      setUpdatingOrderId(orderId);
+      const response = await orderApi.updateReturnStatus(orderId, { status: newStatus, note });
+
+      if (response.success) {
+        toast.success(`Return marked as ${newStatus.toLowerCase()}`);
+        await fetchOrders();
+      } else {
+        toast.error(response.message || 'Failed to update return');
+      }
+    } catch (error) {
+      console.error('Error updating return status:', error);
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) || 'Failed to update return'
+      );
     } finally {
       setUpdatingOrderId(null);
     }
   };
 
+  const getReturnActions = (returnStatus: string) => {
+    switch (returnStatus) {
+      case 'Requested':
+        return [
+          { label: 'Approve Return', status: 'Approved' as const, color: 'bg-blue-600 hover:bg-blue-700' },
+          { label: 'Reject Return', status: 'Rejected' as const, color: 'bg-red-600 hover:bg-red-700' }
+        ];
+      case 'Approved':
+        return [
+          { label: 'Mark Refunded', status: 'Refunded' as const, color: 'bg-green-600 hover:bg-green-700' }
+        ];
+      default:
+        return [];
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Pending':
@@ -82,7 +140,8 @@ export default function SellerOrdersPage() {
         ];
       case 'Processing':
         return [
-          { label: 'Dispatch', status: 'Out for Delivery', color: 'bg-purple-600 hover:bg-purple-700' }
+          { label: 'Dispatch', status: 'Out for Delivery', color: 'bg-purple-600 hover:bg-purple-700' },
+          { label: 'Cancel', status: 'Cancelled', color: 'bg-red-600 hover:bg-red-700' }
         ];
       case 'Out for Delivery':
         return [
@@ -145,7 +204,7 @@ export default function SellerOrdersPage() {
             <h2 className="text-xl font-semibold text-gray-900 mb-2">Error Loading Orders</h2>
             <p className="text-gray-600 mb-6">{error}</p>
             <button 
-              onClick={fetchOrders}
+              onClick={() => fetchOrders()}
               className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
             >
               Try Again
@@ -219,6 +278,11 @@ export default function SellerOrdersPage() {
                       <p className="text-lg font-bold text-gray-900 mt-1">
                         ৳{order.totalAmount.toLocaleString()}
                       </p>
+                      {order.discounts && order.discounts.length > 0 && (
+                        <p className="text-xs text-green-700">
+                          {order.discounts.map(discount => `${discount.code} -৳${discount.amount.toLocaleString()}`).join(', ')}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -235,10 +299,12 @@ export default function SellerOrdersPage() {
                         {resolveUser(order.buyerId)?.email || 'N/A'}
                       </div>
                       <div className="md:col-span-2">
-                        <span className="font-medium text-gray-700">Shipping Address:</span> {order.shippingAddress}
+                        <span className="font-medium text-gray-700">Shipping Address:</span>{' '}
+                        {order.shippingAddress.fullName} ({order.shippingAddress.phone}), {formatAddress(order.shippingAddress)}
                       </div>
                       <div>
                         <span className="font-medium text-gray-700">Payment Method:</span> {order.paymentMethod}
+                        {order.paymentStatus && order.paymentStatus !== 'Unpaid' && ` (${order.paymentStatus})`}
                       </div>
                     </div>
                   </div>
@@ -271,6 +337,12 @@ export default function SellerOrdersPage() {
                             </div>
                             <div className="flex-1 min-w-0">
                               <h5 className="font-medium text-gray-900">{productDetails?.title || 'Product'}</h5>
+                              {item.variantOptions && (
+                                <p className="text-sm font-medium text-gray-700">
+                                  {formatVariantOptions(item.variantOptions)}
+                                  {item.sku && <span className="ml-2 font-normal text-gray-500">SKU {item.sku}</span>}
+                                </p>
+                              )}
                               <p className="text-sm text-gray-600">
                                 Quantity: {item.quantity} × ৳{item.price.toLocaleString()} = ৳{(item.quantity * item.price).toLocaleString()}
                               </p>
@@ -281,6 +353,61 @@ export default function SellerOrdersPage() {
                     </div>
                   </div>
 
+                  {/* Return Request */}
+                  {order.returnRequest && (
+                    <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium text-gray-900">
+                          Return {order.returnRequest.status} · Refund ৳{order.returnRequest.refundAmount.toLocaleString()}
+                        </h4>
+                        <div className="flex items-center space-x-2">
+                          {getReturnActions(order.returnRequest.status).map((action) => (
+                            <button
+                              key={action.status}
+                              onClick={() => updateReturnStatus(order._id, action.status)}
+                              disabled={updatingOrderId === order._id}
+                              className={`px-3 py-1 text-sm text-white font-medium rounded-lg transition-colors disabled:opacity-50 ${action.color}`}
+                            >
+                              {action.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <p className="text-sm text-gray-700 mb-2">{order.returnRequest.reason}</p>
+                      <ul className="text-sm text-gray-600 mb-2">
+                        {order.returnRequest.items.map((returnItem) => {
+                          const orderItem = order.products.find(item =>
+                            (resolveProduct(item.productId)?._id || item.productId) === returnItem.productId &&
+                            item.variantId === returnItem.variantId
+                          );
+                          return (
+                            <li key={`${returnItem.productId}:${returnItem.variantId || ''}`}>
+                              {(orderItem && resolveProduct(orderItem.productId)?.title) || 'Product'}
+                              {orderItem?.variantOptions && ` (${formatVariantOptions(orderItem.variantOptions)})`} × {returnItem.quantity}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                      {order.returnRequest.photos.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {order.returnRequest.photos.map((photo) => (
+                            <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                              <Image src={photo} alt="Return photo" width={48} height={48} className="w-12 h-12 object-cover rounded" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500 space-y-1">
+                        {order.returnRequest.history.map((entry, index) => (
+                          <p key={index}>
+                            {entry.status} · {formatDate(entry.timestamp)}
+                            {entry.note && entry.status !== 'Requested' ? ` · ${entry.note}` : ''}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex items-center justify-between pt-4 border-t">
                     <Link
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { isAxiosError } from 'axios'
 import ProductForm from '../../../../components/products/ProductForm'
 import FileUpload from '../../../../components/products/FileUpload'
 import { productApi, ProductFormData } from '../../../../lib/product-api'
@@ -13,6 +14,7 @@ export default function AddProductPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [currentProduct, setCurrentProduct] = useState<any>(null)
   const [step, setStep] = useState<'form' | 'files'>('form')
+  const [emailVerified, setEmailVerified] = useState(true)
 
   // Check authentication and role
   useEffect(() => {
@@ -28,6 +30,8 @@ export default function AddProductPage() {
           router.push('/')
           return
         }
+
+        setEmailVerified(response.data.user.emailVerified !== false)
       } catch (error) {
         router.push('/auth/login')
       }
@@ -49,7 +53,7 @@ export default function AddProductPage() {
       }
     } catch (error) {
       console.error('Error creating product:', error)
-      alert('Failed to create product')
+      alert((isAxiosError(error) && error.response?.data?.message) || 'Failed to create product')
     } finally {
       setIsLoading(false)
     }
@@ -124,6 +128,16 @@ export default function AddProductPage() {
           </p>
         </div>
 
+        {/* Unverified sellers cannot list products yet */}
+        {!emailVerified && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+            Please verify your email address before listing products.{' '}
+            <Link href="/profile" className="font-medium underline">
+              Resend verification email
+            </Link>
+          </div>
+        )}
+
         {/* Progress Steps */}
         <div className="mb-8">
           <div className="flex items-center">
@@ -6,6 +6,8 @@ import Link from 'next/link'
 import ProductCard from '../../../components/products/ProductCard'
 import { productApi, Product } from '../../../lib/product-api'
 import { authApi } from '../../../lib/auth-api'
+import { useCategories } from '../../../lib/useCategories'
+import CategorySelect from '../../../components/categories/CategorySelect'
 
 interface ProductsResponse {
   products: Product[]
@@ -35,24 +37,14 @@ export default function SellerProductsPage() {
   const [filters, setFilters] = useState({
     search: '',
     category: '',
-    sortBy: 'createdAt' as 'price' | 'createdAt' | 'title',
+    sortBy: 'createdAt' as 'price' | 'createdAt' | 'title' | 'stock',
     sortOrder: 'desc' as 'asc' | 'desc',
+    lowStock: false,
     page: 1
   })
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
 
-  const categories = [
-    'Electronics',
-    'Clothing',
-    'Books',
-    'Home & Garden',
-    'Sports',
-    'Beauty',
-    'Automotive',
-    'Food',
-    'Toys',
-    'Other'
-  ]
+  const { categories } = useCategories()
 
   // Check authentication and role
   useEffect(() => {
@@ -98,6 +90,10 @@ export default function SellerProductsPage() {
         queryParams.category = filters.category
       }
 
+      if (filters.lowStock) {
+        queryParams.lowStock = 'true'
+      }
+
       // Use the seller-specific endpoint with apiClient (includes Authorization header)
       const apiClient = (await import('../../../lib/api')).default
       const response = await apiClient.get('/api/products/seller/my-products', {
@@ -221,19 +217,14 @@ export default function SellerProductsPage() {
               <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
                 Category
               </label>
-              <select
+              <CategorySelect
                 id="category"
+                categories={categories}
                 value={filters.category}
-                onChange={(e) => handleFilterChange('category', e.target.value)}
+                onChange={(category) => handleFilterChange('category', category)}
+                emptyLabel="All Categories"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              >
-                <option value="">All Categories</option>
-                {categories.map(category => (
-                  <option key={category} value={category}>
-                    {category}
-                  </option>
-                ))}
-              </select>
+              />
             </div>
 
             {/* Sort By */}
@@ -250,6 +241,7 @@ export default function SellerProductsPage() {
                 <option value="createdAt">Date Added</option>
                 <option value="title">Title</option>
                 <option value="price">Price</option>
+                <option value="stock">Stock</option>
               </select>
             </div>
 
@@ -283,9 +275,20 @@ export default function SellerProductsPage() {
 
         {/* Results Summary */}
         <div className="flex items-center justify-between mb-6">
-          <p className="text-sm text-gray-700">
-            Showing {products.length} of {pagination.totalCount} products
-          </p>
+          <div className="flex items-center gap-4">
+            <p className="text-sm text-gray-700">
+              Showing {products.length} of {pagination.totalCount} products
+            </p>
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filters.lowStock}
+                onChange={(e) => setFilters(prev => ({ ...prev, lowStock: e.target.checked, page: 1 }))}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Low stock only
+            </label>
+          </div>
           {pagination.totalCount > 0 && (
             <p className="text-sm text-gray-500">
               Page {pagination.currentPage} of {pagination.totalPages}
@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { authApi } from '../../../lib/auth-api'
+import { WebhookManager } from '../../../components/webhooks'
+
+export default function SellerWebhooksPage() {
+  const router = useRouter()
+
+  // Check authentication and permission
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const response = await authApi.getCurrentUser()
+        if (!response.success || !response.data) {
+          router.push('/auth/login')
+          return
+        }
+
+        const permissions = response.data.user.permissions || []
+        if (!permissions.includes('webhook:manage')) {
+          router.push('/')
+        }
+      } catch {
+        router.push('/auth/login')
+      }
+    }
+
+    checkAuth()
+  }, [router])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Webhooks</h1>
+          <p className="mt-2 text-gray-600">Send new orders, status changes and product removals to your own systems</p>
+        </div>
+
+        <WebhookManager />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,337 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { Wishlist, WishlistItem, getWishlistShareUrl, wishlistApi } from '../../lib/wishlist-api'
+import { formatVariantOptions } from '../../lib/product-api'
+import { useWishlists } from '../../lib/useWishlists'
+import { useCart } from '../../lib/useCart'
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(price)
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback
+
+export default function WishlistsPage() {
+  const { wishlists, isLoading, enabled, setWishlists } = useWishlists()
+  const { addToCart } = useCart()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  // Default to the first list until the buyer picks another
+  const selected = wishlists.find(wishlist => wishlist._id === selectedId) || wishlists[0]
+
+  const replaceWishlist = (updated: Wishlist) => {
+    setWishlists(wishlists.map(wishlist => wishlist._id === updated._id ? updated : wishlist))
+  }
+
+  // Run an API call that returns the updated list
+  const updateSelected = async (action: () => Promise<{ data?: Wishlist }>, success: string) => {
+    try {
+      setBusy(true)
+      const response = await action()
+      if (response.data) replaceWishlist(response.data)
+      toast.success(success)
+    } catch (error) {
+      console.error('Error updating wishlist:', error)
+      toast.error(errorMessage(error, 'Failed to update wishlist'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+
+    try {
+      setBusy(true)
+      const response = await wishlistApi.createWishlist({ name: newName.trim() })
+      if (response.data) {
+        setWishlists([...wishlists, response.data])
+        setSelectedId(response.data._id)
+      }
+      setNewName('')
+      toast.success('Wishlist created')
+    } catch (error) {
+      console.error('Error creating wishlist:', error)
+      toast.error(errorMessage(error, 'Failed to create wishlist'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected || renaming === null || !renaming.trim()) return
+    await updateSelected(() => wishlistApi.updateWishlist(selected._id, { name: renaming.trim() }), 'Wishlist renamed')
+    setRenaming(null)
+  }
+
+  const handleDelete = async (wishlist: Wishlist) => {
+    if (!confirm(`Delete "${wishlist.name}" and the products saved in it?`)) return
+
+    try {
+      setBusy(true)
+      await wishlistApi.deleteWishlist(wishlist._id)
+      setWishlists(wishlists.filter(w => w._id !== wishlist._id))
+      setSelectedId(null)
+      toast.success('Wishlist deleted')
+    } catch (error) {
+      console.error('Error deleting wishlist:', error)
+      toast.error(errorMessage(error, 'Failed to delete wishlist'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCopyLink = async (wishlist: Wishlist) => {
+    try {
+      await navigator.clipboard.writeText(getWishlistShareUrl(wishlist))
+      toast.success('Share link copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  const handleAddToCart = async (item: WishlistItem) => {
+    try {
+      await addToCart(item.product, 1, item.variant || undefined)
+      toast.success('Added to cart')
+    } catch (error) {
+      console.error('Error adding to cart:', error)
+      toast.error(errorMessage(error, 'Failed to add to cart'))
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!enabled) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Wishlists</h1>
+          <p className="text-gray-600 mb-4">Log in with a buyer account to save products for later.</p>
+          <Link href="/auth/login" className="text-blue-600 hover:text-blue-800 font-medium">
+            Log in
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Wishlists</h1>
+          <p className="text-gray-600">
+            Save products for later. We&apos;ll email you when a saved product gets cheaper or is available again.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Lists */}
+          <div className="lg:col-span-1 space-y-4">
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              {wishlists.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No wishlists yet. Tap the heart on any product to start one.
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {wishlists.map(wishlist => (
+                    <li key={wishlist._id}>
+                      <button
+                        onClick={() => {
+                          setSelectedId(wishlist._id)
+                          setRenaming(null)
+                        }}
+                        className={`w-full flex items-center justify-between px-3 py-2 rounded-md text-sm text-left transition-colors ${
+                          wishlist._id === selected?._id ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="truncate">{wishlist.name}</span>
+                        <span className="text-xs text-gray-400">{wishlist.items.length}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm p-4 space-y-2">
+              <label htmlFor="new-wishlist" className="block text-sm font-medium text-gray-700">New list</label>
+              <input
+                id="new-wishlist"
+                type="text"
+                value={newName}
+                maxLength={50}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. Birthday ideas"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={busy || !newName.trim()}
+                className="w-full px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                Create
+              </button>
+            </form>
+          </div>
+
+          {/* Selected list */}
+          <div className="lg:col-span-3">
+            {selected && (
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                  {renaming !== null ? (
+                    <form onSubmit={handleRename} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={renaming}
+                        maxLength={50}
+                        onChange={(e) => setRenaming(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        autoFocus
+                      />
+                      <button type="submit" disabled={busy} className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50">
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setRenaming(null)} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800">
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <h2 className="text-xl font-semibold text-gray-900">{selected.name}</h2>
+                      <button onClick={() => setRenaming(selected.name)} className="text-sm text-blue-600 hover:text-blue-800">
+                        Rename
+                      </button>
+                    </div>
+                  )}
+                  <button
+                    onClick={() => handleDelete(selected)}
+                    disabled={busy}
+                    className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Delete list
+                  </button>
+                </div>
+
+                {/* Settings */}
+                <div className="flex flex-wrap items-center gap-6 mb-6 pb-6 border-b border-gray-100">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.isPublic}
+                      disabled={busy}
+                      onChange={(e) => updateSelected(
+                        () => wishlistApi.updateWishlist(selected._id, { isPublic: e.target.checked }),
+                        e.target.checked ? 'Anyone with the link can now view this list' : 'This list is now private'
+                      )}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    Shareable
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.notify}
+                      disabled={busy}
+                      onChange={(e) => updateSelected(
+                        () => wishlistApi.updateWishlist(selected._id, { notify: e.target.checked }),
+                        e.target.checked ? 'Price alerts turned on' : 'Price alerts turned off'
+                      )}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    Email me about price drops
+                  </label>
+                  {selected.isPublic && (
+                    <div className="flex items-center gap-3 text-sm">
+                      <button onClick={() => handleCopyLink(selected)} className="text-blue-600 hover:text-blue-800 font-medium">
+                        Copy share link
+                      </button>
+                      <button
+                        onClick={() => updateSelected(() => wishlistApi.regenerateShareToken(selected._id), 'Share link reset; old links no longer work')}
+                        disabled={busy}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                      >
+                        Reset link
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Items */}
+                {selected.items.length === 0 ? (
+                  <p className="text-center text-gray-500 py-12">
+                    Nothing saved here yet. <Link href="/search" className="text-blue-600 hover:text-blue-800">Browse products</Link>
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {selected.items.map(item => (
+                      <li key={`${item.product._id}:${item.variant?._id || ''}`} className="flex items-center gap-4 py-4">
+                        <div className="relative w-16 h-16 shrink-0 bg-gray-100 rounded overflow-hidden">
+                          {item.product.images[0] && (
+                            <Image src={item.variant?.images[0] || item.product.images[0]} alt={item.product.title} fill className="object-cover" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <Link href={`/products/${item.product._id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                            {item.product.title}
+                          </Link>
+                          {item.variant && (
+                            <p className="text-xs text-gray-500">{formatVariantOptions(item.variant.options)}</p>
+                          )}
+                          <p className="text-sm text-gray-700">{formatPrice(item.price)}</p>
+                          {!item.isAvailable && (
+                            <p className="text-xs text-red-600">
+                              {item.product.isActive ? 'Out of stock' : 'No longer available'}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => handleAddToCart(item)}
+                            disabled={!item.isAvailable}
+                            className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                          >
+                            Add to Cart
+                          </button>
+                          <button
+                            onClick={() => updateSelected(
+                              () => wishlistApi.removeItem(selected._id, item.product._id, item.variant?._id),
+                              'Removed from wishlist'
+                            )}
+                            disabled={busy}
+                            className="text-sm text-gray-500 hover:text-red-600 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { wishlistApi, SharedWishlist } from '../../../../lib/wishlist-api'
+import { formatVariantOptions } from '../../../../lib/product-api'
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(price)
+
+export default function SharedWishlistPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [wishlist, setWishlist] = useState<SharedWishlist | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchWishlist = async () => {
+      try {
+        const response = await wishlistApi.getSharedWishlist(token)
+        if (response.success && response.data) {
+          setWishlist(response.data)
+        }
+      } catch (error) {
+        console.error('Error fetching shared wishlist:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchWishlist()
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!wishlist) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Wishlist Not Found</h1>
+          <p className="text-gray-600 mb-4">This wishlist is private or the link has been reset.</p>
+          <Link href="/search" className="text-blue-600 hover:text-blue-800 font-medium">
+            Browse products
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <p className="text-sm text-gray-500 mb-1">{wishlist.owner}&apos;s wishlist</p>
+          <h1 className="text-3xl font-bold text-gray-900">{wishlist.name}</h1>
+        </div>
+
+        {wishlist.items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-500">
+            There&apos;s nothing in this wishlist yet.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {wishlist.items.map(item => (
+              <Link
+                key={`${item.product._id}:${item.variant?._id || ''}`}
+                href={`/products/${item.product._id}`}
+                className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+              >
+                <div className="relative h-48 bg-gray-100">
+                  {item.product.images[0] && (
+                    <Image
+                      src={item.variant?.images[0] || item.product.images[0]}
+                      alt={item.product.title}
+                      fill
+                      className="object-cover"
+                    />
+                  )}
+                </div>
+                <div className="p-4">
+                  <h2 className="font-semibold text-gray-900 line-clamp-2">{item.product.title}</h2>
+                  {item.variant && (
+                    <p className="text-xs text-gray-500 mt-1">{formatVariantOptions(item.variant.options)}</p>
+                  )}
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-lg font-bold text-green-600">{formatPrice(item.price)}</span>
+                    {!item.isAvailable && (
+                      <span className="text-xs text-red-600">Out of stock</span>
+                    )}
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
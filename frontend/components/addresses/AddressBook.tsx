@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { addressApi, formatAddress, type Address } from '@/lib/address-api'
+import { useToastNotifications } from '@/components/ui'
+import { withErrorHandling, type ApiError } from '@/lib/error-handler'
+import AddressForm from './AddressForm'
+
+// Saved addresses with add, edit, delete and default selection
+export default function AddressBook() {
+  const [addresses, setAddresses] = useState<Address[]>([])
+  const [loading, setLoading] = useState(true)
+  // Address being edited, 'new' while adding one, null when no form is open
+  const [editing, setEditing] = useState<Address | 'new' | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { showError } = useToastNotifications()
+
+  const fetchAddresses = async () => {
+    try {
+      const response = await addressApi.getAddresses()
+      if (response.success && response.data) {
+        setAddresses(response.data)
+      }
+    } catch (error) {
+      console.error('Error fetching addresses:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAddresses()
+  }, [])
+
+  const handleSaved = () => {
+    setEditing(null)
+    fetchAddresses()
+  }
+
+  const runAction = async (addressId: string, action: () => Promise<unknown>) => {
+    setBusyId(addressId)
+    try {
+      await withErrorHandling(action)
+      await fetchAddresses()
+    } catch (error) {
+      showError('Address update failed', (error as ApiError).message || 'Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = (address: Address) => {
+    if (!confirm(`Delete ${address.label || 'this address'}?`)) return
+    runAction(address._id, () => addressApi.deleteAddress(address._id))
+  }
+
+  if (loading) {
+    return <div className="h-24 bg-gray-100 rounded-lg animate-pulse"></div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {addresses.length === 0 && editing === null && (
+        <p className="text-sm text-gray-600">You have no saved addresses yet.</p>
+      )}
+
+      {addresses.map(address => (
+        editing !== 'new' && editing?._id === address._id ? (
+          <div key={address._id} className="border rounded-lg p-4">
+            <AddressForm address={address} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+          </div>
+        ) : (
+          <div key={address._id} className="border rounded-lg p-4 flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+            <div className="text-sm text-gray-700">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="font-medium text-gray-900">{address.label || address.fullName}</span>
+                {address.isDefaultShipping && (
+                  <span className="bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full">Default shipping</span>
+                )}
+                {address.isDefaultBilling && (
+                  <span className="bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded-full">Default billing</span>
+                )}
+              </div>
+              <p>{address.fullName} · {address.phone}</p>
+              <p>{formatAddress(address)}</p>
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {!address.isDefaultShipping && (
+                <button
+                  onClick={() => runAction(address._id, () => addressApi.updateAddress(address._id, { isDefaultShipping: true }))}
+                  disabled={busyId === address._id}
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Use for shipping
+                </button>
+              )}
+              {!address.isDefaultBilling && (
+                <button
+                  onClick={() => runAction(address._id, () => addressApi.updateAddress(address._id, { isDefaultBilling: true }))}
+                  disabled={busyId === address._id}
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Use for billing
+                </button>
+              )}
+              <button
+                onClick={() => setEditing(address)}
+                className="px-2 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(address)}
+                disabled={busyId === address._id}
+                className="px-2 py-1 border border-red-300 rounded text-red-700 hover:bg-red-50 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        )
+      ))}
+
+      {editing === 'new' ? (
+        <div className="border rounded-lg p-4">
+          <AddressForm onSaved={handleSaved} onCancel={() => setEditing(null)} />
+        </div>
+      ) : (
+        <button
+          onClick={() => setEditing('new')}
+          className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Add Address
+        </button>
+      )}
+    </div>
+  )
+}
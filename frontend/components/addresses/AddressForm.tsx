@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { addressApi, type Address } from '@/lib/address-api'
+import { addressFormSchema, type AddressFormInput } from '@/lib/validation'
+import { LoadingButton } from '@/components/ui'
+import { useToastNotifications } from '@/components/ui'
+import { withErrorHandling, type ApiError } from '@/lib/error-handler'
+
+interface AddressFormProps {
+  // Address being edited; a new address is created when omitted
+  address?: Address
+  onSaved: (address: Address) => void
+  onCancel?: () => void
+}
+
+const fields: { name: keyof AddressFormInput; label: string; placeholder?: string; optional?: boolean }[] = [
+  { name: 'label', label: 'Label', placeholder: 'Home, Office...', optional: true },
+  { name: 'fullName', label: 'Full Name', placeholder: 'Recipient name' },
+  { name: 'phone', label: 'Phone Number', placeholder: '01XXXXXXXXX' },
+  { name: 'street', label: 'Street Address', placeholder: 'House/Flat number, Street name, Area' },
+  { name: 'city', label: 'City', placeholder: 'Dhaka' },
+  { name: 'state', label: 'State / Division', optional: true },
+  { name: 'zipCode', label: 'Postal Code', placeholder: '1000', optional: true },
+  { name: 'country', label: 'Country' }
+]
+
+export default function AddressForm({ address, onSaved, onCancel }: AddressFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const { showSuccess, showError } = useToastNotifications()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError
+  } = useForm<AddressFormInput>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: address ? {
+      label: address.label || '',
+      fullName: address.fullName,
+      phone: address.phone,
+      street: address.street,
+      city: address.city,
+      state: address.state || '',
+      zipCode: address.zipCode || '',
+      country: address.country,
+      isDefaultShipping: address.isDefaultShipping,
+      isDefaultBilling: address.isDefaultBilling
+    } : {
+      country: 'Bangladesh'
+    }
+  })
+
+  const onSubmit = async (data: AddressFormInput) => {
+    setIsLoading(true)
+
+    try {
+      const response = await withErrorHandling(() =>
+        address ? addressApi.updateAddress(address._id, data) : addressApi.createAddress(data)
+      )
+
+      if (response.success && response.data) {
+        showSuccess(address ? 'Address updated' : 'Address saved')
+        onSaved(response.data)
+      } else {
+        showError('Could not save address', response.message)
+      }
+    } catch (error) {
+      const apiError = error as ApiError
+      if (apiError.field) {
+        setError(apiError.field as keyof AddressFormInput, {
+          type: 'server',
+          message: apiError.message
+        })
+      } else {
+        showError('Could not save address', apiError.message || 'Please try again.')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {fields.map(({ name, label, placeholder, optional }) => (
+          <div key={name} className={name === 'street' ? 'md:col-span-2' : ''}>
+            <label htmlFor={`address-${name}`} className="block text-sm font-medium text-gray-700 mb-1">
+              {label}{!optional && ' *'}
+            </label>
+            <input
+              id={`address-${name}`}
+              type={name === 'phone' ? 'tel' : 'text'}
+              placeholder={placeholder}
+              {...register(name)}
+              className={`w-full px-3 py-2 border ${
+                errors[name] ? 'border-red-300' : 'border-gray-300'
+              } rounded-md text-black focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm`}
+            />
+            {errors[name] && (
+              <p className="mt-1 text-sm text-red-600">{errors[name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register('isDefaultShipping')} />
+          Default shipping address
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register('isDefaultBilling')} />
+          Default billing address
+        </label>
+      </div>
+
+      <div className="flex gap-3">
+        <LoadingButton
+          type="submit"
+          isLoading={isLoading}
+          loadingText="Saving..."
+          className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {address ? 'Update Address' : 'Save Address'}
+        </LoadingButton>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,2 @@
+export { default as AddressForm } from './AddressForm'
+export { default as AddressBook } from './AddressBook'
\ No newline at end of file
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { authApi } from '@/lib/auth-api'
+import { changePasswordSchema, type ChangePasswordInput } from '@/lib/validation'
+import { LoadingButton } from '@/components/ui'
+import { useToastNotifications } from '@/components/ui'
+import { withErrorHandling, type ApiError } from '@/lib/error-handler'
+
+interface ChangePasswordFormProps {
+  // Called after a successful change (other sessions have been signed out)
+  onChanged?: () => void
+}
+
+const fields: { name: keyof ChangePasswordInput; label: string }[] = [
+  { name: 'currentPassword', label: 'Current Password' },
+  { name: 'newPassword', label: 'New Password' },
+  { name: 'confirmPassword', label: 'Confirm New Password' }
+]
+
+export default function ChangePasswordForm({ onChanged }: ChangePasswordFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const { showSuccess, showError } = useToastNotifications()
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isValid },
+    setError
+  } = useForm<ChangePasswordInput>({
+    resolver: zodResolver(changePasswordSchema),
+    mode: 'onChange'
+  })
+
+  const onSubmit = async (data: ChangePasswordInput) => {
+    setIsLoading(true)
+
+    try {
+      const response = await withErrorHandling(() =>
+        authApi.changePassword(data.currentPassword, data.newPassword)
+      )
+
+      if (response.success) {
+        showSuccess('Password changed', 'Your other devices have been signed out.')
+        reset()
+        onChanged?.()
+      } else {
+        showError('Password change failed', response.message)
+      }
+    } catch (error) {
+      const apiError = error as ApiError
+      if (apiError.field) {
+        setError(apiError.field as keyof ChangePasswordInput, {
+          type: 'server',
+          message: apiError.message
+        })
+      } else {
+        showError('Password change failed', apiError.message || 'Please try again.')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+      {fields.map(({ name, label }) => (
+        <div key={name}>
+          <label htmlFor={name} className="block text-sm font-medium text-gray-700 mb-1">
+            {label}
+          </label>
+          <input
+            id={name}
+            type="password"
+            {...register(name)}
+            className={`w-full px-3 py-2 border ${
+              errors[name] ? 'border-red-300' : 'border-gray-300'
+            } rounded-md text-black focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm`}
+          />
+          {errors[name] && (
+            <p className="mt-1 text-sm text-red-600">{errors[name]?.message}</p>
+          )}
+        </div>
+      ))}
+
+      <LoadingButton
+        type="submit"
+        isLoading={isLoading}
+        loadingText="Saving..."
+        disabled={!isValid}
+        className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Change Password
+      </LoadingButton>
+    </form>
+  )
+}
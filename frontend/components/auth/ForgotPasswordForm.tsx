@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { authApi } from '@/lib/auth-api'
+import { forgotPasswordSchema, type ForgotPasswordInput } from '@/lib/validation'
+import { LoadingButton } from '@/components/ui'
+import { useToastNotifications } from '@/components/ui'
+import { withErrorHandling, type ApiError } from '@/lib/error-handler'
+
+export default function ForgotPasswordForm() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+  const { showError } = useToastNotifications()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isValid }
+  } = useForm<ForgotPasswordInput>({
+    resolver: zodResolver(forgotPasswordSchema),
+    mode: 'onChange'
+  })
+
+  const onSubmit = async (data: ForgotPasswordInput) => {
+    setIsLoading(true)
+
+    try {
+      await withErrorHandling(() => authApi.forgotPassword(data.email))
+      // The server answers the same way whether or not the account exists
+      setIsSent(true)
+    } catch (error) {
+      showError('Request failed', (error as ApiError).message || 'Please try again later.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 px-4 sm:py-12 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8">
+        <div>
+          <h2 className="mt-4 sm:mt-6 text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your email and we&apos;ll send you a link to choose a new password.
+          </p>
+        </div>
+
+        {isSent ? (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+            If an account exists for that email, a password reset link is on its way. The link expires in one hour.
+          </div>
+        ) : (
+          <form className="mt-6 sm:mt-8 space-y-4 sm:space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email Address
+              </label>
+              <input
+                id="email"
+                type="email"
+                {...register('email')}
+                className={`appearance-none relative block w-full px-3 py-3 sm:py-2 border ${
+                  errors.email ? 'border-red-300 ring-red-300' : 'border-gray-300'
+                } placeholder-gray-500 text-black bg-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:z-10 text-sm sm:text-base focus:bg-white transition-colors`}
+                placeholder="Enter your email address"
+                style={{ color: '#000000', backgroundColor: '#F5F5F5' }}
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+              )}
+            </div>
+
+            <LoadingButton
+              type="submit"
+              isLoading={isLoading}
+              loadingText="Sending..."
+              disabled={!isValid}
+              className="w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Send Reset Link
+            </LoadingButton>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          Remembered it?{' '}
+          <Link href="/auth/login" className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import { loginSchema, type LoginInput } from '@/lib/validation'
 import { LoadingButton } from '@/components/ui'
 import { useToastNotifications } from '@/components/ui'
 import { withErrorHandling } from '@/lib/error-handler'
+import { syncCartAfterLogin } from '@/lib/useCart'
 
 export default function LoginForm() {
   const [isLoading, setIsLoading] = useState(false)
@@ -37,7 +38,13 @@ export default function LoginForm() {
         if (response.data.token) {
           localStorage.setItem('token', response.data.token)
         }
+        if (response.data.refreshToken) {
+          localStorage.setItem('refreshToken', response.data.refreshToken)
+        }
         localStorage.setItem('user', JSON.stringify(response.data.user))
+
+        // Move any guest cart into the buyer's server cart
+        await syncCartAfterLogin()
         
         showSuccess('Login successful!', 'Redirecting to your dashboard...')
         
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { authApi } from '@/lib/auth-api'
+import { resetPasswordSchema, type ResetPasswordInput } from '@/lib/validation'
+import { LoadingButton } from '@/components/ui'
+import { useToastNotifications } from '@/components/ui'
+import { withErrorHandling, type ApiError } from '@/lib/error-handler'
+
+export default function ResetPasswordForm() {
+  const [isLoading, setIsLoading] = useState(false)
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const { showSuccess, showError } = useToastNotifications()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isValid }
+  } = useForm<ResetPasswordInput>({
+    resolver: zodResolver(resetPasswordSchema),
+    mode: 'onChange'
+  })
+
+  const onSubmit = async (data: ResetPasswordInput) => {
+    if (!token) return
+    setIsLoading(true)
+
+    try {
+      const response = await withErrorHandling(() => authApi.resetPassword(token, data.password))
+
+      if (response.success) {
+        // Every session was revoked server-side, so drop any stale local credentials
+        localStorage.removeItem('token')
+        localStorage.removeItem('refreshToken')
+        localStorage.removeItem('user')
+
+        showSuccess('Password updated', 'Please sign in with your new password.')
+        setTimeout(() => router.push('/auth/login'), 1500)
+      } else {
+        showError('Reset failed', response.message || 'Please request a new reset link.')
+      }
+    } catch (error) {
+      showError('Reset failed', (error as ApiError).message || 'Please request a new reset link.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const inputClassName = (hasError: boolean) => `appearance-none relative block w-full px-3 py-3 sm:py-2 border ${
+    hasError ? 'border-red-300 ring-red-300' : 'border-gray-300'
+  } placeholder-gray-500 text-black bg-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 focus:z-10 text-sm sm:text-base focus:bg-white transition-colors`
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 px-4 sm:py-12 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8">
+        <h2 className="mt-4 sm:mt-6 text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+          Choose a new password
+        </h2>
+
+        {!token ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">
+            This reset link is invalid.{' '}
+            <Link href="/auth/forgot-password" className="font-medium underline">
+              Request a new one
+            </Link>
+          </div>
+        ) : (
+          <form className="mt-6 sm:mt-8 space-y-4 sm:space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-3 sm:space-y-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                  New Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  {...register('password')}
+                  className={inputClassName(!!errors.password)}
+                  placeholder="Enter a new password"
+                  style={{ color: '#000000', backgroundColor: '#F5F5F5' }}
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  {...register('confirmPassword')}
+                  className={inputClassName(!!errors.confirmPassword)}
+                  placeholder="Re-enter the new password"
+                  style={{ color: '#000000', backgroundColor: '#F5F5F5' }}
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+            </div>
+
+            <LoadingButton
+              type="submit"
+              isLoading={isLoading}
+              loadingText="Updating..."
+              disabled={!isValid}
+              className="w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Update Password
+            </LoadingButton>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { authApi } from '@/lib/auth-api'
+import { withErrorHandling, type ApiError } from '@/lib/error-handler'
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed'
+
+export default function VerifyEmail() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed')
+  const [message, setMessage] = useState(token ? '' : 'This verification link is invalid.')
+  const hasRequested = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single-use, so never send the same one twice (e.g. StrictMode double effects)
+    if (!token || hasRequested.current) return
+    hasRequested.current = true
+
+    const verify = async () => {
+      try {
+        const response = await withErrorHandling(() => authApi.verifyEmail(token))
+
+        if (response.success) {
+          // Keep the cached user in sync if they're logged in on this device
+          const userData = localStorage.getItem('user')
+          if (userData) {
+            try {
+              localStorage.setItem('user', JSON.stringify({ ...JSON.parse(userData), emailVerified: true }))
+            } catch {
+              // Ignore malformed cached user
+            }
+          }
+          setStatus('verified')
+        } else {
+          setStatus('failed')
+          setMessage(response.message || 'Verification failed.')
+        }
+      } catch (error) {
+        setStatus('failed')
+        setMessage((error as ApiError).message || 'Verification failed.')
+      }
+    }
+
+    verify()
+  }, [token])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 px-4 sm:py-12 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <h2 className="text-2xl sm:text-3xl font-extrabold text-gray-900">Email verification</h2>
+
+        {status === 'verifying' && (
+          <p className="text-sm text-gray-600">Verifying your email address...</p>
+        )}
+
+        {status === 'verified' && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+            Your email address has been verified.
+          </div>
+        )}
+
+        {status === 'failed' && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">
+            {message} You can request a new link from your profile page.
+          </div>
+        )}
+
+        <div className="flex justify-center gap-4 text-sm">
+          <Link href="/profile" className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+            Go to profile
+          </Link>
+          <Link href="/auth/login" className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+            Sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
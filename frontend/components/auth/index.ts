@@ -1,2 +1,6 @@
 export { default as LoginForm } from './LoginForm'
-export { default as RegisterForm } from './RegisterForm'
\ No newline at end of file
+export { default as RegisterForm } from './RegisterForm'
+export { default as ForgotPasswordForm } from './ForgotPasswordForm'
+export { default as ResetPasswordForm } from './ResetPasswordForm'
+export { default as VerifyEmail } from './VerifyEmail'
+export { default as ChangePasswordForm } from './ChangePasswordForm'
\ No newline at end of file
@@ -2,11 +2,13 @@
 
 import { useState } from 'react';
 import { useCart } from '@/lib/useCart';
-import { Product } from '@/lib/product-api';
+import { Product, ProductVariant, formatVariantOptions } from '@/lib/product-api';
 import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
 
 interface AddToCartButtonProps {
   product: Product;
+  variant?: ProductVariant; // Required for products sold in variants
   quantity?: number;
   className?: string;
   children?: React.ReactNode;
@@ -14,6 +16,7 @@ interface AddToCartButtonProps {
 
 export default function AddToCartButton({ 
   product, 
+  variant,
   quantity = 1, 
   className = '',
   children 
@@ -21,17 +24,19 @@ export default function AddToCartButton({
   const { addToCart, isInCart, getProductQuantity } = useCart();
   const [isAdding, setIsAdding] = useState(false);
   
-  const productInCart = isInCart(product._id);
-  const currentQuantity = getProductQuantity(product._id);
+  const needsVariant = (product.variants?.length ?? 0) > 0 && !variant;
+  const productInCart = isInCart(product._id, variant?._id);
+  const currentQuantity = getProductQuantity(product._id, variant?._id);
 
   const handleAddToCart = async () => {
     setIsAdding(true);
     
     try {
-      addToCart(product, quantity);
-      toast.success(`${product.title} added to cart!`);
+      await addToCart(product, quantity, variant);
+      const title = variant ? `${product.title} (${formatVariantOptions(variant.options)})` : product.title;
+      toast.success(`${title} added to cart!`);
     } catch (error) {
-      toast.error('Failed to add to cart');
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to add to cart');
     } finally {
       setIsAdding(false);
     }
@@ -46,7 +51,7 @@ export default function AddToCartButton({
   return (
     <button
       onClick={handleAddToCart}
-      disabled={isAdding || !product.isActive}
+      disabled={isAdding || !product.isActive || needsVariant}
       className={className || defaultClassName}
     >
       {isAdding ? (
@@ -65,9 +70,11 @@ export default function AddToCartButton({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4m0 0L7 13m0 0l-1.5 6M7 13l-1.5-6M17 13v6a2 2 0 01-2 2H9a2 2 0 01-2-2v-6" />
               </svg>
               <span>
-                {productInCart 
-                  ? `Add More (${currentQuantity} in cart)` 
-                  : 'Add to Cart'
+                {needsVariant
+                  ? 'Select Options'
+                  : productInCart 
+                    ? `Add More (${currentQuantity} in cart)` 
+                    : 'Add to Cart'
                 }
               </span>
             </>
@@ -0,0 +1,239 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { Category, CategoryFormData, categoryApi, flattenCategories } from '../../lib/category-api'
+import { useCategories } from '../../lib/useCategories'
+import CategorySelect from './CategorySelect'
+
+const emptyForm: CategoryFormData = { name: '', slug: '', parent: '', icon: '', sortOrder: 0, isActive: true }
+
+// Create, edit, move and remove categories. Slugs are generated from the name
+// when left blank and stay put on rename so existing links keep working.
+export default function CategoryManager() {
+  const { categories, loading, refresh } = useCategories(true)
+  // Category being edited, null while creating a new one
+  const [editing, setEditing] = useState<Category | null>(null)
+  const [form, setForm] = useState<CategoryFormData>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const resetForm = () => {
+    setEditing(null)
+    setForm(emptyForm)
+  }
+
+  const startEditing = (category: Category) => {
+    setEditing(category)
+    setForm({
+      name: category.name,
+      slug: category.slug,
+      parent: category.parent || '',
+      icon: category.icon || '',
+      sortOrder: category.sortOrder,
+      isActive: category.isActive
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const data: CategoryFormData = {
+      ...form,
+      name: form.name.trim(),
+      slug: form.slug?.trim() || undefined,
+      parent: form.parent || null,
+      icon: form.icon?.trim() || undefined
+    }
+
+    try {
+      setSaving(true)
+      if (editing) {
+        await categoryApi.updateCategory(editing._id, data)
+        toast.success('Category updated')
+      } else {
+        await categoryApi.createCategory(data)
+        toast.success('Category created')
+      }
+      resetForm()
+      await refresh()
+    } catch (error) {
+      console.error('Error saving category:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to save category')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (category: Category) => {
+    try {
+      await categoryApi.updateCategory(category._id, { isActive: !category.isActive })
+      toast.success(category.isActive ? 'Category deactivated' : 'Category activated')
+      await refresh()
+    } catch (error) {
+      console.error('Error updating category:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to update category')
+    }
+  }
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Delete the "${category.name}" category?`)) return
+
+    try {
+      await categoryApi.deleteCategory(category._id)
+      toast.success('Category deleted')
+      if (editing?._id === category._id) resetForm()
+      await refresh()
+    } catch (error) {
+      console.error('Error deleting category:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to delete category')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          {editing ? `Edit ${editing.name}` : 'New Category'}
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="category-name" className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              id="category-name"
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="category-slug" className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+            <input
+              id="category-slug"
+              type="text"
+              placeholder="Generated from the name"
+              value={form.slug}
+              onChange={(e) => setForm(prev => ({ ...prev, slug: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="category-parent" className="block text-sm font-medium text-gray-700 mb-1">Parent</label>
+            <CategorySelect
+              id="category-parent"
+              categories={categories}
+              value={form.parent || ''}
+              onChange={(parent) => setForm(prev => ({ ...prev, parent }))}
+              emptyLabel="None (top level)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="category-icon" className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+            <input
+              id="category-icon"
+              type="text"
+              placeholder="e.g. 📚"
+              value={form.icon}
+              onChange={(e) => setForm(prev => ({ ...prev, icon: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="category-sort" className="block text-sm font-medium text-gray-700 mb-1">Sort order</label>
+            <input
+              id="category-sort"
+              type="number"
+              value={form.sortOrder}
+              onChange={(e) => setForm(prev => ({ ...prev, sortOrder: parseInt(e.target.value) || 0 }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 mt-6 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : editing ? 'Save Changes' : 'Create Category'}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading categories...</div>
+        ) : categories.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No categories yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slug</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {flattenCategories(categories).map(({ category, depth }) => (
+                <tr key={category._id}>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    <span style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                      {category.icon && <span className="mr-1.5">{category.icon}</span>}
+                      {category.name}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500 font-mono">{category.slug}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500">{category.productCount || 0}</td>
+                  <td className="px-6 py-3 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      category.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {category.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right space-x-3">
+                    <button onClick={() => startEditing(category)} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button onClick={() => handleToggleActive(category)} className="text-gray-600 hover:text-gray-800">
+                      {category.isActive ? 'Deactivate' : 'Activate'}
+                    </button>
+                    <button onClick={() => handleDelete(category)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { Category, flattenCategories } from '../../lib/category-api'
+
+interface CategorySelectProps {
+  categories: Category[]
+  value: string
+  onChange: (value: string) => void
+  // Label of the empty option, e.g. "All Categories"; omit to require a choice
+  emptyLabel?: string
+  // Option values: category IDs (for saving) or slugs (for search links)
+  valueKey?: '_id' | 'slug'
+  id?: string
+  name?: string
+  className?: string
+}
+
+// <select> over the category tree, with subcategories indented under their parents
+export default function CategorySelect({
+  categories,
+  value,
+  onChange,
+  emptyLabel,
+  valueKey = '_id',
+  id,
+  name,
+  className
+}: CategorySelectProps) {
+  return (
+    <select
+      id={id}
+      name={name}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      <option value="" disabled={!emptyLabel}>
+        {emptyLabel || 'Select a category'}
+      </option>
+      {flattenCategories(categories).map(({ category, depth }) => (
+        <option key={category._id} value={category[valueKey]}>
+          {'\u00A0\u00A0\u00A0'.repeat(depth)}
+          {category.icon ? `${category.icon} ` : ''}
+          {category.name}
+          {category.isActive ? '' : ' (inactive)'}
+        </option>
+      ))}
+    </select>
+  )
+}
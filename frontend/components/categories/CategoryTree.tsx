@@ -0,0 +1,64 @@
+'use client'
+
+import { Category, getCategoryPath } from '../../lib/category-api'
+
+interface CategoryTreeProps {
+  categories: Category[]
+  selected: string             // Slug of the selected category, '' for all
+  onSelect: (slug: string) => void
+  // Result counts by category ID (including subcategories), e.g. search facets;
+  // defaults to each category's product count
+  counts?: Record<string, number>
+}
+
+// Products in a category and all of its subcategories
+const countProducts = (category: Category): number =>
+  (category.productCount || 0) + category.children.reduce((sum, child) => sum + countProducts(child), 0)
+
+// Browsable category list. Subcategories open up under the selected category
+// and its ancestors.
+export default function CategoryTree({ categories, selected, onSelect, counts }: CategoryTreeProps) {
+  const openIds = new Set(getCategoryPath(categories, selected).map(category => category._id))
+
+  const renderNodes = (nodes: Category[], depth: number) => (
+    <ul className={depth > 0 ? 'ml-4 border-l border-gray-100 pl-2' : ''}>
+      {nodes.map(category => {
+        const isSelected = category.slug === selected
+        return (
+          <li key={category._id}>
+            <button
+              type="button"
+              onClick={() => onSelect(isSelected ? '' : category.slug)}
+              aria-current={isSelected ? 'true' : undefined}
+              className={`w-full flex items-center justify-between px-2 py-1.5 rounded-md text-sm text-left transition-colors ${
+                isSelected ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span>
+                {category.icon && <span className="mr-1.5">{category.icon}</span>}
+                {category.name}
+              </span>
+              <span className="text-xs text-gray-400">{counts ? counts[category._id] || 0 : countProducts(category)}</span>
+            </button>
+            {category.children.length > 0 && openIds.has(category._id) && renderNodes(category.children, depth + 1)}
+          </li>
+        )
+      })}
+    </ul>
+  )
+
+  return (
+    <nav aria-label="Categories" className="space-y-1">
+      <button
+        type="button"
+        onClick={() => onSelect('')}
+        className={`w-full px-2 py-1.5 rounded-md text-sm text-left transition-colors ${
+          selected ? 'text-gray-700 hover:bg-gray-50' : 'bg-blue-50 text-blue-700 font-medium'
+        }`}
+      >
+        All Categories
+      </button>
+      {renderNodes(categories, 0)}
+    </nav>
+  )
+}
@@ -0,0 +1,3 @@
+export { default as CategorySelect } from './CategorySelect'
+export { default as CategoryTree } from './CategoryTree'
+export { default as CategoryManager } from './CategoryManager'
\ No newline at end of file
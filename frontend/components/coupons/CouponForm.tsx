@@ -0,0 +1,278 @@
+'use client'
+
+import { useState } from 'react'
+import { Coupon, CouponFormData, CouponType } from '../../lib/coupon-api'
+import { flattenCategories } from '../../lib/category-api'
+import { useCategories } from '../../lib/useCategories'
+
+// Optional numbers and dates are kept as strings while editing; '' means "not set"
+interface CouponFormState {
+  code: string
+  description: string
+  type: CouponType
+  value: string
+  maxDiscount: string
+  minOrderValue: string
+  usageLimit: string
+  perUserLimit: string
+  startsAt: string
+  expiresAt: string
+  categories: string[]
+  isActive: boolean
+}
+
+type CouponFormErrors = Partial<Record<keyof CouponFormState, string>>
+
+interface CouponFormProps {
+  coupon?: Coupon
+  onSubmit: (data: CouponFormData) => Promise<void>
+  onCancel: () => void
+  isLoading?: boolean
+}
+
+const toDateInput = (value?: string) => value ? value.slice(0, 10) : ''
+
+const toOptionalNumber = (value: string) => value.trim() === '' ? null : Number(value)
+
+export default function CouponForm({ coupon, onSubmit, onCancel, isLoading = false }: CouponFormProps) {
+  const [formData, setFormData] = useState<CouponFormState>(() => ({
+    code: coupon?.code || '',
+    description: coupon?.description || '',
+    type: coupon?.type || 'percentage',
+    value: coupon ? String(coupon.value) : '',
+    maxDiscount: coupon?.maxDiscount ? String(coupon.maxDiscount) : '',
+    minOrderValue: coupon?.minOrderValue ? String(coupon.minOrderValue) : '',
+    usageLimit: coupon?.usageLimit ? String(coupon.usageLimit) : '',
+    perUserLimit: coupon?.perUserLimit ? String(coupon.perUserLimit) : '',
+    startsAt: toDateInput(coupon?.startsAt),
+    expiresAt: toDateInput(coupon?.expiresAt),
+    categories: coupon?.categories || [],
+    isActive: coupon?.isActive ?? true
+  }))
+  const [errors, setErrors] = useState<CouponFormErrors>({})
+  const { categories } = useCategories()
+
+  const validateForm = (): boolean => {
+    const newErrors: CouponFormErrors = {}
+    const value = Number(formData.value)
+
+    if (!coupon && !/^[A-Z0-9_-]{3,30}$/.test(formData.code)) {
+      newErrors.code = 'Use 3-30 letters, numbers, dashes or underscores'
+    }
+
+    if (!formData.value || isNaN(value) || value <= 0) {
+      newErrors.value = 'Value must be greater than 0'
+    } else if (formData.type === 'percentage' && value > 100) {
+      newErrors.value = 'Percentage cannot exceed 100'
+    }
+
+    for (const field of ['maxDiscount', 'minOrderValue'] as const) {
+      if (formData[field] && (isNaN(Number(formData[field])) || Number(formData[field]) < 0)) {
+        newErrors[field] = 'Must be a positive amount'
+      }
+    }
+
+    for (const field of ['usageLimit', 'perUserLimit'] as const) {
+      if (formData[field] && (!Number.isInteger(Number(formData[field])) || Number(formData[field]) < 1)) {
+        newErrors[field] = 'Must be a whole number of 1 or more'
+      }
+    }
+
+    if (formData.startsAt && formData.expiresAt && formData.startsAt >= formData.expiresAt) {
+      newErrors.expiresAt = 'Expiry must be after the start date'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    try {
+      await onSubmit({
+        code: formData.code,
+        description: formData.description.trim() || undefined,
+        type: formData.type,
+        value: Number(formData.value),
+        maxDiscount: formData.type === 'percentage' ? toOptionalNumber(formData.maxDiscount) : null,
+        minOrderValue: Number(formData.minOrderValue) || 0,
+        usageLimit: toOptionalNumber(formData.usageLimit),
+        perUserLimit: toOptionalNumber(formData.perUserLimit),
+        startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : null,
+        expiresAt: formData.expiresAt ? new Date(formData.expiresAt).toISOString() : null,
+        categories: formData.categories,
+        isActive: formData.isActive
+      })
+    } catch (error) {
+      console.error('Form submission error:', error)
+    }
+  }
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'code' ? value.toUpperCase() : value
+    }))
+
+    if (errors[name as keyof CouponFormErrors]) {
+      setErrors(prev => ({ ...prev, [name]: undefined }))
+    }
+  }
+
+  const toggleCategory = (category: string) => {
+    setFormData(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter(c => c !== category)
+        : [...prev.categories, category]
+    }))
+  }
+
+  const inputClass = (field: keyof CouponFormState) =>
+    `w-full px-3 py-2 border ${errors[field] ? 'border-red-300' : 'border-gray-300'} rounded-md text-black focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm`
+
+  const renderError = (field: keyof CouponFormState) =>
+    errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]}</p>
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">Code *</label>
+          <input
+            id="code"
+            name="code"
+            type="text"
+            value={formData.code}
+            onChange={handleInputChange}
+            disabled={!!coupon}
+            placeholder="SUMMER10"
+            className={`${inputClass('code')} disabled:bg-gray-100`}
+          />
+          {renderError('code')}
+        </div>
+
+        <div>
+          <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            id="description"
+            name="description"
+            type="text"
+            value={formData.description}
+            onChange={handleInputChange}
+            placeholder="10% off summer clothing"
+            className={inputClass('description')}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">Discount Type *</label>
+          <select id="type" name="type" value={formData.type} onChange={handleInputChange} className={inputClass('type')}>
+            <option value="percentage">Percentage off</option>
+            <option value="fixed">Fixed amount off</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="value" className="block text-sm font-medium text-gray-700 mb-1">
+            {formData.type === 'percentage' ? 'Percentage *' : 'Amount (৳) *'}
+          </label>
+          <input id="value" name="value" type="number" min="0" step="0.01" value={formData.value} onChange={handleInputChange} className={inputClass('value')} />
+          {renderError('value')}
+        </div>
+
+        {formData.type === 'percentage' && (
+          <div>
+            <label htmlFor="maxDiscount" className="block text-sm font-medium text-gray-700 mb-1">Maximum Discount (৳)</label>
+            <input id="maxDiscount" name="maxDiscount" type="number" min="0" step="0.01" value={formData.maxDiscount} onChange={handleInputChange} placeholder="No cap" className={inputClass('maxDiscount')} />
+            {renderError('maxDiscount')}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="minOrderValue" className="block text-sm font-medium text-gray-700 mb-1">Minimum Spend (৳)</label>
+          <input id="minOrderValue" name="minOrderValue" type="number" min="0" step="0.01" value={formData.minOrderValue} onChange={handleInputChange} placeholder="0" className={inputClass('minOrderValue')} />
+          {renderError('minOrderValue')}
+        </div>
+
+        <div>
+          <label htmlFor="usageLimit" className="block text-sm font-medium text-gray-700 mb-1">Total Uses</label>
+          <input id="usageLimit" name="usageLimit" type="number" min="1" step="1" value={formData.usageLimit} onChange={handleInputChange} placeholder="Unlimited" className={inputClass('usageLimit')} />
+          {renderError('usageLimit')}
+        </div>
+
+        <div>
+          <label htmlFor="perUserLimit" className="block text-sm font-medium text-gray-700 mb-1">Uses per Buyer</label>
+          <input id="perUserLimit" name="perUserLimit" type="number" min="1" step="1" value={formData.perUserLimit} onChange={handleInputChange} placeholder="Unlimited" className={inputClass('perUserLimit')} />
+          {renderError('perUserLimit')}
+        </div>
+
+        <div>
+          <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+          <input id="startsAt" name="startsAt" type="date" value={formData.startsAt} onChange={handleInputChange} className={inputClass('startsAt')} />
+        </div>
+
+        <div>
+          <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+          <input id="expiresAt" name="expiresAt" type="date" value={formData.expiresAt} onChange={handleInputChange} className={inputClass('expiresAt')} />
+          {renderError('expiresAt')}
+        </div>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-2">Categories <span className="font-normal text-gray-500">(none selected applies to all; subcategories are included)</span></p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-3 gap-y-1">
+          {flattenCategories(categories).map(({ category, depth }) => (
+            <label
+              key={category._id}
+              className="flex items-center gap-1 text-sm text-gray-700"
+              style={{ paddingLeft: `${depth}rem` }}
+            >
+              <input
+                type="checkbox"
+                checked={formData.categories.includes(category._id)}
+                onChange={() => toggleCategory(category._id)}
+              />
+              {category.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.isActive}
+          onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+        />
+        Active
+      </label>
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Saving...' : coupon ? 'Update Coupon' : 'Create Coupon'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { couponApi, Coupon, CouponFilters, CouponFormData } from '../../lib/coupon-api'
+import { findCategory } from '../../lib/category-api'
+import { useCategories } from '../../lib/useCategories'
+import CouponForm from './CouponForm'
+
+interface CouponManagerProps {
+  // Show who owns each coupon (admins see every seller's promotions)
+  showOwner?: boolean
+}
+
+const describeDiscount = (coupon: Coupon) => {
+  const amount = coupon.type === 'percentage'
+    ? `${coupon.value}% off`
+    : `৳${coupon.value.toLocaleString()} off`
+  const cap = coupon.type === 'percentage' && coupon.maxDiscount ? ` (up to ৳${coupon.maxDiscount.toLocaleString()})` : ''
+  const minimum = coupon.minOrderValue > 0 ? `, min. spend ৳${coupon.minOrderValue.toLocaleString()}` : ''
+  return amount + cap + minimum
+}
+
+const couponStatus = (coupon: Coupon) => {
+  if (!coupon.isActive) return { label: 'Inactive', className: 'bg-gray-100 text-gray-700' }
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= new Date()) return { label: 'Expired', className: 'bg-red-100 text-red-800' }
+  if (coupon.startsAt && new Date(coupon.startsAt) > new Date()) return { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-800' }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' }
+}
+
+// List, create, edit and delete coupons. The API decides which coupons the
+// user sees: sellers their own promotions, admins every coupon.
+export default function CouponManager({ showOwner = false }: CouponManagerProps) {
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<CouponFilters>({ page: 1, limit: 20 })
+  const [totalPages, setTotalPages] = useState(1)
+  // Coupon being edited, 'new' while creating one, null when no form is open
+  const [editing, setEditing] = useState<Coupon | 'new' | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { categories } = useCategories(true)
+
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await couponApi.getCoupons(filters)
+      if (response.success && response.data) {
+        setCoupons(response.data.coupons)
+        setTotalPages(response.data.pagination.totalPages || 1)
+      }
+    } catch (error) {
+      console.error('Error fetching coupons:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch coupons')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    fetchCoupons()
+  }, [fetchCoupons])
+
+  const handleSubmit = async (data: CouponFormData) => {
+    setSaving(true)
+    try {
+      if (editing && editing !== 'new') {
+        // The code field is disabled when editing and ignored by the API
+        await couponApi.updateCoupon(editing._id, data)
+        toast.success('Coupon updated')
+      } else {
+        await couponApi.createCoupon(data)
+        toast.success('Coupon created')
+      }
+      setEditing(null)
+      fetchCoupons()
+    } catch (error) {
+      toast.error(
+        (isAxiosError(error) && (error.response?.data?.error || error.response?.data?.message)) ||
+        'Failed to save coupon'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return
+
+    try {
+      const response = await couponApi.deleteCoupon(coupon._id)
+      toast.success(response.message || 'Coupon deleted')
+      fetchCoupons()
+    } catch (error) {
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to delete coupon')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            placeholder="Search by code"
+            value={filters.search || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value || undefined, page: 1 }))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={filters.status || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, status: (e.target.value || undefined) as CouponFilters['status'], page: 1 }))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All coupons</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+            <option value="expired">Expired</option>
+          </select>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            New Coupon
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">
+            {editing === 'new' ? 'New Coupon' : `Edit ${editing.code}`}
+          </h2>
+          <CouponForm
+            key={editing === 'new' ? 'new' : editing._id}
+            coupon={editing === 'new' ? undefined : editing}
+            onSubmit={handleSubmit}
+            onCancel={() => setEditing(null)}
+            isLoading={saving}
+          />
+        </div>
+      )}
+
+      {/* Coupon List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="p-6 space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-100 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : coupons.length === 0 ? (
+          <p className="p-6 text-sm text-gray-600">No coupons found.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                {showOwner && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {coupons.map(coupon => {
+                const status = couponStatus(coupon)
+                const owner = typeof coupon.sellerId === 'object' ? coupon.sellerId.name : undefined
+                return (
+                  <tr key={coupon._id}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-mono font-medium text-gray-900">{coupon.code}</div>
+                      {coupon.description && <div className="text-gray-500">{coupon.description}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {describeDiscount(coupon)}
+                      {coupon.categories.length > 0 && (
+                        <div className="text-xs text-gray-500">
+                          {coupon.categories.map(id => findCategory(categories, id)?.name || 'Removed category').join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    {showOwner && (
+                      <td className="px-6 py-4 text-sm text-gray-700">{owner || 'Platform'}</td>
+                    )}
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right whitespace-nowrap space-x-3">
+                      <button onClick={() => setEditing(coupon)} className="text-blue-600 hover:text-blue-800 font-medium">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(coupon)} className="text-red-600 hover:text-red-800 font-medium">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page || 1) - 1 }))}
+            disabled={(filters.page || 1) <= 1}
+            className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="px-3 py-1 text-sm text-gray-600">Page {filters.page || 1} of {totalPages}</span>
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page || 1) + 1 }))}
+            disabled={(filters.page || 1) >= totalPages}
+            className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export { default as CouponForm } from './CouponForm'
+export { default as CouponManager } from './CouponManager'
@@ -7,6 +7,24 @@ export * from './auth'
 // Product components
 export * from './products'
 
+// Address components
+export * from './addresses'
+
+// Coupon components
+export * from './coupons'
+
+// Category components
+export * from './categories'
+
+// Wishlist components
+export * from './wishlists'
+
+// Notification components
+export * from './notifications'
+
+// Webhook components
+export * from './webhooks'
+
 // Cart components
 export { default as CartIcon } from './cart/CartIcon'
 export { default as AddToCartButton } from './cart/AddToCartButton'
@@ -3,13 +3,14 @@
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useState, useEffect } from 'react'
-import { CartIcon } from '@/components'
+import { CartIcon, NotificationBell } from '@/components'
+import { authApi } from '@/lib/auth-api'
 
 interface User {
   _id: string
   name: string
   email: string
-  role: 'admin' | 'seller' | 'buyer'
+  role: string
 }
 
 export default function Header() {
@@ -33,8 +34,15 @@ export default function Header() {
     }
   }, [])
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      // Revoke the session server-side so its refresh token stops working
+      await authApi.logout()
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
     localStorage.removeItem('token')
+    localStorage.removeItem('refreshToken')
     localStorage.removeItem('user')
     setUser(null)
     router.push('/')
@@ -102,12 +110,66 @@ export default function Header() {
                 </svg>
                 Users
               </Link>
+              <Link 
+                href="/admin/roles" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+                Roles
+              </Link>
+              <Link 
+                href="/admin/coupons" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                </svg>
+                Coupons
+              </Link>
+              <Link 
+                href="/admin/categories" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                </svg>
+                Categories
+              </Link>
+              <Link 
+                href="/admin/security" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+                Security
+              </Link>
+              <Link 
+                href="/admin/storage" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+                </svg>
+                Storage
+              </Link>
             </>
           )
         case 'seller':
           return (
             <>
               {commonLinks}
+              <Link 
+                href="/seller/dashboard" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+                Dashboard
+              </Link>
               <Link 
                 href="/seller/products" 
                 className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
@@ -126,6 +188,24 @@ export default function Header() {
                 </svg>
                 Orders
               </Link>
+              <Link 
+                href="/seller/coupons" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                </svg>
+                Promotions
+              </Link>
+              <Link 
+                href="/seller/webhooks" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                Webhooks
+              </Link>
             </>
           )
         case 'buyer':
@@ -142,6 +222,15 @@ export default function Header() {
                 </svg>
                 My Orders
               </Link>
+              <Link 
+                href="/wishlists" 
+                className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                </svg>
+                Wishlist
+              </Link>
             </>
           )
         default:
@@ -152,6 +241,7 @@ export default function Header() {
     return (
       <div className="flex items-center space-x-4">
         {roleSpecificLinks()}
+        <NotificationBell />
         <div className="relative">
           <button
             onClick={() => setIsMenuOpen(!isMenuOpen)}
@@ -258,16 +348,40 @@ export default function Header() {
                       <Link href="/admin/users" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
                         Manage Users
                       </Link>
+                      <Link href="/admin/roles" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Roles &amp; Permissions
+                      </Link>
+                      <Link href="/admin/coupons" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Coupons
+                      </Link>
+                      <Link href="/admin/categories" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Categories
+                      </Link>
+                      <Link href="/admin/security" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Security Events
+                      </Link>
+                      <Link href="/admin/storage" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Storage
+                      </Link>
                     </>
                   )}
                   {user.role === 'seller' && (
                     <>
+                      <Link href="/seller/dashboard" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Dashboard
+                      </Link>
                       <Link href="/seller/products" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
                         My Products
                       </Link>
                       <Link href="/seller/orders" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
                         Orders
                       </Link>
+                      <Link href="/seller/coupons" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Promotions
+                      </Link>
+                      <Link href="/seller/webhooks" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Webhooks
+                      </Link>
                     </>
                   )}
                   {user.role === 'buyer' && (
@@ -278,6 +392,9 @@ export default function Header() {
                       <Link href="/orders" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
                         My Orders
                       </Link>
+                      <Link href="/wishlists" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
+                        Wishlist
+                      </Link>
                     </>
                   )}
                   <Link href="/products" className="block px-3 py-2 text-gray-600 hover:text-gray-900">
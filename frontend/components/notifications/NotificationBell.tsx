@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'react-hot-toast'
+import { notificationApi, AppNotification } from '../../lib/notification-api'
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60 * 1000
+
+// Notifications shown in the dropdown
+const DROPDOWN_LIMIT = 10
+
+const timeAgo = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return new Date(dateString).toLocaleDateString()
+}
+
+// Bell with the unread count that opens the latest notifications.
+// Only rendered for signed-in users.
+export default function NotificationBell() {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const fetchNotifications = () => {
+    notificationApi.getNotifications({ limit: DROPDOWN_LIMIT })
+      .then(response => {
+        if (response.success && response.data) {
+          setNotifications(response.data.notifications)
+          setUnreadCount(response.data.unreadCount)
+        }
+      })
+      .catch(error => console.error('Error fetching notifications:', error))
+  }
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Close the dropdown on clicks outside it
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const handleToggle = () => {
+    if (!isOpen) fetchNotifications()
+    setIsOpen(!isOpen)
+  }
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    setIsOpen(false)
+
+    if (!notification.readAt) {
+      setNotifications(prev => prev.map(n => n._id === notification._id ? { ...n, readAt: new Date().toISOString() } : n))
+      setUnreadCount(prev => Math.max(0, prev - 1))
+      notificationApi.markRead(notification._id).catch(error => console.error('Error marking notification read:', error))
+    }
+
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationApi.markAllRead()
+      setNotifications(prev => prev.map(n => ({ ...n, readAt: n.readAt || new Date().toISOString() })))
+      setUnreadCount(0)
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+      toast.error('Failed to mark notifications as read')
+    }
+  }
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={handleToggle}
+        className="relative p-2 text-gray-600 hover:text-gray-900 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center font-medium">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl z-50 border border-gray-100">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="font-medium text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">You&apos;re all caught up</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li key={notification._id}>
+                  <button
+                    onClick={() => handleOpenNotification(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${notification.readAt ? '' : 'bg-blue-50'}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-900">{notification.title}</span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{timeAgo(notification.createdAt)}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
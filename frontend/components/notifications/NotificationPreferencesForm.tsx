@@ -0,0 +1,73 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { notificationApi, NotificationPreferences } from '../../lib/notification-api'
+
+const CATEGORIES: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  { key: 'orders', label: 'Orders', description: 'New orders and changes to the status of your orders' },
+  { key: 'account', label: 'Account', description: 'Your account being suspended or restored' },
+  { key: 'products', label: 'Products', description: 'Your products being taken off sale by an administrator' }
+]
+
+// Switches for the in-app notification categories a user receives
+export default function NotificationPreferencesForm() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [saving, setSaving] = useState<keyof NotificationPreferences | null>(null)
+
+  useEffect(() => {
+    notificationApi.getPreferences()
+      .then(response => {
+        if (response.success && response.data) setPreferences(response.data)
+      })
+      .catch(error => {
+        console.error('Error fetching notification preferences:', error)
+        toast.error('Failed to load notification preferences')
+      })
+  }, [])
+
+  const handleToggle = async (key: keyof NotificationPreferences) => {
+    if (!preferences) return
+
+    try {
+      setSaving(key)
+      const response = await notificationApi.updatePreferences({ [key]: !preferences[key] })
+      if (response.success && response.data) {
+        setPreferences(response.data)
+      }
+    } catch (error) {
+      console.error('Error updating notification preferences:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to update notification preferences')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  if (!preferences) {
+    return <div className="h-24 bg-gray-100 rounded-lg animate-pulse"></div>
+  }
+
+  return (
+    <ul className="divide-y">
+      {CATEGORIES.map(({ key, label, description }) => (
+        <li key={key} className="py-3 flex items-center justify-between">
+          <div>
+            <p className="font-medium text-gray-900">{label}</p>
+            <p className="text-sm text-gray-600">{description}</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preferences[key]}
+              disabled={saving !== null}
+              onChange={() => handleToggle(key)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            {preferences[key] ? 'On' : 'Off'}
+          </label>
+        </li>
+      ))}
+    </ul>
+  )
+}
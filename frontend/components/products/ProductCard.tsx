@@ -3,17 +3,24 @@
 import Image from 'next/image'
 import Link from 'next/link'
 import { useState } from 'react'
+import StarRating from './StarRating'
+import WishlistButton from '../wishlists/WishlistButton'
+import { CategorySummary, getCategoryName } from '../../lib/category-api'
 
 interface Product {
   _id: string
   title: string
   description: string
-  category: string
+  category: CategorySummary
   price: number
   images: string[]
+  stock?: number
+  lowStockThreshold?: number
   sellerId: string
   sellerName?: string
   isActive: boolean
+  averageRating?: number
+  reviewCount?: number
   createdAt: string
 }
 
@@ -81,17 +88,21 @@ export default function ProductCard({
         {/* Category Badge */}
         <div className="absolute top-2 left-2">
           <span className="bg-blue-600 text-white text-xs px-2 py-1 rounded-full">
-            {product.category}
+            {getCategoryName(product.category)}
           </span>
         </div>
 
         {/* Status Badge */}
-        {!product.isActive && (
+        {!product.isActive ? (
           <div className="absolute top-2 right-2">
             <span className="bg-red-600 text-white text-xs px-2 py-1 rounded-full">
               Inactive
             </span>
           </div>
+        ) : !showActions && (
+          <div className="absolute top-2 right-2">
+            <WishlistButton productId={product._id} className="bg-white/90 rounded-full p-1.5 shadow" />
+          </div>
         )}
       </div>
 
@@ -117,6 +128,11 @@ export default function ProductCard({
           </p>
         )}
 
+        {/* Rating */}
+        <div className="mb-2">
+          <StarRating rating={product.averageRating || 0} reviewCount={product.reviewCount || 0} />
+        </div>
+
         {/* Price */}
         <div className="flex items-center justify-between mb-4">
           <span className="text-2xl font-bold text-green-600">
@@ -127,6 +143,25 @@ export default function ProductCard({
           </span>
         </div>
 
+        {/* Stock (seller view) */}
+        {showActions && product.stock !== undefined && (
+          <div className="mb-4">
+            {product.stock === 0 ? (
+              <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full font-medium">
+                Out of stock
+              </span>
+            ) : product.stock <= (product.lowStockThreshold ?? 0) ? (
+              <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded-full font-medium">
+                Low stock: {product.stock} left
+              </span>
+            ) : (
+              <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full font-medium">
+                In stock: {product.stock}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex gap-2">
           {!showActions ? (
@@ -3,12 +3,17 @@
 import Image from 'next/image'
 import Link from 'next/link'
 import { useState } from 'react'
+import StarRating from './StarRating'
+import VariantSelector from './VariantSelector'
+import WishlistButton from '../wishlists/WishlistButton'
+import { ProductVariant, VariantOption, findVariantBySelection } from '../../lib/product-api'
+import { CategorySummary, getCategoryName } from '../../lib/category-api'
 
 interface Product {
   _id: string
   title: string
   description: string
-  category: string
+  category: CategorySummary
   price: number
   images: string[]
   documents: string[]
@@ -16,12 +21,16 @@ interface Product {
   sellerName?: string
   sellerEmail?: string
   isActive: boolean
+  averageRating?: number
+  reviewCount?: number
+  variantOptions?: VariantOption[]
+  variants?: ProductVariant[]
   createdAt: string
 }
 
 interface ProductDetailProps {
   product: Product
-  onAddToCart?: (productId: string, quantity: number) => void
+  onAddToCart?: (productId: string, quantity: number, variantId?: string) => void
   isOwner?: boolean
   onEdit?: () => void
   onDelete?: () => void
@@ -38,12 +47,26 @@ export default function ProductDetail({
   const [quantity, setQuantity] = useState(1)
   const [isLoading, setIsLoading] = useState(false)
   const [imageError, setImageError] = useState<boolean[]>([])
+  // Chosen value for each variant option, keyed by option name
+  const [selection, setSelection] = useState<Record<string, string>>({})
+
+  const hasVariants = (product.variants?.length ?? 0) > 0
+  const selectedVariant = findVariantBySelection(product.variants, selection)
+  const price = selectedVariant?.price ?? product.price
+  // Show the chosen variant's own photos when it has any
+  const images = selectedVariant && selectedVariant.images.length > 0 ? selectedVariant.images : product.images
+  const activeImage = Math.min(selectedImage, Math.max(images.length - 1, 0))
+
+  const handleSelectOption = (name: string, value: string) => {
+    setSelection(prev => ({ ...prev, [name]: value }))
+    setSelectedImage(0)
+  }
 
   const handleAddToCart = async () => {
     if (onAddToCart) {
       setIsLoading(true)
       try {
-        await onAddToCart(product._id, quantity)
+        await onAddToCart(product._id, quantity, selectedVariant?._id)
       } finally {
         setIsLoading(false)
       }
@@ -110,15 +133,15 @@ export default function ProductDetail({
         {/* Image Gallery */}
         <div className="flex flex-col-reverse">
           {/* Image Thumbnails */}
-          {product.images && product.images.length > 1 && (
+          {images.length > 1 && (
             <div className="hidden mt-6 w-full max-w-2xl mx-auto sm:block lg:max-w-none">
               <div className="grid grid-cols-4 gap-6">
-                {product.images.map((image, index) => (
+                {images.map((image, index) => (
                   <button
                     key={index}
                     onClick={() => setSelectedImage(index)}
                     className={`relative h-24 bg-white rounded-md flex items-center justify-center text-sm font-medium uppercase text-gray-900 cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring focus:ring-offset-4 focus:ring-blue-500 ${
-                      selectedImage === index ? 'ring-2 ring-blue-500' : ''
+                      activeImage === index ? 'ring-2 ring-blue-500' : ''
                     }`}
                   >
                     <span className="sr-only">Image {index + 1}</span>
@@ -148,13 +171,13 @@ export default function ProductDetail({
           {/* Main Image */}
           <div className="w-full aspect-w-1 aspect-h-1">
             <div className="relative h-96 w-full">
-              {product.images && product.images.length > 0 && !imageError[selectedImage] ? (
+              {images.length > 0 && !imageError[activeImage] ? (
                 <Image
-                  src={product.images[selectedImage]}
+                  src={images[activeImage]}
                   alt={product.title}
                   fill
                   className="object-cover object-center rounded-lg"
-                  onError={() => handleImageError(selectedImage)}
+                  onError={() => handleImageError(activeImage)}
                 />
               ) : (
                 <div className="w-full h-full bg-gray-200 flex items-center justify-center rounded-lg">
@@ -169,19 +192,46 @@ export default function ProductDetail({
 
         {/* Product Info */}
         <div className="mt-10 px-4 sm:px-0 sm:mt-16 lg:mt-0">
-          <h1 className="text-3xl font-extrabold tracking-tight text-gray-900">
-            {product.title}
-          </h1>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-extrabold tracking-tight text-gray-900">
+              {product.title}
+            </h1>
+            {product.isActive && (
+              <WishlistButton productId={product._id} variantId={selectedVariant?._id} showLabel className="mt-2 shrink-0" />
+            )}
+          </div>
+
+          <div className="mt-2">
+            <StarRating rating={product.averageRating || 0} reviewCount={product.reviewCount || 0} size="md" />
+          </div>
 
           <div className="mt-3">
             <h2 className="sr-only">Product information</h2>
-            <p className="text-3xl text-gray-900">{formatPrice(product.price)}</p>
+            <p className="text-3xl text-gray-900">{formatPrice(price)}</p>
+            {selectedVariant && (
+              <p className="mt-1 text-sm text-gray-500">
+                SKU {selectedVariant.sku} · {selectedVariant.stock > 0 ? `${selectedVariant.stock} in stock` : 'Out of stock'}
+              </p>
+            )}
           </div>
 
+          {/* Variant Options */}
+          {hasVariants && product.variantOptions && (
+            <div className="mt-6">
+              <VariantSelector
+                variantOptions={product.variantOptions}
+                variants={product.variants || []}
+                selection={selection}
+                onChange={handleSelectOption}
+              />
+            </div>
+          )}
+
           {/* Category */}
           <div className="mt-6">
             <span className="inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
-              {product.category}
+              {product.category?.icon && <span className="mr-1">{product.category.icon}</span>}
+              {getCategoryName(product.category)}
             </span>
           </div>
 
@@ -276,9 +326,9 @@ export default function ProductDetail({
                   </div>
                   <button
                     onClick={handleAddToCart}
-                    disabled={isLoading}
+                    disabled={isLoading || (hasVariants && !selectedVariant)}
                     className={`flex-1 border border-transparent rounded-md py-3 px-8 flex items-center justify-center text-base font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                      isLoading
+                      isLoading || (hasVariants && !selectedVariant)
                         ? 'bg-gray-400 cursor-not-allowed'
                         : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
                     }`}
@@ -291,6 +341,8 @@ export default function ProductDetail({
                         </svg>
                         Adding to Cart...
                       </>
+                    ) : hasVariants && !selectedVariant ? (
+                      'Select Options'
                     ) : (
                       'Add to Cart'
                     )}
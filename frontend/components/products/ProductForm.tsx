@@ -1,13 +1,20 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Product } from '../../lib/product-api'
+import { Product, ProductVariantInput, VariantOption } from '../../lib/product-api'
+import VariantEditor from './VariantEditor'
+import CategorySelect from '../categories/CategorySelect'
+import { useCategories } from '../../lib/useCategories'
 
 interface ProductFormData {
   title: string
   description: string
   category: string
   price: number
+  stock: number
+  lowStockThreshold: number
+  variantOptions?: VariantOption[]
+  variants?: ProductVariantInput[]
 }
 
 interface ProductFormErrors {
@@ -15,6 +22,9 @@ interface ProductFormErrors {
   description?: string
   category?: string
   price?: string
+  stock?: string
+  lowStockThreshold?: string
+  variants?: string
 }
 
 interface ProductFormProps {
@@ -24,18 +34,36 @@ interface ProductFormProps {
   isLoading?: boolean
 }
 
-const categories = [
-  'Electronics',
-  'Clothing',
-  'Books',
-  'Home & Garden',
-  'Sports',
-  'Beauty',
-  'Automotive',
-  'Food',
-  'Toys',
-  'Other'
-]
+// Check the variant editor's output against the limits the API enforces
+const validateVariants = (variantOptions: VariantOption[] = [], variants: ProductVariantInput[] = []): string | undefined => {
+  const names = variantOptions.map(option => option.name.toLowerCase())
+  if (new Set(names).size !== names.length) {
+    return 'Option names must be unique'
+  }
+  if (variantOptions.some(option => option.values.length > 20)) {
+    return 'An option can have at most 20 values'
+  }
+  if (variants.length > 100) {
+    return 'A product can have at most 100 variants'
+  }
+  for (const variant of variants) {
+    const label = variant.options.map(option => option.value).join(' / ')
+    if (variant.sku && !/^[A-Z0-9_-]{1,40}$/.test(variant.sku)) {
+      return `SKU for ${label} may only contain letters, numbers, dashes and underscores`
+    }
+    if (variant.price !== null && variant.price !== undefined && (!(variant.price > 0) || variant.price > 1000000)) {
+      return `Price for ${label} must be greater than 0 and at most 1,000,000`
+    }
+    if (!Number.isInteger(variant.stock) || (variant.stock || 0) < 0 || (variant.stock || 0) > 10000) {
+      return `Stock for ${label} must be a whole number from 0 to 10,000`
+    }
+  }
+  const skus = variants.map(variant => variant.sku).filter(Boolean)
+  if (new Set(skus).size !== skus.length) {
+    return 'Each variant needs a different SKU'
+  }
+  return undefined
+}
 
 export default function ProductForm({ 
   product, 
@@ -46,10 +74,13 @@ export default function ProductForm({
   const [formData, setFormData] = useState<ProductFormData>({
     title: '',
     description: '',
-    category: 'Electronics',
-    price: 0
+    category: '',
+    price: 0,
+    stock: 0,
+    lowStockThreshold: 5
   })
   const [errors, setErrors] = useState<ProductFormErrors>({})
+  const { categories } = useCategories()
 
   // Initialize form with product data if editing
   useEffect(() => {
@@ -57,8 +88,12 @@ export default function ProductForm({
       setFormData({
         title: product.title,
         description: product.description,
-        category: product.category,
-        price: product.price
+        category: product.category?._id || '',
+        price: product.price,
+        stock: product.stock ?? 0,
+        lowStockThreshold: product.lowStockThreshold ?? 5,
+        variantOptions: product.variantOptions,
+        variants: product.variants
       })
     }
   }, [product])
@@ -92,10 +127,44 @@ export default function ProductForm({
       newErrors.price = 'Price cannot exceed 1,000,000'
     }
 
+    if (!Number.isInteger(formData.stock) || formData.stock < 0) {
+      newErrors.stock = 'Stock must be a whole number of 0 or more'
+    } else if (formData.stock > 10000) {
+      newErrors.stock = 'Stock cannot exceed 10,000'
+    }
+
+    const variantError = validateVariants(formData.variantOptions, formData.variants)
+    if (variantError) {
+      newErrors.variants = variantError
+    }
+
+    if (!Number.isInteger(formData.lowStockThreshold) || formData.lowStockThreshold < 0) {
+      newErrors.lowStockThreshold = 'Threshold must be a whole number of 0 or more'
+    } else if (formData.lowStockThreshold > 10000) {
+      newErrors.lowStockThreshold = 'Threshold cannot exceed 10,000'
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
 
+  const handleVariantsChange = (variantOptions: VariantOption[], variants: ProductVariantInput[]) => {
+    setFormData(prev => ({
+      ...prev,
+      variantOptions,
+      variants,
+      // Stock of a product sold in variants is the sum of its variants' stock
+      stock: variantOptions.length > 0
+        ? variants.reduce((sum, variant) => sum + (variant.stock || 0), 0)
+        : prev.stock
+    }))
+    if (errors.variants) {
+      setErrors(prev => ({ ...prev, variants: undefined }))
+    }
+  }
+
+  const hasVariants = (formData.variantOptions?.length || 0) > 0
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -117,7 +186,11 @@ export default function ProductForm({
     
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'price' ? parseFloat(value) || 0 : value
+      [name]: name === 'price'
+        ? parseFloat(value) || 0
+        : name === 'stock' || name === 'lowStockThreshold'
+          ? parseInt(value, 10) || 0
+          : value
     }))
 
     // Clear error when user starts typing
@@ -196,21 +269,19 @@ export default function ProductForm({
           <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
             Category *
           </label>
-          <select
+          <CategorySelect
             id="category"
             name="category"
+            categories={categories}
             value={formData.category}
-            onChange={handleInputChange}
+            onChange={(category) => {
+              setFormData(prev => ({ ...prev, category }))
+              setErrors(prev => ({ ...prev, category: undefined }))
+            }}
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
               errors.category ? 'border-red-500' : 'border-gray-300'
             }`}
-          >
-            {categories.map(category => (
-              <option key={category} value={category}>
-                {category}
-              </option>
-            ))}
-          </select>
+          />
           {errors.category && (
             <p className="mt-1 text-sm text-red-600">{errors.category}</p>
           )}
@@ -248,6 +319,87 @@ export default function ProductForm({
           </p>
         </div>
 
+        {/* Inventory */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="stock" className="block text-sm font-medium text-gray-700 mb-2">
+              Stock *
+            </label>
+            <input
+              type="number"
+              id="stock"
+              name="stock"
+              value={formData.stock}
+              onChange={handleInputChange}
+              disabled={hasVariants}
+              min="0"
+              max="10000"
+              step="1"
+              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${
+                errors.stock ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.stock && (
+              <p className="mt-1 text-sm text-red-600">{errors.stock}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              {hasVariants ? 'Total of the variants below' : 'Units available for sale'}
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="lowStockThreshold" className="block text-sm font-medium text-gray-700 mb-2">
+              Low Stock Alert
+            </label>
+            <input
+              type="number"
+              id="lowStockThreshold"
+              name="lowStockThreshold"
+              value={formData.lowStockThreshold}
+              onChange={handleInputChange}
+              min="0"
+              max="10000"
+              step="1"
+              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                errors.lowStockThreshold ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.lowStockThreshold && (
+              <p className="mt-1 text-sm text-red-600">{errors.lowStockThreshold}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Flag this product when stock falls to this level
+            </p>
+          </div>
+        </div>
+
+        {/* Variants */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Variants
+          </label>
+          <p className="text-xs text-gray-500 mb-3">
+            Sell this product in options such as size or colour. Each combination gets its own SKU, price and stock.
+          </p>
+          {/* Remount when the product's photos change, as the form itself is reset then */}
+          <VariantEditor
+            key={product ? `${product._id}:${product.images.join()}` : 'new'}
+            initialOptions={product?.variantOptions}
+            initialVariants={product?.variants}
+            productImages={product?.images || []}
+            basePrice={formData.price}
+            onChange={handleVariantsChange}
+          />
+          {errors.variants && (
+            <p className="mt-1 text-sm text-red-600">{errors.variants}</p>
+          )}
+          {!product && (
+            <p className="mt-1 text-xs text-gray-500">
+              Photos can be assigned to variants after uploading them on the edit page.
+            </p>
+          )}
+        </div>
+
         {/* Form Actions */}
         <div className="flex gap-4 pt-6 border-t border-gray-200">
           <button
@@ -0,0 +1,336 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Image from 'next/image'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { reviewApi, Review, ReviewSummary } from '@/lib/review-api'
+import StarRating from './StarRating'
+
+interface ProductReviewsProps {
+  productId: string
+  sellerId: string
+}
+
+interface StoredUser {
+  _id: string
+  role: string
+  permissions?: string[]
+}
+
+const MAX_REVIEW_IMAGES = 5
+
+const readStoredUser = (): StoredUser | null => {
+  if (typeof window === 'undefined' || !localStorage.getItem('token')) return null
+  try {
+    return JSON.parse(localStorage.getItem('user') || 'null')
+  } catch {
+    return null
+  }
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback
+
+export default function ProductReviews({ productId, sellerId }: ProductReviewsProps) {
+  const [user] = useState<StoredUser | null>(readStoredUser)
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [summary, setSummary] = useState<ReviewSummary | null>(null)
+  const [page, setPage] = useState(1)
+  const [hasNextPage, setHasNextPage] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [eligibility, setEligibility] = useState<{ canReview: boolean; reason?: string } | null>(null)
+
+  // New review form
+  const [rating, setRating] = useState(0)
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [images, setImages] = useState<File[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  // Seller reply drafts keyed by review id
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({})
+  const [busyReviewId, setBusyReviewId] = useState<string | null>(null)
+
+  const isSeller = !!user && user._id === sellerId
+  const canModerate = !!user?.permissions?.includes('review:moderate')
+
+  const fetchReviews = useCallback(async (pageToLoad: number) => {
+    try {
+      const response = await reviewApi.getProductReviews(productId, {
+        page: pageToLoad,
+        limit: 5,
+        includeHidden: canModerate || undefined
+      })
+
+      if (response.success && response.data) {
+        const data = response.data
+        setReviews(prev => pageToLoad === 1 ? data.reviews : [...prev, ...data.reviews])
+        setSummary(data.summary)
+        setPage(pageToLoad)
+        setHasNextPage(data.pagination.hasNextPage)
+      }
+    } catch (error) {
+      console.error('Error fetching reviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [productId, canModerate])
+
+  useEffect(() => {
+    fetchReviews(1)
+  }, [fetchReviews])
+
+  useEffect(() => {
+    if (!user) return
+
+    reviewApi.getEligibility(productId)
+      .then(response => setEligibility(response.data || null))
+      .catch(error => console.error('Error checking review eligibility:', error))
+  }, [productId, user])
+
+  const handleImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    if (files.length > MAX_REVIEW_IMAGES) {
+      toast.error(`You can attach up to ${MAX_REVIEW_IMAGES} images`)
+    }
+    setImages(files.slice(0, MAX_REVIEW_IMAGES))
+  }
+
+  const handleSubmitReview = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (rating === 0) {
+      toast.error('Please choose a rating')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      await reviewApi.createReview(productId, { rating, title, body, images })
+      toast.success('Thanks for your review!')
+      setEligibility({ canReview: false, reason: 'You have already reviewed this product' })
+      setRating(0)
+      setTitle('')
+      setBody('')
+      setImages([])
+      fetchReviews(1)
+    } catch (error) {
+      console.error('Error submitting review:', error)
+      toast.error(getErrorMessage(error, 'Failed to submit review'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleReply = async (review: Review) => {
+    const replyBody = (replyDrafts[review._id] ?? '').trim()
+    if (!replyBody) return
+
+    try {
+      setBusyReviewId(review._id)
+      const response = await reviewApi.replyToReview(review._id, replyBody)
+      if (response.data) {
+        setReviews(prev => prev.map(r => r._id === review._id ? { ...r, sellerReply: response.data!.sellerReply } : r))
+      }
+      setReplyDrafts(prev => {
+        const rest = { ...prev }
+        delete rest[review._id]
+        return rest
+      })
+      toast.success('Reply posted')
+    } catch (error) {
+      console.error('Error replying to review:', error)
+      toast.error(getErrorMessage(error, 'Failed to post reply'))
+    } finally {
+      setBusyReviewId(null)
+    }
+  }
+
+  const handleModerate = async (review: Review) => {
+    const hide = !review.isHidden
+    const reason = hide ? prompt('Why is this review being hidden?') : undefined
+    if (hide && !reason) return
+
+    try {
+      setBusyReviewId(review._id)
+      await reviewApi.moderateReview(review._id, hide, reason || undefined)
+      toast.success(hide ? 'Review hidden' : 'Review restored')
+      fetchReviews(1)
+    } catch (error) {
+      console.error('Error moderating review:', error)
+      toast.error(getErrorMessage(error, 'Failed to update review'))
+    } finally {
+      setBusyReviewId(null)
+    }
+  }
+
+  const reviewCount = summary?.reviewCount || 0
+
+  return (
+    <section className="mt-12">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Customer Reviews</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Rating Summary */}
+        <div className="bg-white rounded-lg border p-6 h-fit">
+          <div className="flex items-center gap-3 mb-4">
+            <span className="text-4xl font-bold text-gray-900">{(summary?.averageRating || 0).toFixed(1)}</span>
+            <div>
+              <StarRating rating={summary?.averageRating || 0} size="md" />
+              <p className="text-sm text-gray-600">
+                {reviewCount} verified review{reviewCount === 1 ? '' : 's'}
+              </p>
+            </div>
+          </div>
+
+          {[5, 4, 3, 2, 1].map(star => {
+            const count = summary?.ratingBreakdown[star] || 0
+            const percent = reviewCount > 0 ? (count / reviewCount) * 100 : 0
+            return (
+              <div key={star} className="flex items-center gap-2 text-sm text-gray-700 mb-1">
+                <span className="w-8">{star}★</span>
+                <div className="flex-1 h-2 bg-gray-200 rounded">
+                  <div className="h-2 bg-yellow-400 rounded" style={{ width: `${percent}%` }} />
+                </div>
+                <span className="w-8 text-right text-gray-500">{count}</span>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Write a Review */}
+          {eligibility?.canReview && (
+            <form onSubmit={handleSubmitReview} className="bg-white rounded-lg border p-6 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">Write a review</h3>
+              <StarRating rating={rating} size="lg" onChange={setRating} />
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Summarize your experience"
+                maxLength={100}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="What did you like or dislike? (at least 10 characters)"
+                minLength={10}
+                maxLength={2000}
+                rows={4}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">Photos (optional, up to {MAX_REVIEW_IMAGES})</label>
+                <input type="file" accept="image/jpeg,image/png,image/webp" multiple onChange={handleImagesChange} className="text-sm text-gray-700" />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-6 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Submit Review'}
+              </button>
+            </form>
+          )}
+
+          {user && eligibility && !eligibility.canReview && eligibility.reason && user.role === 'buyer' && (
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-md p-3">{eligibility.reason}</p>
+          )}
+
+          {/* Review List */}
+          {loading ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-24 bg-gray-200 rounded-lg"></div>
+              <div className="h-24 bg-gray-200 rounded-lg"></div>
+            </div>
+          ) : reviews.length === 0 ? (
+            <p className="text-gray-600">No reviews yet. Reviews can only be written by customers who bought this product.</p>
+          ) : (
+            <ul className="space-y-4">
+              {reviews.map(review => (
+                <li key={review._id} className={`bg-white rounded-lg border p-6 ${review.isHidden ? 'opacity-60' : ''}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <StarRating rating={review.rating} />
+                      <h4 className="font-semibold text-gray-900 mt-1">{review.title}</h4>
+                      <p className="text-xs text-gray-500">
+                        {review.buyerId?.name || 'Customer'} · Verified purchase · {new Date(review.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {canModerate && (
+                      <button
+                        onClick={() => handleModerate(review)}
+                        disabled={busyReviewId === review._id}
+                        className="text-xs px-2 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {review.isHidden ? 'Restore' : 'Hide'}
+                      </button>
+                    )}
+                  </div>
+
+                  {review.isHidden && (
+                    <p className="mt-2 text-xs text-red-700">Hidden: {review.hiddenReason}</p>
+                  )}
+
+                  <p className="mt-3 text-gray-700 whitespace-pre-wrap">{review.body}</p>
+
+                  {review.images.length > 0 && (
+                    <div className="mt-3 flex gap-2">
+                      {review.images.map(image => (
+                        <a key={image} href={image} target="_blank" rel="noopener noreferrer" className="relative w-20 h-20 block">
+                          <Image src={image} alt="Review photo" fill className="object-cover rounded" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.sellerReply?.body && (
+                    <div className="mt-4 bg-gray-50 border-l-4 border-blue-400 p-3">
+                      <p className="text-xs font-medium text-gray-700 mb-1">
+                        Seller response · {new Date(review.sellerReply.repliedAt).toLocaleDateString()}
+                      </p>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.sellerReply.body}</p>
+                    </div>
+                  )}
+
+                  {isSeller && (
+                    <div className="mt-4 flex gap-2">
+                      <input
+                        type="text"
+                        value={replyDrafts[review._id] ?? ''}
+                        onChange={(e) => setReplyDrafts(prev => ({ ...prev, [review._id]: e.target.value }))}
+                        placeholder={review.sellerReply ? 'Update your reply' : 'Reply to this review'}
+                        maxLength={1000}
+                        className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm text-black"
+                      />
+                      <button
+                        onClick={() => handleReply(review)}
+                        disabled={busyReviewId === review._id || !(replyDrafts[review._id] ?? '').trim()}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Reply
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {hasNextPage && (
+            <button
+              onClick={() => fetchReviews(page + 1)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Show more reviews
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
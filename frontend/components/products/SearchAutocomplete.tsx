@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Image from 'next/image'
+import { productApi, SearchSuggestions } from '../../lib/product-api'
+
+interface SearchAutocompleteProps {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: (term: string) => void
+  // Called when a category suggestion is picked; defaults to opening the search page
+  onSelectCategory?: (slug: string) => void
+  placeholder?: string
+  className?: string
+}
+
+// Suggestions are fetched once the user pauses typing
+const DEBOUNCE_MS = 200
+const MIN_LENGTH = 2
+
+type SuggestionItem =
+  | { kind: 'category'; key: string; label: string; slug: string }
+  | { kind: 'product'; key: string; label: string; id: string; price: number; image: string | null }
+
+const toItems = (suggestions: SearchSuggestions | null): SuggestionItem[] => suggestions ? [
+  ...suggestions.categories.map(category => ({
+    kind: 'category' as const,
+    key: `c:${category._id}`,
+    label: `${category.icon ? `${category.icon} ` : ''}${category.name}`,
+    slug: category.slug
+  })),
+  ...suggestions.products.map(product => ({
+    kind: 'product' as const,
+    key: `p:${product._id}`,
+    label: product.title,
+    id: product._id,
+    price: product.price,
+    image: product.image
+  }))
+] : []
+
+// Search input with typeahead suggestions for matching categories and products
+export default function SearchAutocomplete({
+  value,
+  onChange,
+  onSubmit,
+  onSelectCategory,
+  placeholder = 'Search products...',
+  className = ''
+}: SearchAutocompleteProps) {
+  const router = useRouter()
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null)
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
+  // Ignore responses for terms the user has already typed past
+  const latestTerm = useRef('')
+
+  const term = value.trim()
+
+  useEffect(() => {
+    latestTerm.current = term
+    if (term.length < MIN_LENGTH) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await productApi.getSuggestions(term)
+        if (latestTerm.current === term && response.success && response.data) {
+          setSuggestions(response.data)
+          setHighlighted(-1)
+        }
+      } catch (error) {
+        // Suggestions are a convenience; searching still works without them
+        console.error('Error fetching suggestions:', error)
+      }
+    }, DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [term])
+
+  const items = term.length >= MIN_LENGTH ? toItems(suggestions) : []
+  const showDropdown = open && items.length > 0
+
+  const selectItem = (item: SuggestionItem) => {
+    setOpen(false)
+    if (item.kind === 'product') {
+      router.push(`/products/${item.id}`)
+    } else if (onSelectCategory) {
+      onSelectCategory(item.slug)
+    } else {
+      router.push(`/search?category=${encodeURIComponent(item.slug)}`)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && items.length > 0) {
+      e.preventDefault()
+      setOpen(true)
+      setHighlighted(prev => (prev + 1) % items.length)
+    } else if (e.key === 'ArrowUp' && items.length > 0) {
+      e.preventDefault()
+      setHighlighted(prev => (prev <= 0 ? items.length - 1 : prev - 1))
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    } else if (e.key === 'Enter' && showDropdown && highlighted >= 0) {
+      e.preventDefault()
+      selectItem(items[highlighted])
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setOpen(false)
+    onSubmit(term)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`relative ${className}`}>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={highlighted >= 0 ? `search-suggestion-${highlighted}` : undefined}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setOpen(true)
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          aria-label="Search"
+          className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        </button>
+      </div>
+
+      {showDropdown && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute z-20 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-80 overflow-y-auto"
+        >
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              id={`search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // Select before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault()
+                selectItem(item)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer ${
+                index === highlighted ? 'bg-blue-50' : ''
+              }`}
+            >
+              {item.kind === 'category' ? (
+                <>
+                  <span className="text-xs text-gray-400 uppercase">Category</span>
+                  <span className="text-gray-900">{item.label}</span>
+                </>
+              ) : (
+                <>
+                  {item.image ? (
+                    <Image src={item.image} alt="" width={32} height={32} className="w-8 h-8 object-cover rounded" />
+                  ) : (
+                    <span className="w-8 h-8 bg-gray-100 rounded" />
+                  )}
+                  <span className="flex-1 truncate text-gray-900">{item.label}</span>
+                  <span className="text-gray-500">
+                    {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(item.price)}
+                  </span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  )
+}
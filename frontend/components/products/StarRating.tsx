@@ -0,0 +1,63 @@
+'use client'
+
+interface StarRatingProps {
+  rating: number
+  reviewCount?: number
+  size?: 'sm' | 'md' | 'lg'
+  // When set, stars become buttons for picking a rating
+  onChange?: (rating: number) => void
+}
+
+const sizeClasses = {
+  sm: 'w-4 h-4',
+  md: 'w-5 h-5',
+  lg: 'w-7 h-7'
+}
+
+const STAR_PATH = 'M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z'
+
+export default function StarRating({ rating, reviewCount, size = 'sm', onChange }: StarRatingProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <div className="flex" aria-label={`Rated ${rating} out of 5`}>
+        {[1, 2, 3, 4, 5].map(star => {
+          // Rounded to the nearest half star
+          const fill = Math.min(Math.max(Math.round(rating * 2) / 2 - (star - 1), 0), 1)
+          const icon = (
+            <span className={`relative inline-block ${sizeClasses[size]}`}>
+              <svg className={`absolute inset-0 ${sizeClasses[size]} text-gray-300`} fill="currentColor" viewBox="0 0 20 20">
+                <path d={STAR_PATH} />
+              </svg>
+              {fill > 0 && (
+                <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                  <svg className={`${sizeClasses[size]} text-yellow-400`} fill="currentColor" viewBox="0 0 20 20">
+                    <path d={STAR_PATH} />
+                  </svg>
+                </span>
+              )}
+            </span>
+          )
+
+          return onChange ? (
+            <button
+              key={star}
+              type="button"
+              onClick={() => onChange(star)}
+              aria-label={`${star} star${star > 1 ? 's' : ''}`}
+              className="focus:outline-none"
+            >
+              {icon}
+            </button>
+          ) : (
+            <span key={star}>{icon}</span>
+          )
+        })}
+      </div>
+      {reviewCount !== undefined && (
+        <span className="text-xs text-gray-500">
+          {reviewCount > 0 ? `${rating.toFixed(1)} (${reviewCount})` : 'No reviews yet'}
+        </span>
+      )}
+    </div>
+  )
+}
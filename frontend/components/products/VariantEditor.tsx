@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { ProductVariant, ProductVariantInput, VariantOption, VariantSelection } from '../../lib/product-api'
+
+// Option being edited; values are typed as a comma-separated list
+interface OptionDraft {
+  name: string
+  values: string
+}
+
+// One generated combination; numbers are kept as strings while editing
+interface VariantRow {
+  key: string
+  options: VariantSelection[]
+  sku: string
+  price: string
+  stock: string
+  images: string[]
+  isActive: boolean
+}
+
+interface VariantEditorProps {
+  initialOptions?: VariantOption[]
+  initialVariants?: ProductVariant[]
+  productImages: string[]     // Variant photos are picked from the product's uploaded images
+  basePrice: number
+  onChange: (variantOptions: VariantOption[], variants: ProductVariantInput[]) => void
+}
+
+const MAX_OPTIONS = 3
+
+const parseOptions = (drafts: OptionDraft[]): VariantOption[] =>
+  drafts
+    .map(draft => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(',').map(value => value.trim()).filter(Boolean)))
+    }))
+    .filter(option => option.name && option.values.length > 0)
+
+const combinationKey = (options: VariantSelection[]) => options.map(option => option.value).join('|')
+
+// Every combination of the options' values, e.g. S/Red, S/Blue, M/Red, ...
+const generateCombinations = (options: VariantOption[]): VariantSelection[][] =>
+  options.length === 0
+    ? []
+    : options.reduce<VariantSelection[][]>(
+      (combinations, option) => combinations.flatMap(combination =>
+        option.values.map(value => [...combination, { name: option.name, value }])
+      ),
+      [[]]
+    )
+
+const toVariantInput = (row: VariantRow): ProductVariantInput => ({
+  options: row.options,
+  sku: row.sku.trim() || undefined,
+  price: row.price.trim() === '' ? null : Number(row.price),
+  stock: Number(row.stock) || 0,
+  images: row.images,
+  isActive: row.isActive
+})
+
+export default function VariantEditor({
+  initialOptions = [],
+  initialVariants = [],
+  productImages,
+  basePrice,
+  onChange
+}: VariantEditorProps) {
+  const [drafts, setDrafts] = useState<OptionDraft[]>(() =>
+    initialOptions.map(option => ({ name: option.name, values: option.values.join(', ') }))
+  )
+  const [rows, setRows] = useState<VariantRow[]>(() =>
+    initialVariants.map(variant => ({
+      key: combinationKey(variant.options),
+      options: variant.options,
+      sku: variant.sku,
+      price: variant.price !== undefined ? String(variant.price) : '',
+      stock: String(variant.stock),
+      images: variant.images,
+      isActive: variant.isActive
+    }))
+  )
+
+  // Regenerate the combinations for the edited options, keeping each existing
+  // combination's settings, and report the result to the form
+  const update = (nextDrafts: OptionDraft[], nextRows: VariantRow[]) => {
+    const options = parseOptions(nextDrafts)
+    const rowsByKey = new Map(nextRows.map(row => [row.key, row]))
+    const regenerated = generateCombinations(options).map(combination => {
+      const key = combinationKey(combination)
+      return rowsByKey.get(key) || {
+        key,
+        options: combination,
+        sku: '',
+        price: '',
+        stock: '0',
+        images: [],
+        isActive: true
+      }
+    })
+
+    setDrafts(nextDrafts)
+    setRows(regenerated)
+    onChange(options, regenerated.map(toVariantInput))
+  }
+
+  const updateDraft = (index: number, field: keyof OptionDraft, value: string) => {
+    update(drafts.map((draft, i) => i === index ? { ...draft, [field]: value } : draft), rows)
+  }
+
+  const updateRow = (key: string, changes: Partial<VariantRow>) => {
+    update(drafts, rows.map(row => row.key === key ? { ...row, ...changes } : row))
+  }
+
+  const toggleRowImage = (row: VariantRow, image: string) => {
+    updateRow(row.key, {
+      images: row.images.includes(image)
+        ? row.images.filter(i => i !== image)
+        : [...row.images, image]
+    })
+  }
+
+  const totalStock = rows.reduce((sum, row) => sum + (Number(row.stock) || 0), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {drafts.map((draft, index) => (
+          <div key={index} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr_auto] gap-2 items-start">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft(index, 'name', e.target.value)}
+              placeholder="Option, e.g. Size"
+              maxLength={30}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={draft.values}
+              onChange={(e) => updateDraft(index, 'values', e.target.value)}
+              placeholder="Values, comma separated, e.g. S, M, L"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => update(drafts.filter((_, i) => i !== index), rows)}
+              className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {drafts.length < MAX_OPTIONS && (
+          <button
+            type="button"
+            onClick={() => update([...drafts, { name: '', values: '' }], rows)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            + Add option
+          </button>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-3 font-medium">Variant</th>
+                <th className="py-2 pr-3 font-medium">SKU</th>
+                <th className="py-2 pr-3 font-medium">Price</th>
+                <th className="py-2 pr-3 font-medium">Stock</th>
+                <th className="py-2 font-medium">On sale</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.key} className="align-top">
+                  <td className="py-2 pr-3 text-gray-900 whitespace-nowrap">
+                    {row.options.map(option => option.value).join(' / ')}
+                    {productImages.length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                        {productImages.map(image => (
+                          <button
+                            key={image}
+                            type="button"
+                            onClick={() => toggleRowImage(row, image)}
+                            title={row.images.includes(image) ? 'Shown for this variant' : 'Show for this variant'}
+                            className={`w-8 h-8 rounded overflow-hidden border-2 ${
+                              row.images.includes(image) ? 'border-blue-600' : 'border-transparent opacity-50'
+                            }`}
+                          >
+                            <Image src={image} alt="" width={32} height={32} className="w-full h-full object-cover" />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="text"
+                      value={row.sku}
+                      onChange={(e) => updateRow(row.key, { sku: e.target.value.toUpperCase() })}
+                      placeholder="Auto"
+                      maxLength={40}
+                      className="w-32 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      value={row.price}
+                      onChange={(e) => updateRow(row.key, { price: e.target.value })}
+                      placeholder={basePrice ? String(basePrice) : 'Base'}
+                      min="0"
+                      step="0.01"
+                      className="w-24 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      value={row.stock}
+                      onChange={(e) => updateRow(row.key, { stock: e.target.value })}
+                      min="0"
+                      max="10000"
+                      step="1"
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="checkbox"
+                      checked={row.isActive}
+                      onChange={(e) => updateRow(row.key, { isActive: e.target.checked })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">
+            {rows.length} variant{rows.length === 1 ? '' : 's'} · {totalStock} units in total. Leave price empty to use the product price.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { ProductVariant, VariantOption } from '../../lib/product-api'
+
+interface VariantSelectorProps {
+  variantOptions: VariantOption[]
+  variants: ProductVariant[]
+  selection: Record<string, string>
+  onChange: (name: string, value: string) => void
+}
+
+// Whether some active, in-stock variant has this value alongside the other current picks
+const isValueAvailable = (
+  variants: ProductVariant[],
+  selection: Record<string, string>,
+  name: string,
+  value: string
+) =>
+  variants.some(variant =>
+    variant.isActive &&
+    variant.stock > 0 &&
+    variant.options.every(option =>
+      option.name === name ? option.value === value : !selection[option.name] || selection[option.name] === option.value
+    )
+  )
+
+export default function VariantSelector({ variantOptions, variants, selection, onChange }: VariantSelectorProps) {
+  return (
+    <div className="space-y-4">
+      {variantOptions.map(option => (
+        <div key={option.name}>
+          <p className="text-sm font-medium text-gray-700 mb-2">
+            {option.name}
+            {selection[option.name] && <span className="font-normal text-gray-500">: {selection[option.name]}</span>}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map(value => {
+              const isSelected = selection[option.name] === value
+              const isAvailable = isValueAvailable(variants, selection, option.name, value)
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => onChange(option.name, value)}
+                  aria-pressed={isSelected}
+                  className={`px-3 py-1.5 text-sm rounded-md border transition-colors ${
+                    isSelected
+                      ? 'border-blue-600 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  } ${isAvailable ? '' : 'line-through opacity-50'}`}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,4 +1,9 @@
 export { default as ProductCard } from './ProductCard'
 export { default as ProductDetail } from './ProductDetail'
 export { default as ProductForm } from './ProductForm'
-export { default as FileUpload } from './FileUpload'
\ No newline at end of file
+export { default as FileUpload } from './FileUpload'
+export { default as StarRating } from './StarRating'
+export { default as ProductReviews } from './ProductReviews'
+export { default as VariantSelector } from './VariantSelector'
+export { default as VariantEditor } from './VariantEditor'
+export { default as SearchAutocomplete } from './SearchAutocomplete'
\ No newline at end of file
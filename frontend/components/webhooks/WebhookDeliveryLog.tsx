@@ -0,0 +1,224 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import {
+  webhookApi,
+  WEBHOOK_EVENTS,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent
+} from '../../lib/webhook-api'
+
+interface WebhookDeliveryLogProps {
+  endpoints: WebhookEndpoint[]
+  // Changes whenever the log should be reloaded (e.g. after an endpoint is removed)
+  refreshKey?: number
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const formatDateTime = (dateString?: string) =>
+  dateString ? new Date(dateString).toLocaleString() : '—'
+
+// Deliveries sent to the seller's endpoints, with their responses and a replay button
+export default function WebhookDeliveryLog({ endpoints, refreshKey = 0 }: WebhookDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<WebhookDeliveryFilters>({ page: 1, limit: 20 })
+  const [totalPages, setTotalPages] = useState(1)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await webhookApi.getDeliveries(filters)
+      if (response.success && response.data) {
+        setDeliveries(response.data.deliveries)
+        setTotalPages(response.data.pagination.totalPages || 1)
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to fetch deliveries')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries, refreshKey])
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery._id)
+    try {
+      const response = await webhookApi.replayDelivery(delivery._id)
+      toast.success(response.message || 'Delivery queued for replay')
+      fetchDeliveries()
+    } catch (error) {
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to replay delivery')
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const endpointUrl = (delivery: WebhookDelivery) =>
+    typeof delivery.endpointId === 'object' ? delivery.endpointId.url : 'Removed endpoint'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={filters.endpointId || ''}
+          onChange={(e) => setFilters(prev => ({ ...prev, endpointId: e.target.value || undefined, page: 1 }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All endpoints</option>
+          {endpoints.map(endpoint => (
+            <option key={endpoint._id} value={endpoint._id}>{endpoint.description || endpoint.url}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status || ''}
+          onChange={(e) => setFilters(prev => ({ ...prev, status: (e.target.value || undefined) as WebhookDeliveryStatus | undefined, page: 1 }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="succeeded">Succeeded</option>
+          <option value="failed">Failed</option>
+        </select>
+        <select
+          value={filters.event || ''}
+          onChange={(e) => setFilters(prev => ({ ...prev, event: (e.target.value || undefined) as WebhookEvent | undefined, page: 1 }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All events</option>
+          {WEBHOOK_EVENTS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => fetchDeliveries()}
+          className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {loading ? (
+          <div className="p-6 space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-100 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="p-6 text-sm text-gray-600">No deliveries yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Endpoint</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Response</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {deliveries.map(delivery => (
+                <Fragment key={delivery._id}>
+                  <tr>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-mono text-gray-900">{delivery.event}</div>
+                      <div className="font-mono text-xs text-gray-500">{delivery.eventId}</div>
+                      {delivery.replayOf && <div className="text-xs text-gray-500">Replay</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 max-w-xs truncate">{endpointUrl(delivery)}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">Retry at {formatDateTime(delivery.nextAttemptAt)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{delivery.attempts}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error || '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">{formatDateTime(delivery.createdAt)}</td>
+                    <td className="px-6 py-4 text-sm text-right whitespace-nowrap space-x-3">
+                      <button
+                        onClick={() => setExpandedId(expandedId === delivery._id ? null : delivery._id)}
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        {expandedId === delivery._id ? 'Hide' : 'Details'}
+                      </button>
+                      {delivery.status !== 'pending' && (
+                        <button
+                          onClick={() => handleReplay(delivery)}
+                          disabled={replayingId === delivery._id}
+                          className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                        >
+                          Replay
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === delivery._id && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-4 bg-gray-50 text-sm space-y-3">
+                        <div className="text-gray-600">
+                          Last attempt: {formatDateTime(delivery.lastAttemptAt)}
+                          {delivery.deliveredAt && <> · Delivered: {formatDateTime(delivery.deliveredAt)}</>}
+                        </div>
+                        <div>
+                          <div className="font-medium text-gray-700 mb-1">Payload</div>
+                          <pre className="text-xs bg-white border border-gray-200 rounded p-3 overflow-x-auto text-gray-800">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page || 1) - 1 }))}
+            disabled={(filters.page || 1) <= 1}
+            className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="px-3 py-1 text-sm text-gray-600">Page {filters.page || 1} of {totalPages}</span>
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page || 1) + 1 }))}
+            disabled={(filters.page || 1) >= totalPages}
+            className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { WEBHOOK_EVENTS, WebhookEndpoint, WebhookEndpointFormData, WebhookEvent } from '../../lib/webhook-api'
+
+interface WebhookEndpointFormProps {
+  endpoint?: WebhookEndpoint
+  onSubmit: (data: WebhookEndpointFormData) => void
+  onCancel: () => void
+  isLoading?: boolean
+}
+
+export default function WebhookEndpointForm({ endpoint, onSubmit, onCancel, isLoading = false }: WebhookEndpointFormProps) {
+  const [url, setUrl] = useState(endpoint?.url || '')
+  const [description, setDescription] = useState(endpoint?.description || '')
+  const [events, setEvents] = useState<WebhookEvent[]>(endpoint?.events || WEBHOOK_EVENTS.map(e => e.value))
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event])
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!/^https?:\/\/\S+$/.test(url.trim())) {
+      setError('Enter the full URL of your endpoint, starting with https://')
+      return
+    }
+    if (events.length === 0) {
+      setError('Choose at least one event')
+      return
+    }
+
+    setError(null)
+    onSubmit({ url: url.trim(), description: description.trim() || undefined, events })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="webhook-url" className="block text-sm font-medium text-gray-700 mb-1">Endpoint URL</label>
+        <input
+          id="webhook-url"
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://warehouse.example.com/webhooks"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="webhook-description" className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+        <input
+          id="webhook-description"
+          type="text"
+          value={description}
+          maxLength={200}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Warehouse system"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-1">Events</legend>
+        <div className="space-y-1">
+          {WEBHOOK_EVENTS.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={events.includes(value)}
+                onChange={() => toggleEvent(value)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              {label} <span className="font-mono text-xs text-gray-500">{value}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isLoading ? 'Saving...' : endpoint ? 'Save Endpoint' : 'Add Endpoint'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { webhookApi, WEBHOOK_EVENTS, WebhookEndpoint, WebhookEndpointFormData } from '../../lib/webhook-api'
+import WebhookEndpointForm from './WebhookEndpointForm'
+import WebhookDeliveryLog from './WebhookDeliveryLog'
+
+const eventLabel = (event: string) => WEBHOOK_EVENTS.find(e => e.value === event)?.label || event
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && (error.response?.data?.errors?.[0]?.message || error.response?.data?.message)) || fallback
+
+// Register, edit and remove the seller's webhook endpoints, and view what was sent to them
+export default function WebhookManager() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [loading, setLoading] = useState(true)
+  // Endpoint being edited, 'new' while adding one, null when no form is open
+  const [editing, setEditing] = useState<WebhookEndpoint | 'new' | null>(null)
+  const [saving, setSaving] = useState(false)
+  // Secret returned by the last create or rotate, shown until dismissed
+  const [revealed, setRevealed] = useState<{ url: string; secret: string } | null>(null)
+  const [logKey, setLogKey] = useState(0)
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const response = await webhookApi.getEndpoints()
+      if (response.success && response.data) {
+        setEndpoints(response.data)
+      }
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error)
+      toast.error(getErrorMessage(error, 'Failed to fetch webhook endpoints'))
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEndpoints()
+  }, [fetchEndpoints])
+
+  const handleSubmit = async (data: WebhookEndpointFormData) => {
+    setSaving(true)
+    try {
+      if (editing && editing !== 'new') {
+        await webhookApi.updateEndpoint(editing._id, data)
+        toast.success('Endpoint updated')
+      } else {
+        const response = await webhookApi.createEndpoint(data)
+        if (response.data?.secret) {
+          setRevealed({ url: response.data.url, secret: response.data.secret })
+        }
+        toast.success('Endpoint added')
+      }
+      setEditing(null)
+      fetchEndpoints()
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to save endpoint'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    try {
+      await webhookApi.updateEndpoint(endpoint._id, { isActive: !endpoint.isActive })
+      toast.success(endpoint.isActive ? 'Endpoint disabled' : 'Endpoint enabled')
+      fetchEndpoints()
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update endpoint'))
+    }
+  }
+
+  const handleRotateSecret = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Rotate the signing secret for ${endpoint.url}? Deliveries will be signed with the new secret straight away.`)) return
+
+    try {
+      const response = await webhookApi.rotateSecret(endpoint._id)
+      if (response.data?.secret) {
+        setRevealed({ url: response.data.url, secret: response.data.secret })
+      }
+      toast.success('Signing secret rotated')
+      fetchEndpoints()
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to rotate signing secret'))
+    }
+  }
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the endpoint ${endpoint.url} and its delivery log?`)) return
+
+    try {
+      const response = await webhookApi.deleteEndpoint(endpoint._id)
+      toast.success(response.message || 'Endpoint deleted')
+      fetchEndpoints()
+      setLogKey(key => key + 1)
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to delete endpoint'))
+    }
+  }
+
+  const handleCopySecret = async () => {
+    if (!revealed) return
+    try {
+      await navigator.clipboard.writeText(revealed.secret)
+      toast.success('Secret copied')
+    } catch {
+      toast.error('Could not copy the secret')
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Endpoints</h2>
+          {editing === null && (
+            <button
+              onClick={() => setEditing('new')}
+              className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              New Endpoint
+            </button>
+          )}
+        </div>
+
+        {revealed && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm text-yellow-900">
+              Signing secret for <span className="font-medium">{revealed.url}</span>. Copy it now; it won&apos;t be shown again.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <code className="px-3 py-2 bg-white border border-yellow-200 rounded text-sm text-gray-900 break-all">{revealed.secret}</code>
+              <button onClick={handleCopySecret} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                Copy
+              </button>
+              <button onClick={() => setRevealed(null)} className="text-sm text-gray-600 hover:text-gray-800">
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {editing !== null && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editing === 'new' ? 'New Endpoint' : 'Edit Endpoint'}
+            </h3>
+            <WebhookEndpointForm
+              key={editing === 'new' ? 'new' : editing._id}
+              endpoint={editing === 'new' ? undefined : editing}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(null)}
+              isLoading={saving}
+            />
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="p-6 space-y-3">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-100 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : endpoints.length === 0 ? (
+            <p className="p-6 text-sm text-gray-600">
+              No endpoints yet. Add one to have new orders and status changes sent to your systems.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {endpoints.map(endpoint => (
+                <li key={endpoint._id} className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm text-gray-900 break-all">{endpoint.url}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${endpoint.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                        {endpoint.isActive ? 'Active' : 'Disabled'}
+                      </span>
+                    </div>
+                    {endpoint.description && <p className="text-sm text-gray-600">{endpoint.description}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {endpoint.events.map(eventLabel).join(', ')}
+                      {endpoint.secretRotatedAt && ` · Secret rotated ${new Date(endpoint.secretRotatedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="text-sm whitespace-nowrap space-x-3">
+                    <button onClick={() => setEditing(endpoint)} className="text-blue-600 hover:text-blue-800 font-medium">
+                      Edit
+                    </button>
+                    <button onClick={() => handleToggleActive(endpoint)} className="text-blue-600 hover:text-blue-800 font-medium">
+                      {endpoint.isActive ? 'Disable' : 'Enable'}
+                    </button>
+                    <button onClick={() => handleRotateSecret(endpoint)} className="text-blue-600 hover:text-blue-800 font-medium">
+                      Rotate Secret
+                    </button>
+                    <button onClick={() => handleDelete(endpoint)} className="text-red-600 hover:text-red-800 font-medium">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Each delivery is a JSON POST with an <code className="font-mono">X-Webhook-Signature</code> header
+          of the form <code className="font-mono">t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>, where the signature is the
+          hex HMAC-SHA256 of <code className="font-mono">&lt;timestamp&gt;.&lt;body&gt;</code> using the endpoint&apos;s secret.
+          Respond with a 2xx status; other responses are retried with increasing delays.
+        </p>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Delivery Log</h2>
+        <WebhookDeliveryLog endpoints={endpoints} refreshKey={logKey} />
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { default as WebhookManager } from './WebhookManager'
+export { default as WebhookEndpointForm } from './WebhookEndpointForm'
+export { default as WebhookDeliveryLog } from './WebhookDeliveryLog'
@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import { isAxiosError } from 'axios'
+import { useWishlists } from '../../lib/useWishlists'
+
+interface WishlistButtonProps {
+  productId: string
+  variantId?: string
+  // Show "Save"/"Saved" next to the heart
+  showLabel?: boolean
+  className?: string
+}
+
+// Heart that saves a product to the buyer's default wishlist, or removes it
+// from every list holding it. Hidden for users who can't keep wishlists.
+export default function WishlistButton({ productId, variantId, showLabel = false, className = '' }: WishlistButtonProps) {
+  const { enabled, isSaved, saveProduct, removeProduct } = useWishlists()
+  const [isUpdating, setIsUpdating] = useState(false)
+
+  if (!enabled) return null
+
+  const saved = isSaved(productId, variantId)
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards wrap the heart in links; don't navigate
+    e.preventDefault()
+    e.stopPropagation()
+
+    try {
+      setIsUpdating(true)
+      if (saved) {
+        await removeProduct(productId, variantId)
+        toast.success('Removed from your wishlist')
+      } else {
+        await saveProduct(productId, variantId)
+        toast.success('Saved to your wishlist')
+      }
+    } catch (error) {
+      console.error('Error updating wishlist:', error)
+      toast.error((isAxiosError(error) && error.response?.data?.message) || 'Failed to update wishlist')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isUpdating}
+      aria-pressed={saved}
+      aria-label={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+      title={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+      className={`inline-flex items-center gap-1 transition-colors disabled:opacity-50 ${
+        saved ? 'text-red-500 hover:text-red-600' : 'text-gray-500 hover:text-red-500'
+      } ${className}`}
+    >
+      <svg className="w-5 h-5" fill={saved ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+      </svg>
+      {showLabel && <span className="text-sm font-medium">{saved ? 'Saved' : 'Save'}</span>}
+    </button>
+  )
+}
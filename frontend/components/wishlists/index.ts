@@ -0,0 +1 @@
+export { default as WishlistButton } from './WishlistButton'
\ No newline at end of file
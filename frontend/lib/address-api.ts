@@ -0,0 +1,67 @@
+import apiClient from './api';
+
+// Postal address fields, as stored on saved addresses and copied onto orders
+export interface ShippingAddress {
+  fullName: string;
+  phone: string;
+  street: string;
+  city: string;
+  state?: string;
+  zipCode?: string;
+  country: string;
+}
+
+export interface Address extends ShippingAddress {
+  _id: string;
+  label?: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AddressFormData extends ShippingAddress {
+  label?: string;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
+}
+
+export interface AddressResponse<T = Address> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Single-line summary of an address, e.g. for order details
+export const formatAddress = (address: ShippingAddress): string =>
+  [address.street, address.city, address.state, address.zipCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+
+// Address book API functions
+export const addressApi = {
+  // Get saved addresses, defaults first
+  getAddresses: async (): Promise<AddressResponse<Address[]>> => {
+    const response = await apiClient.get('/api/addresses');
+    return response.data;
+  },
+
+  // Save a new address
+  createAddress: async (addressData: AddressFormData): Promise<AddressResponse> => {
+    const response = await apiClient.post('/api/addresses', addressData);
+    return response.data;
+  },
+
+  // Update an address or make it a default
+  updateAddress: async (addressId: string, addressData: Partial<AddressFormData>): Promise<AddressResponse> => {
+    const response = await apiClient.put(`/api/addresses/${addressId}`, addressData);
+    return response.data;
+  },
+
+  // Delete an address
+  deleteAddress: async (addressId: string): Promise<AddressResponse<undefined>> => {
+    const response = await apiClient.delete(`/api/addresses/${addressId}`);
+    return response.data;
+  },
+};
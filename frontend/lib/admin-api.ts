@@ -11,7 +11,7 @@ export interface User {
   _id: string;
   name: string;
   email: string;
-  role: 'admin' | 'seller' | 'buyer';
+  role: string;
   isActive: boolean;
   createdAt: string;
 }
@@ -49,7 +49,7 @@ export interface DashboardStats {
   };
   products: {
     total: number;
-    byCategory: Array<{ _id: string; count: number }>;
+    byCategory: Array<{ _id: string; name: string; count: number }>;
   };
   orders: {
     total: number;
@@ -59,10 +59,13 @@ export interface DashboardStats {
       _id: { year: number; month: number };
       count: number;
       revenue: number;
+      discounts: number;
     }>;
   };
   revenue: {
-    total: number;
+    total: number;      // Paid by buyers, after coupon discounts
+    gross: number;      // Before discounts
+    discounts: number;
   };
 }
 
@@ -78,6 +81,130 @@ export interface BanUserData {
   action: 'ban' | 'unban';
 }
 
+export interface PermissionInfo {
+  key: string;
+  description: string;
+}
+
+export interface Role {
+  _id: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+  isSystem: boolean;
+  userCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoleFormData {
+  name?: string;
+  description?: string;
+  permissions?: string[];
+}
+
+export const SECURITY_LOG_LEVELS = ['INFO', 'WARNING', 'CRITICAL', 'AUDIT'] as const;
+
+export const SECURITY_EVENT_TYPES = [
+  'AUTH_SUCCESS',
+  'AUTH_FAILURE',
+  'UNAUTHORIZED_ACCESS',
+  'ACCOUNT_BAN',
+  'ACCOUNT_UNBAN',
+  'PASSWORD_CHANGE',
+  'ADMIN_ACTION',
+  'ROLE_CHANGE',
+  'FILE_UPLOAD',
+  'MALICIOUS_FILE_DETECTED',
+  'VALIDATION_FAILURE',
+  'RATE_LIMIT_EXCEEDED',
+  'SUSPICIOUS_ACTIVITY'
+] as const;
+
+export type SecurityLogLevel = typeof SECURITY_LOG_LEVELS[number];
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+export interface SecurityEvent {
+  _id: string;
+  timestamp: string;
+  level: SecurityLogLevel;
+  eventType: SecurityEventType;
+  action: string;
+  success: boolean;
+  userId?: Pick<User, '_id' | 'name' | 'email' | 'role' | 'isActive'> | null; // null if the user was deleted
+  email?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface SecurityEventFilters {
+  page?: number;
+  limit?: number;
+  eventType?: SecurityEventType | '';
+  level?: SecurityLogLevel | '';
+  userId?: string;
+  ipAddress?: string;
+  startDate?: string;       // YYYY-MM-DD
+  endDate?: string;         // YYYY-MM-DD, inclusive
+  success?: 'true' | 'false' | '';
+}
+
+export interface SecurityEventsResponse {
+  events: SecurityEvent[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalEvents: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export interface StorageUsageTotals {
+  files: number;
+  bytes: number;
+  unusedFiles: number;              // Not used anywhere; deleted once their grace period is over
+  unusedBytes: number;
+}
+
+export interface SellerStorageUsage {
+  sellerId: string;
+  name: string;
+  email?: string;
+  images: number;
+  documents: number;
+  products: number;
+  bytes: number;
+  unusedFiles: number;
+  unusedBytes: number;
+}
+
+export interface StorageUsage {
+  driver: string;
+  totals: StorageUsageTotals;
+  sellers: SellerStorageUsage[];
+}
+
+export interface StorageCleanupResult {
+  checked: number;
+  orphaned: number;
+  deleted: number;
+  failed: number;
+  bytesFreed: number;
+}
+
+// Query string for the security event filters that are set
+const securityEventParams = (filters: SecurityEventFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.append(key, value.toString());
+    }
+  });
+  return params;
+};
+
 // Admin API functions
 export const adminApi = {
   // Get dashboard statistics
@@ -122,4 +249,67 @@ export const adminApi = {
   unbanUser: async (userId: string): Promise<AdminResponse> => {
     return adminApi.toggleUserBan(userId, 'unban');
   },
+
+  // Assign a role to a user
+  updateUserRole: async (userId: string, role: string): Promise<AdminResponse> => {
+    const response = await apiClient.put(`/api/admin/users/${userId}/role`, { role });
+    return response.data;
+  },
+
+  // List every permission that can be granted to a role
+  getPermissions: async (): Promise<AdminResponse & { data: PermissionInfo[] }> => {
+    const response = await apiClient.get('/api/admin/permissions');
+    return response.data;
+  },
+
+  // List roles with their permissions
+  getRoles: async (): Promise<AdminResponse & { data: Role[] }> => {
+    const response = await apiClient.get('/api/admin/roles');
+    return response.data;
+  },
+
+  // Create a custom role
+  createRole: async (data: RoleFormData): Promise<AdminResponse & { data: Role }> => {
+    const response = await apiClient.post('/api/admin/roles', data);
+    return response.data;
+  },
+
+  // Update a role's description and permissions
+  updateRole: async (name: string, data: RoleFormData): Promise<AdminResponse & { data: Role }> => {
+    const response = await apiClient.put(`/api/admin/roles/${name}`, data);
+    return response.data;
+  },
+
+  // Delete a custom role
+  deleteRole: async (name: string): Promise<AdminResponse> => {
+    const response = await apiClient.delete(`/api/admin/roles/${name}`);
+    return response.data;
+  },
+
+  // Get security audit events, newest first
+  getSecurityEvents: async (filters: SecurityEventFilters = {}): Promise<AdminResponse & { data: SecurityEventsResponse }> => {
+    const response = await apiClient.get(`/api/admin/security-events?${securityEventParams(filters).toString()}`);
+    return response.data;
+  },
+
+  // Download the security events matching the filters as a CSV file
+  exportSecurityEvents: async (filters: SecurityEventFilters = {}): Promise<Blob> => {
+    const params = securityEventParams({ ...filters, page: undefined, limit: undefined });
+    const response = await apiClient.get(`/api/admin/security-events/export?${params.toString()}`, {
+      responseType: 'blob'
+    });
+    return response.data;
+  },
+
+  // Get uploaded file totals and usage per seller
+  getStorageUsage: async (): Promise<AdminResponse & { data: StorageUsage }> => {
+    const response = await apiClient.get('/api/admin/storage');
+    return response.data;
+  },
+
+  // Delete unused uploaded files whose grace period is over
+  cleanupStorage: async (): Promise<AdminResponse & { data: StorageCleanupResult }> => {
+    const response = await apiClient.post('/api/admin/storage/cleanup');
+    return response.data;
+  },
 };
\ No newline at end of file
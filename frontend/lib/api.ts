@@ -33,25 +33,86 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Clear stored credentials and send the user back to the login page
+const redirectToLogin = () => {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+    window.location.href = '/auth/login';
+  }
+};
+
+// A single in-flight refresh shared by every request that hit a 401
+let refreshPromise: Promise<string> | null = null;
+
+// Exchange the stored refresh token for a new token pair.
+// Uses plain axios so a failing refresh does not re-enter this interceptor.
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(
+        `${API_BASE_URL}/api/auth/refresh`,
+        { refreshToken: localStorage.getItem('refreshToken') || undefined },
+        { withCredentials: true }
+      )
+      .then((response) => {
+        const { token, refreshToken } = response.data.data;
+        localStorage.setItem('token', token);
+        localStorage.setItem('refreshToken', refreshToken);
+        return token as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Auth endpoints whose 401s mean bad credentials, not an expired access token
+const SKIP_REFRESH_URLS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
+
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
+  async (error) => {
+    const originalRequest = error.config;
+
+    // Access token expired or revoked - refresh once and retry the original request
+    if (
+      error.response?.status === 401 &&
+      typeof window !== 'undefined' &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !SKIP_REFRESH_URLS.some((url) => originalRequest.url?.includes(url)) &&
+      (localStorage.getItem('refreshToken') || localStorage.getItem('token'))
+    ) {
+      originalRequest._retry = true;
+      try {
+        const token = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return apiClient(originalRequest);
+      } catch {
+        redirectToLogin();
+        error.message = 'Your session has expired. Please log in again.';
+        return Promise.reject(error);
+      }
+    }
+
     // Handle different types of errors with user-friendly messages
     if (error.response) {
       const { status, data } = error.response;
       
       switch (status) {
         case 401:
-          // Token expired or invalid - clear localStorage and redirect
-          if (typeof window !== 'undefined') {
-            localStorage.removeItem('token');
-            localStorage.removeItem('user');
-            window.location.href = '/auth/login';
+          // Not logged in, or the session could not be refreshed - back to login.
+          // Failed logins stay on the form so the error can be shown.
+          if (!SKIP_REFRESH_URLS.some((url) => originalRequest?.url?.includes(url))) {
+            redirectToLogin();
           }
-          error.message = 'Your session has expired. Please log in again.';
+          error.message = data?.message || 'Your session has expired. Please log in again.';
           break;
         case 403:
           error.message = 'You do not have permission to perform this action.';
@@ -66,7 +127,7 @@ apiClient.interceptors.response.use(
           error.message = data?.message || 'The provided data is invalid. Please check your input.';
           break;
         case 429:
-          error.message = 'Too many requests. Please try again in a few minutes.';
+          error.message = data?.message || 'Too many requests. Please try again in a few minutes.';
           break;
         case 500:
           error.message = 'Server error. Please try again later or contact support.';
@@ -16,8 +16,10 @@ export interface User {
   _id: string;
   email: string;
   name: string;
-  role: 'admin' | 'seller' | 'buyer';
+  role: string; // admin, seller, buyer or a custom role
   isActive: boolean;
+  permissions?: string[];
+  emailVerified?: boolean;
   createdAt: string;
 }
 
@@ -26,12 +28,32 @@ export interface AuthResponse {
   data?: {
     user: User;
     token?: string;
+    refreshToken?: string;
     message?: string;
   };
   message?: string;
   error?: string;
 }
 
+export interface UserSession {
+  _id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface SessionsResponse {
+  success: boolean;
+  data?: {
+    sessions: UserSession[];
+  };
+  message?: string;
+  error?: string;
+}
+
 // Authentication API functions
 export const authApi = {
   // Register new user
@@ -46,9 +68,10 @@ export const authApi = {
     return response.data;
   },
 
-  // Logout user
+  // Logout user (revokes the current session)
   logout: async (): Promise<AuthResponse> => {
-    const response = await apiClient.post('/api/auth/logout');
+    const refreshToken = typeof window !== 'undefined' ? localStorage.getItem('refreshToken') : null;
+    const response = await apiClient.post('/api/auth/logout', { refreshToken: refreshToken || undefined });
     return response.data;
   },
 
@@ -57,4 +80,52 @@ export const authApi = {
     const response = await apiClient.get('/api/auth/me');
     return response.data;
   },
+
+  // Request a password reset email
+  forgotPassword: async (email: string): Promise<AuthResponse> => {
+    const response = await apiClient.post('/api/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  // Set a new password using the token from a reset email
+  resetPassword: async (token: string, password: string): Promise<AuthResponse> => {
+    const response = await apiClient.post('/api/auth/reset-password', { token, password });
+    return response.data;
+  },
+
+  // Verify email address using the token from a verification email
+  verifyEmail: async (token: string): Promise<AuthResponse> => {
+    const response = await apiClient.post('/api/auth/verify-email', { token });
+    return response.data;
+  },
+
+  // Send a new verification email to the current user
+  resendVerification: async (): Promise<AuthResponse> => {
+    const response = await apiClient.post('/api/auth/resend-verification');
+    return response.data;
+  },
+
+  // Change password for the current user
+  changePassword: async (currentPassword: string, newPassword: string): Promise<AuthResponse> => {
+    const response = await apiClient.put('/api/auth/change-password', { currentPassword, newPassword });
+    return response.data;
+  },
+
+  // List my active sessions
+  getSessions: async (): Promise<SessionsResponse> => {
+    const response = await apiClient.get('/api/auth/sessions');
+    return response.data;
+  },
+
+  // Revoke one of my sessions
+  revokeSession: async (sessionId: string): Promise<AuthResponse> => {
+    const response = await apiClient.delete(`/api/auth/sessions/${sessionId}`);
+    return response.data;
+  },
+
+  // Revoke all my sessions except the current one
+  revokeOtherSessions: async (): Promise<AuthResponse> => {
+    const response = await apiClient.delete('/api/auth/sessions');
+    return response.data;
+  },
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+import apiClient from './api';
+import { Cart } from './cart';
+import { CouponPreview } from './coupon-api';
+
+export interface CartResponse {
+  success: boolean;
+  data?: Cart;
+  message?: string;
+  error?: string;
+}
+
+export interface ApplyCouponResponse {
+  success: boolean;
+  data?: CouponPreview;
+  message?: string;
+  error?: string;
+}
+
+export interface MergeCartItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+// Server-side cart API functions (buyers only)
+export const cartApi = {
+  // Get current cart with live product prices and availability
+  getCart: async (): Promise<CartResponse> => {
+    const response = await apiClient.get('/api/cart');
+    return response.data;
+  },
+
+  // Add product (or one of its variants) to cart
+  addItem: async (productId: string, quantity: number = 1, variantId?: string): Promise<CartResponse> => {
+    const response = await apiClient.post('/api/cart/items', { productId, variantId, quantity });
+    return response.data;
+  },
+
+  // Set quantity of a cart line (0 removes it)
+  updateItem: async (productId: string, quantity: number, variantId?: string): Promise<CartResponse> => {
+    const response = await apiClient.put(`/api/cart/items/${productId}`, { quantity }, {
+      params: { variantId }
+    });
+    return response.data;
+  },
+
+  // Remove product (or one of its variants) from cart
+  removeItem: async (productId: string, variantId?: string): Promise<CartResponse> => {
+    const response = await apiClient.delete(`/api/cart/items/${productId}`, {
+      params: { variantId }
+    });
+    return response.data;
+  },
+
+  // Clear cart
+  clearCart: async (): Promise<CartResponse> => {
+    const response = await apiClient.delete('/api/cart');
+    return response.data;
+  },
+
+  // Merge an anonymous localStorage cart into the server cart
+  mergeCart: async (items: MergeCartItem[]): Promise<CartResponse> => {
+    const response = await apiClient.post('/api/cart/merge', { items });
+    return response.data;
+  },
+
+  // Preview a coupon's discount on the current cart (redeemed only at checkout)
+  applyCoupon: async (code: string): Promise<ApplyCouponResponse> => {
+    const response = await apiClient.post('/api/cart/apply-coupon', { code });
+    return response.data;
+  },
+};
@@ -1,10 +1,25 @@
-import { Product } from './product-api';
+import { Product, ProductVariant, getVariantPrice } from './product-api';
 
 export interface CartItem {
   product: Product;
+  variant?: ProductVariant | null; // Chosen variant for products sold in variants
+  unitPrice?: number;    // Set by the server cart from the live product or variant price
   quantity: number;
+  isAvailable?: boolean; // Set by the server cart when the product is inactive or out of stock
 }
 
+// Price of one unit on a cart line
+export const getCartItemPrice = (item: CartItem): number =>
+  item.unitPrice ?? getVariantPrice(item.product, item.variant);
+
+// Stable key for a cart line (React keys, per-line loading state)
+export const getCartLineKey = (item: CartItem): string =>
+  item.variant ? `${item.product._id}:${item.variant._id}` : item.product._id;
+
+// A cart line is one product, or one variant of a product sold in variants
+export const isSameCartLine = (item: CartItem, productId: string, variantId?: string): boolean =>
+  item.product._id === productId && item.variant?._id === variantId;
+
 export interface Cart {
   items: CartItem[];
   totalItems: number;
@@ -49,7 +64,7 @@ export class CartManager {
   // Calculate cart totals
   static calculateTotals(cart: Cart): Cart {
     const totalItems = cart.items.reduce((sum, item) => sum + item.quantity, 0);
-    const totalAmount = cart.items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
+    const totalAmount = cart.items.reduce((sum, item) => sum + (getCartItemPrice(item) * item.quantity), 0);
     
     return {
       ...cart,
@@ -58,17 +73,17 @@ export class CartManager {
     };
   }
 
-  // Add product to cart
-  static addToCart(product: Product, quantity: number = 1): Cart {
+  // Add product (or one of its variants) to cart
+  static addToCart(product: Product, quantity: number = 1, variant?: ProductVariant): Cart {
     const cart = this.getCart();
-    const existingItemIndex = cart.items.findIndex(item => item.product._id === product._id);
+    const existingItemIndex = cart.items.findIndex(item => isSameCartLine(item, product._id, variant?._id));
 
     if (existingItemIndex >= 0) {
       // Update quantity if product already exists
       cart.items[existingItemIndex].quantity += quantity;
     } else {
       // Add new item to cart
-      cart.items.push({ product, quantity });
+      cart.items.push(variant ? { product, variant, quantity } : { product, quantity });
     }
 
     const updatedCart = this.calculateTotals(cart);
@@ -77,9 +92,9 @@ export class CartManager {
   }
 
   // Remove product from cart
-  static removeFromCart(productId: string): Cart {
+  static removeFromCart(productId: string, variantId?: string): Cart {
     const cart = this.getCart();
-    cart.items = cart.items.filter(item => item.product._id !== productId);
+    cart.items = cart.items.filter(item => !isSameCartLine(item, productId, variantId));
     
     const updatedCart = this.calculateTotals(cart);
     this.saveCart(updatedCart);
@@ -87,9 +102,9 @@ export class CartManager {
   }
 
   // Update product quantity in cart
-  static updateQuantity(productId: string, quantity: number): Cart {
+  static updateQuantity(productId: string, quantity: number, variantId?: string): Cart {
     const cart = this.getCart();
-    const itemIndex = cart.items.findIndex(item => item.product._id === productId);
+    const itemIndex = cart.items.findIndex(item => isSameCartLine(item, productId, variantId));
 
     if (itemIndex >= 0) {
       if (quantity <= 0) {
@@ -113,20 +128,20 @@ export class CartManager {
     return emptyCart;
   }
 
-  // Get cart item by product ID
-  static getCartItem(productId: string): CartItem | undefined {
+  // Get cart item by product ID (and variant ID for products sold in variants)
+  static getCartItem(productId: string, variantId?: string): CartItem | undefined {
     const cart = this.getCart();
-    return cart.items.find(item => item.product._id === productId);
+    return cart.items.find(item => isSameCartLine(item, productId, variantId));
   }
 
   // Check if product is in cart
-  static isInCart(productId: string): boolean {
-    return this.getCartItem(productId) !== undefined;
+  static isInCart(productId: string, variantId?: string): boolean {
+    return this.getCartItem(productId, variantId) !== undefined;
   }
 
   // Get cart item count for a specific product
-  static getProductQuantity(productId: string): number {
-    const item = this.getCartItem(productId);
+  static getProductQuantity(productId: string, variantId?: string): number {
+    const item = this.getCartItem(productId, variantId);
     return item ? item.quantity : 0;
   }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import apiClient from './api';
+
+// Category as embedded in products
+export interface CategorySummary {
+  _id: string;
+  name: string;
+  slug: string;
+  icon?: string;
+}
+
+// Category tree node from GET /api/categories
+export interface Category extends CategorySummary {
+  parent?: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  productCount?: number;   // Active products filed directly under the category
+  children: Category[];
+}
+
+export interface CategoryFormData {
+  name: string;
+  slug?: string;
+  parent?: string | null;
+  icon?: string;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface CategoryResponse<T = Category> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Every category in display order, with its depth (top level = 0),
+// e.g. for indented <select> options
+export const flattenCategories = (tree: Category[], depth = 0): Array<{ category: Category; depth: number }> =>
+  tree.flatMap(category => [
+    { category, depth },
+    ...flattenCategories(category.children, depth + 1)
+  ]);
+
+// Find a category in the tree by ID or slug
+export const findCategory = (tree: Category[], idOrSlug: string): Category | undefined =>
+  flattenCategories(tree)
+    .map(({ category }) => category)
+    .find(category => category._id === idOrSlug || category.slug === idOrSlug);
+
+// The category and its ancestors, top level first (for breadcrumbs)
+export const getCategoryPath = (tree: Category[], idOrSlug: string): Category[] => {
+  for (const category of tree) {
+    if (category._id === idOrSlug || category.slug === idOrSlug) {
+      return [category];
+    }
+    const path = getCategoryPath(category.children, idOrSlug);
+    if (path.length > 0) {
+      return [category, ...path];
+    }
+  }
+  return [];
+};
+
+// Name of a product's category; products list it populated, but be lenient
+// with bare IDs and categories that have since been removed
+export const getCategoryName = (category?: CategorySummary | string | null): string =>
+  category && typeof category === 'object' ? category.name : 'Uncategorized';
+
+// Category API functions
+export const categoryApi = {
+  // Get the category tree (inactive categories are only returned to category managers)
+  getCategories: async (includeInactive = false): Promise<CategoryResponse<Category[]>> => {
+    const response = await apiClient.get('/api/categories', {
+      params: includeInactive ? { includeInactive: 'true' } : undefined
+    });
+    return response.data;
+  },
+
+  // Create a category
+  createCategory: async (data: CategoryFormData): Promise<CategoryResponse> => {
+    const response = await apiClient.post('/api/categories', data);
+    return response.data;
+  },
+
+  // Rename, move, reorder or (de)activate a category
+  updateCategory: async (id: string, data: Partial<CategoryFormData>): Promise<CategoryResponse> => {
+    const response = await apiClient.put(`/api/categories/${id}`, data);
+    return response.data;
+  },
+
+  // Delete a category with no subcategories or products
+  deleteCategory: async (id: string): Promise<CategoryResponse<undefined>> => {
+    const response = await apiClient.delete(`/api/categories/${id}`);
+    return response.data;
+  },
+};
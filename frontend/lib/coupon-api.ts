@@ -0,0 +1,119 @@
+import apiClient from './api';
+
+export type CouponType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  _id: string;
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  minOrderValue: number;
+  usageLimit?: number;
+  perUserLimit?: number;
+  usedCount: number;
+  startsAt?: string;
+  expiresAt?: string;
+  categories: string[];
+  productIds: string[];
+  sellerIds: string[];
+  sellerId?: string | { _id: string; name?: string; email?: string };  // Set for seller promotions
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CouponFormData {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number | null;
+  minOrderValue?: number;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  categories?: string[];
+  productIds?: string[];
+  sellerIds?: string[];
+  isActive?: boolean;
+}
+
+export interface CouponFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: 'active' | 'inactive' | 'expired';
+}
+
+// What a coupon takes off the current cart, from POST /api/cart/apply-coupon
+export interface CouponPreview {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  subtotal: number;
+  discount: number;
+  totalAmount: number;
+  lines: Array<{ productId: string; discount: number }>;
+}
+
+export interface CouponListResponse {
+  success: boolean;
+  data?: {
+    coupons: Coupon[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalCount: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  };
+  message?: string;
+  error?: string;
+}
+
+export interface CouponResponse<T = Coupon> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Coupon API functions (sellers manage their own promotions, admins every coupon)
+export const couponApi = {
+  // List coupons the current user manages
+  getCoupons: async (filters?: CouponFilters): Promise<CouponListResponse> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await apiClient.get(`/api/coupons?${params.toString()}`);
+    return response.data;
+  },
+
+  // Create a coupon
+  createCoupon: async (data: CouponFormData): Promise<CouponResponse> => {
+    const response = await apiClient.post('/api/coupons', data);
+    return response.data;
+  },
+
+  // Update a coupon (the code cannot change)
+  updateCoupon: async (id: string, data: Partial<Omit<CouponFormData, 'code'>>): Promise<CouponResponse> => {
+    const response = await apiClient.put(`/api/coupons/${id}`, data);
+    return response.data;
+  },
+
+  // Delete a coupon; used coupons are deactivated instead
+  deleteCoupon: async (id: string): Promise<CouponResponse<Coupon | undefined>> => {
+    const response = await apiClient.delete(`/api/coupons/${id}`);
+    return response.data;
+  },
+};
@@ -152,6 +152,7 @@ export class ErrorHandler {
     // Clear stored auth data
     if (typeof window !== 'undefined') {
       localStorage.removeItem('token')
+      localStorage.removeItem('refreshToken')
       localStorage.removeItem('user')
       
       // Redirect to login page
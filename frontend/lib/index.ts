@@ -3,8 +3,21 @@ export * from './api';
 export * from './auth-api';
 export * from './product-api';
 export * from './order-api';
+export * from './review-api';
+export * from './seller-api';
+export * from './address-api';
+export * from './payment-api';
+export * from './coupon-api';
+export * from './category-api';
+export * from './useCategories';
 // Export admin-api functions without conflicting types
 export { adminApi } from './admin-api';
 export * from './cart';
+export * from './cart-api';
 export * from './useCart';
+export * from './wishlist-api';
+export * from './useWishlists';
+export * from './useOrderEvents';
+export * from './notification-api';
+export * from './webhook-api';
 export * from './error-handler';
\ No newline at end of file
@@ -0,0 +1,78 @@
+import apiClient from './api';
+
+export type NotificationType =
+  | 'order_placed'
+  | 'order_status'
+  | 'account_banned'
+  | 'account_unbanned'
+  | 'product_deactivated';
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;                    // Page to open, e.g. /orders
+  data?: Record<string, unknown>;
+  readAt?: string;
+  createdAt: string;
+}
+
+// Categories that can be switched off (every one is on by default)
+export interface NotificationPreferences {
+  orders: boolean;                  // New orders and order status changes
+  account: boolean;                 // Account suspended or restored
+  products: boolean;                // Products taken off sale by an admin
+}
+
+export interface NotificationList {
+  notifications: AppNotification[];
+  unreadCount: number;
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalNotifications: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export interface NotificationResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Notification API functions
+export const notificationApi = {
+  // Get my notifications, newest first, with the unread count
+  getNotifications: async (params: { page?: number; limit?: number; unreadOnly?: boolean } = {}): Promise<NotificationResponse<NotificationList>> => {
+    const response = await apiClient.get('/api/notifications', { params });
+    return response.data;
+  },
+
+  // Mark one notification as read
+  markRead: async (id: string): Promise<NotificationResponse<AppNotification>> => {
+    const response = await apiClient.put(`/api/notifications/${id}/read`);
+    return response.data;
+  },
+
+  // Mark every notification as read
+  markAllRead: async (): Promise<NotificationResponse<{ updated: number }>> => {
+    const response = await apiClient.put('/api/notifications/read-all');
+    return response.data;
+  },
+
+  // Get which notification categories I receive
+  getPreferences: async (): Promise<NotificationResponse<NotificationPreferences>> => {
+    const response = await apiClient.get('/api/notifications/preferences');
+    return response.data;
+  },
+
+  // Turn notification categories on or off
+  updatePreferences: async (preferences: Partial<NotificationPreferences>): Promise<NotificationResponse<NotificationPreferences>> => {
+    const response = await apiClient.put('/api/notifications/preferences', preferences);
+    return response.data;
+  },
+};
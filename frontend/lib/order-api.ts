@@ -1,4 +1,6 @@
 import apiClient from './api';
+import { ShippingAddress } from './address-api';
+import { VariantSelection } from './product-api';
 
 export interface PopulatedUserRef {
   _id: string;
@@ -15,32 +17,104 @@ export interface PopulatedProductRef {
 
 export interface OrderProduct {
   productId: string | PopulatedProductRef;
+  variantId?: string;      // Chosen variant for products sold in variants
+  sku?: string;
+  variantOptions?: VariantSelection[];
   quantity: number;
   price: number;
 }
 
+export type OrderPaymentStatus = 'Unpaid' | 'Awaiting Payment' | 'Paid' | 'Payment Failed' | 'Refunded';
+
+export type ReturnStatus = 'Requested' | 'Approved' | 'Rejected' | 'Refunded';
+
+export interface ReturnRequest {
+  status: ReturnStatus;
+  reason: string;
+  items: Array<{
+    productId: string;
+    variantId?: string;
+    quantity: number;
+  }>;
+  photos: string[];
+  refundAmount: number;
+  requestedAt: string;
+  history: Array<{
+    status: ReturnStatus;
+    timestamp: string;
+    updatedBy: string;
+    note?: string;
+  }>;
+}
+
+export interface OrderDiscount {
+  couponId: string;
+  code: string;
+  description?: string;
+  amount: number;
+}
+
 export interface Order {
   _id: string;
   orderId: string;
+  checkoutId?: string;
   buyerId: string | PopulatedUserRef;
   sellerId: string | PopulatedUserRef;
   products: OrderProduct[];
+  subtotal?: number;
+  discounts?: OrderDiscount[];
+  discountTotal?: number;
   totalAmount: number;
   status: 'Pending' | 'Processing' | 'Out for Delivery' | 'Completed' | 'Cancelled';
   paymentMethod: string;
-  shippingAddress: string;
+  paymentStatus?: OrderPaymentStatus;
+  shippingAddress: ShippingAddress;
   orderDate: string;
   statusHistory: Array<{
     status: string;
     timestamp: string;
     updatedBy: string | PopulatedUserRef;
+    reason?: string;
+    isOverride?: boolean;
   }>;
+  returnRequest?: ReturnRequest;
 }
 
 export interface CreateOrderData {
   products: OrderProduct[];
-  shippingAddress: string;
+  addressId?: string;                 // A saved address...
+  shippingAddress?: ShippingAddress;  // ...or one entered at checkout
   paymentMethod?: string;
+  couponCode?: string;
+}
+
+export interface CheckoutData extends CreateOrderData {
+  totalAmount: number;
+}
+
+// Returned for online payments: send the buyer to redirectUrl to pay
+export interface CheckoutPayment {
+  id: string;
+  status: string;
+  amount: number;
+  currency: string;
+  redirectUrl?: string;
+}
+
+export interface CheckoutResult {
+  checkoutId: string;
+  subtotal: number;
+  discountTotal: number;
+  totalAmount: number;
+  orders: Order[];
+  payment?: CheckoutPayment;
+}
+
+export interface CheckoutResponse {
+  success: boolean;
+  data?: CheckoutResult;
+  message?: string;
+  error?: string;
 }
 
 export interface OrderResponse {
@@ -51,7 +125,23 @@ export interface OrderResponse {
 }
 
 export interface UpdateOrderStatusData {
-  status: 'Processing' | 'Out for Delivery' | 'Completed' | 'Cancelled';
+  status: 'Pending' | 'Processing' | 'Out for Delivery' | 'Completed' | 'Cancelled';
+  reason?: string; // Required when an admin overrides the allowed transitions
+}
+
+export interface ReturnRequestData {
+  reason: string;
+  items: Array<{
+    productId: string;
+    variantId?: string;
+    quantity: number;
+  }>;
+  photos?: File[];
+}
+
+export interface UpdateReturnStatusData {
+  status: Exclude<ReturnStatus, 'Requested'>;
+  note?: string; // Required when rejecting
 }
 
 // Order API functions
@@ -62,6 +152,18 @@ export const orderApi = {
     return response.data;
   },
 
+  // Checkout a cart that may contain products from several sellers
+  checkout: async (checkoutData: CheckoutData): Promise<CheckoutResponse> => {
+    const response = await apiClient.post('/api/orders/checkout', checkoutData);
+    return response.data;
+  },
+
+  // Get all orders placed in one checkout
+  getCheckout: async (checkoutId: string): Promise<CheckoutResponse> => {
+    const response = await apiClient.get(`/api/orders/checkout/${checkoutId}`);
+    return response.data;
+  },
+
   // Get user orders (role-based filtering handled by backend)
   getOrders: async (): Promise<OrderResponse> => {
     const response = await apiClient.get('/api/orders');
@@ -79,4 +181,33 @@ export const orderApi = {
     const response = await apiClient.put(`/api/orders/${id}/status`, statusData);
     return response.data;
   },
+
+  // Cancel a Pending order (buyer only)
+  cancelOrder: async (id: string, reason?: string): Promise<OrderResponse> => {
+    const response = await apiClient.put(`/api/orders/${id}/status`, { status: 'Cancelled', reason });
+    return response.data;
+  },
+
+  // Request a return on a completed order, with optional photos (buyer only)
+  requestReturn: async (id: string, returnData: ReturnRequestData): Promise<OrderResponse> => {
+    const formData = new FormData();
+    formData.append('reason', returnData.reason);
+    formData.append('items', JSON.stringify(returnData.items));
+    (returnData.photos || []).forEach((photo) => {
+      formData.append('images', photo);
+    });
+
+    const response = await apiClient.post(`/api/orders/${id}/return`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Approve, reject or refund a return request (seller/admin only)
+  updateReturnStatus: async (id: string, statusData: UpdateReturnStatusData): Promise<OrderResponse> => {
+    const response = await apiClient.put(`/api/orders/${id}/return/status`, statusData);
+    return response.data;
+  },
 };
\ No newline at end of file
@@ -0,0 +1,68 @@
+import apiClient from './api';
+import { OrderPaymentStatus } from './order-api';
+
+export type PaymentStatus = 'Pending' | 'Authorized' | 'Captured' | 'Partially Refunded' | 'Refunded' | 'Failed' | 'Cancelled';
+
+export interface Payment {
+  _id: string;
+  checkoutId: string;
+  provider: string;
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  capturedAmount: number;
+  refundedAmount: number;
+  failureReason?: string;
+  redirectUrl?: string;
+  history: Array<{
+    status: PaymentStatus;
+    timestamp: string;
+    note?: string;
+  }>;
+  orders: Array<{
+    _id: string;
+    orderId: string;
+    status: string;
+    paymentStatus: OrderPaymentStatus;
+    totalAmount: number;
+    sellerId: string | { _id: string; name?: string };
+  }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PaymentMethod = 'Cash on Delivery' | 'Online Payment';
+
+export type MockPaymentOutcome = 'succeed' | 'fail';
+
+export interface PaymentResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Payment API functions
+export const paymentApi = {
+  // Get the payment methods offered at checkout
+  getPaymentMethods: async (): Promise<PaymentResponse<{ methods: PaymentMethod[] }>> => {
+    const response = await apiClient.get('/api/payments/methods');
+    return response.data;
+  },
+
+  // Get the payment for a checkout
+  getCheckoutPayment: async (checkoutId: string): Promise<PaymentResponse<Payment>> => {
+    const response = await apiClient.get(`/api/payments/checkout/${checkoutId}`);
+    return response.data;
+  },
+
+  // Approve or decline a payment on the mock gateway (development only)
+  completeMockPayment: async (
+    providerPaymentId: string,
+    outcome: MockPaymentOutcome
+  ): Promise<PaymentResponse<{ status: PaymentStatus; checkoutId: string }>> => {
+    const response = await apiClient.post(`/api/payments/mock/${providerPaymentId}/complete`, { outcome });
+    return response.data;
+  },
+};
@@ -1,23 +1,71 @@
 import apiClient from './api';
+import { CategorySummary } from './category-api';
+
+// A variant dimension and its allowed values, e.g. Size: S, M, L
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+// One option value picked for a variant, e.g. Size: M
+export interface VariantSelection {
+  name: string;
+  value: string;
+}
+
+export interface ProductVariant {
+  _id: string;
+  sku: string;
+  options: VariantSelection[];
+  price?: number;          // Overrides the product price when set
+  stock: number;
+  images: string[];
+  isActive: boolean;
+}
+
+// Settings for one variant when saving a product, identified by its options
+export interface ProductVariantInput {
+  options: VariantSelection[];
+  sku?: string;
+  price?: number | null;
+  stock?: number;
+  images?: string[];
+  isActive?: boolean;
+}
 
 export interface Product {
   _id: string;
   title: string;
   description: string;
-  category: string;
+  category: CategorySummary;
   price: number;
   images: string[];
   documents: string[];
+  stock: number;           // Sum of variant stock for products sold in variants
+  lowStockThreshold: number;
+  variantOptions?: VariantOption[];
+  variants?: ProductVariant[];
   sellerId: string;
+  seller?: {
+    _id: string;
+    name: string;
+    email: string;
+  };
   isActive: boolean;
+  averageRating?: number;
+  reviewCount?: number;
   createdAt: string;
 }
 
 export interface ProductFormData {
   title: string;
   description: string;
-  category: string;
+  category: string;        // Category ID
   price: number;
+  stock: number;
+  lowStockThreshold: number;
+  variantOptions?: VariantOption[];
+  variants?: ProductVariantInput[];
 }
 
 export interface ProductResponse {
@@ -28,14 +76,68 @@ export interface ProductResponse {
 }
 
 export interface ProductFilters {
-  category?: string;
+  category?: string;       // Category ID or slug; subcategories are included
   search?: string;
-  sortBy?: 'price' | 'createdAt';
+  minPrice?: number;
+  maxPrice?: number;
+  sellerId?: string;
+  minRating?: number;      // 1-5, products rated at least this
+  sortBy?: 'relevance' | 'price' | 'createdAt' | 'rating';   // Relevance is the default when searching
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+export interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  limit: number;
+}
+
+// Result counts for each filter value. Each facet is counted without its own
+// filter, so the other choices stay visible after picking one.
+export interface SearchFacets {
+  categories: Array<CategorySummary & { parent: string | null; count: number }>;   // Counts include subcategories
+  priceRanges: Array<{ min: number; max: number | null; count: number }>;          // max null = and above
+  sellers: Array<{ _id: string; name: string; count: number }>;
+  ratings: Array<{ minRating: number; count: number }>;
+}
+
+export interface ProductSearchResponse {
+  success: boolean;
+  data?: {
+    products: Product[];
+    facets: SearchFacets;
+    pagination: Pagination;
+  };
+  message?: string;
+}
+
+export interface SearchSuggestions {
+  products: Array<{ _id: string; title: string; price: number; image: string | null }>;
+  categories: CategorySummary[];
+}
+
+// Human-readable variant label, e.g. "Size: M, Colour: Red"
+export const formatVariantOptions = (options: VariantSelection[]): string =>
+  options.map(option => `${option.name}: ${option.value}`).join(', ');
+
+// The active variant matching a full set of chosen option values, if any
+export const findVariantBySelection = (
+  variants: ProductVariant[] | undefined,
+  selection: Record<string, string>
+): ProductVariant | undefined =>
+  variants?.find(variant =>
+    variant.isActive && variant.options.every(option => selection[option.name] === option.value)
+  );
+
+// Unit price of a product, or of one of its variants
+export const getVariantPrice = (product: Product, variant?: ProductVariant | null): number =>
+  variant?.price ?? product.price;
+
 // Product API functions
 export const productApi = {
   // Get all products with optional filters
@@ -52,6 +154,26 @@ export const productApi = {
     return response.data;
   },
 
+  // Search products, with facet counts for the filter sidebar
+  searchProducts: async (filters?: ProductFilters): Promise<ProductSearchResponse> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await apiClient.get(`/api/products/search?${params.toString()}`);
+    return response.data;
+  },
+
+  // Typeahead suggestions for a partly typed search term
+  getSuggestions: async (q: string, limit?: number): Promise<{ success: boolean; data?: SearchSuggestions; message?: string }> => {
+    const response = await apiClient.get('/api/products/suggestions', { params: { q, limit } });
+    return response.data;
+  },
+
   // Get single product by ID
   getProduct: async (id: string): Promise<ProductResponse> => {
     const response = await apiClient.get(`/api/products/${id}`);
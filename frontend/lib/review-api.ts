@@ -0,0 +1,118 @@
+import apiClient from './api';
+
+export interface ReviewReply {
+  body: string;
+  repliedBy: string;
+  repliedAt: string;
+}
+
+export interface Review {
+  _id: string;
+  productId: string;
+  buyerId: {
+    _id: string;
+    name: string;
+  };
+  orderId: string;
+  rating: number;
+  title: string;
+  body: string;
+  images: string[];
+  sellerReply?: ReviewReply;
+  isHidden: boolean;
+  hiddenReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewSummary {
+  averageRating: number;
+  reviewCount: number;
+  ratingBreakdown: Record<number, number>;
+}
+
+export interface ReviewsPage {
+  reviews: Review[];
+  summary: ReviewSummary;
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalCount: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export interface ReviewResponse<T = Review> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+export interface ReviewFilters {
+  page?: number;
+  limit?: number;
+  sortBy?: 'createdAt' | 'rating';
+  includeHidden?: boolean;
+}
+
+export interface CreateReviewData {
+  rating: number;
+  title: string;
+  body: string;
+  images?: File[];
+}
+
+// Product review API functions
+export const reviewApi = {
+  // Get reviews and rating summary for a product
+  getProductReviews: async (productId: string, filters?: ReviewFilters): Promise<ReviewResponse<ReviewsPage>> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await apiClient.get(`/api/reviews/product/${productId}?${params.toString()}`);
+    return response.data;
+  },
+
+  // Check whether the current user may review a product
+  getEligibility: async (productId: string): Promise<ReviewResponse<{ canReview: boolean; reason?: string }>> => {
+    const response = await apiClient.get(`/api/reviews/product/${productId}/eligibility`);
+    return response.data;
+  },
+
+  // Review a purchased product, with optional images
+  createReview: async (productId: string, reviewData: CreateReviewData): Promise<ReviewResponse> => {
+    const formData = new FormData();
+    formData.append('rating', reviewData.rating.toString());
+    formData.append('title', reviewData.title);
+    formData.append('body', reviewData.body);
+    (reviewData.images || []).forEach((image) => {
+      formData.append('images', image);
+    });
+
+    const response = await apiClient.post(`/api/reviews/product/${productId}`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Reply to a review of one of my products (seller)
+  replyToReview: async (reviewId: string, body: string): Promise<ReviewResponse> => {
+    const response = await apiClient.put(`/api/reviews/${reviewId}/reply`, { body });
+    return response.data;
+  },
+
+  // Hide or restore a review (admin)
+  moderateReview: async (reviewId: string, isHidden: boolean, reason?: string): Promise<ReviewResponse> => {
+    const response = await apiClient.put(`/api/reviews/${reviewId}/moderation`, { isHidden, reason });
+    return response.data;
+  },
+};
@@ -0,0 +1,72 @@
+import apiClient from './api';
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface TopProduct {
+  productId: string;
+  title: string;
+  image?: string;
+  units: number;
+  revenue: number;
+}
+
+export interface SellerAnalytics {
+  range: {
+    startDate: string;
+    endDate: string;
+    interval: AnalyticsInterval;
+  };
+  revenue: {
+    gross: number;
+    refunded: number;
+    net: number;
+    completedOrders: number;
+    averageOrderValue: number;
+    series: Array<{ period: string; revenue: number; orders: number }>;
+  };
+  topProducts: {
+    byUnits: TopProduct[];
+    byRevenue: TopProduct[];
+  };
+  funnel: Array<{ status: string; count: number }>;
+  fulfilment: {
+    averageHours: number | null;
+    completedOrders: number;
+  };
+  buyers: {
+    total: number;
+    repeat: number;
+    repeatRate: number;
+  };
+}
+
+export interface SellerAnalyticsFilters {
+  startDate?: string;  // YYYY-MM-DD
+  endDate?: string;    // YYYY-MM-DD, inclusive
+  interval?: AnalyticsInterval;
+  sellerId?: string;
+}
+
+export interface SellerResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Seller API functions
+export const sellerApi = {
+  // Get sales analytics for the current seller
+  getAnalytics: async (filters?: SellerAnalyticsFilters): Promise<SellerResponse<SellerAnalytics>> => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) {
+          params.append(key, value);
+        }
+      });
+    }
+    const response = await apiClient.get(`/api/seller/analytics?${params.toString()}`);
+    return response.data;
+  },
+};
@@ -1,60 +1,150 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Cart, CartManager } from './cart';
-import { Product } from './product-api';
+import { Cart, CartManager, isSameCartLine } from './cart';
+import { cartApi } from './cart-api';
+import { Product, ProductVariant } from './product-api';
+
+const EMPTY_CART: Cart = { items: [], totalItems: 0, totalAmount: 0 };
+
+// Window event that keeps every useCart instance (header icon, cart page, ...) in sync
+const CART_CHANGED_EVENT = 'cart:changed';
+
+// Logged-in buyers use the server cart; everyone else keeps the cart in localStorage
+const usesServerCart = (): boolean => {
+  if (typeof window === 'undefined') return false;
+
+  const token = localStorage.getItem('token');
+  const userData = localStorage.getItem('user');
+  if (!token || !userData) return false;
+
+  try {
+    return JSON.parse(userData).role === 'buyer';
+  } catch {
+    return false;
+  }
+};
+
+const notifyCartChanged = (cart: Cart) => {
+  window.dispatchEvent(new CustomEvent<Cart>(CART_CHANGED_EVENT, { detail: cart }));
+};
+
+// Load the server cart, first merging any anonymous localStorage cart into it
+const loadServerCart = async (): Promise<Cart> => {
+  const localCart = CartManager.getCart();
+
+  if (localCart.items.length === 0) {
+    const response = await cartApi.getCart();
+    return response.data || EMPTY_CART;
+  }
+
+  const response = await cartApi.mergeCart(
+    localCart.items.map(item => ({
+      productId: item.product._id,
+      variantId: item.variant?._id,
+      quantity: item.quantity
+    }))
+  );
+  CartManager.clearCart();
+  return response.data || EMPTY_CART;
+};
+
+// Merge the anonymous cart into the buyer's server cart right after login
+export const syncCartAfterLogin = async (): Promise<void> => {
+  if (!usesServerCart()) return;
+
+  try {
+    notifyCartChanged(await loadServerCart());
+  } catch (error) {
+    console.error('Error merging cart after login:', error);
+  }
+};
 
 export function useCart() {
-  const [cart, setCart] = useState<Cart>({ items: [], totalItems: 0, totalAmount: 0 });
+  const [cart, setCart] = useState<Cart>(EMPTY_CART);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load cart from localStorage on mount
+  // Load cart from the server (buyers) or localStorage on mount
   useEffect(() => {
-    const loadCart = () => {
-      const savedCart = CartManager.getCart();
-      setCart(savedCart);
-      setIsLoading(false);
+    let cancelled = false;
+
+    const loadCart = async () => {
+      try {
+        const loadedCart = usesServerCart() ? await loadServerCart() : CartManager.getCart();
+        if (!cancelled) setCart(loadedCart);
+      } catch (error) {
+        console.error('Error loading cart:', error);
+        if (!cancelled) setCart(CartManager.getCart());
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    const handleCartChanged = (event: Event) => {
+      setCart((event as CustomEvent<Cart>).detail);
     };
 
     loadCart();
+    window.addEventListener(CART_CHANGED_EVENT, handleCartChanged);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CART_CHANGED_EVENT, handleCartChanged);
+    };
   }, []);
 
-  // Add product to cart
-  const addToCart = (product: Product, quantity: number = 1) => {
-    const updatedCart = CartManager.addToCart(product, quantity);
+  // Store the updated cart and broadcast it to other hook instances
+  const applyCart = (updatedCart: Cart): Cart => {
     setCart(updatedCart);
+    notifyCartChanged(updatedCart);
     return updatedCart;
   };
 
-  // Remove product from cart
-  const removeFromCart = (productId: string) => {
-    const updatedCart = CartManager.removeFromCart(productId);
-    setCart(updatedCart);
-    return updatedCart;
+  // Add product (or one of its variants) to cart
+  const addToCart = async (product: Product, quantity: number = 1, variant?: ProductVariant): Promise<Cart> => {
+    if (usesServerCart()) {
+      const response = await cartApi.addItem(product._id, quantity, variant?._id);
+      return applyCart(response.data || cart);
+    }
+    return applyCart(CartManager.addToCart(product, quantity, variant));
   };
 
-  // Update product quantity
-  const updateQuantity = (productId: string, quantity: number) => {
-    const updatedCart = CartManager.updateQuantity(productId, quantity);
-    setCart(updatedCart);
-    return updatedCart;
+  // Remove product (or one of its variants) from cart
+  const removeFromCart = async (productId: string, variantId?: string): Promise<Cart> => {
+    if (usesServerCart()) {
+      const response = await cartApi.removeItem(productId, variantId);
+      return applyCart(response.data || cart);
+    }
+    return applyCart(CartManager.removeFromCart(productId, variantId));
+  };
+
+  // Update product quantity (0 removes the item)
+  const updateQuantity = async (productId: string, quantity: number, variantId?: string): Promise<Cart> => {
+    if (usesServerCart()) {
+      const response = await cartApi.updateItem(productId, Math.max(quantity, 0), variantId);
+      return applyCart(response.data || cart);
+    }
+    return applyCart(CartManager.updateQuantity(productId, quantity, variantId));
   };
 
   // Clear entire cart
-  const clearCart = () => {
-    const emptyCart = CartManager.clearCart();
-    setCart(emptyCart);
-    return emptyCart;
+  const clearCart = async (): Promise<Cart> => {
+    if (usesServerCart()) {
+      const response = await cartApi.clearCart();
+      return applyCart(response.data || EMPTY_CART);
+    }
+    return applyCart(CartManager.clearCart());
   };
 
-  // Get product quantity in cart
-  const getProductQuantity = (productId: string): number => {
-    return CartManager.getProductQuantity(productId);
+  // Get product (or variant) quantity in cart
+  const getProductQuantity = (productId: string, variantId?: string): number => {
+    const item = cart.items.find(item => isSameCartLine(item, productId, variantId));
+    return item ? item.quantity : 0;
   };
 
-  // Check if product is in cart
-  const isInCart = (productId: string): boolean => {
-    return CartManager.isInCart(productId);
+  // Check if product (or variant) is in cart
+  const isInCart = (productId: string, variantId?: string): boolean => {
+    return cart.items.some(item => isSameCartLine(item, productId, variantId));
   };
 
   return {
@@ -67,4 +157,4 @@ export function useCart() {
     getProductQuantity,
     isInCart,
   };
-}
\ No newline at end of file
+}
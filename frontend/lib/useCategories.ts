@@ -0,0 +1,30 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Category, categoryApi } from './category-api';
+
+// Load the category tree once per component. Pass includeInactive on admin
+// screens; the API ignores it for users who can't manage categories.
+export function useCategories(includeInactive = false) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await categoryApi.getCategories(includeInactive);
+      if (response.success && response.data) {
+        setCategories(response.data);
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { categories, loading, refresh };
+}
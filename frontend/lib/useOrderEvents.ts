@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import apiClient, { refreshAccessToken } from './api';
+
+export interface OrderStreamEvent {
+  type: 'order.created' | 'order.status_changed';
+  orderId: string;
+  checkoutId?: string;
+  status: string;
+  previousStatus?: string;
+  totalAmount: number;
+  occurredAt: string;
+}
+
+export type OrderStreamMessage =
+  | OrderStreamEvent
+  // Events were missed and can't be replayed - reload whatever is shown
+  | { type: 'resync' };
+
+// Backoff between reconnects after errors; the server's retry delay is used otherwise
+const MIN_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 60 * 1000;
+
+interface ParsedEvent {
+  id?: string;
+  event?: string;
+  data: string;
+  retry?: number;
+}
+
+// Parse one SSE block ("field: value" lines; lines starting with ":" are comments)
+const parseEventBlock = (block: string): ParsedEvent => {
+  const parsed: ParsedEvent = { data: '' };
+  const dataLines: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (!line || line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'id':
+        parsed.id = value;
+        break;
+      case 'event':
+        parsed.event = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) parsed.retry = parseInt(value);
+        break;
+    }
+  });
+
+  parsed.data = dataLines.join('\n');
+  return parsed;
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Read the order event stream until it ends, reconnecting with Last-Event-ID.
+// fetch is used instead of EventSource so the bearer token can be sent.
+const runOrderStream = async (signal: AbortSignal, onMessage: (message: OrderStreamMessage) => void) => {
+  let lastEventId: string | undefined;
+  let retryMs = MIN_RETRY_MS;
+  let errorDelayMs = MIN_RETRY_MS;
+  let refreshed = false;
+
+  while (!signal.aborted) {
+    try {
+      const headers: Record<string, string> = { Accept: 'text/event-stream' };
+      const token = localStorage.getItem('token');
+      if (token) headers.Authorization = `Bearer ${token}`;
+      if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+      const response = await fetch(`${apiClient.defaults.baseURL}/api/orders/events`, {
+        headers,
+        credentials: 'include',
+        cache: 'no-store',
+        signal
+      });
+
+      // Expired access token - refresh once, then reconnect straight away
+      if (response.status === 401 && !refreshed) {
+        refreshed = true;
+        await refreshAccessToken();
+        continue;
+      }
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Order stream responded with ${response.status}`);
+      }
+
+      refreshed = false;
+      errorDelayMs = MIN_RETRY_MS;
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value.replace(/\r\n?/g, '\n');
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        blocks.forEach(block => {
+          const event = parseEventBlock(block);
+          if (event.id !== undefined) lastEventId = event.id;
+          if (event.retry !== undefined) retryMs = event.retry;
+
+          if (event.event === 'resync') {
+            onMessage({ type: 'resync' });
+          } else if (event.event === 'order.created' || event.event === 'order.status_changed') {
+            onMessage({ type: event.event, ...JSON.parse(event.data) });
+          }
+        });
+      }
+
+      // The server closed the stream (e.g. token expiry) - reconnect after its retry delay
+      await sleep(retryMs, signal);
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Order stream error:', error);
+      await sleep(errorDelayMs, signal);
+      errorDelayMs = Math.min(errorDelayMs * 2, MAX_RETRY_MS);
+    }
+  }
+};
+
+// Receive live order events (orders created, statuses changed) while the
+// component is mounted. Only the orders the signed-in user may view are sent.
+export function useOrderEvents(onMessage: (message: OrderStreamMessage) => void) {
+  const handlerRef = useRef(onMessage);
+
+  useEffect(() => {
+    handlerRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (!localStorage.getItem('token')) return;
+
+    const controller = new AbortController();
+    runOrderStream(controller.signal, message => handlerRef.current(message));
+
+    return () => controller.abort();
+  }, []);
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Wishlist, wishlistApi } from './wishlist-api';
+
+// Window event that keeps every useWishlists instance (product hearts, wishlist page, ...) in sync
+const WISHLISTS_CHANGED_EVENT = 'wishlists:changed';
+
+// Signed-in users whose role lets them keep wishlists
+export const canUseWishlists = (): boolean => {
+  if (typeof window === 'undefined') return false;
+
+  const token = localStorage.getItem('token');
+  const userData = localStorage.getItem('user');
+  if (!token || !userData) return false;
+
+  try {
+    const user = JSON.parse(userData);
+    return user.role === 'buyer' || !!user.permissions?.includes('wishlist:manage');
+  } catch {
+    return false;
+  }
+};
+
+// A product grid renders a heart per card; share one request between them
+let pendingLoad: Promise<Wishlist[]> | null = null;
+
+const loadWishlists = (): Promise<Wishlist[]> => {
+  if (!pendingLoad) {
+    pendingLoad = wishlistApi.getWishlists()
+      .then(response => response.data || [])
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+};
+
+const notifyWishlistsChanged = (wishlists: Wishlist[]) => {
+  window.dispatchEvent(new CustomEvent<Wishlist[]>(WISHLISTS_CHANGED_EVENT, { detail: wishlists }));
+};
+
+// Does a wishlist hold the product (or, with a variantId, that variant)?
+const holdsProduct = (wishlist: Wishlist, productId: string, variantId?: string): boolean =>
+  wishlist.items.some(item =>
+    item.product._id === productId && (!variantId || item.variant?._id === variantId)
+  );
+
+export function useWishlists() {
+  const [wishlists, setWishlists] = useState<Wishlist[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        if (!canUseWishlists()) return;
+        setEnabled(true);
+        const loaded = await loadWishlists();
+        if (!cancelled) setWishlists(loaded);
+      } catch (error) {
+        console.error('Error loading wishlists:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    const handleWishlistsChanged = (event: Event) => {
+      setWishlists((event as CustomEvent<Wishlist[]>).detail);
+    };
+
+    load();
+    window.addEventListener(WISHLISTS_CHANGED_EVENT, handleWishlistsChanged);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(WISHLISTS_CHANGED_EVENT, handleWishlistsChanged);
+    };
+  }, []);
+
+  // Store the updated lists and broadcast them to other hook instances
+  const applyWishlists = useCallback((updated: Wishlist[]): Wishlist[] => {
+    setWishlists(updated);
+    notifyWishlistsChanged(updated);
+    return updated;
+  }, []);
+
+  // Put a list returned by the API in place of its old copy (or append a new one)
+  const applyWishlist = (updated: Wishlist, current: Wishlist[]): Wishlist[] =>
+    current.some(wishlist => wishlist._id === updated._id)
+      ? current.map(wishlist => wishlist._id === updated._id ? updated : wishlist)
+      : [...current, updated];
+
+  const refresh = useCallback(async () => {
+    pendingLoad = null;
+    return applyWishlists(await loadWishlists());
+  }, [applyWishlists]);
+
+  // Is the product (or variant) saved in any of the buyer's lists?
+  const isSaved = (productId: string, variantId?: string): boolean =>
+    wishlists.some(wishlist => holdsProduct(wishlist, productId, variantId));
+
+  // Save a product, to the default list unless a wishlist is given
+  const saveProduct = async (productId: string, variantId?: string, wishlistId?: string): Promise<Wishlist[]> => {
+    const response = await wishlistApi.addItem(productId, variantId, wishlistId);
+    return response.data ? applyWishlists(applyWishlist(response.data, wishlists)) : wishlists;
+  };
+
+  // Remove a product (or variant) from every list that holds it
+  const removeProduct = async (productId: string, variantId?: string): Promise<Wishlist[]> => {
+    let updated = wishlists;
+    for (const wishlist of wishlists.filter(w => holdsProduct(w, productId, variantId))) {
+      const response = await wishlistApi.removeItem(wishlist._id, productId, variantId);
+      if (response.data) updated = applyWishlist(response.data, updated);
+    }
+    return applyWishlists(updated);
+  };
+
+  return {
+    wishlists,
+    isLoading,
+    enabled,
+    isSaved,
+    saveProduct,
+    removeProduct,
+    refresh,
+    setWishlists: applyWishlists,
+  };
+}
@@ -1,15 +1,17 @@
 import { z } from 'zod';
 
 // Shared validation schemas for frontend
+const passwordSchema = z.string()
+  .min(6, 'Password must be at least 6 characters')
+  .max(128, 'Password too long')
+  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number');
+
 export const registerSchema = z.object({
   email: z.string()
     .min(1, 'Email is required')
     .email('Invalid email format')
     .max(254, 'Email too long'),
-  password: z.string()
-    .min(6, 'Password must be at least 6 characters')
-    .max(128, 'Password too long')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  password: passwordSchema,
   name: z.string()
     .min(2, 'Name must be at least 2 characters')
     .max(50, 'Name cannot exceed 50 characters')
@@ -25,6 +27,35 @@ export const loginSchema = z.object({
     .min(1, 'Password is required')
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string()
+    .min(1, 'Email is required')
+    .email('Invalid email format')
+});
+
+export const resetPasswordSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string()
+    .min(1, 'Please confirm your password')
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string()
+    .min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+  confirmPassword: z.string()
+    .min(1, 'Please confirm your new password')
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+}).refine(data => data.currentPassword !== data.newPassword, {
+  message: 'New password must be different from the current password',
+  path: ['newPassword']
+});
+
 export const createProductSchema = z.object({
   title: z.string()
     .min(3, 'Title must be at least 3 characters')
@@ -33,18 +64,8 @@ export const createProductSchema = z.object({
   description: z.string()
     .min(10, 'Description must be at least 10 characters')
     .max(2000, 'Description cannot exceed 2000 characters'),
-  category: z.enum([
-    'Electronics',
-    'Clothing', 
-    'Books',
-    'Home & Garden',
-    'Sports',
-    'Beauty',
-    'Automotive',
-    'Food',
-    'Toys',
-    'Other'
-  ]),
+  category: z.string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Please select a valid category'),
   price: z.number()
     .min(0.01, 'Price must be at least $0.01')
     .max(1000000, 'Price cannot exceed $1,000,000'),
@@ -53,11 +74,64 @@ export const createProductSchema = z.object({
     .min(0, 'Stock cannot be negative')
     .max(10000, 'Stock cannot exceed 10,000')
     .optional()
-    .default(0)
+    .default(0),
+  lowStockThreshold: z.number()
+    .int('Low stock threshold must be a whole number')
+    .min(0, 'Low stock threshold cannot be negative')
+    .max(10000, 'Low stock threshold cannot exceed 10,000')
+    .optional()
+    .default(5)
 });
 
 export const updateProductSchema = createProductSchema.partial();
 
+// Mirrors the backend address rules (letters in any script)
+const addressNameRegex = new RegExp("^[\\p{L}\\s\\-'.]+$", 'u');
+
+export const addressSchema = z.object({
+  fullName: z.string()
+    .trim()
+    .min(2, 'Full name must be at least 2 characters')
+    .max(100, 'Full name too long'),
+  phone: z.string()
+    .trim()
+    .regex(/^\+?[0-9\s\-()]{7,20}$/, 'Invalid phone number'),
+  street: z.string()
+    .trim()
+    .min(5, 'Street address must be at least 5 characters')
+    .max(200, 'Street address too long'),
+  city: z.string()
+    .trim()
+    .min(2, 'City must be at least 2 characters')
+    .max(50, 'City name too long')
+    .regex(addressNameRegex, 'City contains invalid characters'),
+  state: z.string()
+    .trim()
+    .max(50, 'State name too long')
+    .regex(addressNameRegex, 'State contains invalid characters')
+    .or(z.literal(''))
+    .optional(),
+  zipCode: z.string()
+    .trim()
+    .regex(/^[A-Za-z0-9\s\-]{3,10}$/, 'Invalid ZIP code format')
+    .or(z.literal(''))
+    .optional(),
+  country: z.string()
+    .trim()
+    .min(2, 'Country must be at least 2 characters')
+    .max(50, 'Country name too long')
+    .regex(addressNameRegex, 'Country contains invalid characters')
+});
+
+export const addressFormSchema = addressSchema.extend({
+  label: z.string()
+    .trim()
+    .max(30, 'Label cannot exceed 30 characters')
+    .optional(),
+  isDefaultShipping: z.boolean().optional(),
+  isDefaultBilling: z.boolean().optional()
+});
+
 export const createOrderSchema = z.object({
   items: z.array(
     z.object({
@@ -70,25 +144,7 @@ export const createOrderSchema = z.object({
         .min(0.01, 'Price must be positive')
     })
   ).min(1, 'Order must contain at least one item'),
-  shippingAddress: z.object({
-    street: z.string()
-      .min(5, 'Street address must be at least 5 characters')
-      .max(100, 'Street address too long'),
-    city: z.string()
-      .min(2, 'City must be at least 2 characters')
-      .max(50, 'City name too long')
-      .regex(/^[a-zA-Z\s\-']+$/, 'City contains invalid characters'),
-    state: z.string()
-      .min(2, 'State must be at least 2 characters')
-      .max(50, 'State name too long')
-      .regex(/^[a-zA-Z\s\-']+$/, 'State contains invalid characters'),
-    zipCode: z.string()
-      .regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format'),
-    country: z.string()
-      .min(2, 'Country must be at least 2 characters')
-      .max(50, 'Country name too long')
-      .regex(/^[a-zA-Z\s\-']+$/, 'Country contains invalid characters')
-  }),
+  shippingAddress: addressSchema,
   paymentMethod: z.enum(['cash_on_delivery', 'credit_card', 'paypal'])
 });
 
@@ -98,11 +154,11 @@ export const updateOrderStatusSchema = z.object({
     'Processing',
     'Out for Delivery',
     'Completed',
-    'Cancelled',
-    'Rejected'
+    'Cancelled'
   ]),
-  notes: z.string()
-    .max(500, 'Notes cannot exceed 500 characters')
+  reason: z.string()
+    .trim()
+    .max(500, 'Reason cannot exceed 500 characters')
     .optional()
 });
 
@@ -141,8 +197,13 @@ export const productSearchSchema = z.object({
 // Export types
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type AddressInput = z.infer<typeof addressSchema>;
+export type AddressFormInput = z.infer<typeof addressFormSchema>;
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
 export type ImageFileInput = z.infer<typeof imageFileSchema>;
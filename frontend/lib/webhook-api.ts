@@ -0,0 +1,118 @@
+import apiClient from './api';
+
+export type WebhookEvent = 'order.created' | 'order.status_changed' | 'product.deactivated';
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'order.created', label: 'Order created' },
+  { value: 'order.status_changed', label: 'Order status changed' },
+  { value: 'product.deactivated', label: 'Product taken off sale' },
+];
+
+export interface WebhookEndpoint {
+  _id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  secret?: string;                  // Only returned when the endpoint is created or its secret rotated
+  secretRotatedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEndpointFormData {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  isActive?: boolean;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  _id: string;
+  endpointId: string | { _id: string; url: string; description?: string };
+  eventId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+  deliveredAt?: string;
+  replayOf?: string;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryFilters {
+  page?: number;
+  limit?: number;
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEvent;
+}
+
+export interface WebhookDeliveryList {
+  deliveries: WebhookDelivery[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalCount: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export interface WebhookResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Seller webhook API functions
+export const webhookApi = {
+  // Get my webhook endpoints
+  getEndpoints: async (): Promise<WebhookResponse<WebhookEndpoint[]>> => {
+    const response = await apiClient.get('/api/seller/webhooks');
+    return response.data;
+  },
+
+  // Register an endpoint; the response includes its signing secret
+  createEndpoint: async (data: WebhookEndpointFormData): Promise<WebhookResponse<WebhookEndpoint>> => {
+    const response = await apiClient.post('/api/seller/webhooks', data);
+    return response.data;
+  },
+
+  // Change an endpoint's URL, description, events or active state
+  updateEndpoint: async (id: string, data: Partial<WebhookEndpointFormData>): Promise<WebhookResponse<WebhookEndpoint>> => {
+    const response = await apiClient.put(`/api/seller/webhooks/${id}`, data);
+    return response.data;
+  },
+
+  // Remove an endpoint and its delivery log
+  deleteEndpoint: async (id: string): Promise<WebhookResponse<null>> => {
+    const response = await apiClient.delete(`/api/seller/webhooks/${id}`);
+    return response.data;
+  },
+
+  // Replace an endpoint's signing secret; the response includes the new one
+  rotateSecret: async (id: string): Promise<WebhookResponse<WebhookEndpoint>> => {
+    const response = await apiClient.post(`/api/seller/webhooks/${id}/rotate-secret`);
+    return response.data;
+  },
+
+  // Get my delivery log, newest first
+  getDeliveries: async (filters: WebhookDeliveryFilters = {}): Promise<WebhookResponse<WebhookDeliveryList>> => {
+    const response = await apiClient.get('/api/seller/webhooks/deliveries', { params: filters });
+    return response.data;
+  },
+
+  // Send a delivery again
+  replayDelivery: async (id: string): Promise<WebhookResponse<WebhookDelivery>> => {
+    const response = await apiClient.post(`/api/seller/webhooks/deliveries/${id}/replay`);
+    return response.data;
+  },
+};
@@ -0,0 +1,96 @@
+import apiClient from './api';
+import { Product, ProductVariant } from './product-api';
+
+export interface WishlistItem {
+  product: Product;
+  variant: ProductVariant | null;   // Saved variant, null if none or no longer on sale
+  price: number;                    // Current price of the product or variant
+  isAvailable: boolean;             // On sale and in stock
+  addedAt: string;
+}
+
+export interface Wishlist {
+  _id: string;
+  name: string;
+  isPublic: boolean;
+  notify: boolean;                  // Email about price drops and products available again
+  shareToken?: string;              // Only returned to the owner
+  items: WishlistItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A public wishlist opened through its share link
+export interface SharedWishlist extends Wishlist {
+  owner: string;                    // Owner's first name
+}
+
+export interface WishlistFormData {
+  name: string;
+  isPublic?: boolean;
+  notify?: boolean;
+}
+
+export interface WishlistResponse<T = Wishlist> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+// Link anyone can open to view a public wishlist
+export const getWishlistShareUrl = (wishlist: Wishlist): string =>
+  `${typeof window !== 'undefined' ? window.location.origin : ''}/wishlists/shared/${wishlist.shareToken}`;
+
+// Wishlist API functions
+export const wishlistApi = {
+  // Get the buyer's wishlists; the first one is the default list
+  getWishlists: async (): Promise<WishlistResponse<Wishlist[]>> => {
+    const response = await apiClient.get('/api/wishlists');
+    return response.data;
+  },
+
+  // Create a wishlist
+  createWishlist: async (data: WishlistFormData): Promise<WishlistResponse> => {
+    const response = await apiClient.post('/api/wishlists', data);
+    return response.data;
+  },
+
+  // Rename, share/unshare or toggle notifications
+  updateWishlist: async (id: string, data: Partial<WishlistFormData>): Promise<WishlistResponse> => {
+    const response = await apiClient.put(`/api/wishlists/${id}`, data);
+    return response.data;
+  },
+
+  // Replace the share link so earlier links stop working
+  regenerateShareToken: async (id: string): Promise<WishlistResponse> => {
+    const response = await apiClient.post(`/api/wishlists/${id}/share-token`);
+    return response.data;
+  },
+
+  // Delete a wishlist
+  deleteWishlist: async (id: string): Promise<WishlistResponse<undefined>> => {
+    const response = await apiClient.delete(`/api/wishlists/${id}`);
+    return response.data;
+  },
+
+  // Save a product, to the default list unless a wishlist is given
+  addItem: async (productId: string, variantId?: string, wishlistId?: string): Promise<WishlistResponse> => {
+    const response = await apiClient.post('/api/wishlists/items', { productId, variantId, wishlistId });
+    return response.data;
+  },
+
+  // Remove a product (or one saved variant of it) from a wishlist
+  removeItem: async (wishlistId: string, productId: string, variantId?: string): Promise<WishlistResponse> => {
+    const response = await apiClient.delete(`/api/wishlists/${wishlistId}/items/${productId}`, {
+      params: variantId ? { variantId } : undefined
+    });
+    return response.data;
+  },
+
+  // View a public wishlist (no login required)
+  getSharedWishlist: async (token: string): Promise<WishlistResponse<SharedWishlist>> => {
+    const response = await apiClient.get(`/api/wishlists/shared/${token}`);
+    return response.data;
+  },
+};
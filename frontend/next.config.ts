@@ -15,7 +15,15 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/**',
       },
+      // Files served by the backend's local storage driver
+      {
+        protocol: 'http',
+        hostname: 'localhost',
+        port: '5000',
+        pathname: '/uploads/**',
+      },
     ],
+    dangerouslyAllowLocalIP: process.env.NODE_ENV === 'development',
   },
   async rewrites() {
     return [